@@ -0,0 +1,18 @@
+/** How often a Pro subscription is billed; each interval has its own Stripe price. */
+export const BILLING_INTERVALS = ["month", "year"] as const;
+export type BillingInterval = (typeof BILLING_INTERVALS)[number];
+
+export function isBillingInterval(value: unknown): value is BillingInterval {
+  return (BILLING_INTERVALS as readonly unknown[]).includes(value);
+}
+
+/** Free trial for a first Pro subscription. Set STRIPE_TRIAL_DAYS=0 to turn trials off. */
+export const DEFAULT_TRIAL_DAYS = 14;
+
+/** Email domains of students, who get the student discount at checkout. */
+export const STUDENT_EMAIL_DOMAINS = [".edu", ".ac.be"];
+
+export function isStudentEmail(email: string): boolean {
+  const domain = email.split("@")[1]?.toLowerCase() || "";
+  return STUDENT_EMAIL_DOMAINS.some((suffix) => domain.endsWith(suffix));
+}
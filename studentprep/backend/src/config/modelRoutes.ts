@@ -0,0 +1,39 @@
+import type { AIModel } from "../services/claude.js";
+
+/** The parts of the pipeline that call a model, each routed separately. */
+export const AI_FEATURES = [
+  { id: "chapter_detection", label: "Chapter detection" },
+  { id: "summary", label: "Chapter summaries" },
+  { id: "questions", label: "Questions" },
+  { id: "verification", label: "Verification" },
+  { id: "translation", label: "Translation" },
+  { id: "study_plan", label: "Study plans" },
+] as const;
+
+export type AIFeature = (typeof AI_FEATURES)[number]["id"];
+
+export interface ModelRoute {
+  model: AIModel;
+  maxTokens: number;
+  temperature: number | null; // null: the provider's default
+}
+
+export type ModelRouting = Record<AIFeature, ModelRoute>;
+
+/**
+ * Routes used where admins haven't configured one (see model_routes).
+ * Summaries, questions and verification send the same chapter text; on one
+ * model, the calls after the first read it from the prompt cache.
+ */
+export const DEFAULT_ROUTING: ModelRouting = {
+  chapter_detection: { model: "claude-sonnet-4-5-20250929", maxTokens: 16384, temperature: null },
+  summary: { model: "claude-sonnet-4-5-20250929", maxTokens: 16384, temperature: null },
+  questions: { model: "claude-sonnet-4-5-20250929", maxTokens: 16384, temperature: null },
+  verification: { model: "claude-sonnet-4-5-20250929", maxTokens: 4096, temperature: null },
+  translation: { model: "claude-haiku-4-5-20251001", maxTokens: 4096, temperature: null },
+  study_plan: { model: "claude-sonnet-4-5-20250929", maxTokens: 16384, temperature: null },
+};
+
+export function isAIFeature(value: string): value is AIFeature {
+  return AI_FEATURES.some((f) => f.id === value);
+}
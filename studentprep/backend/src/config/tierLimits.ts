@@ -1,14 +1,82 @@
+import type { AIModel } from "../services/claude.js";
+
+/** Languages questions and answers can be translated into. */
+export const TRANSLATION_LANGUAGES = ["nl", "fr", "zh", "hi", "es", "ar"] as const;
+export type TranslationTarget = (typeof TRANSLATION_LANGUAGES)[number];
+
+const ALL_MODELS: AIModel[] = ["claude-sonnet-4-5-20250929", "claude-haiku-4-5-20251001"];
+/** The free plan runs on the cheaper model; routes to others are downgraded (see model-routes.ts). */
+const FREE_MODELS: AIModel[] = ["claude-haiku-4-5-20251001"];
+
+const MB = 1024 * 1024;
+
+/** What a plan tier is entitled to. Infinity means unlimited. */
+export interface TierLimits {
+  maxTokensPerMonth: number;
+  maxCourses: number;
+  maxFileSizeBytes: number;
+  maxPages: number;
+  pdfExport: boolean;
+  translationLanguages: readonly TranslationTarget[];
+  allowedModels: readonly AIModel[];
+  quizGrading: boolean;
+}
+
 export const TIER_LIMITS = {
   free: {
     maxTokensPerMonth: 50_000,
+    maxCourses: 1,
+    maxFileSizeBytes: 20 * MB,
+    maxPages: 150,
+    pdfExport: false,
+    translationLanguages: ["nl", "fr", "es"],
+    allowedModels: FREE_MODELS,
+    quizGrading: false,
   },
   pro: {
     maxTokensPerMonth: Infinity,
+    maxCourses: Infinity,
+    maxFileSizeBytes: 100 * MB,
+    maxPages: 2000,
+    pdfExport: true,
+    translationLanguages: TRANSLATION_LANGUAGES,
+    allowedModels: ALL_MODELS,
+    quizGrading: true,
   },
-} as const;
+  // Organizations: everything in Pro, with a token budget pooled across the seats
+  team: {
+    maxTokensPerMonth: 2_000_000, // per seat
+    maxCourses: Infinity,
+    maxFileSizeBytes: 100 * MB,
+    maxPages: 2000,
+    pdfExport: true,
+    translationLanguages: TRANSLATION_LANGUAGES,
+    allowedModels: ALL_MODELS,
+    quizGrading: true,
+  },
+} satisfies Record<string, TierLimits>;
 
 export type PlanTier = keyof typeof TIER_LIMITS;
 
-export function getLimits(plan: PlanTier) {
+export const PLAN_TIERS = Object.keys(TIER_LIMITS) as PlanTier[];
+
+/** Entitlements that are either on or off. */
+export type FeatureEntitlement = {
+  [K in keyof TierLimits]: TierLimits[K] extends boolean ? K : never;
+}[keyof TierLimits];
+
+export function getLimits(plan: PlanTier): TierLimits {
   return TIER_LIMITS[plan];
 }
+
+/** Limits as sent to the frontend: JSON has no Infinity, so unlimited is null. */
+export function serializeLimits(limits: TierLimits) {
+  const finite = (n: number) => (n === Infinity ? null : n);
+  return {
+    ...limits,
+    maxTokensPerMonth: finite(limits.maxTokensPerMonth),
+    maxCourses: finite(limits.maxCourses),
+    maxFileSizeBytes: finite(limits.maxFileSizeBytes),
+    maxPages: finite(limits.maxPages),
+  };
+}
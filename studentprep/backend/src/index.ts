@@ -8,9 +8,12 @@ import { quizRoutes } from "./routes/quiz.js";
 import { paymentRoutes } from "./routes/payments.js";
 import { pdfRoutes } from "./routes/pdf.js";
 import { wikiRoutes } from "./routes/wiki.js";
+import { organizationRoutes } from "./routes/organizations.js";
 import { adminRoutes, authMeRoutes, apiKeyRoutes } from "./routes/admin.js";
 import { validateConfig, logConfigStatus } from "./services/config.js";
-import { isAnthropicConfigured } from "./services/claude.js";
+import { missingLLMConfig } from "./services/llm-provider.js";
+import { LLMError, LLM_ERROR_STATUS, llmErrorBody } from "./services/llm-errors.js";
+import { startJobWorker, stopJobWorker } from "./services/job-worker.js";
 
 // Validate configuration at startup
 const configStatus = validateConfig();
@@ -38,7 +41,8 @@ app.get("/health", (c) =>
     status: configStatus.ready ? "ok" : "misconfigured",
     services: {
       supabase: configStatus.supabase,
-      anthropic: configStatus.anthropic,
+      llm: configStatus.llm,
+      llmProvider: configStatus.llmProvider,
       stripe: configStatus.stripe,
     },
     ...(configStatus.ready
@@ -64,14 +68,14 @@ app.use("/api/*", async (c, next) => {
   await next();
 });
 
-// Guard: return 503 on AI routes when Anthropic API key is not configured
+// Guard: return 503 on AI routes when the LLM provider is not configured
 app.use("/api/ai/*", async (c, next) => {
-  if (!isAnthropicConfigured()) {
+  const missing = missingLLMConfig();
+  if (missing.length > 0) {
     return c.json(
       {
-        error:
-          "AI features are unavailable — ANTHROPIC_API_KEY is not configured.",
-        hint: "Set ANTHROPIC_API_KEY in studentprep/backend/.env and restart the server.",
+        error: `AI features are unavailable — ${missing.join(", ")} ${missing.length === 1 ? "is" : "are"} not configured.`,
+        hint: `Set ${missing.join(" and ")} in studentprep/backend/.env and restart the server, or set LLM_PROVIDER=mock to run without a model.`,
       },
       503
     );
@@ -85,10 +89,23 @@ app.route("/api/ai", aiRoutes);
 app.route("/api/quiz", quizRoutes);
 app.route("/api/payments", paymentRoutes);
 app.route("/api/pdf", pdfRoutes);
-app.route("/api/chapters", wikiRoutes);
+app.route("/api/chapters", wikiRoutes); // includes the chapter editor routes
 app.route("/api/admin", adminRoutes);
 app.route("/api/api-keys", apiKeyRoutes);
 app.route("/api/auth", authMeRoutes);
+app.route("/api/orgs", organizationRoutes);
+
+// Model failures that outlast the provider's retries: answer with the kind,
+// so the client can say "try again later" or "fix your key"
+app.onError((err, c) => {
+  if (err instanceof LLMError) {
+    console.error(`[llm] ${c.req.method} ${c.req.path}: ${err.kind}`, err.cause ?? err.message);
+    if (err.retryAfterMs !== undefined) c.header("Retry-After", String(Math.ceil(err.retryAfterMs / 1000)));
+    return c.json(llmErrorBody(err), LLM_ERROR_STATUS[err.kind]);
+  }
+  console.error(err);
+  return c.json({ error: "Internal server error" }, 500);
+});
 
 // Start server
 const port = parseInt(process.env.PORT || "8080");
@@ -97,3 +114,16 @@ logConfigStatus(configStatus);
 console.log(`StudyFlow API running on port ${port}`);
 
 serve({ fetch: app.fetch, port });
+
+// Background job worker (course processing). Needs Supabase to claim jobs.
+if (configStatus.ready) {
+  startJobWorker();
+}
+
+// On deploy/shutdown, hand running jobs back to the queue for another machine
+for (const signal of ["SIGTERM", "SIGINT"] as const) {
+  process.on(signal, async () => {
+    await stopJobWorker();
+    process.exit(0);
+  });
+}
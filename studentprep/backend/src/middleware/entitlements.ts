@@ -0,0 +1,61 @@
+import { createMiddleware } from "hono/factory";
+import { getSupabaseAdmin } from "../services/supabase.js";
+import { getUserSubscription } from "../services/subscription.js";
+import { getLimits, type FeatureEntitlement, type TierLimits } from "../config/tierLimits.js";
+
+/** 403 body the frontend turns into an upgrade prompt. */
+export function upgradeRequired(limit: keyof TierLimits, message: string) {
+  return { error: message, code: "UPGRADE_REQUIRED" as const, limit };
+}
+
+/** The limits of a user's current plan. */
+export async function getUserLimits(userId: string): Promise<TierLimits> {
+  const { plan } = await getUserSubscription(userId);
+  return getLimits(plan);
+}
+
+async function countCourses(userId: string): Promise<number> {
+  const supabase = getSupabaseAdmin();
+  const { count } = await supabase
+    .from("courses")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId);
+  return count ?? 0;
+}
+
+/** Quotas the middleware can check, with how much of each a user has used. */
+const QUOTAS = {
+  maxCourses: countCourses,
+};
+
+type Quota = keyof typeof QUOTAS;
+
+const MESSAGES: Record<FeatureEntitlement | Quota, (limits: TierLimits) => string> = {
+  pdfExport: () => "Highlighted PDF export is a Pro feature. Upgrade to Pro to export your courses.",
+  quizGrading: () => "Saving and grading quizzes is a Pro feature. Upgrade to Pro to track your results.",
+  maxCourses: (limits) =>
+    `Your plan includes ${limits.maxCourses} ${limits.maxCourses === 1 ? "course" : "courses"}. ` +
+    "Delete a course or upgrade to Pro for unlimited courses.",
+};
+
+// Middleware: requires requireAuth to run first (userId on context)
+// Rejects the request with UPGRADE_REQUIRED unless the user's plan includes
+// the feature, or has room left in the quota.
+export function requireEntitlement(entitlement: FeatureEntitlement | Quota) {
+  return createMiddleware<{
+    Variables: { userId: string; userEmail: string };
+  }>(async (c, next) => {
+    const userId = c.get("userId");
+    const limits = await getUserLimits(userId);
+
+    const allowed =
+      entitlement in QUOTAS
+        ? (await QUOTAS[entitlement as Quota](userId)) < limits[entitlement as Quota]
+        : limits[entitlement as FeatureEntitlement];
+
+    if (!allowed) {
+      return c.json(upgradeRequired(entitlement, MESSAGES[entitlement](limits)), 403);
+    }
+    await next();
+  });
+}
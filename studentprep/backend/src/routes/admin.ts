@@ -5,8 +5,28 @@ import { getSupabaseAdmin } from "../services/supabase.js";
 import { validateConfig } from "../services/config.js";
 import { getAllUsersMonthlyCosts } from "../services/subscription.js";
 import { saveUserApiKey, getUserApiKeyHint, deleteUserApiKey } from "../services/api-keys.js";
+import {
+  listModelRoutes,
+  saveModelRoute,
+  deleteModelRoute,
+  isRoutePlan,
+  ROUTE_PLANS,
+} from "../services/model-routes.js";
+import { AI_MODELS } from "../services/claude.js";
+import { AI_FEATURES, DEFAULT_ROUTING, isAIFeature } from "../config/modelRoutes.js";
+import { getLimits } from "../config/tierLimits.js";
+import {
+  EVENT_IN_PROGRESS,
+  getStripe,
+  listStripeEvents,
+  replayStripeEvent,
+  type StripeEventStatus,
+} from "../services/stripe-events.js";
 import type { AuthEnv } from "../types.js";
 
+/** Upper bound for a route's max_tokens: the most any supported model can write. */
+const MAX_ROUTE_TOKENS = 64_000;
+
 export const adminRoutes = new Hono<AuthEnv>();
 
 // All admin routes require auth + admin role
@@ -300,7 +320,8 @@ adminRoutes.get("/config", async (c) => {
   return c.json({
     config: {
       supabase: config.supabase,
-      anthropic: config.anthropic,
+      llm: config.llm,
+      llmProvider: config.llmProvider,
       stripe: config.stripe,
       ready: config.ready,
       missing: config.missing,
@@ -309,6 +330,69 @@ adminRoutes.get("/config", async (c) => {
   });
 });
 
+// GET /api/admin/model-routes — Model routing per AI feature
+adminRoutes.get("/model-routes", async (c) => {
+  const routes = await listModelRoutes();
+  return c.json({ features: AI_FEATURES, models: AI_MODELS, defaults: DEFAULT_ROUTING, routes });
+});
+
+// PUT /api/admin/model-routes/:feature/:plan — Set the route of a feature for everyone ('all') or one plan
+adminRoutes.put("/model-routes/:feature/:plan", async (c) => {
+  const feature = c.req.param("feature");
+  const plan = c.req.param("plan");
+  const { model, maxTokens, temperature } = await c.req.json<{
+    model: string;
+    maxTokens: number;
+    temperature: number | null;
+  }>();
+
+  if (!isAIFeature(feature)) {
+    return c.json({ error: `Invalid feature. Must be one of: ${AI_FEATURES.map((f) => f.id).join(", ")}` }, 400);
+  }
+  if (!isRoutePlan(plan)) {
+    return c.json({ error: `Invalid plan. Must be one of: ${ROUTE_PLANS.join(", ")}` }, 400);
+  }
+  const aiModel = AI_MODELS.find((m) => m.id === model)?.id;
+  if (!aiModel) {
+    return c.json({ error: `Invalid model. Must be one of: ${AI_MODELS.map((m) => m.id).join(", ")}` }, 400);
+  }
+  if (plan !== "all" && !getLimits(plan).allowedModels.includes(aiModel)) {
+    return c.json({ error: `The ${plan} plan isn't allowed to use ${aiModel}` }, 400);
+  }
+  if (!Number.isInteger(maxTokens) || maxTokens < 1 || maxTokens > MAX_ROUTE_TOKENS) {
+    return c.json({ error: `maxTokens must be a whole number between 1 and ${MAX_ROUTE_TOKENS}` }, 400);
+  }
+  if (temperature !== null && (typeof temperature !== "number" || temperature < 0 || temperature > 1)) {
+    return c.json({ error: "temperature must be between 0 and 1, or null for the model's default" }, 400);
+  }
+
+  try {
+    await saveModelRoute(feature, plan, { model: aiModel, maxTokens, temperature }, c.get("userId"));
+  } catch (err) {
+    return c.json({ error: err instanceof Error ? err.message : "Failed to save model route" }, 500);
+  }
+
+  return c.json({ success: true, feature, plan });
+});
+
+// DELETE /api/admin/model-routes/:feature/:plan — Fall back to the 'all' route or the default
+adminRoutes.delete("/model-routes/:feature/:plan", async (c) => {
+  const feature = c.req.param("feature");
+  const plan = c.req.param("plan");
+
+  if (!isAIFeature(feature) || !isRoutePlan(plan)) {
+    return c.json({ error: "Model route not found" }, 404);
+  }
+
+  try {
+    await deleteModelRoute(feature, plan);
+  } catch (err) {
+    return c.json({ error: err instanceof Error ? err.message : "Failed to delete model route" }, 500);
+  }
+
+  return c.json({ success: true, feature, plan });
+});
+
 // GET /api/admin/costs — Monthly cost overview per user
 adminRoutes.get("/costs", async (c) => {
   const url = new URL(c.req.url);
@@ -356,6 +440,9 @@ adminRoutes.get("/costs", async (c) => {
   const totalCost = costs.reduce((sum, c) => sum + c.estimatedCostUsd, 0);
   const totalInputTokens = costs.reduce((sum, c) => sum + c.inputTokens, 0);
   const totalOutputTokens = costs.reduce((sum, c) => sum + c.outputTokens, 0);
+  const totalCacheWriteTokens = costs.reduce((sum, c) => sum + c.cacheWriteTokens, 0);
+  const totalCacheReadTokens = costs.reduce((sum, c) => sum + c.cacheReadTokens, 0);
+  const totalCacheSavings = costs.reduce((sum, c) => sum + c.cacheSavingsUsd, 0);
 
   return c.json({
     year,
@@ -363,10 +450,43 @@ adminRoutes.get("/costs", async (c) => {
     totalCostUsd: totalCost,
     totalInputTokens,
     totalOutputTokens,
+    totalCacheWriteTokens,
+    totalCacheReadTokens,
+    totalCacheSavingsUsd: totalCacheSavings,
     users: enrichedCosts,
   });
 });
 
+// GET /api/admin/stripe-events?status=failed — Recent Stripe webhook events and how they were processed
+adminRoutes.get("/stripe-events", async (c) => {
+  const status = c.req.query("status");
+  const statuses: StripeEventStatus[] = ["processing", "processed", "skipped", "failed"];
+  if (status && !statuses.includes(status as StripeEventStatus)) {
+    return c.json({ error: `Invalid status. Must be one of: ${statuses.join(", ")}` }, 400);
+  }
+
+  try {
+    const events = await listStripeEvents(status as StripeEventStatus | undefined);
+    return c.json({ events });
+  } catch (err) {
+    return c.json({ error: err instanceof Error ? err.message : "Failed to load Stripe events" }, 500);
+  }
+});
+
+// POST /api/admin/stripe-events/:eventId/replay — Process a failed or interrupted event again
+adminRoutes.post("/stripe-events/:eventId/replay", async (c) => {
+  try {
+    const result = await replayStripeEvent(getStripe(), c.req.param("eventId"));
+    return c.json({ success: result.status !== "failed", ...result });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Failed to replay event";
+    if (message === EVENT_IN_PROGRESS) {
+      return c.json({ error: `${message}. Try again in a few minutes if it doesn't finish.` }, 409);
+    }
+    return c.json({ error: message }, message === "Event not found" ? 404 : 400);
+  }
+});
+
 // --- User API key management (auth required, not admin) ---
 
 export const apiKeyRoutes = new Hono<AuthEnv>();
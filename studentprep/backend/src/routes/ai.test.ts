@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createMiddleware } from "hono/factory";
+import { aiRoutes } from "./ai.js";
+import { estimateCourseProcessing } from "../services/course-processor.js";
+import { enqueueJob } from "../services/job-queue.js";
+import { reset, tables } from "../test/fake-supabase.js";
+
+vi.mock("../services/supabase.js", () => import("../test/fake-supabase.js"));
+vi.mock("../middleware/auth.js", () => ({
+  requireAuth: createMiddleware(async (c, next) => {
+    c.set("userId", "user-1");
+    await next();
+  }),
+}));
+vi.mock("../services/course-processor.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../services/course-processor.js")>()),
+  estimateCourseProcessing: vi.fn(),
+}));
+vi.mock("../services/job-queue.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../services/job-queue.js")>()),
+  enqueueJob: vi.fn(),
+  getLatestJobForCourse: vi.fn(async () => null),
+}));
+
+function startProcessing() {
+  return aiRoutes.request("/summarize/course-1", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ mode: "full" }),
+  });
+}
+
+describe("POST /summarize/:courseId", () => {
+  beforeEach(() => {
+    reset();
+    tables.courses = [{ id: "course-1", user_id: "user-1", status: "uploaded", storage_path: "user-1/notes.pdf", mime_type: null }];
+    tables.organization_members = [];
+    tables.subscriptions = [];
+    // 20,000 of the free plan's 50,000 tokens used this month
+    const now = new Date();
+    tables.token_usage = [
+      { user_id: "user-1", org_id: null, total_tokens: 20_000, period_year: now.getUTCFullYear(), period_month: now.getUTCMonth() + 1 },
+    ];
+    tables.token_reservations = [];
+    vi.mocked(estimateCourseProcessing).mockReset();
+    vi.mocked(enqueueJob).mockReset();
+  });
+
+  it("refuses to start when detecting the chapters needs more tokens than are left", async () => {
+    vi.mocked(estimateCourseProcessing).mockResolvedValue(42_000);
+
+    const res = await startProcessing();
+
+    expect(res.status).toBe(403);
+    expect(await res.json()).toMatchObject({
+      code: "UPGRADE_REQUIRED",
+      estimatedTokens: 42_000,
+      remainingTokens: 30_000,
+    });
+    expect(enqueueJob).not.toHaveBeenCalled();
+    expect(tables.courses[0].status).toBe("uploaded");
+  });
+
+  it("starts when the document's headings make the AI unnecessary", async () => {
+    vi.mocked(estimateCourseProcessing).mockResolvedValue(0);
+
+    const res = await startProcessing();
+
+    expect(res.status).toBe(200);
+    expect(enqueueJob).toHaveBeenCalledWith("process_course", "course-1", "user-1", { mode: "full" });
+    expect(tables.courses[0].status).toBe("processing");
+  });
+});
@@ -1,81 +1,139 @@
 import { Hono } from "hono";
+import { streamSSE } from "hono/streaming";
 import { requireAuth } from "../middleware/auth.js";
 import { getSupabaseAdmin } from "../services/supabase.js";
-import { extractTextFromPdf } from "../services/pdf-parser.js";
 import {
-  detectChapters,
   summarizeChapter,
   generateQuestions,
   translateText,
   generateStudyPlan,
-  type UsageCallback,
+  createUsageTracker,
+  estimateChapterSummary,
+  estimateQuestions,
+  estimateStudyPlan,
+  estimateTranslation,
+  type PartialSummaryCallback,
+  type SummarizedChapter,
 } from "../services/ai-pipeline.js";
-import { AI_MODELS, DEFAULT_MODEL, type AIModel, type ClaudeUsage } from "../services/claude.js";
-import { getUserSubscription, canUseTokens, recordTokenUsage } from "../services/subscription.js";
-import { getUserApiKey } from "../services/api-keys.js";
+import {
+  getUserSubscription,
+  canUseTokens,
+  getTokenBudget,
+  budgetExhaustedHint,
+  getRemainingTokens,
+  reserveTokens,
+  releaseTokens,
+  settleTokens,
+  type TokenReservation,
+  type UserSubscription,
+} from "../services/subscription.js";
+import { resolveUserApiKey } from "../services/api-keys.js";
+import { TRANSLATION_LANGUAGES, type TranslationTarget } from "../config/tierLimits.js";
+import { getUserLimits, upgradeRequired } from "../middleware/entitlements.js";
+import { getUserModelRouting } from "../services/model-routes.js";
+import { LLMError, llmErrorBody } from "../services/llm-errors.js";
+import {
+  enqueueJob,
+  ACTIVE_JOB_EXISTS,
+  getLatestJobForCourse,
+  cancelJobsForCourse,
+  onJobProgress,
+  type ProcessingJob,
+  type ProcessingProgress,
+} from "../services/job-queue.js";
+import { clearCourseChapters, estimateCourseProcessing } from "../services/course-processor.js";
+import {
+  cancelCourseBatch,
+  chapterPages,
+  estimateCourseSummaries,
+  SUMMARIZE_ALL_RESERVATION_TTL_SECONDS,
+  saveChapterQuestions,
+  saveChapterSummary,
+} from "../services/course-summarizer.js";
+import { collectSubtrees, outlineNumbers } from "../services/chapter-tree.js";
 import type { AuthEnv } from "../types.js";
 
-/** Helper: create a usage tracker that accumulates token counts and model info. */
-function createUsageTracker() {
-  let totalInput = 0;
-  let totalOutput = 0;
-  let lastModel: AIModel | undefined;
-  const track: UsageCallback = (usage: ClaudeUsage) => {
-    totalInput += usage.input_tokens;
-    totalOutput += usage.output_tokens;
-    lastModel = usage.model;
-  };
-  return {
-    track,
-    get inputTokens() { return totalInput; },
-    get outputTokens() { return totalOutput; },
-    get model() { return lastModel; },
-  };
+/** 403 body for an operation the user's token budget doesn't cover. */
+interface BudgetError {
+  error: string;
+  code: "UPGRADE_REQUIRED";
+  limit: "maxTokensPerMonth";
+  estimatedTokens?: number; // what the operation was estimated to use
+  remainingTokens?: number;
 }
 
 /** Helper: check token budget and return 403 if exceeded. */
-async function checkTokenBudget(userId: string) {
+async function checkTokenBudget(userId: string): Promise<BudgetError | null> {
   const sub = await getUserSubscription(userId);
-  if (!(await canUseTokens(userId, sub.plan))) {
+  if (!(await canUseTokens(userId, sub))) {
     return {
-      error: "Monthly token limit reached. Upgrade to Pro for unlimited AI usage.",
-      code: "UPGRADE_REQUIRED" as const,
+      error: `Monthly token limit reached. ${budgetExhaustedHint(sub)}`,
+      code: "UPGRADE_REQUIRED",
       limit: "maxTokensPerMonth",
     };
   }
   return null;
 }
 
-/** Helper: resolve user's API key (returns undefined if none stored). */
-async function resolveUserApiKey(userId: string): Promise<string | undefined> {
-  try {
-    const key = await getUserApiKey(userId);
-    return key ?? undefined;
-  } catch {
-    return undefined;
+/**
+ * Reserve the estimated tokens of an operation from the user's budget.
+ * Returns the reservation, or the 403 body when the budget doesn't cover
+ * it. Unlimited plans reserve nothing, so `estimate` isn't even run.
+ */
+async function reserveBudget(
+  userId: string,
+  endpoint: string,
+  estimate: () => Promise<number>,
+  ttlSeconds?: number
+): Promise<{ reservation: TokenReservation } | { error: BudgetError }> {
+  const sub = await getUserSubscription(userId);
+  if (getTokenBudget(sub) === Infinity) {
+    return { reservation: { id: null, tokens: 0 } };
   }
+
+  const tokens = await estimate();
+  const reservation = await reserveTokens(userId, sub, tokens, endpoint, ttlSeconds);
+  if (reservation) return { reservation };
+
+  const remaining = await getRemainingTokens(userId, sub);
+  return { error: overBudgetError(sub, tokens, remaining) };
 }
 
-export const aiRoutes = new Hono<AuthEnv>();
+/**
+ * Check the estimated tokens of an operation against the user's remaining
+ * budget without reserving them, for jobs that reserve their own tokens
+ * later. Returns the 403 body when the budget doesn't cover it. Unlimited
+ * plans skip the estimate.
+ */
+async function checkBudgetFor(userId: string, estimate: () => Promise<number>): Promise<BudgetError | null> {
+  const sub = await getUserSubscription(userId);
+  if (getTokenBudget(sub) === Infinity) return null;
+
+  const tokens = await estimate();
+  const remaining = await getRemainingTokens(userId, sub);
+  return tokens > remaining ? overBudgetError(sub, tokens, remaining) : null;
+}
 
-// Track cancellable processing jobs
-const cancelledCourses = new Set<string>();
+function overBudgetError(sub: UserSubscription, tokens: number, remaining: number): BudgetError {
+  return {
+    error:
+      remaining > 0
+        ? `This needs about ${formatTokenCount(tokens)} tokens, but only ${formatTokenCount(remaining)} are left this month. ${budgetExhaustedHint(sub)}`
+        : `Monthly token limit reached. ${budgetExhaustedHint(sub)}`,
+    code: "UPGRADE_REQUIRED",
+    limit: "maxTokensPerMonth",
+    estimatedTokens: tokens,
+    remainingTokens: remaining,
+  };
+}
 
-// Track processing progress per course
-interface ProcessingProgress {
-  step: "extracting" | "detecting" | "saving_chapters" | "done";
-  currentChapter: number;
-  totalChapters: number;
-  chapterTitle: string;
+function formatTokenCount(tokens: number): string {
+  return Math.round(tokens).toLocaleString("en-US");
 }
-const processingProgress = new Map<string, ProcessingProgress>();
 
-aiRoutes.use("*", requireAuth);
+export const aiRoutes = new Hono<AuthEnv>();
 
-// List available AI models
-aiRoutes.get("/models", (c) => {
-  return c.json({ models: AI_MODELS, default: DEFAULT_MODEL });
-});
+aiRoutes.use("*", requireAuth);
 
 // Get processing progress for a course
 aiRoutes.get("/progress/:courseId", async (c) => {
@@ -95,21 +153,139 @@ aiRoutes.get("/progress/:courseId", async (c) => {
     return c.json({ error: "Course not found" }, 404);
   }
 
-  const progress = processingProgress.get(courseId);
-  if (!progress) {
+  // Progress lives on the job row, so any API machine can answer
+  const job = await getLatestJobForCourse(courseId);
+  if (!job || !job.progress) {
     return c.json({ step: "unknown", currentChapter: 0, totalChapters: 0, chapterTitle: "" });
   }
 
-  return c.json(progress);
+  return c.json({
+    ...job.progress,
+    jobType: job.type,
+    jobStatus: job.status,
+    attempts: job.attempts,
+    maxAttempts: job.max_attempts,
+    ...(job.status === "error" && job.last_error ? { error: job.last_error } : {}),
+  });
 });
 
-// Validate and return a safe model id
-function parseModel(raw: unknown): AIModel {
-  if (typeof raw === "string" && AI_MODELS.some((m) => m.id === raw)) {
-    return raw as AIModel;
+const STREAM_POLL_MS = 1500;
+const STREAM_HEARTBEAT_MS = 15_000;
+const STREAM_MAX_DURATION_MS = 10 * 60 * 1000;
+const TERMINAL_JOB_STATUSES = ["done", "error", "cancelled"];
+
+// Stream processing progress as Server-Sent Events.
+// Events: "progress" (every ProcessingProgress transition), "chapter" (each saved
+// chapter), then one terminal "done" | "error" | "cancelled" before the stream closes.
+// Progress is read from the job row so any machine can serve the stream; a worker
+// on this machine also pushes transitions in-process so none are skipped.
+aiRoutes.get("/progress/:courseId/stream", async (c) => {
+  const userId = c.get("userId");
+  const courseId = c.req.param("courseId");
+  const supabase = getSupabaseAdmin();
+
+  // Verify ownership
+  const { data: course } = await supabase
+    .from("courses")
+    .select("id")
+    .eq("id", courseId)
+    .eq("user_id", userId)
+    .single();
+
+  if (!course) {
+    return c.json({ error: "Course not found" }, 404);
   }
-  return DEFAULT_MODEL;
-}
+
+  return streamSSE(c, async (stream) => {
+    let lastSent = "";
+    let jobInfo: Record<string, unknown> = {};
+    let chaptersSent = 0;
+    let writes = Promise.resolve();
+
+    // Serialize writes: in-process pushes and the poll loop share one stream
+    const enqueue = (fn: () => Promise<void>) => {
+      writes = writes.then(fn).catch(() => {});
+      return writes;
+    };
+
+    const sendProgress = (progress: ProcessingProgress, job?: ProcessingJob) =>
+      enqueue(async () => {
+        if (job) {
+          jobInfo = { jobType: job.type, jobStatus: job.status, attempts: job.attempts, maxAttempts: job.max_attempts };
+        }
+        const payload = JSON.stringify({ ...progress, ...jobInfo });
+        if (payload === lastSent) return;
+        lastSent = payload;
+        await stream.writeSSE({ event: "progress", data: payload });
+      });
+
+    const sendNewChapters = () =>
+      enqueue(async () => {
+        const { data: saved } = await supabase
+          .from("chapters")
+          .select("id, title, sort_order, start_page, end_page")
+          .eq("course_id", courseId)
+          .gte("sort_order", chaptersSent)
+          .order("sort_order");
+        for (const ch of saved || []) {
+          await stream.writeSSE({
+            event: "chapter",
+            data: JSON.stringify({
+              id: ch.id,
+              index: ch.sort_order,
+              title: ch.title,
+              startPage: ch.start_page,
+              endPage: ch.end_page,
+            }),
+          });
+          chaptersSent = ch.sort_order + 1;
+        }
+      });
+
+    const unsubscribe = onJobProgress(courseId, (progress) => {
+      sendProgress(progress);
+    });
+
+    const startedAt = Date.now();
+    let lastHeartbeat = Date.now();
+
+    try {
+      while (!stream.aborted && Date.now() - startedAt < STREAM_MAX_DURATION_MS) {
+        const job = await getLatestJobForCourse(courseId);
+        if (!job) {
+          await stream.writeSSE({
+            event: "progress",
+            data: JSON.stringify({ step: "unknown", currentChapter: 0, totalChapters: 0, chapterTitle: "" }),
+          });
+          break;
+        }
+
+        if (job.progress) await sendProgress(job.progress, job);
+        await sendNewChapters();
+
+        if (TERMINAL_JOB_STATUSES.includes(job.status)) {
+          await enqueue(() =>
+            stream.writeSSE({
+              event: job.status,
+              data: JSON.stringify(job.status === "error" ? { error: job.last_error } : {}),
+            })
+          );
+          break;
+        }
+
+        if (Date.now() - lastHeartbeat > STREAM_HEARTBEAT_MS) {
+          await enqueue(() => stream.write(": ping\n\n").then(() => {}));
+          lastHeartbeat = Date.now();
+        }
+
+        await stream.sleep(STREAM_POLL_MS);
+      }
+    } finally {
+      unsubscribe();
+      await writes;
+    }
+  });
+});
 
 // Process a course: extract text → detect chapters → summarize → generate questions
 aiRoutes.post("/summarize/:courseId", async (c) => {
@@ -133,74 +309,115 @@ aiRoutes.post("/summarize/:courseId", async (c) => {
     return c.json({ error: "Course is already being processed" }, 409);
   }
 
+  if (await hasActiveSummarizeJob(courseId)) {
+    return c.json({ error: "Wait until all chapters are summarized, or stop summarizing first" }, 409);
+  }
+
   // Check token budget before making any changes
   const budgetError = await checkTokenBudget(userId);
   if (budgetError) return c.json(budgetError, 403);
 
-  // Clear old chapters/questions if retrying
-  const { data: oldChapters } = await supabase
-    .from("chapters")
-    .select("id")
-    .eq("course_id", courseId);
-  if (oldChapters && oldChapters.length > 0) {
-    const oldIds = oldChapters.map((ch: any) => ch.id);
-    await supabase.from("questions").delete().in("chapter_id", oldIds);
-    await supabase.from("chapters").delete().eq("course_id", courseId);
+  // Parse mode from request body (JSON or empty)
+  let mode: "full" | "incremental" = "full";
+  try {
+    const body = await c.req.json();
+    // "incremental" keeps chapters whose text is unchanged, with their summaries and questions
+    if (body.mode === "incremental") mode = "incremental";
+  } catch {
+    // No body or invalid JSON — use defaults
+  }
+
+  if (mode === "incremental" && course.status !== "ready") {
+    return c.json({ error: "Only processed courses can be re-processed incrementally" }, 400);
+  }
+
+  // The job reserves the tokens of chapter detection once it has extracted
+  // the document; say so now rather than failing the job when they won't fit
+  const detectionBudgetError = await checkBudgetFor(userId, () => estimateProcessing(course, userId));
+  if (detectionBudgetError) return c.json(detectionBudgetError, 403);
+
+  // Queue the job for the worker loop, then mark the course as processing.
+  // In this order the orphan sweep never sees a processing course without an
+  // active job (it would mark the course as failed).
+  try {
+    await enqueueJob("process_course", courseId, userId, { mode });
+  } catch (err) {
+    if (err instanceof Error && err.message === ACTIVE_JOB_EXISTS) {
+      return c.json({ error: "This course is already being processed or summarized" }, 409);
+    }
+    console.error(`Failed to queue processing for course ${courseId}:`, err);
+    return c.json({ error: "Failed to start processing" }, 500);
   }
 
-  // Mark as processing
   await supabase
     .from("courses")
     .update({ status: "processing" })
     .eq("id", courseId);
 
-  // Clear any stale cancellation flag
-  cancelledCourses.delete(courseId);
+  return c.json({ message: "Processing started", courseId, mode });
+});
 
-  // Parse model from request body (JSON or empty)
-  let model: AIModel = DEFAULT_MODEL;
-  try {
-    const body = await c.req.json();
-    model = parseModel(body.model);
-  } catch {
-    // No body or invalid JSON — use default model
-  }
+const ACTIVE_JOB_STATUSES = ["queued", "running"];
 
-  // Resolve user API key
-  const userApiKey = await resolveUserApiKey(userId);
+async function hasActiveSummarizeJob(courseId: string): Promise<boolean> {
+  const job = await getLatestJobForCourse(courseId);
+  return job?.type === "summarize_course" && ACTIVE_JOB_STATUSES.includes(job.status);
+}
 
-  // Run pipeline in background (don't block the response)
-  processCourse(courseId, course.storage_path, model, userId, userApiKey).catch(async (err) => {
-    processingProgress.delete(courseId);
+// Summarize every chapter that lacks a summary or questions, as one batch at
+// batch pricing. Runs in the job worker; the course stays usable meanwhile.
+aiRoutes.post("/summarize-all/:courseId", async (c) => {
+  const userId = c.get("userId");
+  const courseId = c.req.param("courseId");
+  const supabase = getSupabaseAdmin();
 
-    // Don't set error status if it was a cancellation
-    if (cancelledCourses.has(courseId)) {
-      cancelledCourses.delete(courseId);
-      return;
-    }
+  // Verify ownership
+  const { data: course } = await supabase
+    .from("courses")
+    .select("id, status")
+    .eq("id", courseId)
+    .eq("user_id", userId)
+    .single();
 
-    const isAuthError =
-      err instanceof Error &&
-      err.message.includes("authentication failed");
+  if (!course) {
+    return c.json({ error: "Course not found" }, 404);
+  }
 
-    if (isAuthError) {
-      console.error(
-        `Processing failed for course ${courseId}: Anthropic API authentication failed — check ANTHROPIC_API_KEY in .env`
-      );
-    } else {
-      console.error(`Processing failed for course ${courseId}:`, err);
-    }
+  if (course.status !== "ready") {
+    return c.json({ error: "Only processed courses can be summarized" }, 400);
+  }
 
-    await supabase
-      .from("courses")
-      .update({ status: "error" })
-      .eq("id", courseId);
-  });
+  if (await hasActiveSummarizeJob(courseId)) {
+    return c.json({ error: "This course is already being summarized" }, 409);
+  }
+
+  // Held until the job finishes, which can take as long as the batch
+  const userApiKey = await resolveUserApiKey(userId);
+  const routing = await getUserModelRouting(userId);
+  const budget = await reserveBudget(
+    userId,
+    "summarize-course",
+    () => estimateCourseSummaries(courseId, routing, userApiKey),
+    SUMMARIZE_ALL_RESERVATION_TTL_SECONDS
+  );
+  if ("error" in budget) return c.json(budget.error, 403);
 
-  return c.json({ message: "Processing started", courseId, model });
+  try {
+    await enqueueJob("summarize_course", courseId, userId, { reservationId: budget.reservation.id });
+  } catch (err) {
+    await releaseTokens(budget.reservation.id);
+    // A concurrent request queued its job first
+    if (err instanceof Error && err.message === ACTIVE_JOB_EXISTS) {
+      return c.json({ error: "This course is already being summarized" }, 409);
+    }
+    console.error(`Failed to queue summarizing for course ${courseId}:`, err);
+    return c.json({ error: "Failed to start summarizing" }, 500);
+  }
+
+  return c.json({ message: "Summarizing started", courseId });
 });
 
-// Cancel processing
+// Cancel processing, or summarizing all chapters
 aiRoutes.post("/cancel/:courseId", async (c) => {
   const userId = c.get("userId");
   const courseId = c.req.param("courseId");
@@ -218,13 +435,30 @@ aiRoutes.post("/cancel/:courseId", async (c) => {
     return c.json({ error: "Course not found" }, 404);
   }
 
+  const job = await getLatestJobForCourse(courseId);
+
+  if (job?.type === "summarize_course" && ACTIVE_JOB_STATUSES.includes(job.status)) {
+    await cancelJobsForCourse(courseId);
+    await cancelCourseBatch(job);
+    await releaseTokens(job.payload.reservationId as string | null | undefined);
+    return c.json({ message: "Summarizing cancelled" });
+  }
+
   if (course.status !== "processing") {
     return c.json({ error: "Course is not being processed" }, 400);
   }
 
-  // Signal cancellation
-  cancelledCourses.add(courseId);
-  processingProgress.delete(courseId);
+  // Signal cancellation — the worker checks the job status between steps
+  await cancelJobsForCourse(courseId);
+
+  if (job?.payload.mode === "incremental") {
+    // Stored chapters are only touched after detection finishes, so they are still intact
+    await supabase
+      .from("courses")
+      .update({ status: "ready" })
+      .eq("id", courseId);
+    return c.json({ message: "Processing cancelled" });
+  }
 
   // Reset status to uploaded
   await supabase
@@ -233,17 +467,84 @@ aiRoutes.post("/cancel/:courseId", async (c) => {
     .eq("id", courseId);
 
   // Clean up any partially created chapters/questions
-  const { data: partialChapters } = await supabase
+  await clearCourseChapters(courseId);
+
+  return c.json({ message: "Processing cancelled" });
+});
+
+// Estimate the tokens of summarizing a chapter or generating its questions
+aiRoutes.get("/estimate/:chapterId", async (c) => {
+  const userId = c.get("userId");
+  const chapterId = c.req.param("chapterId");
+  const operation = c.req.query("for");
+  const supabase = getSupabaseAdmin();
+
+  if (operation !== "summary" && operation !== "questions") {
+    return c.json({ error: "for must be 'summary' or 'questions'" }, 400);
+  }
+
+  // Verify ownership through chapter → course → user
+  const { data: chapter } = await supabase
     .from("chapters")
-    .select("id")
-    .eq("course_id", courseId);
-  if (partialChapters && partialChapters.length > 0) {
-    const ids = partialChapters.map((ch: any) => ch.id);
-    await supabase.from("questions").delete().in("chapter_id", ids);
-    await supabase.from("chapters").delete().eq("course_id", courseId);
+    .select("*, courses!inner(user_id)")
+    .eq("id", chapterId)
+    .single();
+
+  if (!chapter || chapter.courses.user_id !== userId) {
+    return c.json({ error: "Chapter not found" }, 404);
   }
 
-  return c.json({ message: "Processing cancelled" });
+  const userApiKey = await resolveUserApiKey(userId);
+  const routing = await getUserModelRouting(userId);
+  const summary = chapter.summary_main?.length ? { main_topics: chapter.summary_main } : undefined;
+  const estimatedTokens =
+    operation === "summary"
+      ? await estimateChapterSummary(chapter.title, chapter.raw_text, routing, userApiKey)
+      : await estimateQuestions(chapter.title, chapter.raw_text, summary, routing, userApiKey);
+
+  const sub = await getUserSubscription(userId);
+  const remaining = await getRemainingTokens(userId, sub);
+  return c.json({
+    estimatedTokens,
+    remainingTokens: remaining === Infinity ? null : remaining,
+  });
+});
+
+/**
+ * Estimated tokens of processing a course. Files that can't be read count as
+ * 0 here; the job fails on them with the reason.
+ */
+function estimateProcessing(course: { storage_path: string; mime_type: string | null }, userId: string) {
+  return estimateCourseProcessing(course, userId).catch((err) => {
+    console.warn("[estimate] Could not estimate processing:", err instanceof Error ? err.message : err);
+    return 0;
+  });
+}
+
+// Estimate the tokens of processing a course: those of detecting its
+// chapters, when its headings aren't reliable enough to use instead
+aiRoutes.get("/estimate-processing/:courseId", async (c) => {
+  const userId = c.get("userId");
+  const courseId = c.req.param("courseId");
+
+  const { data: course } = await getSupabaseAdmin()
+    .from("courses")
+    .select("storage_path, mime_type")
+    .eq("id", courseId)
+    .eq("user_id", userId)
+    .single();
+
+  if (!course) {
+    return c.json({ error: "Course not found" }, 404);
+  }
+
+  const estimatedTokens = await estimateProcessing(course, userId);
+  const sub = await getUserSubscription(userId);
+  const remaining = await getRemainingTokens(userId, sub);
+  return c.json({
+    estimatedTokens,
+    remainingTokens: remaining === Infinity ? null : remaining,
+  });
 });
 
 // Generate questions for a specific chapter
@@ -274,39 +575,31 @@ aiRoutes.post("/questions/:chapterId", async (c) => {
     return c.json({ message: "Questions already generated" });
   }
 
-  // Check token budget
-  const budgetError = await checkTokenBudget(userId);
-  if (budgetError) return c.json(budgetError, 403);
-
   const userApiKey = await resolveUserApiKey(userId);
-  const tracker = createUsageTracker();
-  const questions = await generateQuestions(chapter.title, chapter.raw_text, undefined, DEFAULT_MODEL, tracker.track, userApiKey);
-
-  // Record token usage with model info
-  await recordTokenUsage(userId, tracker.inputTokens, tracker.outputTokens, "questions", tracker.model).catch(() => {});
+  const routing = await getUserModelRouting(userId);
+  // The stored summary covers the whole chapter, while long chapters get their questions chunk by chunk
+  const summary = chapter.summary_main?.length ? { main_topics: chapter.summary_main } : undefined;
 
-  // Insert exam questions
-  const examRows = questions.exam_questions.map((q) => ({
-    chapter_id: chapterId,
-    type: "exam",
-    question: q.question,
-    suggested_answer: q.suggested_answer,
-  }));
+  // Reserve the estimated tokens from the budget
+  const budget = await reserveBudget(userId, "questions", () =>
+    estimateQuestions(chapter.title, chapter.raw_text, summary, routing, userApiKey)
+  );
+  if ("error" in budget) return c.json(budget.error, 403);
 
-  // Insert discussion questions
-  const discussionRows = questions.discussion_questions.map((q) => ({
-    chapter_id: chapterId,
-    type: "discussion",
-    question: q.question,
-    suggested_answer: q.why_useful,
-  }));
+  const tracker = createUsageTracker();
+  const questions = await generateQuestions(chapter.title, chapter.raw_text, summary, routing, tracker.track, userApiKey)
+    .catch(async (err) => {
+      await releaseTokens(budget.reservation.id);
+      throw err;
+    });
 
-  const { error: insertError } = await supabase
-    .from("questions")
-    .insert([...examRows, ...discussionRows]);
+  // Record the actual token usage with model info, in place of the reservation
+  await settleTokens(userId, budget.reservation, tracker, "questions");
 
-  if (insertError) {
-    return c.json({ error: `Failed to save questions: ${insertError.message}` }, 500);
+  try {
+    await saveChapterQuestions(chapterId, questions);
+  } catch (err) {
+    return c.json({ error: err instanceof Error ? err.message : "Failed to save questions" }, 500);
   }
 
   return c.json({ questions });
@@ -334,39 +627,65 @@ aiRoutes.post("/summarize-chapter/:chapterId", async (c) => {
     return c.json({ message: "Summary already generated", summary_main: chapter.summary_main, summary_side: chapter.summary_side });
   }
 
-  // Check token budget
-  const budgetError = await checkTokenBudget(userId);
-  if (budgetError) return c.json(budgetError, 403);
+  const userApiKey = await resolveUserApiKey(userId);
+  const routing = await getUserModelRouting(userId);
 
-  // Parse model from request body
-  let model: AIModel = DEFAULT_MODEL;
-  try {
-    const body = await c.req.json();
-    model = parseModel(body.model);
-  } catch {
-    // No body or invalid JSON — use default model
-  }
+  // Reserve the estimated tokens from the budget
+  const budget = await reserveBudget(userId, "summarize-chapter", () =>
+    estimateChapterSummary(chapter.title, chapter.raw_text, routing, userApiKey)
+  );
+  if ("error" in budget) return c.json(budget.error, 403);
 
-  const userApiKey = await resolveUserApiKey(userId);
   const tracker = createUsageTracker();
-  const summary = await summarizeChapter(chapter.title, chapter.raw_text, model, tracker.track, userApiKey);
+  const summarize = (onPartial?: PartialSummaryCallback) =>
+    summarizeChapter(chapter.title, chapter.raw_text, routing, tracker.track, userApiKey, chapterPages(chapter), onPartial)
+      .catch(async (err) => {
+        await releaseTokens(budget.reservation.id);
+        throw err;
+      });
 
-  // Record token usage with model info
-  await recordTokenUsage(userId, tracker.inputTokens, tracker.outputTokens, "summarize-chapter", tracker.model).catch(() => {});
+  const save = async (summary: SummarizedChapter) => {
+    // Record the actual token usage with model info, in place of the reservation
+    await settleTokens(userId, budget.reservation, tracker, "summarize-chapter");
 
-  // Update chapter with summary
-  await supabase
-    .from("chapters")
-    .update({
+    await saveChapterSummary(chapterId, summary);
+
+    return {
       summary_main: summary.main_topics,
       summary_side: summary.side_topics,
-    })
-    .eq("id", chapterId);
+      summary_coverage: summary.coverage,
+    };
+  };
 
-  return c.json({ summary_main: summary.main_topics, summary_side: summary.side_topics });
+  if (!c.req.header("Accept")?.includes("text/event-stream")) {
+    return c.json(await save(await summarize()));
+  }
+
+  // Streamed: "partial" events with the topics so far, then "done" with the
+  // saved summary, or "error"
+  return streamSSE(c, async (stream) => {
+    let writes = Promise.resolve();
+    const send = (event: string, data: unknown) => {
+      writes = writes
+        .then(() => stream.writeSSE({ event, data: JSON.stringify(data) }))
+        .catch(() => {});
+      return writes;
+    };
+
+    try {
+      const summary = await summarize((partial) => {
+        send("partial", { summary_main: partial.main_topics, summary_side: partial.side_topics });
+      });
+      await send("done", await save(summary));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Summarization failed";
+      console.error(`[summarize-chapter] ${chapterId}:`, message);
+      await send("error", err instanceof LLMError ? llmErrorBody(err) : { error: message });
+    }
+  });
 });
 
-// Translate a question or answer on demand (uses Sonnet 4.5 for speed)
+// Translate a question or answer on demand (with the model routed for translation)
 aiRoutes.post("/translate", async (c) => {
   const userId = c.get("userId");
   const supabase = getSupabaseAdmin();
@@ -375,21 +694,29 @@ aiRoutes.post("/translate", async (c) => {
   const { questionId, field, targetLang } = body as {
     questionId: string;
     field: "question" | "answer";
-    targetLang: "nl" | "fr" | "zh" | "hi" | "es" | "ar";
+    targetLang: TranslationTarget;
   };
 
   if (!questionId || !field || !targetLang) {
     return c.json({ error: "questionId, field, and targetLang are required" }, 400);
   }
 
-  if (!["nl", "fr", "zh", "hi", "es", "ar"].includes(targetLang)) {
-    return c.json({ error: "targetLang must be one of: nl, fr, zh, hi, es, ar" }, 400);
+  if (!TRANSLATION_LANGUAGES.includes(targetLang)) {
+    return c.json({ error: `targetLang must be one of: ${TRANSLATION_LANGUAGES.join(", ")}` }, 400);
   }
 
   if (!["question", "answer"].includes(field)) {
     return c.json({ error: "field must be 'question' or 'answer'" }, 400);
   }
 
+  const limits = await getUserLimits(userId);
+  if (!limits.translationLanguages.includes(targetLang)) {
+    return c.json(
+      upgradeRequired("translationLanguages", "Translating into this language is a Pro feature. Upgrade to Pro for all languages."),
+      403
+    );
+  }
+
   // Fetch the question and verify ownership
   const { data: question } = await supabase
     .from("questions")
@@ -409,18 +736,26 @@ aiRoutes.post("/translate", async (c) => {
     return c.json({ translation: existingTranslations[targetLang] });
   }
 
-  // Check token budget
-  const budgetError = await checkTokenBudget(userId);
-  if (budgetError) return c.json(budgetError, 403);
-
-  // Translate the source text
   const sourceText = field === "question" ? question.question : question.suggested_answer;
   const userApiKey = await resolveUserApiKey(userId);
+  const routing = await getUserModelRouting(userId);
+
+  // Reserve the estimated tokens from the budget
+  const budget = await reserveBudget(userId, "translate", () =>
+    estimateTranslation(sourceText, targetLang, routing, userApiKey)
+  );
+  if ("error" in budget) return c.json(budget.error, 403);
+
+  // Translate the source text
   const tracker = createUsageTracker();
-  const translation = await translateText(sourceText, targetLang, tracker.track, userApiKey);
+  const translation = await translateText(sourceText, targetLang, routing, tracker.track, userApiKey)
+    .catch(async (err) => {
+      await releaseTokens(budget.reservation.id);
+      throw err;
+    });
 
-  // Record token usage with model info
-  await recordTokenUsage(userId, tracker.inputTokens, tracker.outputTokens, "translate", tracker.model).catch(() => {});
+  // Record the actual token usage with model info, in place of the reservation
+  await settleTokens(userId, budget.reservation, tracker, "translate");
 
   // Save translation to DB for future requests
   const updatedTranslations = { ...existingTranslations, [targetLang]: translation };
@@ -473,7 +808,8 @@ aiRoutes.post("/study-plan", async (c) => {
   const supabase = getSupabaseAdmin();
 
   const body = await c.req.json();
-  const { courseId, examDate, hoursPerDay } = body;
+  // chapterIds is optional: plan only for these parts/chapters and their sections
+  const { courseId, examDate, hoursPerDay, chapterIds } = body;
 
   if (!courseId || !examDate || !hoursPerDay) {
     return c.json({ error: "courseId, examDate, and hoursPerDay are required" }, 400);
@@ -492,26 +828,48 @@ aiRoutes.post("/study-plan", async (c) => {
   }
 
   // Get chapters
-  const { data: chapters } = await supabase
+  const { data: allChapters } = await supabase
     .from("chapters")
-    .select("id, title")
+    .select("id, title, parent_id, depth, sort_order")
     .eq("course_id", courseId)
     .order("sort_order");
 
-  if (!chapters || chapters.length === 0) {
+  if (!allChapters || allChapters.length === 0) {
     return c.json({ error: "Course has no chapters. Process it first." }, 400);
   }
 
-  // Check token budget
-  const budgetError = await checkTokenBudget(userId);
-  if (budgetError) return c.json(budgetError, 403);
+  const numbers = outlineNumbers(allChapters);
+  const selected = chapterIds?.length ? collectSubtrees(allChapters, chapterIds) : allChapters;
+  if (selected.length === 0) {
+    return c.json({ error: "None of the selected chapters belong to this course" }, 400);
+  }
+  // Depth relative to the shallowest selected chapter, so a single section isn't indented
+  const minDepth = Math.min(...selected.map((ch) => ch.depth));
+  const chapters = selected.map((ch) => ({
+    id: ch.id,
+    title: ch.title,
+    number: numbers.get(ch.id),
+    depth: ch.depth - minDepth,
+  }));
 
   const userApiKey = await resolveUserApiKey(userId);
+  const routing = await getUserModelRouting(userId);
+
+  // Reserve the estimated tokens from the budget
+  const budget = await reserveBudget(userId, "study-plan", () =>
+    estimateStudyPlan(chapters, examDate, hoursPerDay, routing, userApiKey)
+  );
+  if ("error" in budget) return c.json(budget.error, 403);
+
   const tracker = createUsageTracker();
-  const plan = await generateStudyPlan(chapters, examDate, hoursPerDay, DEFAULT_MODEL, tracker.track, userApiKey);
+  const plan = await generateStudyPlan(chapters, examDate, hoursPerDay, routing, tracker.track, userApiKey)
+    .catch(async (err) => {
+      await releaseTokens(budget.reservation.id);
+      throw err;
+    });
 
-  // Record token usage with model info
-  await recordTokenUsage(userId, tracker.inputTokens, tracker.outputTokens, "study-plan", tracker.model).catch(() => {});
+  // Record the actual token usage with model info, in place of the reservation
+  await settleTokens(userId, budget.reservation, tracker, "study-plan");
 
   // Save plan
   const { data: savedPlan, error: insertError } = await supabase
@@ -531,111 +889,3 @@ aiRoutes.post("/study-plan", async (c) => {
 
   return c.json({ plan: savedPlan }, 201);
 });
-
-// ---- Background processing pipeline ----
-
-async function processCourse(
-  courseId: string,
-  storagePath: string,
-  model: AIModel = DEFAULT_MODEL,
-  userId?: string,
-  userApiKey?: string
-): Promise<void> {
-  const supabase = getSupabaseAdmin();
-
-  // Track progress
-  processingProgress.set(courseId, {
-    step: "extracting",
-    currentChapter: 0,
-    totalChapters: 0,
-    chapterTitle: "",
-  });
-
-  // 1. Download PDF from storage
-  const { data: fileData, error: downloadError } = await supabase.storage
-    .from("course-pdfs")
-    .download(storagePath);
-
-  if (downloadError || !fileData) {
-    processingProgress.delete(courseId);
-    throw new Error(`Failed to download PDF: ${downloadError?.message}`);
-  }
-
-  // 2. Extract text
-  const buffer = Buffer.from(await fileData.arrayBuffer());
-  const fullText = await extractTextFromPdf(buffer);
-
-  if (!fullText || fullText.trim().length < 50) {
-    processingProgress.delete(courseId);
-    throw new Error("Could not extract enough text from PDF");
-  }
-
-  // 3. Detect chapters
-  processingProgress.set(courseId, {
-    step: "detecting",
-    currentChapter: 0,
-    totalChapters: 0,
-    chapterTitle: "",
-  });
-
-  const tracker = createUsageTracker();
-  const chapters = await detectChapters(fullText, model, tracker.track, userApiKey);
-
-  // Record token usage for chapter detection with model info
-  if (userId) {
-    await recordTokenUsage(userId, tracker.inputTokens, tracker.outputTokens, "summarize", tracker.model).catch(() => {});
-  }
-
-  // 4. Save chapters (summaries and questions are generated on-demand by the user)
-  processingProgress.set(courseId, {
-    step: "saving_chapters",
-    currentChapter: 0,
-    totalChapters: chapters.length,
-    chapterTitle: "",
-  });
-
-  for (let i = 0; i < chapters.length; i++) {
-    if (cancelledCourses.has(courseId)) {
-      console.log(`Processing cancelled for course ${courseId}`);
-      cancelledCourses.delete(courseId);
-      processingProgress.delete(courseId);
-      return;
-    }
-
-    const ch = chapters[i];
-
-    processingProgress.set(courseId, {
-      step: "saving_chapters",
-      currentChapter: i + 1,
-      totalChapters: chapters.length,
-      chapterTitle: ch.title,
-    });
-
-    await supabase
-      .from("chapters")
-      .insert({
-        course_id: courseId,
-        title: ch.title,
-        raw_text: ch.content,
-        summary_main: null,
-        summary_side: null,
-        sort_order: i,
-      });
-  }
-
-  // 5. Mark course as ready
-  processingProgress.set(courseId, {
-    step: "done",
-    currentChapter: chapters.length,
-    totalChapters: chapters.length,
-    chapterTitle: "",
-  });
-
-  await supabase
-    .from("courses")
-    .update({ status: "ready" })
-    .eq("id", courseId);
-
-  // Clean up progress after a short delay so frontend can see "done"
-  setTimeout(() => processingProgress.delete(courseId), 10000);
-}
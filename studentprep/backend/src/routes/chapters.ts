@@ -0,0 +1,94 @@
+import { Hono } from "hono";
+import type { Context } from "hono";
+import {
+  getChapterText,
+  renameChapter,
+  mergeWithNext,
+  splitChapter,
+  reorderChapters,
+} from "../services/chapter-editor.js";
+import type { AuthEnv } from "../types.js";
+
+// Mounted on wikiRoutes, which owns the /api/chapters prefix and requires
+// authentication for every route under it
+export const chapterRoutes = new Hono<AuthEnv>();
+
+/** Turn an editor error into a response: unknown ids are 404, everything else is a bad request. */
+function editError(c: Context<AuthEnv>, err: unknown) {
+  const message = err instanceof Error ? err.message : "Chapter edit failed";
+  if (message === "Course not found" || message === "Chapter not found") {
+    return c.json({ error: message }, 404);
+  }
+  console.error("[chapters] Edit failed:", message);
+  return c.json({ error: message }, 400);
+}
+
+// Raw text of a chapter, used to pick split points
+// GET /api/chapters/:id/text
+chapterRoutes.get("/:id/text", async (c) => {
+  try {
+    const chapter = await getChapterText(c.req.param("id"), c.get("userId"));
+    return c.json({ chapter });
+  } catch (err) {
+    return editError(c, err);
+  }
+});
+
+// Rename a chapter
+// PUT /api/chapters/:id  { title }
+chapterRoutes.put("/:id", async (c) => {
+  const { title } = await c.req.json();
+  if (typeof title !== "string") {
+    return c.json({ error: "title is required" }, 400);
+  }
+
+  try {
+    await renameChapter(c.req.param("id"), c.get("userId"), title);
+    return c.json({ success: true });
+  } catch (err) {
+    return editError(c, err);
+  }
+});
+
+// Merge a chapter with the next one in reading order
+// POST /api/chapters/:id/merge-next
+chapterRoutes.post("/:id/merge-next", async (c) => {
+  try {
+    await mergeWithNext(c.req.param("id"), c.get("userId"));
+    return c.json({ success: true });
+  } catch (err) {
+    return editError(c, err);
+  }
+});
+
+// Split a chapter at a character offset of its raw text
+// POST /api/chapters/:id/split  { offset, title }
+chapterRoutes.post("/:id/split", async (c) => {
+  const { offset, title } = await c.req.json();
+  if (typeof offset !== "number" || typeof title !== "string") {
+    return c.json({ error: "offset and title are required" }, 400);
+  }
+
+  try {
+    const chapterId = await splitChapter(c.req.param("id"), c.get("userId"), offset, title);
+    return c.json({ chapterId }, 201);
+  } catch (err) {
+    return editError(c, err);
+  }
+});
+
+// Reorder all chapters of a course
+// PUT /api/chapters/course/:courseId/order  { chapterIds }
+chapterRoutes.put("/course/:courseId/order", async (c) => {
+  const { chapterIds } = await c.req.json();
+  if (!Array.isArray(chapterIds)) {
+    return c.json({ error: "chapterIds is required" }, 400);
+  }
+
+  try {
+    await reorderChapters(c.req.param("courseId"), c.get("userId"), chapterIds);
+    return c.json({ success: true });
+  } catch (err) {
+    return editError(c, err);
+  }
+});
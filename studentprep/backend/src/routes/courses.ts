@@ -1,6 +1,8 @@
 import { Hono } from "hono";
 import { requireAuth } from "../middleware/auth.js";
+import { requireEntitlement, getUserLimits, upgradeRequired } from "../middleware/entitlements.js";
 import { getSupabaseAdmin } from "../services/supabase.js";
+import { resolveMimeType, supportedExtensions } from "../services/extractors.js";
 import type { AuthEnv } from "../types.js";
 
 export const courseRoutes = new Hono<AuthEnv>();
@@ -45,7 +47,7 @@ courseRoutes.get("/:id", async (c) => {
 
   const { data: chapters } = await supabase
     .from("chapters")
-    .select("id, title, summary_main, summary_side, sort_order")
+    .select("id, title, summary_main, summary_side, summary_coverage, questions_coverage, sort_order, parent_id, depth, start_page, end_page, ocr_pages, ocr_confidence")
     .eq("course_id", courseId)
     .order("sort_order");
 
@@ -55,11 +57,13 @@ courseRoutes.get("/:id", async (c) => {
   if (chapterIds.length > 0) {
     const { data, error: qError } = await supabase
       .from("questions")
-      .select("id, chapter_id, type, question, suggested_answer, question_translations, answer_translations")
+      .select(
+        "id, chapter_id, type, question, suggested_answer, question_translations, answer_translations, answer_confidence, answer_issue"
+      )
       .in("chapter_id", chapterIds);
 
     if (qError) {
-      // Fallback: query without translation columns (migration 002 may not be applied)
+      // Fallback: query without translation and verification columns (migrations 002/014 may not be applied)
       const { data: fallbackData } = await supabase
         .from("questions")
         .select("id, chapter_id, type, question, suggested_answer")
@@ -77,8 +81,8 @@ courseRoutes.get("/:id", async (c) => {
   return c.json({ course, chapters: chapters || [], questions });
 });
 
-// Upload course PDF
-courseRoutes.post("/upload", async (c) => {
+// Upload course file (PDF, DOCX, PPTX, Markdown or plain text)
+courseRoutes.post("/upload", requireEntitlement("maxCourses"), async (c) => {
   try {
     const userId = c.get("userId");
     const supabase = getSupabaseAdmin();
@@ -87,11 +91,25 @@ courseRoutes.post("/upload", async (c) => {
     const formData = await c.req.formData();
     const file = formData.get("file") as File | null;
 
-    if (!file || file.type !== "application/pdf") {
-      return c.json({ error: "Please upload a PDF file" }, 400);
+    const mimeType = file ? resolveMimeType(file.name, file.type) : null;
+    if (!file || !mimeType) {
+      const accepted = supportedExtensions().map((ext) => `.${ext}`).join(", ");
+      return c.json({ error: `Please upload a supported file (${accepted})` }, 400);
     }
 
     console.log(`[upload] File: ${file.name} (${file.size} bytes)`);
+    const limits = await getUserLimits(userId);
+    if (file.size > limits.maxFileSizeBytes) {
+      const maxMb = Math.round(limits.maxFileSizeBytes / (1024 * 1024));
+      return c.json(
+        upgradeRequired(
+          "maxFileSizeBytes",
+          `This file is larger than the ${maxMb} MB your plan allows. Upgrade to Pro to upload larger files.`
+        ),
+        403
+      );
+    }
+
     const filename = file.name;
     const storagePath = `${userId}/${Date.now()}-${filename}`;
 
@@ -100,7 +118,7 @@ courseRoutes.post("/upload", async (c) => {
     console.log("[upload] Uploading to Supabase Storage...");
     const { error: uploadError } = await supabase.storage
       .from("course-pdfs")
-      .upload(storagePath, buffer, { contentType: "application/pdf" });
+      .upload(storagePath, buffer, { contentType: mimeType });
 
     if (uploadError) {
       console.error("[upload] Storage error:", uploadError);
@@ -113,9 +131,10 @@ courseRoutes.post("/upload", async (c) => {
       .from("courses")
       .insert({
         user_id: userId,
-        title: filename.replace(/\.pdf$/i, ""),
+        title: filename.replace(/\.[^.]+$/, ""),
         original_filename: filename,
         storage_path: storagePath,
+        mime_type: mimeType,
         status: "uploaded",
       })
       .select()
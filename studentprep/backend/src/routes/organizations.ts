@@ -0,0 +1,164 @@
+import { Hono } from "hono";
+import type { Context } from "hono";
+import { requireAuth } from "../middleware/auth.js";
+import {
+  getMembership,
+  getOrganization,
+  listMembers,
+  listInvitations,
+  getOrgBudget,
+  createOrganization,
+  inviteMember,
+  revokeInvitation,
+  acceptInvitation,
+  removeMember,
+  setMemberRole,
+} from "../services/organizations.js";
+import type { AuthEnv } from "../types.js";
+
+export const organizationRoutes = new Hono<AuthEnv>();
+
+organizationRoutes.use("*", requireAuth);
+
+const NOT_ADMIN = "Only organization admins can do that";
+
+/** Turn an organization error into a response: unknown ids are 404, missing rights 403, the rest 400. */
+function orgError(c: Context<AuthEnv>, err: unknown) {
+  const message = err instanceof Error ? err.message : "Request failed";
+  if (message.endsWith("not found")) {
+    return c.json({ error: message }, 404);
+  }
+  if (message === NOT_ADMIN) {
+    return c.json({ error: message }, 403);
+  }
+  console.error("[organizations]", message);
+  return c.json({ error: message }, 400);
+}
+
+/** Throw unless the user is an owner or admin of the organization. */
+async function assertOrgAdmin(userId: string, orgId: string): Promise<void> {
+  const membership = await getMembership(userId);
+  if (membership?.orgId !== orgId) {
+    throw new Error("Organization not found");
+  }
+  if (membership.role === "member") {
+    throw new Error(NOT_ADMIN);
+  }
+}
+
+function invitationLink(token: string): string {
+  const frontendUrl = process.env.FRONTEND_URL || "http://localhost:5173";
+  return `${frontendUrl}/organization/join/${token}`;
+}
+
+// GET /api/orgs/mine — The user's organization with members, usage and (for admins) open invitations
+organizationRoutes.get("/mine", async (c) => {
+  const userId = c.get("userId");
+  const membership = await getMembership(userId);
+  if (!membership) {
+    return c.json({ organization: null });
+  }
+
+  try {
+    const org = await getOrganization(membership.orgId);
+    const members = await listMembers(org.id);
+    const isAdmin = membership.role !== "member";
+    const invitations = isAdmin ? await listInvitations(org.id) : [];
+    const budget = await getOrgBudget(org);
+
+    return c.json({
+      organization: {
+        id: org.id,
+        name: org.name,
+        seats: org.seats,
+        status: org.status,
+        currentPeriodEnd: org.current_period_end,
+        hasStripeCustomer: Boolean(org.stripe_customer_id),
+      },
+      role: membership.role,
+      // Members only see their own usage
+      members: isAdmin ? members : members.map((m) => (m.userId === userId ? m : { ...m, tokensThisMonth: null })),
+      invitations: invitations.map((i) => ({ ...i, link: invitationLink(i.token) })),
+      budget,
+    });
+  } catch (err) {
+    return orgError(c, err);
+  }
+});
+
+// POST /api/orgs — Create an organization owned by the user
+organizationRoutes.post("/", async (c) => {
+  const { name } = await c.req.json<{ name?: string }>();
+  try {
+    const org = await createOrganization(name || "", c.get("userId"));
+    return c.json({ organization: org }, 201);
+  } catch (err) {
+    return orgError(c, err);
+  }
+});
+
+// POST /api/orgs/:orgId/invitations — Invite someone by email; returns the link to send them
+organizationRoutes.post("/:orgId/invitations", async (c) => {
+  const orgId = c.req.param("orgId");
+  const { email } = await c.req.json<{ email?: string }>();
+  try {
+    await assertOrgAdmin(c.get("userId"), orgId);
+    const invitation = await inviteMember(orgId, email || "", c.get("userId"));
+    return c.json({ invitation: { ...invitation, link: invitationLink(invitation.token) } }, 201);
+  } catch (err) {
+    return orgError(c, err);
+  }
+});
+
+// DELETE /api/orgs/:orgId/invitations/:invitationId — Revoke an invitation, freeing its seat
+organizationRoutes.delete("/:orgId/invitations/:invitationId", async (c) => {
+  const orgId = c.req.param("orgId");
+  try {
+    await assertOrgAdmin(c.get("userId"), orgId);
+    await revokeInvitation(orgId, c.req.param("invitationId"));
+    return c.json({ success: true });
+  } catch (err) {
+    return orgError(c, err);
+  }
+});
+
+// POST /api/orgs/join/:token — Accept an invitation
+organizationRoutes.post("/join/:token", async (c) => {
+  try {
+    const org = await acceptInvitation(c.req.param("token"), c.get("userId"), c.get("userEmail"));
+    return c.json({ organization: { id: org.id, name: org.name } });
+  } catch (err) {
+    return orgError(c, err);
+  }
+});
+
+// PUT /api/orgs/:orgId/members/:userId/role — Make a member an admin, or back
+organizationRoutes.put("/:orgId/members/:userId/role", async (c) => {
+  const orgId = c.req.param("orgId");
+  const { role } = await c.req.json<{ role?: string }>();
+  if (role !== "admin" && role !== "member") {
+    return c.json({ error: "Invalid role. Must be 'admin' or 'member'" }, 400);
+  }
+  try {
+    await assertOrgAdmin(c.get("userId"), orgId);
+    await setMemberRole(orgId, c.req.param("userId"), role);
+    return c.json({ success: true });
+  } catch (err) {
+    return orgError(c, err);
+  }
+});
+
+// DELETE /api/orgs/:orgId/members/:userId — Remove a member (admins), or leave (yourself)
+organizationRoutes.delete("/:orgId/members/:userId", async (c) => {
+  const orgId = c.req.param("orgId");
+  const memberId = c.req.param("userId");
+  try {
+    if (memberId !== c.get("userId")) {
+      await assertOrgAdmin(c.get("userId"), orgId);
+    }
+    await removeMember(orgId, memberId);
+    return c.json({ success: true });
+  } catch (err) {
+    return orgError(c, err);
+  }
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { paymentRoutes } from "./payments.js";
+import { EVENT_IN_PROGRESS, processStripeEvent } from "../services/stripe-events.js";
+
+vi.mock("../services/supabase.js", () => import("../test/fake-supabase.js"));
+vi.mock("../services/stripe-events.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../services/stripe-events.js")>()),
+  getStripe: () => ({
+    webhooks: { constructEvent: () => ({ id: "evt_1", type: "customer.subscription.updated" }) },
+  }),
+  processStripeEvent: vi.fn(),
+}));
+
+function deliver() {
+  return paymentRoutes.request("/webhook", {
+    method: "POST",
+    headers: { "stripe-signature": "t=1,v1=signature" },
+    body: "{}",
+  });
+}
+
+describe("POST /webhook", () => {
+  beforeEach(() => {
+    vi.stubEnv("STRIPE_WEBHOOK_SECRET", "whsec_test");
+    vi.mocked(processStripeEvent).mockReset();
+  });
+
+  it("acknowledges a processed event", async () => {
+    vi.mocked(processStripeEvent).mockResolvedValue({ status: "processed" });
+
+    const res = await deliver();
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ received: true, duplicate: false });
+  });
+
+  it("acknowledges a duplicate delivery of a handled event", async () => {
+    vi.mocked(processStripeEvent).mockResolvedValue(null);
+
+    const res = await deliver();
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ received: true, duplicate: true });
+  });
+
+  it("answers 409 while another attempt is processing the event, so Stripe retries it", async () => {
+    vi.mocked(processStripeEvent).mockRejectedValue(new Error(EVENT_IN_PROGRESS));
+
+    const res = await deliver();
+
+    expect(res.status).toBe(409);
+  });
+
+  it("answers 500 for a failed event, so Stripe retries it", async () => {
+    vi.mocked(processStripeEvent).mockResolvedValue({ status: "failed", error: "Stripe is down" });
+
+    const res = await deliver();
+
+    expect(res.status).toBe(500);
+  });
+});
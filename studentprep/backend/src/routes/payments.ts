@@ -1,20 +1,25 @@
 import { Hono } from "hono";
-import Stripe from "stripe";
+import type { Context } from "hono";
+import type Stripe from "stripe";
 import { requireAuth } from "../middleware/auth.js";
-import { getUserSubscription, getMonthlyTokenUsage } from "../services/subscription.js";
-import { getLimits } from "../config/tierLimits.js";
+import { getUserSubscription, getBudgetUsage, getTokenBudget } from "../services/subscription.js";
+import { getMembership, getOrganization, type Organization } from "../services/organizations.js";
+import { getLimits, serializeLimits } from "../config/tierLimits.js";
+import { DEFAULT_TRIAL_DAYS, isBillingInterval, isStudentEmail, type BillingInterval } from "../config/billing.js";
 import { getSupabaseAdmin } from "../services/supabase.js";
+import { EVENT_IN_PROGRESS, getStripe, processStripeEvent } from "../services/stripe-events.js";
 import type { AuthEnv } from "../types.js";
 
 export const paymentRoutes = new Hono<AuthEnv>();
 
-function getStripe(): Stripe {
-  const key = process.env.STRIPE_SECRET_KEY;
-  if (!key) throw new Error("STRIPE_SECRET_KEY is not configured");
-  return new Stripe(key, { apiVersion: "2025-01-27.acacia" as Stripe.LatestApiVersion });
-}
-
 const PRO_PRICE_ID = process.env.STRIPE_PRO_PRICE_ID || "";
+const PRO_ANNUAL_PRICE_ID = process.env.STRIPE_PRO_ANNUAL_PRICE_ID || "";
+/** Coupon applied at checkout for users with a student email address. */
+const STUDENT_COUPON_ID = process.env.STRIPE_STUDENT_COUPON_ID || "";
+const TRIAL_DAYS = process.env.STRIPE_TRIAL_DAYS ? parseInt(process.env.STRIPE_TRIAL_DAYS) || 0 : DEFAULT_TRIAL_DAYS;
+/** Per-seat price of the team plan; the subscription quantity is the number of seats. */
+const TEAM_PRICE_ID = process.env.STRIPE_TEAM_PRICE_ID || "";
+const MAX_SEATS = 200;
 
 /**
  * Find or create a Stripe customer for the given user.
@@ -57,6 +62,64 @@ async function getOrCreateStripeCustomer(
   return customer.id;
 }
 
+/**
+ * Trial days for a user's Pro checkout: only a first subscription gets a
+ * trial, so cancelling and subscribing again doesn't start another one.
+ */
+async function trialDaysFor(stripe: Stripe, userId: string): Promise<number> {
+  if (TRIAL_DAYS <= 0) return 0;
+
+  const supabase = getSupabaseAdmin();
+  const { data: sub } = await supabase
+    .from("subscriptions")
+    .select("stripe_customer_id")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (!sub?.stripe_customer_id) return TRIAL_DAYS;
+  const previous = await stripe.subscriptions.list({ customer: sub.stripe_customer_id, status: "all", limit: 1 });
+  return previous.data.length > 0 ? 0 : TRIAL_DAYS;
+}
+
+/** A Pro price as Stripe bills it, in the smallest unit of its currency (e.g. cents). */
+interface ProPrice {
+  amount: number;
+  currency: string;
+}
+
+/** The amount of a Pro price, or null when it isn't configured or can't be loaded. */
+async function retrieveProPrice(stripe: Stripe, priceId: string): Promise<ProPrice | null> {
+  if (!priceId) return null;
+  try {
+    const price = await stripe.prices.retrieve(priceId);
+    return price.unit_amount === null ? null : { amount: price.unit_amount, currency: price.currency };
+  } catch (err) {
+    console.error(`Failed to load price ${priceId}:`, err instanceof Error ? err.message : err);
+    return null;
+  }
+}
+
+/**
+ * Find or create the Stripe customer of an organization. Organizations are
+ * billed separately from their members' own subscriptions.
+ */
+async function getOrCreateOrgStripeCustomer(stripe: Stripe, org: Organization, email: string): Promise<string> {
+  if (org.stripe_customer_id) {
+    return org.stripe_customer_id;
+  }
+
+  const customer = await stripe.customers.create({
+    email,
+    name: org.name,
+    metadata: { organization_id: org.id },
+  });
+
+  const supabase = getSupabaseAdmin();
+  await supabase.from("organizations").update({ stripe_customer_id: customer.id }).eq("id", org.id);
+
+  return customer.id;
+}
+
 // ─── Stripe Webhook (no auth — Stripe calls this directly) ───────────────
 
 paymentRoutes.post("/webhook", async (c) => {
@@ -83,144 +146,125 @@ paymentRoutes.post("/webhook", async (c) => {
     return c.json({ error: `Webhook Error: ${message}` }, 400);
   }
 
-  const supabase = getSupabaseAdmin();
-
-  switch (event.type) {
-    case "checkout.session.completed": {
-      const session = event.data.object as Stripe.Checkout.Session;
-      const customerId =
-        typeof session.customer === "string"
-          ? session.customer
-          : session.customer?.id;
-      const subscriptionId =
-        typeof session.subscription === "string"
-          ? session.subscription
-          : session.subscription?.id;
-
-      if (customerId && subscriptionId) {
-        // Retrieve the subscription to get period end
-        const subscription = await stripe.subscriptions.retrieve(subscriptionId);
-
-        await supabase
-          .from("subscriptions")
-          .update({
-            stripe_subscription_id: subscriptionId,
-            plan: "pro",
-            status: "active",
-            current_period_end: new Date(
-              subscription.current_period_end * 1000
-            ).toISOString(),
-          })
-          .eq("stripe_customer_id", customerId);
-
-        console.log(`Subscription activated for customer ${customerId}`);
-      }
-      break;
+  let result: Awaited<ReturnType<typeof processStripeEvent>>;
+  try {
+    result = await processStripeEvent(stripe, event);
+  } catch (err) {
+    if (err instanceof Error && err.message === EVENT_IN_PROGRESS) {
+      // Not a 2xx, so Stripe delivers the event again later instead of dropping it
+      return c.json({ error: EVENT_IN_PROGRESS }, 409);
     }
+    throw err;
+  }
+  if (result?.status === "failed") {
+    // Stripe retries the delivery; the retry processes the event again
+    return c.json({ error: `Webhook processing failed: ${result.error}` }, 500);
+  }
 
-    case "customer.subscription.updated": {
-      const subscription = event.data.object as Stripe.Subscription;
-      const customerId =
-        typeof subscription.customer === "string"
-          ? subscription.customer
-          : subscription.customer?.id;
-
-      if (customerId) {
-        const status = subscription.status;
-        const plan =
-          status === "active" || status === "trialing" ? "pro" : "free";
-
-        await supabase
-          .from("subscriptions")
-          .update({
-            plan,
-            status:
-              status === "active"
-                ? "active"
-                : status === "past_due"
-                  ? "past_due"
-                  : status === "canceled"
-                    ? "cancelled"
-                    : "inactive",
-            current_period_end: new Date(
-              subscription.current_period_end * 1000
-            ).toISOString(),
-          })
-          .eq("stripe_customer_id", customerId);
-
-        console.log(
-          `Subscription updated for customer ${customerId}: ${status}`
-        );
-      }
-      break;
-    }
+  return c.json({ received: true, duplicate: result === null });
+});
 
-    case "customer.subscription.deleted": {
-      const subscription = event.data.object as Stripe.Subscription;
-      const customerId =
-        typeof subscription.customer === "string"
-          ? subscription.customer
-          : subscription.customer?.id;
-
-      if (customerId) {
-        await supabase
-          .from("subscriptions")
-          .update({
-            plan: "free",
-            status: "cancelled",
-            stripe_subscription_id: null,
-            current_period_end: null,
-          })
-          .eq("stripe_customer_id", customerId);
-
-        console.log(`Subscription cancelled for customer ${customerId}`);
-      }
-      break;
-    }
+// ─── Authenticated routes ────────────────────────────────────────────────
 
-    case "invoice.payment_failed": {
-      const invoice = event.data.object as Stripe.Invoice;
-      const customerId =
-        typeof invoice.customer === "string"
-          ? invoice.customer
-          : invoice.customer?.id;
-
-      if (customerId) {
-        await supabase
-          .from("subscriptions")
-          .update({ status: "past_due" })
-          .eq("stripe_customer_id", customerId);
-
-        console.log(`Payment failed for customer ${customerId}`);
-      }
-      break;
-    }
+/** Checkout for an organization: one team subscription, with a quantity of seats. */
+async function teamCheckout(c: Context<AuthEnv>, stripe: Stripe, orgId: string, seats?: number) {
+  if (!TEAM_PRICE_ID) {
+    return c.json({ error: "Stripe is not fully configured. STRIPE_TEAM_PRICE_ID is missing." }, 503);
+  }
 
-    default:
-      // Unhandled event type — log and acknowledge
-      console.log(`Unhandled Stripe event: ${event.type}`);
+  const membership = await getMembership(c.get("userId"));
+  if (membership?.orgId !== orgId || membership.role === "member") {
+    return c.json({ error: "Only organization admins can buy seats" }, 403);
   }
 
-  return c.json({ received: true });
-});
+  const org = await getOrganization(orgId);
+  if (org.status === "active") {
+    return c.json({ error: "This organization already has a subscription. Change its seats under Manage billing." }, 400);
+  }
+  if (!Number.isInteger(seats) || seats! < 1 || seats! > MAX_SEATS) {
+    return c.json({ error: `seats must be a whole number between 1 and ${MAX_SEATS}` }, 400);
+  }
+
+  const customerId = await getOrCreateOrgStripeCustomer(stripe, org, c.get("userEmail"));
+  const frontendUrl = process.env.FRONTEND_URL || "http://localhost:5173";
+
+  const session = await stripe.checkout.sessions.create({
+    customer: customerId,
+    mode: "subscription",
+    line_items: [{ price: TEAM_PRICE_ID, quantity: seats, adjustable_quantity: { enabled: true, minimum: 1, maximum: MAX_SEATS } }],
+    success_url: `${frontendUrl}/organization?checkout=success`,
+    cancel_url: `${frontendUrl}/organization`,
+    subscription_data: {
+      metadata: { organization_id: orgId },
+    },
+  });
+
+  return c.json({ url: session.url });
+}
 
-// ─── Authenticated routes ────────────────────────────────────────────────
 
 paymentRoutes.use("/checkout", requireAuth);
+paymentRoutes.use("/checkout-options", requireAuth);
 paymentRoutes.use("/status", requireAuth);
 paymentRoutes.use("/portal", requireAuth);
 
-// Create Stripe Checkout session for Pro subscription
+// GET /api/payments/checkout-options — What a Pro checkout offers this user:
+// the prices of annual and monthly billing, a free trial, the student
+// discount or promotion codes
+paymentRoutes.get("/checkout-options", async (c) => {
+  const stripe = getStripe();
+  const studentDiscount = Boolean(STUDENT_COUPON_ID) && isStudentEmail(c.get("userEmail"));
+
+  let studentPercentOff: number | null = null;
+  if (studentDiscount) {
+    try {
+      studentPercentOff = (await stripe.coupons.retrieve(STUDENT_COUPON_ID)).percent_off;
+    } catch (err) {
+      console.error("Failed to load student coupon:", err instanceof Error ? err.message : err);
+    }
+  }
+
+  const [month, year] = await Promise.all([
+    retrieveProPrice(stripe, PRO_PRICE_ID),
+    retrieveProPrice(stripe, PRO_ANNUAL_PRICE_ID),
+  ]);
+
+  return c.json({
+    intervals: PRO_ANNUAL_PRICE_ID ? ["month", "year"] : ["month"],
+    prices: { month, year },
+    trialDays: await trialDaysFor(stripe, c.get("userId")),
+    studentDiscount: studentDiscount ? { percentOff: studentPercentOff } : null,
+    // Stripe takes either a discount or promotion codes, not both
+    promotionCodes: !studentDiscount,
+  });
+});
+
+// Create Stripe Checkout session for Pro subscription ({ interval }, monthly
+// by default), or for the seats of an organization when the body names one:
+// { organizationId, seats }
 paymentRoutes.post("/checkout", async (c) => {
   const stripe = getStripe();
   const userId = c.get("userId");
   const userEmail = c.get("userEmail");
+  const body: { organizationId?: string; seats?: number; interval?: BillingInterval } = await c.req
+    .json()
+    .catch(() => ({}));
 
-  if (!PRO_PRICE_ID) {
+  if (body.organizationId) {
+    return teamCheckout(c, stripe, body.organizationId, body.seats);
+  }
+
+  const interval = body.interval ?? "month";
+  if (!isBillingInterval(interval)) {
+    return c.json({ error: "Invalid interval. Must be 'month' or 'year'" }, 400);
+  }
+  const priceId = interval === "year" ? PRO_ANNUAL_PRICE_ID : PRO_PRICE_ID;
+  if (!priceId) {
     return c.json(
       {
-        error:
-          "Stripe is not fully configured. STRIPE_PRO_PRICE_ID is missing.",
+        error: `Stripe is not fully configured. ${
+          interval === "year" ? "STRIPE_PRO_ANNUAL_PRICE_ID" : "STRIPE_PRO_PRICE_ID"
+        } is missing.`,
       },
       503
     );
@@ -233,15 +277,21 @@ paymentRoutes.post("/checkout", async (c) => {
   );
 
   const frontendUrl = process.env.FRONTEND_URL || "http://localhost:5173";
+  const trialDays = await trialDaysFor(stripe, userId);
+  const studentDiscount = Boolean(STUDENT_COUPON_ID) && isStudentEmail(userEmail);
 
   const session = await stripe.checkout.sessions.create({
     customer: customerId,
     mode: "subscription",
-    line_items: [{ price: PRO_PRICE_ID, quantity: 1 }],
+    line_items: [{ price: priceId, quantity: 1 }],
     success_url: `${frontendUrl}/checkout/success?session_id={CHECKOUT_SESSION_ID}`,
     cancel_url: `${frontendUrl}/pricing`,
+    ...(studentDiscount
+      ? { discounts: [{ coupon: STUDENT_COUPON_ID }] }
+      : { allow_promotion_codes: true }),
     subscription_data: {
       metadata: { supabase_user_id: userId },
+      ...(trialDays > 0 ? { trial_period_days: trialDays } : {}),
     },
   });
 
@@ -253,54 +303,72 @@ paymentRoutes.get("/status", async (c) => {
   const userId = c.get("userId");
   const sub = await getUserSubscription(userId);
   const limits = getLimits(sub.plan);
-  const tokenUsage = await getMonthlyTokenUsage(userId);
+  const budget = getTokenBudget(sub);
+  const tokenUsage = await getBudgetUsage(userId, sub);
 
   // Also get current_period_end for display
   const supabase = getSupabaseAdmin();
   const { data: subRecord } = await supabase
     .from("subscriptions")
-    .select("current_period_end, stripe_customer_id")
+    .select("current_period_end, stripe_customer_id, trial_end, billing_interval")
     .eq("user_id", userId)
     .single();
 
+  const { count: courseCount } = await supabase
+    .from("courses")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId);
+
   return c.json({
     plan: sub.plan,
     status: sub.status,
     currentPeriodEnd: subRecord?.current_period_end || null,
+    trialEnd: sub.status === "trialing" ? subRecord?.trial_end || null : null,
+    billingInterval: subRecord?.billing_interval || null,
     hasStripeCustomer: Boolean(subRecord?.stripe_customer_id),
-    limits: {
-      maxTokensPerMonth:
-        limits.maxTokensPerMonth === Infinity
-          ? null
-          : limits.maxTokensPerMonth,
-    },
+    // Organization members see the pooled budget of all seats
+    limits: { ...serializeLimits(limits), maxTokensPerMonth: budget === Infinity ? null : budget },
+    organizationId: sub.orgId ?? null,
     usage: {
       tokensThisMonth: tokenUsage,
+      courses: courseCount ?? 0,
     },
   });
 });
 
 // Create Stripe Customer Portal session for managing subscription
+// With { organizationId } in the body, opens the organization's billing (for its admins)
 paymentRoutes.post("/portal", async (c) => {
   const stripe = getStripe();
   const userId = c.get("userId");
+  const { organizationId }: { organizationId?: string } = await c.req.json().catch(() => ({}));
 
   const supabase = getSupabaseAdmin();
-  const { data: sub } = await supabase
-    .from("subscriptions")
-    .select("stripe_customer_id")
-    .eq("user_id", userId)
-    .single();
+  let customerId: string | null | undefined;
+  if (organizationId) {
+    const membership = await getMembership(userId);
+    if (membership?.orgId !== organizationId || membership.role === "member") {
+      return c.json({ error: "Only organization admins can manage its billing" }, 403);
+    }
+    customerId = (await getOrganization(organizationId)).stripe_customer_id;
+  } else {
+    const { data: sub } = await supabase
+      .from("subscriptions")
+      .select("stripe_customer_id")
+      .eq("user_id", userId)
+      .single();
+    customerId = sub?.stripe_customer_id;
+  }
 
-  if (!sub?.stripe_customer_id) {
+  if (!customerId) {
     return c.json({ error: "No active subscription found" }, 404);
   }
 
   const frontendUrl = process.env.FRONTEND_URL || "http://localhost:5173";
 
   const session = await stripe.billingPortal.sessions.create({
-    customer: sub.stripe_customer_id,
-    return_url: `${frontendUrl}/dashboard`,
+    customer: customerId,
+    return_url: `${frontendUrl}/${organizationId ? "organization" : "dashboard"}`,
   });
 
   return c.json({ url: session.url });
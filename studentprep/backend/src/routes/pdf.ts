@@ -1,7 +1,9 @@
 import { Hono } from "hono";
 import { requireAuth } from "../middleware/auth.js";
+import { requireEntitlement } from "../middleware/entitlements.js";
 import type { AuthEnv } from "../types.js";
 import { getSupabaseAdmin } from "../services/supabase.js";
+import { collectSubtrees, outlineNumbers } from "../services/chapter-tree.js";
 import {
   generateHighlightedPdf,
   type ChapterPdfData,
@@ -11,7 +13,7 @@ export const pdfRoutes = new Hono<AuthEnv>();
 
 pdfRoutes.use("*", requireAuth);
 
-pdfRoutes.post("/highlighted/:courseId", async (c) => {
+pdfRoutes.post("/highlighted/:courseId", requireEntitlement("pdfExport"), async (c) => {
   const courseId = c.req.param("courseId");
   const userId = c.get("userId");
   const supabase = getSupabaseAdmin();
@@ -38,21 +40,37 @@ pdfRoutes.post("/highlighted/:courseId", async (c) => {
     );
   }
 
+  // Optional body { chapterIds }: export only these parts/chapters and their sections
+  const body = await c.req.json().catch(() => ({}));
+  const chapterIds: string[] | undefined = body?.chapterIds;
+
   // Fetch chapters with summaries
-  const { data: chapters, error: chapErr } = await supabase
+  const { data: allChapters, error: chapErr } = await supabase
     .from("chapters")
-    .select("title, sort_order, summary_main, summary_side")
+    .select("id, parent_id, depth, title, sort_order, summary_main, summary_side")
     .eq("course_id", courseId)
     .order("sort_order", { ascending: true });
 
+  const chapters = chapterIds?.length
+    ? collectSubtrees(allChapters || [], chapterIds)
+    : allChapters;
+
   if (chapErr || !chapters || chapters.length === 0) {
     return c.json({ error: "No chapters found for this course" }, 404);
   }
 
+  // Number against the whole course so "2.1" stays "2.1" in a partial export
+  const numbers = outlineNumbers(allChapters || []);
+  const minDepth = Math.min(...chapters.map((ch) => ch.depth));
+
   // Generate PDF
   const pdfBuffer = await generateHighlightedPdf(
     course.title,
-    chapters as ChapterPdfData[]
+    chapters.map((ch) => ({
+      ...ch,
+      number: numbers.get(ch.id),
+      depth: ch.depth - minDepth,
+    })) as ChapterPdfData[]
   );
 
   // Return as downloadable PDF
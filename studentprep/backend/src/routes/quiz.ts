@@ -1,6 +1,8 @@
 import { Hono } from "hono";
 import { requireAuth } from "../middleware/auth.js";
+import { requireEntitlement } from "../middleware/entitlements.js";
 import { getSupabaseAdmin } from "../services/supabase.js";
+import { collectSubtrees } from "../services/chapter-tree.js";
 import type { AuthEnv } from "../types.js";
 
 export const quizRoutes = new Hono<AuthEnv>();
@@ -13,15 +15,15 @@ quizRoutes.post("/generate", async (c) => {
   const supabase = getSupabaseAdmin();
 
   const body = await c.req.json();
-  const { chapterIds, courseId } = body;
+  const { chapterIds: requestedIds, courseId } = body;
 
-  if (!chapterIds?.length || !courseId) {
+  if (!requestedIds?.length || !courseId) {
     return c.json({ error: "chapterIds and courseId are required" }, 400);
   }
 
   const { data: courseChapters, error: courseChaptersError } = await supabase
     .from("chapters")
-    .select("id")
+    .select("id, parent_id, depth, sort_order")
     .eq("course_id", courseId);
 
   if (courseChaptersError) {
@@ -31,6 +33,8 @@ quizRoutes.post("/generate", async (c) => {
   const courseChapterIds = new Set(
     (courseChapters || []).map((chapter: { id: string }) => chapter.id)
   );
+  // Selecting a part or chapter includes all of its sections
+  const chapterIds = collectSubtrees(courseChapters || [], requestedIds).map((ch) => ch.id);
 
   // Get questions for selected chapters (new material)
   const { data: newQuestions } = await supabase
@@ -106,7 +110,7 @@ quizRoutes.post("/generate", async (c) => {
 });
 
 // Submit quiz answers and get score
-quizRoutes.post("/submit", async (c) => {
+quizRoutes.post("/submit", requireEntitlement("quizGrading"), async (c) => {
   const userId = c.get("userId");
   const supabase = getSupabaseAdmin();
 
@@ -160,7 +164,7 @@ quizRoutes.get("/history/:courseId", async (c) => {
   // Get all sessions for this course's chapters
   const { data: chapters } = await supabase
     .from("chapters")
-    .select("id")
+    .select("id, parent_id, depth, sort_order")
     .eq("course_id", courseId);
 
   if (!chapters?.length) {
@@ -2,6 +2,7 @@ import { Hono } from "hono";
 import { requireAuth } from "../middleware/auth.js";
 import { getSupabaseAdmin } from "../services/supabase.js";
 import { lookupWikipedia } from "../services/wikipedia.js";
+import { chapterRoutes } from "./chapters.js";
 import type { AuthEnv } from "../types.js";
 
 export const wikiRoutes = new Hono<AuthEnv>();
@@ -9,6 +10,9 @@ export const wikiRoutes = new Hono<AuthEnv>();
 // All routes require authentication
 wikiRoutes.use("*", requireAuth);
 
+// Chapter editor: rename, merge, split and reorder (see chapters.ts)
+wikiRoutes.route("/", chapterRoutes);
+
 // Lookup a topic on Wikipedia for a given chapter
 // GET /api/chapters/:id/wiki/:topic
 wikiRoutes.get("/:id/wiki/:topic", async (c) => {
@@ -0,0 +1,304 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  anchorSummary,
+  chapterQuestionsCalls,
+  chapterSummaryCalls,
+  generateQuestions,
+  mergeSummaries,
+  splitIntoChunks,
+  type ChapterSummary,
+} from "./ai-pipeline.js";
+import { DEFAULT_ROUTING } from "../config/modelRoutes.js";
+import { askLLMStructured, type LLMUsage } from "./llm-provider.js";
+
+vi.mock("./llm-provider.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./llm-provider.js")>()),
+  askLLMStructured: vi.fn(),
+}));
+
+const USAGE: LLMUsage = {
+  input_tokens: 100,
+  output_tokens: 50,
+  cache_creation_input_tokens: 0,
+  cache_read_input_tokens: 0,
+  model: "claude-haiku-4-5-20251001",
+};
+
+/** Paragraphs numbered from `first`, about `chars` characters in total. */
+function paragraphs(chars: number, first = 1): string {
+  const out: string[] = [];
+  for (let n = first, length = 0; length < chars; n++) {
+    const paragraph = `Paragraph ${n}. ${"Cells divide and grow. ".repeat(20)}`;
+    out.push(paragraph);
+    length += paragraph.length + 2;
+  }
+  return out.join("\n\n");
+}
+
+type Topic = ChapterSummary["main_topics"][number];
+
+function topic(name: string, fields: Partial<Topic> = {}): Topic {
+  return { topic: name, explanation: `About ${name}.`, key_terms: [], importance: "supporting", ...fields };
+}
+
+function summary(fields: Partial<ChapterSummary>): ChapterSummary {
+  return { source_language: "en", main_topics: [], side_topics: [], prerequisites: [], connections: [], ...fields };
+}
+
+describe("splitIntoChunks", () => {
+  it("keeps a short text in one chunk", () => {
+    expect(splitIntoChunks("A short chapter.")).toEqual([{ text: "A short chapter.", start: 0, end: 16 }]);
+  });
+
+  it("cuts a long text into overlapping chunks at paragraph breaks", () => {
+    const text = paragraphs(150_000);
+
+    const chunks = splitIntoChunks(text);
+
+    expect(chunks.length).toBe(3);
+    expect(chunks[0].start).toBe(0);
+    expect(chunks[chunks.length - 1].end).toBe(text.length);
+    for (const [i, chunk] of chunks.entries()) {
+      expect(chunk.text).toBe(text.slice(chunk.start, chunk.end));
+      expect(chunk.text.length).toBeLessThanOrEqual(60_000);
+      if (i > 0) expect(chunk.start).toBeLessThan(chunks[i - 1].end);
+      if (i < chunks.length - 1) expect(text.slice(chunk.end, chunk.end + 2)).toBe("\n\n");
+    }
+  });
+
+  it("stops after the maximum number of chunks", () => {
+    const text = paragraphs(300_000);
+
+    const chunks = splitIntoChunks(text, 2);
+
+    expect(chunks.length).toBe(2);
+    expect(chunks[1].end).toBeLessThan(text.length);
+  });
+});
+
+describe("mergeSummaries", () => {
+  it("merges a topic summarized in two chunks", () => {
+    const merged = mergeSummaries([
+      summary({
+        main_topics: [
+          topic("Mitosis", { key_terms: [{ term: "Spindle", definition: "Pulls chromosomes apart" }] }),
+        ],
+      }),
+      summary({
+        main_topics: [
+          topic("mitosis", {
+            explanation: "About mitosis, in much more detail.",
+            importance: "critical",
+            key_terms: [
+              { term: "spindle", definition: "Defined again" },
+              { term: "Centromere", definition: "Joins sister chromatids" },
+            ],
+          }),
+        ],
+      }),
+    ]);
+
+    expect(merged.main_topics).toEqual([
+      topic("Mitosis", {
+        explanation: "About mitosis, in much more detail.",
+        importance: "critical",
+        key_terms: [
+          { term: "Spindle", definition: "Pulls chromosomes apart" },
+          { term: "Centromere", definition: "Joins sister chromatids" },
+        ],
+      }),
+    ]);
+  });
+
+  it("keeps the topics of every chunk in reading order", () => {
+    const merged = mergeSummaries([
+      summary({ main_topics: [topic("Cells"), topic("Membranes")] }),
+      summary({ main_topics: [topic("Membranes"), topic("Mitosis")] }),
+    ]);
+
+    expect(merged.main_topics.map((t) => t.topic)).toEqual(["Cells", "Membranes", "Mitosis"]);
+  });
+
+  it("drops side topics that another chunk covers as a main topic", () => {
+    const merged = mergeSummaries([
+      summary({ side_topics: [{ topic: "Microscopy", explanation: "Tools." }, { topic: "History", explanation: "Old." }] }),
+      summary({ main_topics: [topic("Microscopy")], side_topics: [{ topic: "history", explanation: "Again." }] }),
+    ]);
+
+    expect(merged.side_topics).toEqual([{ topic: "History", explanation: "Old." }]);
+  });
+
+  it("takes the language most chunks were written in", () => {
+    const merged = mergeSummaries([
+      summary({ source_language: "nl" }),
+      summary({ source_language: "en" }),
+      summary({ source_language: "nl" }),
+    ]);
+
+    expect(merged.source_language).toBe("nl");
+  });
+});
+
+describe("anchorSummary", () => {
+  const text = [
+    "Cells are the basic unit of life.",
+    "During mitosis the nucleus divides into two\nidentical daughter nuclei.",
+    "The spindle pulls the chromosomes apart.",
+  ].join("\n\n");
+  const pages = { startPage: 7, pageOffsets: [text.indexOf("During"), text.indexOf("The spindle")] };
+
+  it("anchors a quote to its place and page in the chapter", () => {
+    const quote = "The spindle pulls the chromosomes apart.";
+
+    const [anchored] = anchorSummary(
+      summary({ main_topics: [{ ...topic("Spindle"), source_quote: quote }] }),
+      text,
+      pages
+    ).main_topics;
+
+    const start = text.indexOf(quote);
+    expect(anchored.source).toEqual({ start, end: start + quote.length, page: 9 });
+    expect(anchored).not.toHaveProperty("source_quote");
+  });
+
+  it("matches a quote across a line break of the chapter text", () => {
+    const quote = "divides into two identical daughter nuclei";
+
+    const [anchored] = anchorSummary(
+      summary({ main_topics: [{ ...topic("Mitosis"), source_quote: quote }] }),
+      text,
+      pages
+    ).main_topics;
+
+    const { start, end, page } = anchored.source!;
+    expect(text.slice(start, end)).toBe("divides into two\nidentical daughter nuclei");
+    expect(page).toBe(8);
+  });
+
+  it("drops quotes that aren't in the text and falls back to a key term's first mention", () => {
+    const [anchored] = anchorSummary(
+      summary({
+        main_topics: [
+          {
+            ...topic("Mitosis", {
+              key_terms: [
+                { term: "mitosis", definition: "Nuclear division", source_quote: "Mitosis is made up" },
+                { term: "Meiosis", definition: "Halves the chromosomes", source_quote: "Never said" },
+              ],
+            }),
+            source_quote: "A sentence the model made up.",
+          },
+        ],
+      }),
+      text
+    ).main_topics;
+
+    expect(anchored.source).toBeUndefined();
+    expect(anchored.key_terms[0].source).toEqual({
+      start: text.indexOf("mitosis"),
+      end: text.indexOf("mitosis") + "mitosis".length,
+    });
+    expect(anchored.key_terms[1]).toEqual({ term: "Meiosis", definition: "Halves the chromosomes" });
+  });
+});
+
+describe("generateQuestions", () => {
+  beforeEach(() => {
+    vi.mocked(askLLMStructured).mockReset();
+    vi.mocked(askLLMStructured).mockImplementation(async (_system, prompt, tool) => {
+      const { context } = prompt as { context: string; prompt: string };
+      if (tool.name === "record_checks") {
+        return { ok: true, data: { checks: [{ id: 1, confidence: 1 }] }, usage: USAGE } as any;
+      }
+      // Ask about the first paragraph the call was sent
+      const about = context.match(/Paragraph \d+/)![0];
+      return {
+        ok: true,
+        data: {
+          exam_questions: [
+            {
+              question: `What happens in ${about}?`,
+              suggested_answer: "Cells divide and grow.",
+              bloom_level: "remember",
+              difficulty: 1,
+              related_topic: about,
+            },
+          ],
+          discussion_questions: [{ question: `Why ${about}?`, why_useful: "Curiosity.", related_topic: about }],
+        },
+        usage: USAGE,
+      } as any;
+    });
+  });
+
+  function questionPrompts() {
+    return vi
+      .mocked(askLLMStructured)
+      .mock.calls.filter(([, , tool]) => tool.name === "record_questions")
+      .map(([, prompt]) => prompt as { context: string; prompt: string });
+  }
+
+  it("asks about every part of a long chapter", async () => {
+    const text = paragraphs(150_000);
+    const chunks = splitIntoChunks(text);
+
+    const questions = await generateQuestions("Cell division", text);
+
+    const prompts = questionPrompts();
+    expect(prompts.length).toBe(chunks.length);
+    prompts.forEach(({ context, prompt }, i) => {
+      expect(context).toContain(chunks[i].text);
+      expect(prompt).toContain(`part ${i + 1} of ${chunks.length}`);
+      expect(prompt).toContain("EXAM QUESTIONS (generate 3)");
+    });
+    expect(questions.exam_questions.map((q) => q.related_topic)).toEqual(
+      chunks.map((chunk) => chunk.text.match(/Paragraph \d+/)![0])
+    );
+    expect(questions.exam_questions.every((q) => q.confidence === 1)).toBe(true);
+    expect(questions.discussion_questions.length).toBe(chunks.length);
+    expect(questions.coverage).toBe(1);
+  });
+
+  it("asks for the whole set in one call for a short chapter", async () => {
+    const questions = await generateQuestions("Cell division", paragraphs(2_000));
+
+    const prompts = questionPrompts();
+    expect(prompts.length).toBe(1);
+    expect(prompts[0].prompt).toContain("EXAM QUESTIONS (generate 8)");
+    expect(prompts[0].prompt).not.toContain("part 1");
+    expect(questions.coverage).toBe(1);
+  });
+
+  it("records the coverage of a chapter beyond the chunk limit", async () => {
+    const text = paragraphs(600_000);
+
+    const questions = await generateQuestions("Cell division", text);
+
+    const covered = splitIntoChunks(text).at(-1)!.end;
+    expect(questionPrompts().length).toBe(8);
+    expect(questions.coverage).toBeCloseTo(covered / text.length);
+    expect(questions.coverage).toBeLessThan(1);
+  });
+});
+
+describe("chapter calls", () => {
+  it("share the cached prefix between the summary and the questions of a chunk", () => {
+    const text = paragraphs(150_000);
+    const summaryCalls = chapterSummaryCalls("Cell division", text, DEFAULT_ROUTING.summary);
+    const questionsCalls = chapterQuestionsCalls("Cell division", text, DEFAULT_ROUTING.questions);
+
+    expect(questionsCalls.length).toBe(summaryCalls.length);
+    summaryCalls.forEach((summaryCall, i) => {
+      const { system, contextTools, context, route } = questionsCalls[i];
+      expect({ system, contextTools, context, model: route.model }).toEqual({
+        system: summaryCall.system,
+        contextTools: summaryCall.contextTools,
+        context: summaryCall.context,
+        model: summaryCall.route.model,
+      });
+      expect(contextTools!.map((t) => t.name)).toEqual(
+        expect.arrayContaining([summaryCall.tool.name, questionsCalls[i].tool.name])
+      );
+    });
+  });
+});
@@ -1,27 +1,111 @@
-import { askClaudeWithUsage, type AIModel, type ClaudeUsage, DEFAULT_MODEL } from "./claude.js";
-
-export type UsageCallback = (usage: ClaudeUsage) => void;
+import type { AIModel } from "./claude.js";
+import type { z } from "zod";
+import { DEFAULT_ROUTING, type ModelRoute, type ModelRouting } from "../config/modelRoutes.js";
+import {
+  askLLM,
+  askLLMStructured,
+  approximateTokens,
+  checkToolInput,
+  countInputTokens,
+  type LLMUsage,
+  type StructuredResponse,
+  type StructuredTool,
+  type ToolCallResult,
+} from "./llm-provider.js";
+import { pageForOffset, type ExtractedDocument } from "./extractors.js";
+import {
+  chapterListTool,
+  chapterSummaryTool,
+  claimChecksTool,
+  questionSetTool,
+  studyPlanTool,
+} from "./ai-schemas.js";
+
+export type UsageCallback = (usage: LLMUsage) => void;
+
+/** Create a usage tracker that accumulates token counts (including prompt cache writes and reads) and model info. */
+export function createUsageTracker() {
+  let totalInput = 0;
+  let totalOutput = 0;
+  let totalCacheWrite = 0;
+  let totalCacheRead = 0;
+  let lastModel: AIModel | undefined;
+  const track: UsageCallback = (usage: LLMUsage) => {
+    totalInput += usage.input_tokens;
+    totalOutput += usage.output_tokens;
+    totalCacheWrite += usage.cache_creation_input_tokens;
+    totalCacheRead += usage.cache_read_input_tokens;
+    lastModel = usage.model;
+  };
+  return {
+    track,
+    get inputTokens() { return totalInput; },
+    get outputTokens() { return totalOutput; },
+    get cacheWriteTokens() { return totalCacheWrite; },
+    get cacheReadTokens() { return totalCacheRead; },
+    get model() { return lastModel; },
+  };
+}
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
 export interface ChapterData {
   title: string;
   content: string;
+  start: number; // offset of the chapter in the full text
+  end: number;
+  startPage: number; // 1-based, inclusive
+  endPage: number;
+  depth: number; // 0 = part/chapter, 1 = section, 2 = subsection
+}
+
+/**
+ * Outcome of checking a generated statement against the chapter text.
+ * Absent when the item wasn't (or couldn't be) checked.
+ */
+export interface Verification {
+  confidence?: number; // 0–1: how well the chapter text supports the statement
+  issue?: string; // what isn't supported, when confidence is low
+}
+
+/** Where a summary claim comes from: a character range of the chapter's raw_text. */
+export interface SourceAnchor {
+  start: number;
+  end: number;
+  page?: number; // page (or slide) of the original document, when known
 }
 
 export interface ChapterSummary {
   source_language: string;
-  main_topics: {
+  main_topics: ({
     topic: string;
     explanation: string;
-    key_terms: { term: string; definition: string }[];
+    key_terms: ({
+      term: string;
+      definition: string;
+      source_quote?: string; // as returned by the model; replaced by `source`
+      source?: SourceAnchor;
+    } & Verification)[];
     importance: "critical" | "important" | "supporting";
-  }[];
-  side_topics: { topic: string; explanation: string }[];
+    source_quote?: string;
+    source?: SourceAnchor;
+  } & Verification)[];
+  side_topics: ({ topic: string; explanation: string } & Verification)[];
   prerequisites: string[];
   connections: string[];
 }
 
+/** Page layout of a chapter's raw_text, for turning character anchors into pages. */
+export interface ChapterPages {
+  startPage: number;
+  pageOffsets: number[]; // where each page after startPage begins in raw_text
+}
+
+/** A summary plus the fraction (0–1) of the chapter text it was built from. */
+export interface SummarizedChapter extends ChapterSummary {
+  coverage: number;
+}
+
 export type BloomLevel =
   | "remember"
   | "understand"
@@ -31,13 +115,13 @@ export type BloomLevel =
   | "create";
 
 export interface GeneratedQuestions {
-  exam_questions: {
+  exam_questions: ({
     question: string;
     suggested_answer: string;
     bloom_level: BloomLevel;
     difficulty: 1 | 2 | 3;
     related_topic: string;
-  }[];
+  } & Verification)[];
   discussion_questions: {
     question: string;
     why_useful: string;
@@ -45,6 +129,11 @@ export interface GeneratedQuestions {
   }[];
 }
 
+/** Questions plus the fraction (0–1) of the chapter text they were written from. */
+export interface ChapterQuestions extends GeneratedQuestions {
+  coverage: number;
+}
+
 export interface StudyPlanDay {
   date: string;
   chapters: { id: string; title: string }[];
@@ -55,221 +144,112 @@ export interface StudyPlanDay {
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
+/** How often a model is asked again after output that doesn't match its schema. */
+const MAX_REPAIR_ATTEMPTS = 2;
+
 /**
- * Escape literal control characters (newlines, tabs, etc.) AND unescaped
- * double-quotes that appear inside JSON string values.
- *
- * Claude sometimes outputs raw newlines or unescaped quotes in JSON strings
- * when the source material (e.g. PDF text) contains them, which is invalid
- * JSON. To distinguish a real string-closing quote from an embedded one we
- * use a look-ahead: after a `"` inside a string, the next non-whitespace
- * character in valid JSON must be one of `,`, `}`, `]`, or `:`. If it isn't,
- * the quote is treated as embedded content and escaped as `\"`.
+ * Make a structured call, asking again with the problems appended to the
+ * prompt while the tool input doesn't match its schema, up to
+ * MAX_REPAIR_ATTEMPTS times; after that the call fails. Every rejected
+ * response is logged. `first` is a response that was already received
+ * (e.g. from a batch) to start from; its usage isn't reported again.
  */
-function sanitizeJsonControlChars(text: string): string {
-  let result = "";
-  let inString = false;
-  let escape = false;
-
-  for (let i = 0; i < text.length; i++) {
-    const ch = text[i];
-
-    if (escape) {
-      result += ch;
-      escape = false;
-      continue;
-    }
-
-    if (ch === "\\" && inString) {
-      result += ch;
-      escape = true;
-      continue;
+async function askWithRepair<T>(
+  label: string,
+  prompt: string,
+  ask: (prompt: string) => Promise<StructuredResponse<T>>,
+  onUsage?: UsageCallback,
+  first?: StructuredResponse<T>
+): Promise<T> {
+  let currentPrompt = prompt;
+
+  for (let attempt = 1; ; attempt++) {
+    let result: StructuredResponse<T>;
+    if (attempt === 1 && first) {
+      result = first;
+    } else {
+      result = await ask(currentPrompt);
+      onUsage?.(result.usage);
     }
+    if (result.ok) return result.data;
 
-    if (ch === '"') {
-      if (!inString) {
-        // Opening a new string
-        inString = true;
-        result += ch;
-        continue;
-      }
-
-      // Inside a string — decide if this quote closes it or is embedded.
-      // Peek ahead past any whitespace to find the next meaningful character.
-      let j = i + 1;
-      while (
-        j < text.length &&
-        (text[j] === " " || text[j] === "\t" ||
-         text[j] === "\n" || text[j] === "\r")
-      ) {
-        j++;
-      }
-      const next = j < text.length ? text[j] : "";
-
-      if (next === "," || next === "}" || next === "]" || next === ":" || next === "") {
-        // Looks like a real string terminator
-        inString = false;
-        result += ch;
-      } else {
-        // Embedded quote from content — escape it
-        result += '\\"';
-      }
-      continue;
+    console.warn(
+      `[validate] ${label}: rejected response (attempt ${attempt} of ${MAX_REPAIR_ATTEMPTS + 1}):\n${result.problems}`
+    );
+    if (attempt > MAX_REPAIR_ATTEMPTS) {
+      throw new Error(`The AI returned an invalid ${label} after ${attempt} attempts`);
     }
 
-    if (inString) {
-      const code = ch.charCodeAt(0);
-      if (code < 0x20) {
-        // Escape control characters that are invalid inside JSON strings
-        if (ch === "\n") { result += "\\n"; continue; }
-        if (ch === "\r") { result += "\\r"; continue; }
-        if (ch === "\t") { result += "\\t"; continue; }
-        result += `\\u${code.toString(16).padStart(4, "0")}`;
-        continue;
-      }
-    }
+    currentPrompt = `${prompt}
 
-    result += ch;
+IMPORTANT — a previous response to this request was rejected:
+${result.problems}
+Call the tool again with the complete, corrected input.`;
   }
-
-  return result;
 }
 
 /**
- * Aggressively sanitize JSON text when string-aware sanitization fails.
- * Fixes invalid escape sequences and replaces ALL control characters
- * (including newlines) with spaces. JSON structure is preserved because
- * spaces are valid whitespace between tokens. String values lose their
- * newlines but that's acceptable vs. failing entirely.
+ * A structured call of the pipeline, with everything needed to make it
+ * directly or to submit it in a batch.
  */
-function aggressiveSanitize(text: string): string {
-  return text
-    // Fix invalid JSON escape sequences (e.g. \H, \S, \C from PDF file paths).
-    // Valid JSON escapes: \" \\ \/ \b \f \n \r \t \uXXXX
-    .replace(/\\(?!["\\\/bfnrtu])/g, "\\\\")
-    // Replace ALL control characters (including newlines/tabs) with spaces.
-    // This works because spaces are valid JSON whitespace between tokens,
-    // and inside strings the values just lose newlines (acceptable trade-off).
-    .replace(/[\x00-\x1f]/g, " ")
-    // Fix trailing commas
-    .replace(/,\s*([}\]])/g, "$1");
+export interface StructuredCall<S extends z.ZodType = z.ZodType> {
+  label: string; // names the output in logs and errors
+  system: string;
+  context: string;
+  prompt: string;
+  tool: StructuredTool<S>;
+  contextTools?: StructuredTool[]; // see LLMPrompt
+  route: ModelRoute;
 }
 
-/**
- * Try multiple parse strategies on a piece of text.
- * Returns the parsed result or null if all strategies fail.
- */
-function tryParseJson<T>(text: string): T | null {
-  // Direct parse
-  try { return JSON.parse(text); } catch { /* continue */ }
-
-  // Extract JSON from surrounding text
-  const jsonMatch = text.match(/[\[{][\s\S]*[\]}]/);
-  if (jsonMatch) {
-    const extracted = jsonMatch[0].replace(/,\s*([}\]])/g, "$1");
-    try { return JSON.parse(extracted); } catch { /* continue */ }
-  }
-
-  // Repair truncated JSON
-  const repaired = repairTruncatedJson(text);
-  if (repaired) {
-    try { return JSON.parse(repaired); } catch { /* continue */ }
-  }
-
-  return null;
+/** Make a structured call directly, repairing invalid output; see askWithRepair. */
+function askCall<S extends z.ZodType>(
+  call: StructuredCall<S>,
+  onUsage?: UsageCallback,
+  userApiKey?: string,
+  onPartialInput?: (inputSoFar: unknown) => void,
+  first?: StructuredResponse<z.output<S>>
+): Promise<z.output<S>> {
+  return askWithRepair(
+    call.label,
+    call.prompt,
+    (p) =>
+      askLLMStructured(
+        call.system,
+        { context: call.context, prompt: p, contextTools: call.contextTools },
+        call.tool,
+        call.route,
+        userApiKey,
+        onPartialInput
+      ),
+    onUsage,
+    first
+  );
 }
 
-/**
- * Strip markdown code fences from Claude's response and parse JSON.
- * Handles partial fences, trailing commas, unescaped control characters,
- * invalid escape sequences, and truncated responses.
- */
-function parseJsonResponse<T>(text: string): T {
-  let cleaned = text
-    .replace(/^```(?:json)?\s*\n?/i, "")
-    .replace(/\n?```\s*$/, "")
-    .trim();
-
-  // Fix trailing commas before } or ] (common Claude mistake)
-  cleaned = cleaned.replace(/,\s*([}\]])/g, "$1");
-
-  // Fix invalid escape sequences (e.g. \H, \S, \C from PDF paths/content).
-  // Must run BEFORE sanitizeJsonControlChars so it doesn't confuse string tracking.
-  cleaned = cleaned.replace(/\\(?!["\\\/bfnrtu])/g, "\\\\");
-
-  // Sanitize control characters inside JSON string values
-  cleaned = sanitizeJsonControlChars(cleaned);
-
-  // Strategy 1: parse the string-aware sanitized text
-  const result1 = tryParseJson<T>(cleaned);
-  if (result1 !== null) return result1;
-
-  // Strategy 2: aggressive sanitization that doesn't rely on string tracking
-  // (handles cases where unescaped quotes in PDF text confuse boundary detection)
-  const aggressive = aggressiveSanitize(
-    text
-      .replace(/^```(?:json)?\s*\n?/i, "")
-      .replace(/\n?```\s*$/, "")
-      .trim()
-  );
-  const result2 = tryParseJson<T>(aggressive);
-  if (result2 !== null) return result2;
+// ─── Chapter Calls ───────────────────────────────────────────────────────────
 
-  // Extract error context around the failure position for debugging
-  let context = "";
-  try {
-    JSON.parse(cleaned);
-  } catch (e2) {
-    const posMatch = (e2 as Error).message.match(/position (\d+)/);
-    if (posMatch) {
-      const pos = parseInt(posMatch[1]);
-      context = `\nContext: ...${cleaned.slice(Math.max(0, pos - 80), pos)}>>HERE>>${cleaned.slice(pos, pos + 80)}...`;
-    }
-    throw new Error(
-      `Failed to parse Claude response as JSON: ${(e2 as Error).message}${context}\nRaw: ${text.slice(0, 500)}`
-    );
-  }
+// Summaries, questions and verification all send a chapter or a chunk of
+// one. They share the system prompt, the declared tools and the chapter
+// block, which make up the cached prefix, so each call after the first reads
+// the text from the prompt cache. What a call asks for is in its own prompt.
 
-  // Should not reach here, but satisfy TypeScript
-  throw new Error("Failed to parse Claude response as JSON");
-}
+const CHAPTER_SYSTEM = `You are an expert academic tutor preparing study materials that help students prepare for university exams. You work ONLY from the chapter text you are given. Each request says what to produce and which tool to submit it with.`;
 
-/**
- * Try to fix JSON that was truncated mid-stream by removing the last
- * incomplete value and closing all open brackets / braces.
- */
-function repairTruncatedJson(text: string): string | null {
-  // Strip any trailing incomplete string or value
-  let trimmed = text.replace(/,\s*$/, "").replace(/,\s*"[^"]*$/, "");
-
-  // Remove a trailing incomplete key-value pair (e.g. `"key": "unterminated...`)
-  trimmed = trimmed.replace(/,?\s*"[^"]*":\s*"[^"]*$/, "");
-  trimmed = trimmed.replace(/,?\s*"[^"]*":\s*$/, "");
-
-  // Count unclosed brackets
-  const opens: string[] = [];
-  let inString = false;
-  let escape = false;
-  for (const ch of trimmed) {
-    if (escape) { escape = false; continue; }
-    if (ch === "\\") { escape = true; continue; }
-    if (ch === '"') { inString = !inString; continue; }
-    if (inString) continue;
-    if (ch === "{" || ch === "[") opens.push(ch);
-    if (ch === "}" || ch === "]") opens.pop();
-  }
+const CHAPTER_TOOLS: StructuredTool[] = [chapterSummaryTool, questionSetTool, claimChecksTool];
 
-  if (opens.length === 0) return null;
-
-  // Close in reverse order
-  const closers = opens.reverse().map((c) => (c === "{" ? "}" : "]")).join("");
-  return trimmed + closers;
+/** The chapter block: the same for every call about this text. */
+function chapterContext(chapterTitle: string, chapterText: string): string {
+  return `Chapter: "${chapterTitle}"
+---
+${chapterText}
+---`;
 }
 
 /**
  * Fuzzy find: locate start_text in fullText, tolerating minor whitespace differences.
  */
-function fuzzyIndexOf(fullText: string, marker: string, fromIndex = 0): number {
+export function fuzzyIndexOf(fullText: string, marker: string, fromIndex = 0): number {
   // Try exact match first
   const exact = fullText.indexOf(marker, fromIndex);
   if (exact !== -1) return exact;
@@ -310,13 +290,53 @@ function fuzzyIndexOf(fullText: string, marker: string, fromIndex = 0): number {
 interface ChapterBoundary {
   title: string;
   start_text: string;
+  depth?: number;
 }
 
 /**
- * Split raw PDF text into chapters using Claude.
- * Improved: better prompt, fuzzy matching, validation.
+ * Cut the document text into chapters at the given offsets. Boundaries closer
+ * than 100 chars to the previous one are dropped, as are near-empty chapters.
  */
-export async function detectChapters(fullText: string, model: AIModel = DEFAULT_MODEL, onUsage?: UsageCallback, userApiKey?: string): Promise<ChapterData[]> {
+export function splitAtBoundaries(
+  extraction: ExtractedDocument,
+  boundaries: { idx: number; title: string; depth?: number }[]
+): ChapterData[] {
+  const fullText = extraction.text;
+  const sorted = [...boundaries].sort((a, b) => a.idx - b.idx);
+
+  // Remove duplicates (positions too close together)
+  const deduplicated = sorted.filter(
+    (pos, i) => i === 0 || pos.idx - sorted[i - 1].idx > 100
+  );
+
+  const chapters: ChapterData[] = [];
+  for (let i = 0; i < deduplicated.length; i++) {
+    const start = deduplicated[i].idx;
+    const end = i < deduplicated.length - 1 ? deduplicated[i + 1].idx : fullText.length;
+    const content = fullText.slice(start, end).trim();
+    // Last character that belongs to the chapter, ignoring trailing page breaks
+    const lastChar = start + fullText.slice(start, end).trimEnd().length - 1;
+
+    if (content.length > 50) {
+      chapters.push({
+        title: deduplicated[i].title,
+        content,
+        start,
+        end,
+        startPage: pageForOffset(extraction, start),
+        endPage: pageForOffset(extraction, lastChar),
+        depth: Math.max(0, Math.min(2, Math.round(deduplicated[i].depth ?? 0))),
+      });
+    }
+  }
+  return chapters;
+}
+
+/**
+ * The call that lists the chapters of a document. Long documents are sent
+ * as their first part plus periodic samples of the rest.
+ */
+function chapterDetectionCall(fullText: string, route: ModelRoute): StructuredCall<typeof chapterListTool.schema> {
   // Build a text preview that lets Claude see chapter markers throughout the entire document.
   // Primary block: first 200K chars covers TOC + early chapters.
   // For longer documents, append periodic samples so Claude can see later chapter headings too.
@@ -342,17 +362,22 @@ export async function detectChapters(fullText: string, model: AIModel = DEFAULT_
     }
     textPreview += samples.join("");
 
-    truncationNote = `\nIMPORTANT: The document text below is ${fullText.length.toLocaleString()} characters long. The first ${PRIMARY_LIMIT.toLocaleString()} characters are shown in full, followed by periodic samples from the rest of the document (marked with "[... document text at character position X ...]"). Use ALL available text — including samples from later sections — to identify every chapter. If you see a Table of Contents, use it to list ALL chapters even if their full content is not shown. For chapters whose content appears only in samples, copy the start_text EXACTLY from the sample text you can see.\n`;
+    truncationNote = `\nIMPORTANT: The document text above is ${fullText.length.toLocaleString()} characters long. The first ${PRIMARY_LIMIT.toLocaleString()} characters are shown in full, followed by periodic samples from the rest of the document (marked with "[... document text at character position X ...]"). Use ALL available text — including samples from later sections — to identify every chapter. If you see a Table of Contents, use it to list ALL chapters even if their full content is not shown. For chapters whose content appears only in samples, copy the start_text EXACTLY from the sample text you can see.\n`;
   }
 
-  const system = `You are a document structure analyzer. Your job is to identify chapter or section boundaries in academic/course text. You return ONLY raw JSON — no markdown fences, no explanation.`;
+  const system = `You are a document structure analyzer. Your job is to identify chapter or section boundaries in academic/course text. You report them with the record_chapters tool.`;
+
+  const context = `TEXT:
+---
+${textPreview}
+---`;
 
-  const prompt = `I have extracted text from a PDF course document. Identify where each chapter or major section starts, in the exact chronological order they appear in the document.
+  const prompt = `Above is text I have extracted from a PDF course document. Identify where each chapter or major section starts, in the exact chronological order they appear in the document.
 ${truncationNote}
 INSTRUCTIONS:
 1. FIRST check if the document has a Table of Contents (Inhoudstafel/Inhoud), Index, or outline at the beginning. If it does, use it as your primary guide to identify ALL content chapters and subchapters — even those whose full text may not be visible.
 2. Look for structural markers: numbered chapters, bold headings, "Chapter X", Roman numerals, section numbers (e.g. 1.1, 1.2, 2.1), or clear topic transitions.
-3. Include BOTH main chapters AND their subchapters/subsections (e.g. "Chapter 1", "1.1 Introduction", "1.2 Background", "Chapter 2", "2.1 Methods", etc.).
+3. Include BOTH main chapters AND their subchapters/subsections (e.g. "Chapter 1", "1.1 Introduction", "1.2 Background", "Chapter 2", "2.1 Methods", etc.). Give each entry a depth: 0 for a part or main chapter, 1 for a subchapter (e.g. 1.1), 2 for a sub-subsection (e.g. 1.1.1).
 4. For each entry, give me its title (EXACTLY as it appears in the text, including any numbering) and a verbatim snippet from the VERY BEGINNING of that section (the first 60-80 characters, copied exactly — I will use string matching to find the position).
 5. The start_text must be EXACTLY as it appears in the text, including any numbering, whitespace, or punctuation. If you can see the chapter heading in the text (even in a later sample section), copy the text starting from that heading.
 6. If the document has no clear chapters, identify 3-8 major topic shifts.
@@ -360,30 +385,45 @@ INSTRUCTIONS:
 8. Maximum 40 entries. Cover ALL chapters and subchapters — completeness is critical. Do NOT stop early.
 9. SKIP non-content sections: do NOT include forewords (Voorwoord), prefaces, table of contents pages themselves, appendices (Bijlagen), bibliography/references (Literatuuroverzicht/Referenties/Bronnen), index pages, glossaries, acknowledgements, or colophon. Only include actual course/study content chapters.
 
-OUTPUT FORMAT (raw JSON array, no fences):
-[{"title": "Chapter title exactly as in the text", "start_text": "exact first 60-80 chars from the text"}]
+OUTPUT: call record_chapters with one entry per chapter or section:
+{"chapters": [{"title": "Chapter title exactly as in the text", "depth": 0, "start_text": "exact first 60-80 chars from the text"}]}
 
 EXAMPLES of good start_text values:
 - "Chapter 3: Database Normalization\\nNormalization is the proc"
 - "3.1 Introduction to Machine Learning\\n\\nMachine learning is"
 - "PART II: ADVANCED TOPICS\\n\\nIn this section we explore"
-- "2.3.1 Gradient Descent\\n\\nGradient descent is an optimizati"
+- "2.3.1 Gradient Descent\\n\\nGradient descent is an optimizati"`;
 
-TEXT:
----
-${textPreview}
----`;
+  return { label: "chapter list", system, context, prompt, tool: chapterListTool, route };
+}
 
-  const result = await askClaudeWithUsage(system, prompt, 16384, model, userApiKey);
-  onUsage?.(result.usage);
-  const boundaries: ChapterBoundary[] = parseJsonResponse(result.text);
+/**
+ * Split raw PDF text into chapters using the model routed for chapter detection.
+ * Improved: better prompt, fuzzy matching, validation.
+ */
+export async function detectChapters(extraction: ExtractedDocument, routing: ModelRouting = DEFAULT_ROUTING, onUsage?: UsageCallback, userApiKey?: string): Promise<ChapterData[]> {
+  const fullText = extraction.text;
+  const wholeDocument: ChapterData = {
+    title: "Full Course",
+    content: fullText,
+    start: 0,
+    end: fullText.length,
+    startPage: 1,
+    endPage: Math.max(1, extraction.pages.length),
+    depth: 0,
+  };
+
+  const { chapters: boundaries }: { chapters: ChapterBoundary[] } = await askCall(
+    chapterDetectionCall(fullText, routing.chapter_detection),
+    onUsage,
+    userApiKey
+  );
 
   if (!boundaries || boundaries.length === 0) {
-    return [{ title: "Full Course", content: fullText }];
+    return [wholeDocument];
   }
 
   // Split using fuzzy matching
-  const chapters: ChapterData[] = [];
   const foundPositions: { idx: number; boundary: ChapterBoundary }[] = [];
   const missedBoundaries: ChapterBoundary[] = [];
 
@@ -412,26 +452,17 @@ ${textPreview}
     console.warn(`[detectChapters] All ${boundaries.length} boundaries failed fuzzy matching — falling back to full document. First boundary title: "${boundaries[0].title}", start_text: "${boundaries[0].start_text.slice(0, 80)}"`);
   }
 
-  // Sort by position in text
-  foundPositions.sort((a, b) => a.idx - b.idx);
-
-  // Remove duplicates (positions too close together)
-  const deduplicated = foundPositions.filter(
-    (pos, i) => i === 0 || pos.idx - foundPositions[i - 1].idx > 100
+  const chapters = splitAtBoundaries(
+    extraction,
+    foundPositions.map(({ idx, boundary }) => ({
+      idx,
+      title: boundary.title,
+      depth: boundary.depth,
+    }))
   );
 
-  for (let i = 0; i < deduplicated.length; i++) {
-    const start = deduplicated[i].idx;
-    const end = i < deduplicated.length - 1 ? deduplicated[i + 1].idx : fullText.length;
-    const content = fullText.slice(start, end).trim();
-
-    if (content.length > 50) {
-      chapters.push({ title: deduplicated[i].boundary.title, content });
-    }
-  }
-
   if (chapters.length === 0) {
-    return [{ title: "Full Course", content: fullText }];
+    return [wholeDocument];
   }
 
   console.log(`[detectChapters] Found ${chapters.length} chapters out of ${boundaries.length} boundaries detected by AI`);
@@ -440,29 +471,233 @@ ${textPreview}
 
 // ─── Chapter Summary ─────────────────────────────────────────────────────────
 
+/** Characters of chapter text sent in one request. */
+const CHUNK_SIZE = 60000;
+/** Overlap between chunks, so a topic cut at a boundary is seen whole at least once. */
+const CHUNK_OVERLAP = 2000;
+/** Caps the cost of very long chapters; text beyond this many chunks isn't summarized. */
+const MAX_SUMMARY_CHUNKS = 8;
+
+interface TextChunk {
+  text: string;
+  start: number;
+  end: number;
+}
+
 /**
- * Summarize a chapter: extract main topics, side topics, key terms with definitions,
- * prerequisite knowledge, and connections to other topics.
+ * Split text into overlapping chunks of at most CHUNK_SIZE characters,
+ * preferring to cut at a paragraph or line break.
  */
-export async function summarizeChapter(
+export function splitIntoChunks(text: string, maxChunks = MAX_SUMMARY_CHUNKS): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  let start = 0;
+  while (start < text.length && chunks.length < maxChunks) {
+    let end = Math.min(start + CHUNK_SIZE, text.length);
+    if (end < text.length) {
+      const window = text.slice(end - CHUNK_OVERLAP, end);
+      const paragraphBreak = window.lastIndexOf("\n\n");
+      const cut = paragraphBreak >= 0 ? paragraphBreak : window.lastIndexOf("\n");
+      if (cut > 0) end = end - CHUNK_OVERLAP + cut;
+    }
+    chunks.push({ text: text.slice(start, end), start, end });
+    if (end >= text.length) break;
+    start = Math.max(end - CHUNK_OVERLAP, start + 1);
+  }
+  return chunks;
+}
+
+/** Fraction (0–1) of `text` covered by its chunks. */
+function chunkCoverage(text: string, chunks: TextChunk[]): number {
+  const analysed = chunks.length ? chunks[chunks.length - 1].end : 0;
+  return text.length ? analysed / text.length : 1;
+}
+
+const IMPORTANCE_RANK = { critical: 3, important: 2, supporting: 1 } as const;
+
+function normalizeKey(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+}
+
+function uniqueBy<T>(items: T[], key: (item: T) => string): T[] {
+  const seen = new Set<string>();
+  return items.filter((item) => {
+    const k = key(item);
+    if (seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+}
+
+/**
+ * Merge per-chunk summaries into one. Topics that appear in several chunks
+ * (overlap, or a topic continuing across a boundary) are combined: the longer
+ * explanation and the higher importance win, and key terms are de-duplicated.
+ * Chronological order is kept by first appearance.
+ */
+export function mergeSummaries(parts: ChapterSummary[]): ChapterSummary {
+  const mainTopics = new Map<string, ChapterSummary["main_topics"][number]>();
+  for (const part of parts) {
+    for (const topic of part.main_topics ?? []) {
+      const key = normalizeKey(topic.topic);
+      const existing = mainTopics.get(key);
+      if (!existing) {
+        mainTopics.set(key, { ...topic, key_terms: [...(topic.key_terms ?? [])] });
+        continue;
+      }
+      if (topic.explanation.length > existing.explanation.length) {
+        existing.explanation = topic.explanation;
+      }
+      if (IMPORTANCE_RANK[topic.importance] > IMPORTANCE_RANK[existing.importance]) {
+        existing.importance = topic.importance;
+      }
+      existing.key_terms.push(...(topic.key_terms ?? []));
+    }
+  }
+
+  // A key term belongs to the first topic that defines it
+  const seenTerms = new Set<string>();
+  for (const topic of mainTopics.values()) {
+    topic.key_terms = topic.key_terms.filter((term) => {
+      const key = normalizeKey(term.term);
+      if (seenTerms.has(key)) return false;
+      seenTerms.add(key);
+      return true;
+    });
+  }
+
+  const languages = parts.map((p) => p.source_language).filter(Boolean);
+  const sourceLanguage =
+    languages.sort(
+      (a, b) => languages.filter((l) => l === b).length - languages.filter((l) => l === a).length
+    )[0] ?? "en";
+
+  const sideTopics = parts.flatMap((p) => p.side_topics ?? []);
+  return {
+    source_language: sourceLanguage,
+    main_topics: [...mainTopics.values()],
+    // A side topic that became a main topic in another chunk is covered there
+    side_topics: uniqueBy(sideTopics, (t) => normalizeKey(t.topic)).filter(
+      (t) => !mainTopics.has(normalizeKey(t.topic))
+    ),
+    prerequisites: uniqueBy(parts.flatMap((p) => p.prerequisites ?? []), normalizeKey),
+    connections: uniqueBy(parts.flatMap((p) => p.connections ?? []), normalizeKey),
+  };
+}
+
+/**
+ * Find a quote in the chapter text. The start comes from fuzzyIndexOf; the end
+ * is found by matching the quote with flexible whitespace from there, since
+ * PDF text often breaks lines where the model's quote has spaces.
+ */
+function locateQuote(chapterText: string, quote: string): { start: number; end: number } | null {
+  const trimmed = quote.trim();
+  if (trimmed.length < 3) return null;
+  const start = fuzzyIndexOf(chapterText, trimmed);
+  if (start === -1) return null;
+
+  const pattern = trimmed
+    .split(/\s+/)
+    .map((w) => w.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    .join("\\s+");
+  const match = new RegExp(pattern, "y");
+  match.lastIndex = start;
+  const end = match.exec(chapterText) ? match.lastIndex : start + trimmed.length;
+  return { start, end: Math.min(end, chapterText.length) };
+}
+
+function anchorFor(
+  chapterText: string,
+  quote: string | undefined,
+  pages?: ChapterPages
+): SourceAnchor | undefined {
+  const found = quote ? locateQuote(chapterText, quote) : null;
+  if (!found) return undefined;
+  if (!pages) return found;
+  const page = pages.startPage + pages.pageOffsets.filter((offset) => offset <= found.start).length;
+  return { ...found, page };
+}
+
+/**
+ * Replace the model's source quotes with anchors into the chapter text.
+ * Quotes that can't be found are dropped rather than trusted; key terms
+ * without a usable quote fall back to the first mention of the term.
+ */
+export function anchorSummary(
+  summary: ChapterSummary,
+  chapterText: string,
+  pages?: ChapterPages
+): ChapterSummary {
+  return {
+    ...summary,
+    main_topics: (summary.main_topics ?? []).map(({ source_quote, ...topic }) => {
+      const source = anchorFor(chapterText, source_quote, pages);
+      return {
+        ...topic,
+        key_terms: (topic.key_terms ?? []).map(({ source_quote: termQuote, ...term }) => {
+          const termSource =
+            anchorFor(chapterText, termQuote, pages) ?? anchorFor(chapterText, term.term, pages);
+          return termSource ? { ...term, source: termSource } : term;
+        }),
+        ...(source ? { source } : {}),
+      };
+    }),
+  };
+}
+
+export type PartialSummaryCallback = (partial: ChapterSummary) => void;
+
+/**
+ * Turn the streamed tool input of a summary into partial summaries.
+ * `onPartial` is called whenever another topic is complete: a topic is only
+ * complete once the model has moved on to the next one, since the last
+ * entry of a partial snapshot can be cut off mid-sentence.
+ */
+function partialSummaryReader(onPartial: PartialSummaryCallback): (inputSoFar: unknown) => void {
+  let lastCount = 0;
+
+  return (inputSoFar) => {
+    const partial = (inputSoFar ?? {}) as Partial<ChapterSummary>;
+    const main = partial.main_topics ?? [];
+    const side = partial.side_topics ?? [];
+    const mainTopics = partial.side_topics !== undefined ? main : main.slice(0, -1);
+    const sideTopics = partial.prerequisites !== undefined ? side : side.slice(0, -1);
+    if (mainTopics.length + sideTopics.length === lastCount) return;
+    lastCount = mainTopics.length + sideTopics.length;
+
+    onPartial({
+      source_language: partial.source_language ?? "",
+      main_topics: mainTopics.map((t) => ({ ...t, key_terms: t.key_terms ?? [] })),
+      side_topics: sideTopics,
+      prerequisites: [],
+      connections: [],
+    });
+  };
+}
+
+/**
+ * The call that summarizes one piece of chapter text. `part` is set when the
+ * chapter is summarized in chunks.
+ */
+function summaryCall(
   chapterTitle: string,
   chapterText: string,
-  _model?: AIModel,
-  onUsage?: UsageCallback,
-  userApiKey?: string
-): Promise<ChapterSummary> {
-  const system = `You are an expert academic tutor creating study materials. You produce structured summaries that help students prepare for university exams. Respond in the SAME LANGUAGE as the source material. Return ONLY raw JSON — no markdown fences, no commentary.`;
+  part: { index: number; total: number } | null,
+  route: ModelRoute
+): StructuredCall<typeof chapterSummaryTool.schema> {
+  const partNote = part
+    ? `\nNOTE: This is part ${part.index} of ${part.total} of a long chapter; the parts overlap slightly. Summarize only this part — the parts are merged afterwards. Prerequisites and connections may be left empty if this part adds none.\n`
+    : "";
 
-  const prompt = `Analyze this chapter and create a comprehensive study summary.
+  const prompt = `Analyze the chapter above and create a comprehensive study summary. Submit it with the record_summary tool.
 
 INSTRUCTIONS:
-- Respond in the SAME LANGUAGE as the chapter text below.
+- Respond in the SAME LANGUAGE as the chapter text above.
 - Base your summary EXCLUSIVELY on the content provided — no external knowledge.
 - Ignore metadata (author, publisher, ISBN, etc.).
 - CRITICAL: List topics in CHRONOLOGICAL ORDER as they appear in the chapter text. Do NOT reorder by importance — preserve the author's original sequence.
 - Cover ALL topics and subtopics discussed in the chapter. Do not skip any section or subsection.
-
-PRODUCE THIS STRUCTURE:
+${partNote}
+CALL record_summary WITH THIS STRUCTURE:
 {
   "source_language": "detected language code (en/nl/fr/de/...)",
   "main_topics": [
@@ -470,9 +705,10 @@ PRODUCE THIS STRUCTURE:
       "topic": "Topic name",
       "explanation": "Detailed 4-8 sentence explanation a student can study from. Include the WHY, not just the WHAT. Elaborate on mechanisms, causes, consequences, and relationships between concepts. Provide enough depth that a student could use this as a standalone study resource.",
       "key_terms": [
-        {"term": "Technical term", "definition": "Concise definition as used in this course"}
+        {"term": "Technical term", "definition": "Concise definition as used in this course", "source_quote": "exact sentence from the text that defines or introduces the term"}
       ],
-      "importance": "critical | important | supporting"
+      "importance": "critical | important | supporting",
+      "source_quote": "exact 40-150 character passage copied verbatim from the text where this topic is explained"
     }
   ],
   "side_topics": [
@@ -490,47 +726,141 @@ GUIDELINES:
 - Key terms should include definitions AS USED IN THIS COURSE (not generic dictionary definitions).
 - Prerequisites help students identify gaps before studying this chapter.
 - Connections help students see the bigger picture.
+- SOURCE QUOTES: "source_quote" must be copied character-for-character from the chapter text (no paraphrasing, no ellipses) so students can look the passage up.
 - COMPLETENESS: Ensure every major concept, subsection, and subtopic in the chapter is represented. Missing a topic means a student might miss it during study.
-- DEPTH: Write thorough, detailed explanations. Each main topic explanation should be 4-8 sentences covering the core idea, its significance, how it works, and how it connects to other topics. Aim for roughly 150 words more per summary than a minimal version would have.
+- DEPTH: Write thorough, detailed explanations. Each main topic explanation should be 4-8 sentences covering the core idea, its significance, how it works, and how it connects to other topics. Aim for roughly 150 words more per summary than a minimal version would have.`;
+
+  return {
+    label: "chapter summary",
+    system: CHAPTER_SYSTEM,
+    context: chapterContext(chapterTitle, chapterText),
+    prompt,
+    tool: chapterSummaryTool,
+    contextTools: CHAPTER_TOOLS,
+    route,
+  };
+}
 
-Chapter: "${chapterTitle}"
----
-${chapterText.slice(0, 60000)}
----`;
+/** One summary call for a short chapter, or one per chunk of a long one. */
+function summaryCalls(chapterTitle: string, chapterText: string, chunks: TextChunk[], route: ModelRoute) {
+  if (chunks.length <= 1) return [summaryCall(chapterTitle, chapterText, null, route)];
+  return chunks.map((chunk, i) =>
+    summaryCall(chapterTitle, chunk.text, { index: i + 1, total: chunks.length }, route)
+  );
+}
 
-  const SUMMARY_MODEL: AIModel = "claude-sonnet-4-5-20250929";
-  const result = await askClaudeWithUsage(system, prompt, 16384, SUMMARY_MODEL, userApiKey);
-  onUsage?.(result.usage);
-  return parseJsonResponse(result.text);
+/**
+ * Merge the summaries of a chapter's chunks, anchor them in the text and
+ * verify them.
+ */
+async function completeSummary(
+  chapterTitle: string,
+  chapterText: string,
+  chunks: TextChunk[],
+  parts: ChapterSummary[],
+  verificationRoute: ModelRoute,
+  onUsage?: UsageCallback,
+  userApiKey?: string,
+  pages?: ChapterPages
+): Promise<SummarizedChapter> {
+  const coverage = chunkCoverage(chapterText, chunks);
+  const summary = parts.length > 1 ? mergeSummaries(parts) : parts[0];
+
+  // Quotes are searched in the whole chapter, so chunk offsets don't matter
+  const anchored = anchorSummary(summary, chapterText, pages);
+  const verified = await verifySummary(chapterTitle, chapterText, anchored, verificationRoute, onUsage, userApiKey);
+  return { ...verified, coverage };
+}
+
+/**
+ * Summarize a chapter: extract main topics, side topics, key terms with definitions,
+ * prerequisite knowledge, and connections to other topics.
+ *
+ * Long chapters are summarized in overlapping chunks (map) that are merged into
+ * one summary (reduce). `coverage` is the fraction of the text that was analysed;
+ * it is below 1 only when the chapter exceeds MAX_SUMMARY_CHUNKS chunks.
+ *
+ * Topics and key terms carry a `source` anchor into `chapterText` (and a page,
+ * when `pages` is given) wherever the quoted passage could be verified.
+ * Finally every statement is checked against the text and gets a `confidence`.
+ *
+ * `onPartial` receives the topics summarized so far while the model is still
+ * writing; these are neither anchored nor verified yet.
+ */
+export async function summarizeChapter(
+  chapterTitle: string,
+  chapterText: string,
+  routing: ModelRouting = DEFAULT_ROUTING,
+  onUsage?: UsageCallback,
+  userApiKey?: string,
+  pages?: ChapterPages,
+  onPartial?: PartialSummaryCallback
+): Promise<SummarizedChapter> {
+  const chunks = splitIntoChunks(chapterText);
+  const calls = summaryCalls(chapterTitle, chapterText, chunks, routing.summary);
+
+  // Sequential: chunks of one chapter would otherwise compete for the same rate limit
+  const parts: ChapterSummary[] = [];
+  for (const call of calls) {
+    const report =
+      onPartial && calls.length > 1
+        ? // Report earlier parts too, so topics don't disappear when the next part starts
+          (partial: ChapterSummary) => onPartial(mergeSummaries([...parts, partial]))
+        : onPartial;
+    parts.push(await askCall(call, onUsage, userApiKey, report && partialSummaryReader(report)));
+  }
+
+  return completeSummary(chapterTitle, chapterText, chunks, parts, routing.verification, onUsage, userApiKey, pages);
 }
 
 // ─── Question Generation ─────────────────────────────────────────────────────
 
+/** Questions asked about a whole chapter; long chapters share them out over their chunks. */
+const EXAM_QUESTIONS = 8;
+const DISCUSSION_QUESTIONS = 5;
+
 /**
- * Generate graded exam questions using Bloom's taxonomy + discussion questions.
- * Optionally accepts the chapter summary for better question targeting.
+ * How many of `count` exam questions go to each band of Bloom's taxonomy:
+ * about a quarter recall, the rest split between applying and evaluating.
  */
-export async function generateQuestions(
+function bloomMix(count: number): [remember: number, apply: number, evaluate: number] {
+  const remember = Math.max(1, Math.round(count / 4));
+  const apply = Math.round((count - remember) / 2);
+  return [remember, apply, count - remember - apply];
+}
+
+/**
+ * The call that writes questions about one piece of chapter text. `part` is
+ * set when the chapter's questions are shared out over its chunks. The
+ * summary, when given, points the questions at its topics.
+ */
+function questionsCall(
   chapterTitle: string,
   chapterText: string,
-  summary?: ChapterSummary,
-  _model?: AIModel,
-  onUsage?: UsageCallback,
-  userApiKey?: string
-): Promise<GeneratedQuestions> {
+  part: { index: number; total: number } | null,
+  route: ModelRoute,
+  summary?: Pick<ChapterSummary, "main_topics">
+): StructuredCall<typeof questionSetTool.schema> {
+  const total = part?.total ?? 1;
+  const examCount = Math.max(3, Math.ceil(EXAM_QUESTIONS / total));
+  const discussionCount = Math.max(2, Math.ceil(DISCUSSION_QUESTIONS / total));
+  const [remember, apply, evaluate] = bloomMix(examCount);
+
+  const partNote = part
+    ? `\nNOTE: This is part ${part.index} of ${part.total} of a long chapter; the parts overlap slightly. Ask only about this part — the questions of all parts are combined afterwards.${summary ? " The key topics are those of the whole chapter; use the ones this part covers." : ""}\n`
+    : "";
+
   const summaryContext = summary
     ? `\nKEY TOPICS IDENTIFIED:\n${summary.main_topics.map((t) => `- [${t.importance}] ${t.topic}`).join("\n")}\n`
     : "";
 
-  const system = `You are a university professor designing exam questions. You create questions at varying cognitive levels (Bloom's taxonomy). Questions must be answerable ONLY from the provided material. Return ONLY raw JSON — no markdown fences.`;
-
-  const prompt = `Create study questions for this chapter.
-${summaryContext}
-EXAM QUESTIONS (generate 8):
+  const prompt = `Design exam questions for the chapter above, as a university professor would, at varying cognitive levels (Bloom's taxonomy). Questions must be answerable ONLY from the provided material. Submit the questions with the record_questions tool.
+${summaryContext}${partNote}
+EXAM QUESTIONS (generate ${examCount}):
 Distribute across Bloom's taxonomy levels:
-- 2x "remember/understand" (difficulty: 1) — definitions, recall, basic comprehension
-- 3x "apply/analyze" (difficulty: 2) — apply concepts to scenarios, compare/contrast, find patterns
-- 3x "evaluate/create" (difficulty: 3) — critique, justify, design, synthesize arguments
+- ${remember}x "remember/understand" (difficulty: 1) — definitions, recall, basic comprehension
+- ${apply}x "apply/analyze" (difficulty: 2) — apply concepts to scenarios, compare/contrast, find patterns
+- ${evaluate}x "evaluate/create" (difficulty: 3) — critique, justify, design, synthesize arguments
 
 For each question, provide:
 - The question itself (clear, specific, exam-worthy)
@@ -539,14 +869,14 @@ For each question, provide:
 - Difficulty: 1, 2, or 3
 - Which topic from the chapter it tests
 
-DISCUSSION QUESTIONS (generate 5):
+DISCUSSION QUESTIONS (generate ${discussionCount}):
 Questions a curious student would ask in class to deepen understanding. These should:
 - Challenge assumptions in the material
 - Ask about real-world applications
 - Explore edge cases or limitations
 - Connect to other fields
 
-Return JSON:
+Call record_questions with:
 {
   "exam_questions": [
     {
@@ -567,20 +897,333 @@ Return JSON:
 }
 
 RULES:
-- Questions MUST be answerable from the chapter content below only.
+- Questions MUST be answerable from the chapter content above only.
 - Do NOT ask about metadata (author, publication, etc.).
 - Vary question formats: explain, compare, apply-to-scenario, evaluate, design.
-- Model answers should demonstrate deep understanding, not just keyword matching.
+- Model answers should demonstrate deep understanding, not just keyword matching.`;
+
+  return {
+    label: "question set",
+    system: CHAPTER_SYSTEM,
+    context: chapterContext(chapterTitle, chapterText),
+    prompt,
+    tool: questionSetTool,
+    contextTools: CHAPTER_TOOLS,
+    route,
+  };
+}
 
-Chapter: "${chapterTitle}"
----
-${chapterText.slice(0, 60000)}
----`;
+/** One questions call for a short chapter, or one per chunk of a long one. */
+function questionsCalls(
+  chapterTitle: string,
+  chapterText: string,
+  chunks: TextChunk[],
+  route: ModelRoute,
+  summary?: Pick<ChapterSummary, "main_topics">
+) {
+  if (chunks.length <= 1) return [questionsCall(chapterTitle, chapterText, null, route, summary)];
+  return chunks.map((chunk, i) =>
+    questionsCall(chapterTitle, chunk.text, { index: i + 1, total: chunks.length }, route, summary)
+  );
+}
 
-  const QUIZ_MODEL: AIModel = "claude-haiku-4-5-20251001";
-  const result = await askClaudeWithUsage(system, prompt, 16384, QUIZ_MODEL, userApiKey);
-  onUsage?.(result.usage);
-  return parseJsonResponse(result.text);
+/**
+ * The calls that write a chapter's questions: one for a short chapter, one
+ * per chunk of a long one, so every part of the chapter is asked about.
+ */
+export function chapterQuestionsCalls(
+  chapterTitle: string,
+  chapterText: string,
+  route: ModelRoute,
+  summary?: Pick<ChapterSummary, "main_topics">
+): StructuredCall[] {
+  return questionsCalls(chapterTitle, chapterText, splitIntoChunks(chapterText), route, summary);
+}
+
+/**
+ * Verify each part's model answers against the text it was written from and
+ * combine the parts.
+ */
+async function completeQuestions(
+  chapterTitle: string,
+  chapterText: string,
+  chunks: TextChunk[],
+  parts: GeneratedQuestions[],
+  verificationRoute: ModelRoute,
+  onUsage?: UsageCallback,
+  userApiKey?: string
+): Promise<ChapterQuestions> {
+  const texts = chunks.length > 1 ? chunks.map((chunk) => chunk.text) : [chapterText];
+  const verified: GeneratedQuestions[] = [];
+  for (const [i, part] of parts.entries()) {
+    verified.push(await verifyQuestions(chapterTitle, texts[i], part, verificationRoute, onUsage, userApiKey));
+  }
+  return {
+    exam_questions: verified.flatMap((part) => part.exam_questions ?? []),
+    discussion_questions: verified.flatMap((part) => part.discussion_questions ?? []),
+    coverage: chunkCoverage(chapterText, chunks),
+  };
+}
+
+/**
+ * Generate graded exam questions using Bloom's taxonomy + discussion questions.
+ * Optionally accepts the chapter summary for better question targeting.
+ *
+ * Long chapters get their questions chunk by chunk, like summarizeChapter;
+ * `coverage` is below 1 only when the chapter exceeds MAX_SUMMARY_CHUNKS
+ * chunks. Model answers of exam questions are verified against the chunk
+ * they were written from.
+ */
+export async function generateQuestions(
+  chapterTitle: string,
+  chapterText: string,
+  summary?: Pick<ChapterSummary, "main_topics">,
+  routing: ModelRouting = DEFAULT_ROUTING,
+  onUsage?: UsageCallback,
+  userApiKey?: string
+): Promise<ChapterQuestions> {
+  const chunks = splitIntoChunks(chapterText);
+  const parts: GeneratedQuestions[] = [];
+  for (const call of questionsCalls(chapterTitle, chapterText, chunks, routing.questions, summary)) {
+    parts.push(await askCall(call, onUsage, userApiKey));
+  }
+  return completeQuestions(chapterTitle, chapterText, chunks, parts, routing.verification, onUsage, userApiKey);
+}
+
+// ─── Batch Results ───────────────────────────────────────────────────────────
+
+/**
+ * The calls that summarize a chapter, for submitting in a batch: one for a
+ * short chapter, one per chunk of a long one (see summarizeChapter).
+ */
+export function chapterSummaryCalls(chapterTitle: string, chapterText: string, route: ModelRoute): StructuredCall[] {
+  return summaryCalls(chapterTitle, chapterText, splitIntoChunks(chapterText), route);
+}
+
+/**
+ * Finish a chapter summary from the batch results of chapterSummaryCalls, in
+ * the same order (undefined where a call has no result). Missing or invalid
+ * parts are asked for again directly; then the summary is merged, anchored
+ * and verified like in summarizeChapter. The usage of `results` isn't
+ * reported again.
+ */
+export async function finishChapterSummary(
+  chapterTitle: string,
+  chapterText: string,
+  results: (ToolCallResult | undefined)[],
+  routing: ModelRouting = DEFAULT_ROUTING,
+  onUsage?: UsageCallback,
+  userApiKey?: string,
+  pages?: ChapterPages
+): Promise<SummarizedChapter> {
+  const chunks = splitIntoChunks(chapterText);
+  const parts: ChapterSummary[] = [];
+  for (const [i, call] of summaryCalls(chapterTitle, chapterText, chunks, routing.summary).entries()) {
+    const result = results[i];
+    parts.push(await askCall(call, onUsage, userApiKey, undefined, result && checkToolInput(call.tool, result)));
+  }
+  return completeSummary(chapterTitle, chapterText, chunks, parts, routing.verification, onUsage, userApiKey, pages);
+}
+
+/**
+ * Finish a chapter's questions from the batch results of
+ * chapterQuestionsCalls (with the same `summary`), like finishChapterSummary.
+ */
+export async function finishChapterQuestions(
+  chapterTitle: string,
+  chapterText: string,
+  results: (ToolCallResult | undefined)[],
+  summary?: Pick<ChapterSummary, "main_topics">,
+  routing: ModelRouting = DEFAULT_ROUTING,
+  onUsage?: UsageCallback,
+  userApiKey?: string
+): Promise<ChapterQuestions> {
+  const chunks = splitIntoChunks(chapterText);
+  const parts: GeneratedQuestions[] = [];
+  for (const [i, call] of questionsCalls(chapterTitle, chapterText, chunks, routing.questions, summary).entries()) {
+    const result = results[i];
+    parts.push(await askCall(call, onUsage, userApiKey, undefined, result && checkToolInput(call.tool, result)));
+  }
+  return completeQuestions(chapterTitle, chapterText, chunks, parts, routing.verification, onUsage, userApiKey);
+}
+
+// ─── Verification ────────────────────────────────────────────────────────────
+
+/** Statements at or above this confidence count as supported by the text. */
+const SUPPORTED_CONFIDENCE = 0.8;
+/** Statements per verification request, so the response stays well below max_tokens. */
+const VERIFY_BATCH_SIZE = 40;
+
+interface ClaimCheck {
+  confidence: number;
+  issue?: string;
+}
+
+/**
+ * Ask the verification model how well `text` supports each statement.
+ * Returns one result per statement; null where the model gave no usable answer.
+ */
+async function checkClaims(
+  chapterTitle: string,
+  text: string,
+  claims: string[],
+  route: ModelRoute,
+  onUsage?: UsageCallback,
+  userApiKey?: string
+): Promise<(ClaimCheck | null)[]> {
+  const results: (ClaimCheck | null)[] = claims.map(() => null);
+  const context = chapterContext(chapterTitle, text);
+
+  for (let from = 0; from < claims.length; from += VERIFY_BATCH_SIZE) {
+    const batch = claims.slice(from, from + VERIFY_BATCH_SIZE);
+    const prompt = `Fact-check study materials against the chapter above. Judge only whether the chapter text supports each statement — not whether it is true in general. Report your judgements with the record_checks tool.
+
+Check each numbered statement against the source text above.
+
+For every statement give:
+- "confidence": 0.0–1.0. Use 1.0 when the text states or directly implies it, around 0.5 when it is only partly supported, and 0.0 when the text doesn't mention it or contradicts it.
+- "issue": only when confidence is below ${SUPPORTED_CONFIDENCE}, one short sentence (in the statement's language) naming what the text doesn't support.
+
+STATEMENTS:
+${batch.map((claim, i) => `[${i + 1}] ${claim}`).join("\n")}
+
+Call record_checks with one entry per statement:
+{"checks": [{"id": 1, "confidence": 0.9}, {"id": 2, "confidence": 0.3, "issue": "..."}]}`;
+
+    const { checks } = await askWithRepair(
+      "verification",
+      prompt,
+      (p) =>
+        askLLMStructured(
+          CHAPTER_SYSTEM,
+          { context, prompt: p, contextTools: CHAPTER_TOOLS },
+          claimChecksTool,
+          route,
+          userApiKey
+        ),
+      onUsage
+    );
+
+    for (const check of checks) {
+      if (check.id > batch.length) continue;
+      const confidence = check.confidence;
+      results[from + check.id - 1] =
+        check.issue && confidence < SUPPORTED_CONFIDENCE ? { confidence, issue: check.issue } : { confidence };
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Check statements against a whole chapter. Long chapters are checked chunk
+ * by chunk: a statement keeps its best result, and statements that are
+ * already supported aren't sent again.
+ */
+async function checkAgainstChapter(
+  chapterTitle: string,
+  chapterText: string,
+  claims: string[],
+  route: ModelRoute,
+  onUsage?: UsageCallback,
+  userApiKey?: string
+): Promise<(ClaimCheck | null)[]> {
+  const best: (ClaimCheck | null)[] = claims.map(() => null);
+
+  for (const chunk of splitIntoChunks(chapterText)) {
+    const open = claims.flatMap((_, i) =>
+      (best[i]?.confidence ?? 0) < SUPPORTED_CONFIDENCE ? [i] : []
+    );
+    if (!open.length) break;
+
+    const checks = await checkClaims(chapterTitle, chunk.text, open.map((i) => claims[i]), route, onUsage, userApiKey);
+    open.forEach((claimIndex, j) => {
+      const check = checks[j];
+      if (check && check.confidence >= (best[claimIndex]?.confidence ?? -1)) best[claimIndex] = check;
+    });
+  }
+
+  return best;
+}
+
+/**
+ * Verification stage for summaries: every topic, key term and side topic gets
+ * a confidence. If the check itself fails, the summary is kept unverified.
+ */
+async function verifySummary(
+  chapterTitle: string,
+  chapterText: string,
+  summary: ChapterSummary,
+  route: ModelRoute,
+  onUsage?: UsageCallback,
+  userApiKey?: string
+): Promise<ChapterSummary> {
+  const topics = summary.main_topics ?? [];
+  const sideTopics = summary.side_topics ?? [];
+
+  // Same traversal order as the mapping below
+  const claims: string[] = [];
+  for (const topic of topics) {
+    claims.push(`${topic.topic}: ${topic.explanation}`);
+    for (const term of topic.key_terms ?? []) claims.push(`${term.term}: ${term.definition}`);
+  }
+  for (const side of sideTopics) claims.push(`${side.topic}: ${side.explanation}`);
+
+  let checks: (ClaimCheck | null)[];
+  try {
+    checks = await checkAgainstChapter(chapterTitle, chapterText, claims, route, onUsage, userApiKey);
+  } catch (err) {
+    console.warn(`[verify] Summary check failed for "${chapterTitle}":`, err instanceof Error ? err.message : err);
+    return summary;
+  }
+
+  let next = 0;
+  const withCheck = <T extends object>(item: T): T & Verification => {
+    const check = checks[next++];
+    return check ? { ...item, ...check } : item;
+  };
+
+  return {
+    ...summary,
+    main_topics: topics.map((topic) => {
+      const checked = withCheck(topic);
+      return { ...checked, key_terms: (topic.key_terms ?? []).map(withCheck) };
+    }),
+    side_topics: sideTopics.map(withCheck),
+  };
+}
+
+/**
+ * Verification stage for questions: each exam question's model answer gets a
+ * confidence against the text the questions were written from. Discussion
+ * questions are open-ended and aren't checked.
+ */
+async function verifyQuestions(
+  chapterTitle: string,
+  text: string,
+  questions: GeneratedQuestions,
+  route: ModelRoute,
+  onUsage?: UsageCallback,
+  userApiKey?: string
+): Promise<GeneratedQuestions> {
+  const exam = questions.exam_questions ?? [];
+  try {
+    const checks = await checkClaims(
+      chapterTitle,
+      text,
+      exam.map((q) => `Question: ${q.question} — Model answer: ${q.suggested_answer}`),
+      route,
+      onUsage,
+      userApiKey
+    );
+    return {
+      ...questions,
+      exam_questions: exam.map((q, i) => (checks[i] ? { ...q, ...checks[i] } : q)),
+    };
+  } catch (err) {
+    console.warn(`[verify] Answer check failed for "${chapterTitle}":`, err instanceof Error ? err.message : err);
+    return questions;
+  }
 }
 
 // ─── On-demand Translation ──────────────────────────────────────────────────
@@ -595,47 +1238,51 @@ const LANGUAGE_NAMES: Record<string, string> = {
   ar: "Arabic",
 };
 
+export type TranslationLanguage = "en" | "nl" | "fr" | "zh" | "hi" | "es" | "ar";
+
+function translationPrompt(text: string, targetLang: TranslationLanguage) {
+  const langName = LANGUAGE_NAMES[targetLang] || targetLang;
+
+  const system = `You are a professional academic translator. Translate the given text accurately into ${langName}. Preserve academic terminology and nuance. Return ONLY the translated text — no quotes, no explanation, no markdown.`;
+
+  const prompt = `Translate the following text into ${langName}:\n\n${text}`;
+  return { system, prompt };
+}
+
 /**
- * Translate a single text to a target language.
- * Uses Haiku 4.5 for fast, cheap translation.
+ * Translate a single text to a target language with the model routed for
+ * translation (a fast, cheap one by default).
  */
 export async function translateText(
   text: string,
-  targetLang: "en" | "nl" | "fr" | "zh" | "hi" | "es" | "ar",
+  targetLang: TranslationLanguage,
+  routing: ModelRouting = DEFAULT_ROUTING,
   onUsage?: UsageCallback,
   userApiKey?: string
 ): Promise<string> {
-  const langName = LANGUAGE_NAMES[targetLang] || targetLang;
-
-  const system = `You are a professional academic translator. Translate the given text accurately into ${langName}. Preserve academic terminology and nuance. Return ONLY the translated text — no quotes, no explanation, no markdown.`;
-
-  const prompt = `Translate the following text into ${langName}:\n\n${text}`;
-
-  const TRANSLATION_MODEL: AIModel = "claude-haiku-4-5-20251001";
-  const result = await askClaudeWithUsage(system, prompt, 4096, TRANSLATION_MODEL, userApiKey);
+  const { system, prompt } = translationPrompt(text, targetLang);
+  const result = await askLLM(system, prompt, routing.translation, userApiKey);
   onUsage?.(result.usage);
   return result.text;
 }
 
 // ─── Study Plan ──────────────────────────────────────────────────────────────
 
-/**
- * Generate a study plan with spaced repetition and active recall sessions.
- */
-export async function generateStudyPlan(
-  chapters: { id: string; title: string; importance?: string }[],
-  examDate: string,
-  hoursPerDay: number,
-  model: AIModel = DEFAULT_MODEL,
-  onUsage?: UsageCallback,
-  userApiKey?: string
-): Promise<StudyPlanDay[]> {
+export interface StudyPlanChapter {
+  id: string;
+  title: string;
+  importance?: string;
+  number?: string;
+  depth?: number;
+}
+
+function studyPlanPrompt(chapters: StudyPlanChapter[], examDate: string, hoursPerDay: number) {
   const today = new Date().toISOString().split("T")[0];
   const examD = new Date(examDate);
   const todayD = new Date(today);
   const daysAvailable = Math.floor((examD.getTime() - todayD.getTime()) / (1000 * 60 * 60 * 24));
 
-  const system = `You are a study coach who creates evidence-based study schedules using spaced repetition and active recall principles. Return ONLY raw JSON — no markdown fences. Use ISO date format (YYYY-MM-DD).`;
+  const system = `You are a study coach who creates evidence-based study schedules using spaced repetition and active recall principles. Submit the plan with the record_study_plan tool. Use ISO date format (YYYY-MM-DD).`;
 
   const prompt = `Create a study plan for a university student.
 
@@ -645,7 +1292,8 @@ PARAMETERS:
 - Days available: ${daysAvailable}
 - Study hours per day: ${hoursPerDay}
 - Chapters:
-${chapters.map((ch, i) => `  ${i + 1}. "${ch.title}" (id: "${ch.id}")${ch.importance ? ` [${ch.importance}]` : ""}`).join("\n")}
+${chapters.map((ch, i) => `  ${"  ".repeat(ch.depth ?? 0)}${ch.number ?? i + 1}. "${ch.title}" (id: "${ch.id}")${ch.importance ? ` [${ch.importance}]` : ""}`).join("\n")}
+  (Indented entries are sections of the chapter above them; schedule them as separate items in the same order.)
 
 STUDY SCIENCE PRINCIPLES TO APPLY:
 1. CHRONOLOGICAL ORDER: Study new chapters in the exact order they are listed above (chapter 1 first, then chapter 2, etc.). This follows the course structure and ensures prerequisites are covered before dependent material.
@@ -664,14 +1312,14 @@ ${daysAvailable < chapters.length * 2
     ? "WARNING: Limited time available. Prioritize critical chapters and combine where possible."
     : ""}
 
-Return a JSON array:
-[{
+Call record_study_plan with one entry per day:
+{"days": [{
   "date": "YYYY-MM-DD",
   "chapters": [{"id": "...", "title": "..."}],
   "total_minutes": 120,
   "type": "study | review | practice | buffer",
   "focus": "brief description of what to do this day"
-}]
+}]}
 
 RULES:
 - Don't schedule on the exam day itself.
@@ -679,8 +1327,125 @@ RULES:
 - Every chapter should be studied at least once and reviewed at least once.
 - The last 1-2 days should be review/practice, not new material.
 - IMPORTANT: "study" days (first encounter with new material) MUST introduce chapters in the chronological order listed above. Do NOT skip ahead or reorder chapters. Only "review" days may mix chapters from different parts of the course.`;
+  return { system, prompt };
+}
 
-  const result = await askClaudeWithUsage(system, prompt, 16384, model, userApiKey);
-  onUsage?.(result.usage);
-  return parseJsonResponse(result.text);
+/**
+ * Generate a study plan with spaced repetition and active recall sessions.
+ */
+export async function generateStudyPlan(
+  chapters: StudyPlanChapter[],
+  examDate: string,
+  hoursPerDay: number,
+  routing: ModelRouting = DEFAULT_ROUTING,
+  onUsage?: UsageCallback,
+  userApiKey?: string
+): Promise<StudyPlanDay[]> {
+  const { system, prompt } = studyPlanPrompt(chapters, examDate, hoursPerDay);
+  const { days } = await askWithRepair(
+    "study plan",
+    prompt,
+    (p) => askLLMStructured(system, p, studyPlanTool, routing.study_plan, userApiKey),
+    onUsage
+  );
+  return days;
+}
+
+// ─── Token Estimates ─────────────────────────────────────────────────────────
+
+// What an operation will cost, before running it: the exact input of its
+// calls (counted by the provider where it can) plus the output they usually
+// write. Repairs of invalid output aren't foreseen. Used to reserve budget
+// and to show students what an action costs.
+
+/** Output tokens each kind of call usually writes; capped at the route's maxTokens. */
+const EXPECTED_OUTPUT_TOKENS = {
+  chapterList: 2_000,
+  summary: 5_000,
+  questions: 4_000,
+  checks: 1_500,
+  studyPlan: 4_000,
+};
+
+function expectedOutput(tokens: number, route: ModelRoute): number {
+  return Math.min(tokens, route.maxTokens);
+}
+
+function countCall(call: StructuredCall, userApiKey?: string): Promise<number> {
+  const { system, context, prompt, contextTools, route, tool } = call;
+  return countInputTokens(system, { context, prompt, contextTools }, route, tool, userApiKey);
+}
+
+/**
+ * Verifying a text costs about one check call per chunk, each sending the
+ * chunk again; `textTokens` is what the text itself came to.
+ */
+function verificationEstimate(textTokens: number, route: ModelRoute): number {
+  return textTokens + expectedOutput(EXPECTED_OUTPUT_TOKENS.checks, route);
+}
+
+export async function estimateChapterDetection(
+  extraction: ExtractedDocument,
+  routing: ModelRouting = DEFAULT_ROUTING,
+  userApiKey?: string
+): Promise<number> {
+  const call = chapterDetectionCall(extraction.text, routing.chapter_detection);
+  return (await countCall(call, userApiKey)) + expectedOutput(EXPECTED_OUTPUT_TOKENS.chapterList, call.route);
+}
+
+/** Summarizing a chapter, one call per chunk, and verifying the summary. */
+export async function estimateChapterSummary(
+  chapterTitle: string,
+  chapterText: string,
+  routing: ModelRouting = DEFAULT_ROUTING,
+  userApiKey?: string
+): Promise<number> {
+  let total = 0;
+  for (const call of chapterSummaryCalls(chapterTitle, chapterText, routing.summary)) {
+    const input = await countCall(call, userApiKey);
+    total += input + expectedOutput(EXPECTED_OUTPUT_TOKENS.summary, call.route);
+    total += verificationEstimate(input, routing.verification);
+  }
+  return total;
+}
+
+/** Writing a chapter's questions, one call per chunk, and verifying their answers. */
+export async function estimateQuestions(
+  chapterTitle: string,
+  chapterText: string,
+  summary?: Pick<ChapterSummary, "main_topics">,
+  routing: ModelRouting = DEFAULT_ROUTING,
+  userApiKey?: string
+): Promise<number> {
+  let total = 0;
+  for (const call of chapterQuestionsCalls(chapterTitle, chapterText, routing.questions, summary)) {
+    const input = await countCall(call, userApiKey);
+    total += input + expectedOutput(EXPECTED_OUTPUT_TOKENS.questions, call.route);
+    total += verificationEstimate(approximateTokens(call.context), routing.verification);
+  }
+  return total;
+}
+
+/** A translation is about as long as its source text. */
+export async function estimateTranslation(
+  text: string,
+  targetLang: TranslationLanguage,
+  routing: ModelRouting = DEFAULT_ROUTING,
+  userApiKey?: string
+): Promise<number> {
+  const { system, prompt } = translationPrompt(text, targetLang);
+  const input = await countInputTokens(system, prompt, routing.translation, undefined, userApiKey);
+  return input + expectedOutput(approximateTokens(text), routing.translation);
+}
+
+export async function estimateStudyPlan(
+  chapters: StudyPlanChapter[],
+  examDate: string,
+  hoursPerDay: number,
+  routing: ModelRouting = DEFAULT_ROUTING,
+  userApiKey?: string
+): Promise<number> {
+  const { system, prompt } = studyPlanPrompt(chapters, examDate, hoursPerDay);
+  const input = await countInputTokens(system, prompt, routing.study_plan, studyPlanTool, userApiKey);
+  return input + expectedOutput(EXPECTED_OUTPUT_TOKENS.studyPlan, routing.study_plan);
 }
@@ -0,0 +1,125 @@
+import { z } from "zod";
+import type { StructuredTool } from "./llm-provider.js";
+
+// Tools the AI pipeline makes the model call, one per kind of output. The
+// schema is sent as the tool's input schema and validates the input that
+// comes back; input that doesn't match is sent back with the errors.
+
+// ─── Chapter Detection ───────────────────────────────────────────────────────
+
+export const chapterListTool = {
+  name: "record_chapters",
+  description: "Record where each chapter or section of the document starts, in document order.",
+  schema: z.object({
+    chapters: z.array(
+      z.object({
+        title: z.string().trim().min(1),
+        start_text: z.string().min(1),
+        depth: z.number().int().min(0).max(2).optional(),
+      })
+    ),
+  }),
+} satisfies StructuredTool;
+
+// ─── Chapter Summary ─────────────────────────────────────────────────────────
+
+const chapterSummarySchema = z.object({
+  source_language: z.string().default(""),
+  main_topics: z
+    .array(
+      z.object({
+        topic: z.string().trim().min(1),
+        explanation: z.string().trim().min(1),
+        key_terms: z
+          .array(
+            z.object({
+              term: z.string().trim().min(1),
+              definition: z.string(),
+              source_quote: z.string().optional(),
+            })
+          )
+          .default([]),
+        importance: z.enum(["critical", "important", "supporting"]),
+        source_quote: z.string().optional(),
+      })
+    )
+    .min(1),
+  side_topics: z
+    .array(z.object({ topic: z.string().trim().min(1), explanation: z.string() }))
+    .default([]),
+  prerequisites: z.array(z.string()).default([]),
+  connections: z.array(z.string()).default([]),
+});
+
+export const chapterSummaryTool = {
+  name: "record_summary",
+  description: "Record the study summary of the chapter.",
+  schema: chapterSummarySchema,
+} satisfies StructuredTool;
+
+// ─── Question Generation ─────────────────────────────────────────────────────
+
+const generatedQuestionsSchema = z.object({
+  exam_questions: z
+    .array(
+      z.object({
+        question: z.string().trim().min(1),
+        suggested_answer: z.string().trim().min(1),
+        bloom_level: z.enum(["remember", "understand", "apply", "analyze", "evaluate", "create"]),
+        difficulty: z.union([z.literal(1), z.literal(2), z.literal(3)]),
+        related_topic: z.string(),
+      })
+    )
+    .min(1),
+  discussion_questions: z
+    .array(
+      z.object({
+        question: z.string().trim().min(1),
+        why_useful: z.string(),
+        related_topic: z.string(),
+      })
+    )
+    .default([]),
+});
+
+export const questionSetTool = {
+  name: "record_questions",
+  description: "Record the exam and discussion questions for the chapter.",
+  schema: generatedQuestionsSchema,
+} satisfies StructuredTool;
+
+// ─── Verification ────────────────────────────────────────────────────────────
+
+export const claimChecksTool = {
+  name: "record_checks",
+  description: "Record how well the source text supports each numbered statement.",
+  schema: z.object({
+    checks: z.array(
+      z.object({
+        id: z.number().int().min(1),
+        confidence: z.number().min(0).max(1),
+        issue: z.string().optional(),
+      })
+    ),
+  }),
+} satisfies StructuredTool;
+
+// ─── Study Plan ──────────────────────────────────────────────────────────────
+
+export const studyPlanTool = {
+  name: "record_study_plan",
+  description: "Record the day-by-day study plan.",
+  schema: z.object({
+    days: z
+      .array(
+        z.object({
+          date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "must be a YYYY-MM-DD date"),
+          chapters: z.array(z.object({ id: z.string(), title: z.string() })),
+          total_minutes: z.number().min(0),
+          type: z.enum(["study", "review", "buffer", "practice"]),
+          focus: z.string(),
+        })
+      )
+      .min(1),
+  }),
+} satisfies StructuredTool;
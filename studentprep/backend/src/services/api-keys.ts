@@ -97,6 +97,19 @@ export async function getUserApiKey(userId: string): Promise<string | null> {
   }
 }
 
+/**
+ * Resolve the user's API key for an AI call. Returns undefined when no key is
+ * stored or it cannot be decrypted, so callers fall back to the server key.
+ */
+export async function resolveUserApiKey(userId: string): Promise<string | undefined> {
+  try {
+    const key = await getUserApiKey(userId);
+    return key ?? undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Get the user's API key hint (for display). Returns null if no key is stored.
  */
@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { mergeWithNext, splitChapter } from "./chapter-editor.js";
+import { reset, tables, type Row } from "../test/fake-supabase.js";
+
+vi.mock("./supabase.js", () => import("../test/fake-supabase.js"));
+
+/** The text of one page, a few numbered lines long. */
+function page(n: number): string {
+  return [1, 2, 3, 4].map((line) => `Page ${n}, line ${line} of the course text.`).join("\n");
+}
+
+/** A chapter's text and page offsets, from the pages it spans. */
+function pages(...numbers: number[]) {
+  const texts = numbers.map(page);
+  const offsets = texts.slice(1).map((_, i) => texts.slice(0, i + 1).join("\n\n").length + 2);
+  return { raw_text: texts.join("\n\n"), page_offsets: offsets };
+}
+
+function chapter(id: string, sortOrder: number, fields: Partial<Row> = {}): Row {
+  return {
+    id,
+    course_id: "course-1",
+    title: id,
+    sort_order: sortOrder,
+    parent_id: null,
+    depth: 0,
+    ocr_pages: null,
+    ocr_confidence: null,
+    summary_main: { main_topics: [] },
+    summary_side: null,
+    ...fields,
+  };
+}
+
+function row(id: string): Row {
+  return tables.chapters.find((ch) => ch.id === id)!;
+}
+
+beforeEach(() => {
+  reset();
+  tables.courses = [{ id: "course-1", user_id: "user-1", status: "ready" }];
+  tables.questions = [];
+});
+
+describe("splitChapter", () => {
+  beforeEach(() => {
+    tables.chapters = [chapter("ch-1", 0, { ...pages(4, 5, 6), start_page: 4, end_page: 6 })];
+    tables.questions = [{ id: "q-1", chapter_id: "ch-1" }];
+  });
+
+  it("splits at a page break, giving each half its own pages", async () => {
+    const text = row("ch-1").raw_text;
+    const offset = text.indexOf("Page 5, line 1");
+
+    const id = await splitChapter("ch-1", "user-1", offset, "Second half");
+
+    expect(row("ch-1")).toMatchObject({ raw_text: page(4), start_page: 4, end_page: 4, page_offsets: [] });
+    expect(row(id)).toMatchObject({
+      title: "Second half",
+      raw_text: `${page(5)}\n\n${page(6)}`,
+      start_page: 5,
+      end_page: 6,
+      page_offsets: [page(5).length + 2],
+      sort_order: 1,
+    });
+  });
+
+  it("splits within a page, which then belongs to both halves", async () => {
+    const text = row("ch-1").raw_text;
+    const offset = text.indexOf("Page 5, line 3");
+
+    const id = await splitChapter("ch-1", "user-1", offset, "Second half");
+
+    expect(row("ch-1")).toMatchObject({
+      raw_text: text.slice(0, offset - 1),
+      end_page: 5,
+      page_offsets: [page(4).length + 2],
+    });
+    const second = row(id);
+    expect(second.raw_text).toBe(text.slice(offset));
+    expect(second).toMatchObject({ start_page: 5, end_page: 6 });
+    expect(second.raw_text.slice(second.page_offsets[0])).toBe(page(6));
+  });
+
+  it("estimates the split page of a chapter saved without page offsets", async () => {
+    tables.chapters = [
+      chapter("ch-1", 0, { raw_text: "x".repeat(500), page_offsets: null, start_page: 10, end_page: 20 }),
+    ];
+
+    const id = await splitChapter("ch-1", "user-1", 200, "Second half");
+
+    expect(row("ch-1")).toMatchObject({ end_page: 14, page_offsets: null });
+    expect(row(id)).toMatchObject({ start_page: 14, end_page: 20, page_offsets: null });
+  });
+
+  it("drops the summary and questions of the split chapter", async () => {
+    const offset = row("ch-1").raw_text.indexOf("Page 5, line 1");
+
+    await splitChapter("ch-1", "user-1", offset, "Second half");
+
+    expect(row("ch-1").summary_main).toBeNull();
+    expect(tables.questions).toEqual([]);
+  });
+
+  it("refuses a split that leaves a half too short", async () => {
+    await expect(splitChapter("ch-1", "user-1", 20, "Second half")).rejects.toThrow("at least 50 characters");
+    expect(tables.chapters.length).toBe(1);
+  });
+});
+
+describe("mergeWithNext", () => {
+  it("appends the next chapter and shifts its page offsets behind the first one's text", async () => {
+    const first = pages(1, 2);
+    const second = pages(3, 4);
+    tables.chapters = [
+      chapter("ch-1", 0, { ...first, start_page: 1, end_page: 2 }),
+      chapter("ch-2", 1, { ...second, start_page: 3, end_page: 4 }),
+    ];
+
+    await mergeWithNext("ch-1", "user-1");
+
+    const secondStart = first.raw_text.length + 2;
+    expect(tables.chapters.map((ch) => ch.id)).toEqual(["ch-1"]);
+    expect(row("ch-1")).toMatchObject({
+      raw_text: `${first.raw_text}\n\n${second.raw_text}`,
+      start_page: 1,
+      end_page: 4,
+      page_offsets: [...first.page_offsets, secondStart, second.page_offsets[0] + secondStart],
+      summary_main: null,
+    });
+  });
+
+  it("adds no page break when the next chapter starts on the first one's last page", async () => {
+    const first = pages(1, 2);
+    const second = pages(2, 3);
+    tables.chapters = [
+      chapter("ch-1", 0, { ...first, start_page: 1, end_page: 2 }),
+      chapter("ch-2", 1, { ...second, start_page: 2, end_page: 3 }),
+    ];
+
+    await mergeWithNext("ch-1", "user-1");
+
+    const secondStart = first.raw_text.length + 2;
+    expect(row("ch-1")).toMatchObject({
+      end_page: 3,
+      page_offsets: [...first.page_offsets, second.page_offsets[0] + secondStart],
+    });
+  });
+
+  it("moves the sections of the removed chapter up to the merged one", async () => {
+    tables.chapters = [
+      chapter("ch-1", 0, { raw_text: "First", page_offsets: null, start_page: null, end_page: null }),
+      chapter("ch-2", 1, { raw_text: "Second", page_offsets: null, start_page: null, end_page: null }),
+      chapter("sec-1", 2, { raw_text: "Section", parent_id: "ch-2", depth: 1, start_page: null, end_page: null }),
+    ];
+
+    await mergeWithNext("ch-1", "user-1");
+
+    expect(row("ch-1")).toMatchObject({ raw_text: "First\n\nSecond", page_offsets: null });
+    expect(row("sec-1")).toMatchObject({ parent_id: "ch-1", sort_order: 1 });
+  });
+});
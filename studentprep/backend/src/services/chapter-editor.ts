@@ -0,0 +1,323 @@
+import { getSupabaseAdmin } from "./supabase.js";
+import { assignParents } from "./chapter-tree.js";
+import { hashChapterContent } from "./course-processor.js";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+interface EditableChapter {
+  id: string;
+  course_id: string;
+  title: string;
+  raw_text: string;
+  sort_order: number;
+  parent_id: string | null;
+  depth: number;
+  start_page: number | null;
+  end_page: number | null;
+  ocr_pages: number[] | null;
+  ocr_confidence: number | null;
+  page_offsets: number[] | null;
+}
+
+const CHAPTER_COLUMNS =
+  "id, course_id, title, raw_text, sort_order, parent_id, depth, start_page, end_page, ocr_pages, ocr_confidence, page_offsets";
+
+/** Neither half of a split may be shorter than this. */
+const MIN_SPLIT_LENGTH = 50;
+const MAX_TITLE_LENGTH = 200;
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Load all chapters of a course in reading order, checking that the course
+ * belongs to the user and isn't being processed.
+ */
+async function loadCourseChapters(courseId: string, userId: string): Promise<EditableChapter[]> {
+  const supabase = getSupabaseAdmin();
+
+  const { data: course } = await supabase
+    .from("courses")
+    .select("id, status")
+    .eq("id", courseId)
+    .eq("user_id", userId)
+    .single();
+
+  if (!course) throw new Error("Course not found");
+  if (course.status !== "ready") {
+    throw new Error("Chapters can only be edited once the course is processed");
+  }
+
+  const { data: chapters, error } = await supabase
+    .from("chapters")
+    .select(CHAPTER_COLUMNS)
+    .eq("course_id", courseId)
+    .order("sort_order");
+
+  if (error) throw new Error(error.message);
+  return (chapters || []) as EditableChapter[];
+}
+
+/** Look up the course of a chapter, so edits can load its siblings. */
+async function courseIdForChapter(chapterId: string): Promise<string> {
+  const { data: chapter } = await getSupabaseAdmin()
+    .from("chapters")
+    .select("course_id")
+    .eq("id", chapterId)
+    .single();
+
+  if (!chapter) throw new Error("Chapter not found");
+  return chapter.course_id;
+}
+
+/**
+ * Summaries and questions were generated from the old text; drop them so the
+ * student regenerates them for the edited chapter.
+ */
+async function invalidateChapters(chapterIds: string[]): Promise<void> {
+  const supabase = getSupabaseAdmin();
+  await supabase
+    .from("chapters")
+    .update({ summary_main: null, summary_side: null, summary_coverage: null, questions_coverage: null })
+    .in("id", chapterIds);
+  await supabase.from("questions").delete().in("chapter_id", chapterIds);
+}
+
+/**
+ * Write sort_order, depth and parent_id for chapters in their new reading
+ * order. Parents are recomputed from depth, so chapters that lost their parent
+ * attach to the nearest chapter above them. Only changed rows are updated.
+ */
+async function saveTreeOrder(ordered: EditableChapter[]): Promise<void> {
+  const supabase = getSupabaseAdmin();
+  const hierarchy = assignParents(ordered.map((ch) => ch.depth));
+
+  const updates = ordered.flatMap((ch, i) => {
+    const { parent, depth } = hierarchy[i];
+    const parentId = parent !== null ? ordered[parent].id : null;
+    if (ch.sort_order === i && ch.depth === depth && ch.parent_id === parentId) return [];
+    return [
+      supabase
+        .from("chapters")
+        .update({ sort_order: i, depth, parent_id: parentId })
+        .eq("id", ch.id),
+    ];
+  });
+
+  const results = await Promise.all(updates);
+  const failed = results.find((r) => r.error);
+  if (failed?.error) throw new Error(failed.error.message);
+}
+
+// ─── Edits ────────────────────────────────────────────────────────────────────
+
+/**
+ * Raw text of a chapter, for previewing split points.
+ */
+export async function getChapterText(chapterId: string, userId: string) {
+  const courseId = await courseIdForChapter(chapterId);
+  const chapters = await loadCourseChapters(courseId, userId);
+  const chapter = chapters.find((ch) => ch.id === chapterId);
+  if (!chapter) throw new Error("Chapter not found");
+  return { id: chapter.id, title: chapter.title, raw_text: chapter.raw_text };
+}
+
+/**
+ * Rename a chapter. The text is unchanged, so summaries and questions stay.
+ */
+export async function renameChapter(chapterId: string, userId: string, title: string): Promise<void> {
+  const trimmed = title.trim();
+  if (!trimmed || trimmed.length > MAX_TITLE_LENGTH) {
+    throw new Error(`Title must be between 1 and ${MAX_TITLE_LENGTH} characters`);
+  }
+
+  const courseId = await courseIdForChapter(chapterId);
+  await loadCourseChapters(courseId, userId);
+
+  const { error } = await getSupabaseAdmin()
+    .from("chapters")
+    .update({ title: trimmed })
+    .eq("id", chapterId);
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Merge a chapter with the one directly after it in reading order. The text
+ * is appended to the first chapter, which keeps its title; sections of the
+ * removed chapter move up to the nearest chapter above them.
+ */
+export async function mergeWithNext(chapterId: string, userId: string): Promise<void> {
+  const courseId = await courseIdForChapter(chapterId);
+  const chapters = await loadCourseChapters(courseId, userId);
+  const index = chapters.findIndex((ch) => ch.id === chapterId);
+  const first = chapters[index];
+  const second = chapters[index + 1];
+  if (!first) throw new Error("Chapter not found");
+  if (!second) throw new Error("This is the last chapter; there is nothing to merge with");
+
+  const ocrPages = [...new Set([...(first.ocr_pages ?? []), ...(second.ocr_pages ?? [])])].sort(
+    (a, b) => a - b
+  );
+  const confidences = [first.ocr_confidence, second.ocr_confidence].filter(
+    (c): c is number => c !== null
+  );
+
+  const separator = "\n\n";
+  const mergedText = `${first.raw_text}${separator}${second.raw_text}`;
+  // Page starts of the second chapter, shifted behind the first one's text
+  const secondStart = first.raw_text.length + separator.length;
+  const pageOffsets =
+    first.page_offsets && second.page_offsets && first.end_page !== null && second.start_page !== null
+      ? [
+          ...first.page_offsets,
+          ...(second.start_page > first.end_page ? [secondStart] : []),
+          ...second.page_offsets.map((o) => o + secondStart),
+        ]
+      : null;
+  const supabase = getSupabaseAdmin();
+  const { error } = await supabase
+    .from("chapters")
+    .update({
+      raw_text: mergedText,
+      content_hash: hashChapterContent(mergedText),
+      start_page: first.start_page ?? second.start_page,
+      end_page: second.end_page ?? first.end_page,
+      ocr_pages: ocrPages,
+      ocr_confidence: confidences.length ? Math.min(...confidences) : null,
+      page_offsets: pageOffsets,
+    })
+    .eq("id", first.id);
+  if (error) throw new Error(error.message);
+
+  // Re-parent first: parent_id cascades, so deleting `second` would take its sections along
+  await saveTreeOrder(chapters.filter((ch) => ch.id !== second.id));
+  await supabase.from("chapters").delete().eq("id", second.id);
+  await invalidateChapters([first.id]);
+}
+
+/**
+ * Split a chapter at a character offset in its raw text. The text after the
+ * offset becomes a new chapter at the same depth, directly after the original.
+ * Returns the new chapter's id.
+ */
+export async function splitChapter(
+  chapterId: string,
+  userId: string,
+  offset: number,
+  title: string
+): Promise<string> {
+  const trimmedTitle = title.trim();
+  if (!trimmedTitle || trimmedTitle.length > MAX_TITLE_LENGTH) {
+    throw new Error(`Title must be between 1 and ${MAX_TITLE_LENGTH} characters`);
+  }
+
+  const courseId = await courseIdForChapter(chapterId);
+  const chapters = await loadCourseChapters(courseId, userId);
+  const index = chapters.findIndex((ch) => ch.id === chapterId);
+  const chapter = chapters[index];
+  if (!chapter) throw new Error("Chapter not found");
+
+  const before = chapter.raw_text.slice(0, offset).trimEnd();
+  const after = chapter.raw_text.slice(offset).trimStart();
+  if (
+    !Number.isInteger(offset) ||
+    before.length < MIN_SPLIT_LENGTH ||
+    after.length < MIN_SPLIT_LENGTH
+  ) {
+    throw new Error(`Both parts of a split need at least ${MIN_SPLIT_LENGTH} characters of text`);
+  }
+
+  // Where the new chapter's text starts in the original raw_text
+  const afterStart = chapter.raw_text.length - after.length;
+  let firstEndPage: number | null = null;
+  let splitPage: number | null = null;
+  let firstOffsets: number[] | null = null;
+  let secondOffsets: number[] | null = null;
+  if (chapter.start_page !== null && chapter.end_page !== null) {
+    if (chapter.page_offsets) {
+      const offsets = chapter.page_offsets;
+      firstEndPage = chapter.start_page + offsets.filter((o) => o < before.length).length;
+      splitPage = chapter.start_page + offsets.filter((o) => o <= afterStart).length;
+      firstOffsets = offsets.filter((o) => o < before.length);
+      secondOffsets = offsets.filter((o) => o > afterStart).map((o) => o - afterStart);
+    } else {
+      // Chapters saved without page offsets: estimate the split page from the offset
+      const span = chapter.end_page - chapter.start_page;
+      splitPage = chapter.start_page + Math.round((span * offset) / chapter.raw_text.length);
+      firstEndPage = splitPage;
+    }
+  }
+  const ocrIn = (from: number | null, to: number | null) =>
+    (chapter.ocr_pages ?? []).filter((n) => from === null || to === null || (n >= from && n <= to));
+  const firstOcr = ocrIn(chapter.start_page, firstEndPage);
+  const secondOcr = ocrIn(splitPage, chapter.end_page);
+
+  const supabase = getSupabaseAdmin();
+  const { error: updateError } = await supabase
+    .from("chapters")
+    .update({
+      raw_text: before,
+      content_hash: hashChapterContent(before),
+      end_page: firstEndPage ?? chapter.end_page,
+      ocr_pages: firstOcr,
+      ocr_confidence: firstOcr.length ? chapter.ocr_confidence : null,
+      page_offsets: firstOffsets,
+    })
+    .eq("id", chapter.id);
+  if (updateError) throw new Error(updateError.message);
+
+  const { data: inserted, error: insertError } = await supabase
+    .from("chapters")
+    .insert({
+      course_id: courseId,
+      parent_id: chapter.parent_id,
+      depth: chapter.depth,
+      title: trimmedTitle,
+      raw_text: after,
+      content_hash: hashChapterContent(after),
+      summary_main: null,
+      summary_side: null,
+      sort_order: chapter.sort_order + 1,
+      start_page: splitPage ?? chapter.start_page,
+      end_page: chapter.end_page,
+      ocr_pages: secondOcr,
+      ocr_confidence: secondOcr.length ? chapter.ocr_confidence : null,
+      page_offsets: secondOffsets,
+    })
+    .select(CHAPTER_COLUMNS)
+    .single();
+  if (insertError || !inserted) {
+    throw new Error(`Failed to save chapter "${trimmedTitle}": ${insertError?.message}`);
+  }
+
+  // The original's sections follow the split-off text, so they now belong to the new chapter
+  await saveTreeOrder([
+    ...chapters.slice(0, index + 1),
+    inserted as EditableChapter,
+    ...chapters.slice(index + 1),
+  ]);
+  await invalidateChapters([chapter.id]);
+  return inserted.id;
+}
+
+/**
+ * Put a course's chapters in a new reading order. Every chapter must be
+ * listed exactly once; depths are kept and parents recomputed from them.
+ */
+export async function reorderChapters(
+  courseId: string,
+  userId: string,
+  chapterIds: string[]
+): Promise<void> {
+  const chapters = await loadCourseChapters(courseId, userId);
+  const byId = new Map(chapters.map((ch) => [ch.id, ch]));
+
+  if (
+    chapterIds.length !== chapters.length ||
+    new Set(chapterIds).size !== chapterIds.length ||
+    !chapterIds.every((id) => byId.has(id))
+  ) {
+    throw new Error("chapterIds must list every chapter of the course exactly once");
+  }
+
+  await saveTreeOrder(chapterIds.map((id) => byId.get(id)!));
+}
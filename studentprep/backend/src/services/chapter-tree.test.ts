@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { assignParents, collectSubtrees, outlineNumbers, type ChapterNode } from "./chapter-tree.js";
+
+/** Chapters in reading order, given as [id, parent id, depth]. */
+function tree(...nodes: [string, string | null, number][]): ChapterNode[] {
+  return nodes.map(([id, parent_id, depth], sort_order) => ({ id, parent_id, depth, sort_order }));
+}
+
+describe("assignParents", () => {
+  it("attaches every chapter to the nearest one a level above it", () => {
+    expect(assignParents([0, 1, 1, 2, 0, 1])).toEqual([
+      { parent: null, depth: 0 },
+      { parent: 0, depth: 1 },
+      { parent: 0, depth: 1 },
+      { parent: 2, depth: 2 },
+      { parent: null, depth: 0 },
+      { parent: 4, depth: 1 },
+    ]);
+  });
+
+  it("lifts sections that have no chapter directly above them", () => {
+    expect(assignParents([1, 0, 2])).toEqual([
+      { parent: null, depth: 0 },
+      { parent: null, depth: 0 },
+      { parent: 1, depth: 1 },
+    ]);
+  });
+});
+
+describe("collectSubtrees", () => {
+  const chapters = tree(["p1", null, 0], ["c1", "p1", 1], ["s1", "c1", 2], ["p2", null, 0], ["c2", "p2", 1]);
+
+  it("selects everything below a chosen part, in reading order", () => {
+    expect(collectSubtrees(chapters, ["p1"]).map((ch) => ch.id)).toEqual(["p1", "c1", "s1"]);
+  });
+
+  it("orders the result by reading order and ignores unknown ids", () => {
+    const shuffled = [chapters[4], chapters[2], chapters[0], chapters[3], chapters[1]];
+
+    expect(collectSubtrees(shuffled, ["c2", "c1", "gone"]).map((ch) => ch.id)).toEqual(["c1", "s1", "c2"]);
+  });
+});
+
+describe("outlineNumbers", () => {
+  it("numbers chapters within their parent", () => {
+    const numbers = outlineNumbers(
+      tree(["a", null, 0], ["b", null, 0], ["b1", "b", 1], ["b2", "b", 1], ["b2a", "b2", 2])
+    );
+
+    expect(Object.fromEntries(numbers)).toEqual({ a: "1", b: "2", b1: "2.1", b2: "2.2", b2a: "2.2.1" });
+  });
+
+  it("numbers a chapter whose parent isn't in the list as a root", () => {
+    const numbers = outlineNumbers(tree(["b1", "b", 1], ["b2", "b", 1], ["c", null, 0]));
+
+    expect(Object.fromEntries(numbers)).toEqual({ b1: "1", b2: "2", c: "3" });
+  });
+});
@@ -0,0 +1,68 @@
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** The fields needed to place a chapter in the course tree. */
+export interface ChapterNode {
+  id: string;
+  parent_id: string | null;
+  depth: number;
+  sort_order: number;
+}
+
+// ─── Building ─────────────────────────────────────────────────────────────────
+
+/**
+ * Given chapter depths in reading order, return the index of each chapter's
+ * parent (or null). Depth can't jump more than one level below the previous
+ * chapter, so a section without a chapter above it is lifted up.
+ */
+export function assignParents(depths: number[]): { parent: number | null; depth: number }[] {
+  const stack: number[] = []; // index of the open chapter at each depth
+  const result: { parent: number | null; depth: number }[] = [];
+
+  depths.forEach((requested, i) => {
+    const depth = Math.max(0, Math.min(requested, stack.length));
+    stack.length = depth;
+    result.push({ parent: depth > 0 ? stack[depth - 1] : null, depth });
+    stack.push(i);
+  });
+
+  return result;
+}
+
+// ─── Querying ─────────────────────────────────────────────────────────────────
+
+/**
+ * Expand a selection of chapters to include everything below them, so that
+ * picking a part means all its chapters and sections. Returns chapters in
+ * reading order; ids that aren't in `chapters` are ignored.
+ */
+export function collectSubtrees<T extends ChapterNode>(chapters: T[], rootIds: string[]): T[] {
+  const selected = new Set(rootIds);
+  const sorted = [...chapters].sort((a, b) => a.sort_order - b.sort_order);
+
+  // Parents always come before their children in reading order
+  for (const ch of sorted) {
+    if (ch.parent_id && selected.has(ch.parent_id)) selected.add(ch.id);
+  }
+
+  return sorted.filter((ch) => selected.has(ch.id));
+}
+
+/**
+ * Outline numbers for chapters in reading order: "1", "2", "2.1", "2.2", ...
+ * Keyed by chapter id.
+ */
+export function outlineNumbers(chapters: ChapterNode[]): Map<string, string> {
+  const numbers = new Map<string, string>();
+  const childCount = new Map<string | null, number>();
+
+  for (const ch of [...chapters].sort((a, b) => a.sort_order - b.sort_order)) {
+    // A parent outside the list (e.g. an exported subset) makes this a root
+    const parent = ch.parent_id && numbers.has(ch.parent_id) ? ch.parent_id : null;
+    const n = (childCount.get(parent) ?? 0) + 1;
+    childCount.set(parent, n);
+    numbers.set(ch.id, parent ? `${numbers.get(parent)}.${n}` : String(n));
+  }
+
+  return numbers;
+}
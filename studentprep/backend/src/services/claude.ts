@@ -1,15 +1,10 @@
 import Anthropic from "@anthropic-ai/sdk";
+import { z } from "zod";
+import type { LLMProvider, LLMRequest, LLMUsage, StructuredTool, ToolCallResult } from "./llm-provider.js";
+import { LLMError, kindForStatus, llmErrorMessage, parseRetryAfter } from "./llm-errors.js";
 
 let client: Anthropic | null = null;
 
-/**
- * Check whether an Anthropic API key is configured (non-empty).
- * Does NOT prove the key is valid — only that one has been provided.
- */
-export function isAnthropicConfigured(): boolean {
-  return Boolean(process.env.ANTHROPIC_API_KEY);
-}
-
 function getClient(): Anthropic {
   if (!client) {
     const apiKey = process.env.ANTHROPIC_API_KEY;
@@ -19,89 +14,226 @@ function getClient(): Anthropic {
           "Set it in studentprep/backend/.env (see .env.example)."
       );
     }
-    client = new Anthropic({ apiKey });
+    client = new Anthropic({ apiKey, maxRetries: 0 });
   }
   return client;
 }
 
 /** Create a temporary Anthropic client using a user-provided API key. */
 function createUserClient(apiKey: string): Anthropic {
-  return new Anthropic({ apiKey });
+  return new Anthropic({ apiKey, maxRetries: 0 });
 }
 
 export type AIModel = "claude-sonnet-4-5-20250929" | "claude-haiku-4-5-20251001";
 
 export const AI_MODELS: { id: AIModel; label: string }[] = [
   { id: "claude-sonnet-4-5-20250929", label: "Sonnet 4.5" },
+  { id: "claude-haiku-4-5-20251001", label: "Haiku 4.5" },
 ];
 
-export const DEFAULT_MODEL: AIModel = "claude-sonnet-4-5-20250929";
+/**
+ * Classify API failures as LLMErrors. Retries happen in the provider layer,
+ * so the SDK's own retries are off. Other errors are returned unchanged.
+ */
+function describeError(err: unknown, userApiKey?: string): unknown {
+  if (err instanceof Anthropic.APIConnectionTimeoutError) {
+    return new LLMError("timeout", llmErrorMessage("timeout", "Anthropic"), { cause: err });
+  }
+  if (err instanceof Anthropic.APIConnectionError && !(err instanceof Anthropic.APIUserAbortError)) {
+    return new LLMError("network", llmErrorMessage("network", "Anthropic"), { cause: err });
+  }
+  if (err instanceof Anthropic.APIError && err.status !== undefined) {
+    const kind = kindForStatus(err.status, Boolean(userApiKey));
+    if (!kind) return err;
+    if (kind === "invalid_key") client = null;
+    return new LLMError(kind, llmErrorMessage(kind, "Anthropic", err.message), {
+      retryAfterMs: parseRetryAfter(err.headers?.["retry-after"]),
+      cause: err,
+    });
+  }
+  return err;
+}
 
-export interface ClaudeUsage {
-  input_tokens: number;
-  output_tokens: number;
-  model: AIModel;
+function usageOf(response: Anthropic.Message, model: AIModel): LLMUsage {
+  return {
+    input_tokens: response.usage.input_tokens,
+    output_tokens: response.usage.output_tokens,
+    cache_creation_input_tokens: response.usage.cache_creation_input_tokens ?? 0,
+    cache_read_input_tokens: response.usage.cache_read_input_tokens ?? 0,
+    model,
+  };
 }
 
-export interface ClaudeResponse {
-  text: string;
-  usage: ClaudeUsage;
+const CACHED = { cache_control: { type: "ephemeral" as const } };
+
+/**
+ * System prompt and user message, with the shared context at the end of the
+ * system prompt and a prompt-cache breakpoint after it. The cached prefix is
+ * tools, system prompt, context; it has to come before the message because
+ * forcing a different tool invalidates cached message blocks. Prefixes
+ * shorter than the model's minimum are simply not cached.
+ */
+function cachedPrompt({ system, context, prompt }: LLMRequest) {
+  return {
+    system: context
+      ? [
+          { type: "text" as const, text: system },
+          { type: "text" as const, text: context, ...CACHED },
+        ]
+      : system,
+    messages: [{ role: "user" as const, content: prompt }],
+  };
+}
+
+function toolDefinition(tool: StructuredTool): Anthropic.Tool {
+  const { $schema: _, ...inputSchema } = z.toJSONSchema(tool.schema, { io: "input" });
+  return {
+    name: tool.name,
+    description: tool.description,
+    input_schema: inputSchema as Anthropic.Tool.InputSchema,
+  };
 }
 
 /**
- * Call Claude with usage tracking. Optionally uses a user-provided API key.
+ * Messages API parameters that make the model call `tool`. The request's
+ * context tools are declared too, in their order, so the cached prefix
+ * matches between calls that use different ones.
  */
-export async function askClaudeWithUsage(
-  systemPrompt: string,
-  userMessage: string,
-  maxTokens: number = 8192,
-  model: AIModel = DEFAULT_MODEL,
-  userApiKey?: string
-): Promise<ClaudeResponse> {
-  const anthropic = userApiKey ? createUserClient(userApiKey) : getClient();
-
-  try {
-    const response = await anthropic.messages.create({
-      model,
-      max_tokens: maxTokens,
-      system: systemPrompt,
-      messages: [{ role: "user", content: userMessage }],
-    });
+function toolParams(request: LLMRequest, tool: StructuredTool) {
+  const declared = request.contextTools ?? [];
+  const tools = declared.some((t) => t.name === tool.name) ? declared : [...declared, tool];
+  return {
+    model: request.model,
+    max_tokens: request.maxTokens,
+    temperature: request.temperature,
+    ...cachedPrompt(request),
+    tools: tools.map(toolDefinition),
+    tool_choice: { type: "tool" as const, name: tool.name },
+  };
+}
 
-    const block = response.content[0];
-    if (block.type !== "text") {
-      throw new Error("Unexpected response type from Claude");
-    }
+/** The input of the (forced, so only) tool call in a response. */
+function toolCallResult(response: Anthropic.Message, model: AIModel): ToolCallResult {
+  const block = response.content.find((b) => b.type === "tool_use");
+  return {
+    input: block?.type === "tool_use" ? block.input : undefined,
+    truncated: response.stop_reason === "max_tokens",
+    usage: usageOf(response, model),
+  };
+}
 
-    return {
-      text: block.text,
-      usage: {
-        input_tokens: response.usage.input_tokens,
-        output_tokens: response.usage.output_tokens,
-        model,
-      },
-    };
-  } catch (err: unknown) {
-    if (err instanceof Anthropic.AuthenticationError) {
-      if (!userApiKey) client = null;
-      throw new Error(
-        userApiKey
-          ? "Your personal Anthropic API key is invalid. Please update it in settings."
-          : "Anthropic API authentication failed — the configured ANTHROPIC_API_KEY is invalid. " +
-            "Check your studentprep/backend/.env file and restart the server."
+/**
+ * Claude through the Anthropic API. Calls use the user's own API key when
+ * they have one, otherwise ANTHROPIC_API_KEY.
+ */
+export const anthropicProvider: LLMProvider = {
+  name: "anthropic",
+  requiredEnv: ["ANTHROPIC_API_KEY"],
+
+  async complete(request: LLMRequest) {
+    const { maxTokens, model, temperature, apiKey, timeoutMs } = request;
+    const anthropic = apiKey ? createUserClient(apiKey) : getClient();
+
+    try {
+      const response = await anthropic.messages.create(
+        { model, max_tokens: maxTokens, temperature, ...cachedPrompt(request) },
+        { timeout: timeoutMs }
       );
+
+      const block = response.content[0];
+      if (block.type !== "text") {
+        throw new Error("Unexpected response type from Claude");
+      }
+      return { text: block.text, usage: usageOf(response, model) };
+    } catch (err: unknown) {
+      throw describeError(err, apiKey);
     }
-    throw err;
-  }
-}
+  },
 
-export async function askClaude(
-  systemPrompt: string,
-  userMessage: string,
-  maxTokens: number = 8192,
-  model: AIModel = DEFAULT_MODEL,
-  userApiKey?: string
-): Promise<string> {
-  const result = await askClaudeWithUsage(systemPrompt, userMessage, maxTokens, model, userApiKey);
-  return result.text;
-}
+  async callTool(request, tool, onPartialInput) {
+    const { model, apiKey, timeoutMs } = request;
+    const anthropic = apiKey ? createUserClient(apiKey) : getClient();
+    const params = toolParams(request, tool);
+
+    let response: Anthropic.Message;
+    try {
+      if (onPartialInput) {
+        const stream = anthropic.messages.stream(params, { timeout: timeoutMs });
+        stream.on("inputJson", (_delta, snapshot) => onPartialInput(snapshot));
+        response = await stream.finalMessage();
+      } else {
+        response = await anthropic.messages.create(params, { timeout: timeoutMs });
+      }
+    } catch (err: unknown) {
+      throw describeError(err, apiKey);
+    }
+    return toolCallResult(response, model);
+  },
+
+  async countTokens(request, tool) {
+    const { apiKey, timeoutMs } = request;
+    const anthropic = apiKey ? createUserClient(apiKey) : getClient();
+    // The count endpoint takes the request without its output settings
+    const { max_tokens: _, temperature: __, ...params } = tool
+      ? toolParams(request, tool)
+      : { model: request.model, max_tokens: request.maxTokens, temperature: request.temperature, ...cachedPrompt(request) };
+
+    try {
+      const { input_tokens } = await anthropic.messages.countTokens(params, { timeout: timeoutMs });
+      return input_tokens;
+    } catch (err: unknown) {
+      throw describeError(err, apiKey);
+    }
+  },
+
+  // Message Batches: half price, results within 24 hours
+  batches: {
+    async submit(items, apiKey) {
+      const anthropic = apiKey ? createUserClient(apiKey) : getClient();
+      try {
+        const batch = await anthropic.messages.batches.create({
+          requests: items.map(({ id, request, tool }) => ({ custom_id: id, params: toolParams(request, tool) })),
+        });
+        return batch.id;
+      } catch (err: unknown) {
+        throw describeError(err, apiKey);
+      }
+    },
+
+    async ended(batchId, apiKey) {
+      const anthropic = apiKey ? createUserClient(apiKey) : getClient();
+      try {
+        const batch = await anthropic.messages.batches.retrieve(batchId);
+        return batch.processing_status === "ended";
+      } catch (err: unknown) {
+        throw describeError(err, apiKey);
+      }
+    },
+
+    async results(batchId, apiKey) {
+      const anthropic = apiKey ? createUserClient(apiKey) : getClient();
+      try {
+        const results = [];
+        for await (const { custom_id, result } of await anthropic.messages.batches.results(batchId)) {
+          results.push(
+            result.type === "succeeded"
+              ? { id: custom_id, result: toolCallResult(result.message, result.message.model as AIModel) }
+              : { id: custom_id, error: result.type === "errored" ? result.error.error.message : result.type }
+          );
+        }
+        return results;
+      } catch (err: unknown) {
+        throw describeError(err, apiKey);
+      }
+    },
+
+    async cancel(batchId, apiKey) {
+      const anthropic = apiKey ? createUserClient(apiKey) : getClient();
+      try {
+        await anthropic.messages.batches.cancel(batchId);
+      } catch (err: unknown) {
+        throw describeError(err, apiKey);
+      }
+    },
+  },
+};
@@ -1,9 +1,12 @@
 // Centralized environment configuration & validation.
 // Call validateConfig() at startup to log what's missing.
 
+import { getLLMProvider, missingLLMConfig } from "./llm-provider.js";
+
 export interface ConfigStatus {
   supabase: boolean;
-  anthropic: boolean;
+  llm: boolean; // the LLM_PROVIDER has what it needs to make calls
+  llmProvider: string;
   stripe: boolean;
   ready: boolean; // true when the minimum required vars are present
   missing: string[];
@@ -16,7 +19,9 @@ export function validateConfig(): ConfigStatus {
     Boolean(process.env.SUPABASE_URL) &&
     Boolean(process.env.SUPABASE_SERVICE_KEY);
 
-  const anthropic = Boolean(process.env.ANTHROPIC_API_KEY);
+  const llmProvider = getLLMProvider().name;
+  const missingLLM = missingLLMConfig();
+  const llm = missingLLM.length === 0;
 
   const stripe =
     Boolean(process.env.STRIPE_SECRET_KEY) &&
@@ -25,7 +30,7 @@ export function validateConfig(): ConfigStatus {
 
   if (!process.env.SUPABASE_URL) missing.push("SUPABASE_URL");
   if (!process.env.SUPABASE_SERVICE_KEY) missing.push("SUPABASE_SERVICE_KEY");
-  if (!process.env.ANTHROPIC_API_KEY) missing.push("ANTHROPIC_API_KEY");
+  missing.push(...missingLLM);
   if (!process.env.STRIPE_SECRET_KEY) missing.push("STRIPE_SECRET_KEY");
   if (!process.env.STRIPE_WEBHOOK_SECRET) missing.push("STRIPE_WEBHOOK_SECRET");
   if (!process.env.STRIPE_PRO_PRICE_ID) missing.push("STRIPE_PRO_PRICE_ID");
@@ -33,14 +38,14 @@ export function validateConfig(): ConfigStatus {
   // Minimum requirement: Supabase must be configured for the API to function
   const ready = supabase;
 
-  return { supabase, anthropic, stripe, ready, missing };
+  return { supabase, llm, llmProvider, stripe, ready, missing };
 }
 
 export function logConfigStatus(status: ConfigStatus): void {
   console.log("");
   console.log("=== Configuration Status ===");
   console.log(`  Supabase : ${status.supabase ? "OK" : "MISSING"}`);
-  console.log(`  Anthropic: ${status.anthropic ? "OK" : "MISSING"}`);
+  console.log(`  LLM      : ${status.llm ? "OK" : "MISSING"} (${status.llmProvider})`);
   console.log(`  Stripe   : ${status.stripe ? "OK" : "MISSING (optional)"}`);
 
   if (status.missing.length > 0) {
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { hashChapterContent, saveChaptersIncrementally } from "./course-processor.js";
+import { reset, tables } from "../test/fake-supabase.js";
+
+vi.mock("./supabase.js", () => import("../test/fake-supabase.js"));
+
+/** A freshly detected chapter as processCourse builds it. */
+function detected(title: string, rawText: string, sortOrder: number) {
+  return {
+    title,
+    raw_text: rawText,
+    content_hash: hashChapterContent(rawText),
+    sort_order: sortOrder,
+    depth: 0,
+    start_page: sortOrder + 1,
+    end_page: sortOrder + 1,
+    ocr_pages: [],
+    ocr_confidence: null,
+    page_offsets: [12],
+  };
+}
+
+/** A stored chapter with a summary whose anchors point into `rawText`. */
+function stored(id: string, title: string, rawText: string, sortOrder: number) {
+  return {
+    id,
+    course_id: "course-1",
+    title,
+    raw_text: rawText,
+    content_hash: hashChapterContent(rawText),
+    sort_order: sortOrder,
+    page_offsets: [5],
+    summary_main: `Summary of ${title}`,
+  };
+}
+
+describe("saveChaptersIncrementally", () => {
+  beforeEach(() => {
+    reset();
+    tables.questions = [];
+  });
+
+  it("keeps an unchanged chapter with its summary, title and text", async () => {
+    tables.chapters = [stored("ch-1", "Renamed cells", "Cells are  the\nunits of life.", 0)];
+
+    const kept = await saveChaptersIncrementally(
+      "course-1",
+      [detected("Cells", "Cells are the units of life.", 0)],
+      [{ parent: null }]
+    );
+
+    expect(kept).toBe(1);
+    expect(tables.chapters).toEqual([
+      expect.objectContaining({
+        id: "ch-1",
+        title: "Renamed cells",
+        raw_text: "Cells are  the\nunits of life.",
+        page_offsets: [5],
+        summary_main: "Summary of Renamed cells",
+        start_page: 1,
+      }),
+    ]);
+  });
+
+  it("inserts new chapters and deletes stale ones with their questions", async () => {
+    tables.chapters = [
+      stored("ch-1", "Cells", "Cells are the units of life.", 0),
+      stored("ch-2", "Old chapter", "Text that was removed.", 1),
+    ];
+    tables.questions = [{ id: "q-1", chapter_id: "ch-2" }, { id: "q-2", chapter_id: "ch-1" }];
+
+    const kept = await saveChaptersIncrementally(
+      "course-1",
+      [detected("Cells", "Cells are the units of life.", 0), detected("Genetics", "Genes carry traits.", 1)],
+      [{ parent: null }, { parent: 0 }]
+    );
+
+    expect(kept).toBe(1);
+    expect(tables.chapters.map((ch) => ch.title)).toEqual(["Cells", "Genetics"]);
+    const genetics = tables.chapters[1];
+    expect(genetics).toMatchObject({ parent_id: "ch-1", summary_main: null, raw_text: "Genes carry traits." });
+    expect(tables.questions).toEqual([{ id: "q-2", chapter_id: "ch-1" }]);
+  });
+
+  it("matches chapters with the same text in order", async () => {
+    tables.chapters = [stored("ch-1", "Exercises", "", 0), stored("ch-2", "Exercises", "", 1)];
+
+    const kept = await saveChaptersIncrementally(
+      "course-1",
+      [detected("Exercises", "", 0), detected("Exercises", "", 1)],
+      [{ parent: null }, { parent: null }]
+    );
+
+    expect(kept).toBe(2);
+    expect(tables.chapters.map((ch) => [ch.id, ch.sort_order])).toEqual([["ch-1", 0], ["ch-2", 1]]);
+  });
+});
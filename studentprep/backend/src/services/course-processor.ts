@@ -0,0 +1,381 @@
+import { createHash } from "node:crypto";
+import { getSupabaseAdmin } from "./supabase.js";
+import { extractDocument, type ExtractedDocument } from "./extractors.js";
+import { assignParents } from "./chapter-tree.js";
+import { detectChapters, createUsageTracker, estimateChapterDetection, type ChapterData } from "./ai-pipeline.js";
+import {
+  getUserSubscription,
+  getTokenBudget,
+  budgetExhaustedHint,
+  reserveTokens,
+  releaseTokens,
+  settleTokens,
+  type TokenReservation,
+} from "./subscription.js";
+import { resolveUserApiKey } from "./api-keys.js";
+import { PermanentError } from "./errors.js";
+import { getUserModelRouting } from "./model-routes.js";
+import { detectStructure, STRUCTURE_CONFIDENCE_THRESHOLD, type DetectionStrategy } from "./structure-detector.js";
+import type { JobContext } from "./job-queue.js";
+import { getLimits } from "../config/tierLimits.js";
+
+/**
+ * Remove chapters (and their questions) left over from a previous or partial run.
+ */
+export async function clearCourseChapters(courseId: string): Promise<void> {
+  const supabase = getSupabaseAdmin();
+  const { data: oldChapters } = await supabase
+    .from("chapters")
+    .select("id")
+    .eq("course_id", courseId);
+  if (oldChapters && oldChapters.length > 0) {
+    const oldIds = oldChapters.map((ch: any) => ch.id);
+    await supabase.from("questions").delete().in("chapter_id", oldIds);
+    await supabase.from("chapters").delete().eq("course_id", courseId);
+  }
+}
+
+/** Chapter fields written by processing; ids and parents are set while saving. */
+interface ChapterRow {
+  title: string;
+  raw_text: string;
+  content_hash: string;
+  sort_order: number;
+  depth: number;
+  start_page: number | null;
+  end_page: number | null;
+  ocr_pages: number[];
+  ocr_confidence: number | null;
+  page_offsets: number[] | null;
+}
+
+/**
+ * Where each page after the chapter's first page begins in its (trimmed) content.
+ */
+function chapterPageOffsets(extraction: ExtractedDocument, ch: ChapterData): number[] {
+  const slice = extraction.text.slice(ch.start, ch.end);
+  const contentStart = ch.start + (slice.length - slice.trimStart().length);
+  return extraction.pages
+    .filter((page) => page.pageNumber > ch.startPage && page.pageNumber <= ch.endPage)
+    .map((page) => Math.max(0, page.offset - contentStart));
+}
+
+/**
+ * Fingerprint of a chapter's text. Whitespace is normalized so re-extracting
+ * the same document (or re-flowed OCR output) still matches.
+ */
+export function hashChapterContent(text: string): string {
+  return createHash("sha256").update(text.replace(/\s+/g, " ").trim()).digest("hex");
+}
+
+/**
+ * Reconcile freshly detected chapters with the ones already stored. Chapters
+ * whose text is unchanged keep their row — and so their summaries, questions
+ * and translations, and quiz history pointing at them. Others are inserted;
+ * stored chapters that no longer match anything are deleted.
+ *
+ * All detection work is done before this runs, so a cancelled job never
+ * leaves the course half reconciled. Returns the number of chapters kept.
+ */
+export async function saveChaptersIncrementally(
+  courseId: string,
+  rows: ChapterRow[],
+  hierarchy: { parent: number | null }[]
+): Promise<number> {
+  const supabase = getSupabaseAdmin();
+  const { data: existing, error } = await supabase
+    .from("chapters")
+    .select("id, raw_text, content_hash")
+    .eq("course_id", courseId)
+    .order("sort_order");
+  if (error) throw new Error(`Failed to load chapters: ${error.message}`);
+
+  // Same text can occur twice (e.g. two empty "Exercises" sections); match in order
+  const byHash = new Map<string, string[]>();
+  for (const ch of existing || []) {
+    const hash = ch.content_hash ?? hashChapterContent(ch.raw_text ?? "");
+    byHash.set(hash, [...(byHash.get(hash) ?? []), ch.id]);
+  }
+
+  const savedIds: string[] = [];
+  let kept = 0;
+  for (let i = 0; i < rows.length; i++) {
+    const row = rows[i];
+    const parent = hierarchy[i].parent;
+    const parentId = parent !== null ? savedIds[parent] : null;
+    const matchId = byHash.get(row.content_hash)?.shift();
+
+    if (matchId) {
+      // Keep the stored title too, so renames made in the chapter editor survive.
+      // The stored text stays as well: the match ignores whitespace, and the
+      // kept summary's source anchors are offsets into the stored text.
+      const { title: _title, raw_text: _rawText, page_offsets: _pageOffsets, ...fields } = row;
+      const { error: updateError } = await supabase
+        .from("chapters")
+        .update({ ...fields, parent_id: parentId })
+        .eq("id", matchId);
+      if (updateError) throw new Error(`Failed to update chapter: ${updateError.message}`);
+      savedIds.push(matchId);
+      kept++;
+      continue;
+    }
+
+    const { data: inserted, error: insertError } = await supabase
+      .from("chapters")
+      .insert({
+        ...row,
+        course_id: courseId,
+        parent_id: parentId,
+        summary_main: null,
+        summary_side: null,
+      })
+      .select("id")
+      .single();
+    if (insertError || !inserted) {
+      throw new Error(`Failed to save chapter "${row.title}": ${insertError?.message}`);
+    }
+    savedIds.push(inserted.id);
+  }
+
+  // Every kept chapter has its new parent by now, so the parent_id cascade can't hit them
+  const staleIds = [...byHash.values()].flat();
+  if (staleIds.length > 0) {
+    await supabase.from("questions").delete().in("chapter_id", staleIds);
+    await supabase.from("chapters").delete().in("id", staleIds);
+  }
+
+  return kept;
+}
+
+/** Download a course's uploaded file and extract its text, OCR'ing scanned PDF pages. */
+async function extractCourseDocument(course: {
+  storage_path: string;
+  mime_type: string | null;
+}): Promise<ExtractedDocument> {
+  const { data: fileData, error: downloadError } = await getSupabaseAdmin()
+    .storage.from("course-pdfs")
+    .download(course.storage_path);
+
+  if (downloadError || !fileData) {
+    throw new Error(`Failed to download file: ${downloadError?.message}`);
+  }
+
+  const buffer = Buffer.from(await fileData.arrayBuffer());
+  return extractDocument(buffer, course.mime_type ?? "application/pdf");
+}
+
+/**
+ * Tokens processing a course will use: those of detecting its chapters with
+ * the AI, or 0 when its headings or bookmarks are reliable enough to use
+ * instead (see processCourse). Extracts the document to find out, which
+ * takes a while for scanned PDFs.
+ */
+export async function estimateCourseProcessing(
+  course: { storage_path: string; mime_type: string | null },
+  userId: string
+): Promise<number> {
+  const extraction = await extractCourseDocument(course);
+  const structure = detectStructure(extraction);
+  if (structure && structure.confidence >= STRUCTURE_CONFIDENCE_THRESHOLD) return 0;
+
+  const userApiKey = await resolveUserApiKey(userId);
+  const routing = await getUserModelRouting(userId);
+  return estimateChapterDetection(extraction, routing, userApiKey);
+}
+
+/**
+ * Job handler: extract text → detect chapters → save chapters.
+ * Summaries and questions are generated on demand by the user.
+ *
+ * Runs inside the job worker, so it must be safe to re-run after a crash:
+ * any chapters from a previous attempt are cleared first. In incremental mode
+ * (payload.mode = "incremental") unchanged chapters are kept instead, see
+ * saveChaptersIncrementally.
+ */
+export async function processCourse(ctx: JobContext): Promise<void> {
+  const { job } = ctx;
+  const courseId = job.course_id;
+  const userId = job.user_id;
+  const supabase = getSupabaseAdmin();
+
+  const { data: course } = await supabase
+    .from("courses")
+    .select("storage_path, mime_type")
+    .eq("id", courseId)
+    .single();
+
+  if (!course) {
+    throw new PermanentError("Course no longer exists");
+  }
+
+  // Incremental runs keep existing chapters and reconcile them after detection
+  const incremental = job.payload.mode === "incremental";
+  if (!incremental) await clearCourseChapters(courseId);
+
+  await ctx.setProgress({
+    step: "extracting",
+    currentChapter: 0,
+    totalChapters: 0,
+    chapterTitle: "",
+  });
+
+  // 1–2. Download the uploaded file and extract its text
+  const extraction = await extractCourseDocument(course);
+  const fullText = extraction.text;
+
+  if (!fullText || fullText.trim().length < 50) {
+    throw new PermanentError("Could not extract enough text from the uploaded file");
+  }
+
+  const sub = await getUserSubscription(userId);
+  const { maxPages } = getLimits(sub.plan);
+  if (extraction.pages.length > maxPages) {
+    throw new PermanentError(
+      `The document has ${extraction.pages.length} pages, more than the page limit of ${maxPages} on your plan. ` +
+        "Upgrade to Pro to upload longer documents."
+    );
+  }
+
+  await supabase
+    .from("courses")
+    .update({ page_count: extraction.pages.length, ocr_pages: extraction.ocrPages })
+    .eq("id", courseId);
+
+  if (await ctx.isCancelled()) return;
+
+  // 3. Detect chapters
+  await ctx.setProgress({
+    step: "detecting",
+    currentChapter: 0,
+    totalChapters: 0,
+    chapterTitle: "",
+  });
+
+  // Headings or bookmarks are free and exact; only ask the AI when they're unreliable
+  const structure = detectStructure(extraction);
+  let chapters: ChapterData[];
+  let detectionStrategy: DetectionStrategy;
+
+  if (structure && structure.confidence >= STRUCTURE_CONFIDENCE_THRESHOLD) {
+    chapters = structure.chapters;
+    detectionStrategy = structure.strategy;
+  } else {
+    const userApiKey = await resolveUserApiKey(userId);
+    const routing = await getUserModelRouting(userId);
+
+    // Reserve the estimated tokens first, so a nearly used-up budget can't be
+    // overshot. Unlimited plans reserve nothing and skip the estimate.
+    let reservation: TokenReservation | null = { id: null, tokens: 0 };
+    if (getTokenBudget(sub) !== Infinity) {
+      const estimate = await estimateChapterDetection(extraction, routing, userApiKey);
+      reservation = await reserveTokens(userId, sub, estimate, "summarize");
+      if (!reservation) {
+        throw new PermanentError(
+          `Monthly token limit reached: detecting the chapters needs about ${estimate.toLocaleString("en-US")} tokens. ` +
+            budgetExhaustedHint(sub)
+        );
+      }
+    }
+
+    const tracker = createUsageTracker();
+    chapters = await detectChapters(extraction, routing, tracker.track, userApiKey).catch(async (err) => {
+      await releaseTokens(reservation.id);
+      throw err;
+    });
+    detectionStrategy = "ai";
+
+    // Record the actual token usage for chapter detection with model info, in place of the reservation
+    await settleTokens(userId, reservation, tracker, "summarize");
+  }
+  console.log(
+    `[processCourse] ${chapters.length} chapters via ${detectionStrategy}` +
+      (structure ? ` (structure confidence ${structure.confidence.toFixed(2)})` : "")
+  );
+
+  // 4. Save chapters
+  const hasPages = extraction.pages.length > 1;
+  const hierarchy = assignParents(chapters.map((ch) => ch.depth));
+  const rows: ChapterRow[] = chapters.map((ch, i) => {
+    const ocrPages = extraction.ocrPages.filter((n) => n >= ch.startPage && n <= ch.endPage);
+    return {
+      title: ch.title,
+      raw_text: ch.content,
+      content_hash: hashChapterContent(ch.content),
+      sort_order: i,
+      depth: hierarchy[i].depth,
+      // Plain-text uploads are a single unit, so a page range would say nothing
+      start_page: hasPages ? ch.startPage : null,
+      end_page: hasPages ? ch.endPage : null,
+      ocr_pages: ocrPages,
+      ocr_confidence: ocrPages.length
+        ? Math.min(...ocrPages.map((n) => extraction.pages[n - 1].ocrConfidence ?? 0))
+        : null,
+      page_offsets: hasPages ? chapterPageOffsets(extraction, ch) : null,
+    };
+  });
+
+  let keptChapters: number | undefined;
+  if (incremental) {
+    if (await ctx.isCancelled()) return;
+    await ctx.setProgress({
+      step: "saving_chapters",
+      currentChapter: 0,
+      totalChapters: chapters.length,
+      chapterTitle: "",
+      detectionStrategy,
+    });
+    keptChapters = await saveChaptersIncrementally(courseId, rows, hierarchy);
+    console.log(`[processCourse] Kept ${keptChapters}/${rows.length} unchanged chapters`);
+  } else {
+    const insertedIds: string[] = [];
+    for (let i = 0; i < rows.length; i++) {
+      if (await ctx.isCancelled()) {
+        console.log(`Processing cancelled for course ${courseId}`);
+        return;
+      }
+
+      await ctx.setProgress({
+        step: "saving_chapters",
+        currentChapter: i + 1,
+        totalChapters: rows.length,
+        chapterTitle: rows[i].title,
+        detectionStrategy,
+      });
+
+      const { parent } = hierarchy[i];
+      const { data: inserted, error: insertError } = await supabase
+        .from("chapters")
+        .insert({
+          ...rows[i],
+          course_id: courseId,
+          parent_id: parent !== null ? insertedIds[parent] : null,
+          summary_main: null,
+          summary_side: null,
+        })
+        .select("id")
+        .single();
+
+      if (insertError || !inserted) {
+        throw new Error(`Failed to save chapter "${rows[i].title}": ${insertError?.message}`);
+      }
+      insertedIds.push(inserted.id);
+    }
+  }
+
+  if (await ctx.isCancelled()) return;
+
+  // 5. Mark course as ready
+  await ctx.setProgress({
+    step: "done",
+    currentChapter: chapters.length,
+    totalChapters: chapters.length,
+    chapterTitle: "",
+    detectionStrategy,
+    ...(keptChapters !== undefined ? { keptChapters } : {}),
+  });
+
+  await supabase
+    .from("courses")
+    .update({ status: "ready" })
+    .eq("id", courseId);
+}
@@ -0,0 +1,446 @@
+import { getSupabaseAdmin } from "./supabase.js";
+import {
+  summarizeChapter,
+  generateQuestions,
+  chapterSummaryCalls,
+  chapterQuestionsCalls,
+  finishChapterSummary,
+  finishChapterQuestions,
+  createUsageTracker,
+  estimateChapterSummary,
+  estimateQuestions,
+  type ChapterPages,
+  type ChapterQuestions,
+  type ChapterSummary,
+  type StructuredCall,
+  type SummarizedChapter,
+} from "./ai-pipeline.js";
+import {
+  supportsBatches,
+  submitBatch,
+  batchEnded,
+  batchResults,
+  cancelBatch,
+  type BatchCall,
+  type LLMUsage,
+  type ToolCallResult,
+} from "./llm-provider.js";
+import type { AIModel } from "./claude.js";
+import { recordTokenUsage, releaseTokens } from "./subscription.js";
+import { resolveUserApiKey } from "./api-keys.js";
+import { getUserModelRouting } from "./model-routes.js";
+import type { ModelRouting } from "../config/modelRoutes.js";
+import { hashChapterContent } from "./course-processor.js";
+import type { JobContext, ProcessingJob } from "./job-queue.js";
+
+// "Summarize everything": summaries and questions for every chapter of a
+// course that doesn't have them yet, sent as one Message Batch at half price.
+// The job submits the batch, defers itself until the batch has ended, then
+// saves the results chapter by chapter. Providers without a batch API
+// summarize the chapters directly instead.
+
+/** How often a summarize_course job checks whether its batch has ended. */
+const BATCH_POLL_INTERVAL_MS = parseInt(process.env.BATCH_POLL_INTERVAL_MS || "60000");
+
+/**
+ * How long the job's token reservation is held. Batches can take up to 24
+ * hours; the reservation is released as soon as the job ends.
+ */
+export const SUMMARIZE_ALL_RESERVATION_TTL_SECONDS = 25 * 60 * 60;
+
+/** Chapter fields needed to summarize it and write its questions. */
+interface ChapterRow {
+  id: string;
+  title: string;
+  raw_text: string;
+  summary_main: ChapterSummary["main_topics"] | null;
+  start_page: number | null;
+  end_page: number | null;
+  page_offsets: number[] | null;
+}
+
+interface PendingChapter {
+  chapter: ChapterRow;
+  needsSummary: boolean;
+  needsQuestions: boolean;
+}
+
+/** Kept in the job payload between runs. */
+interface BatchState {
+  batchId: string;
+  /** Content hash of each chapter in the batch; edited chapters don't get stale results. */
+  chapters: Record<string, string>;
+  usageRecorded?: boolean;
+}
+
+// ─── Saving ──────────────────────────────────────────────────────────────────
+
+/**
+ * Pages of a chapter for anchoring summary quotes. Without page offsets,
+ * pages are only known for single-page chapters.
+ */
+export function chapterPages(
+  chapter: Pick<ChapterRow, "start_page" | "end_page" | "page_offsets">
+): ChapterPages | undefined {
+  return chapter.start_page && (chapter.page_offsets || chapter.start_page === chapter.end_page)
+    ? { startPage: chapter.start_page, pageOffsets: chapter.page_offsets ?? [] }
+    : undefined;
+}
+
+export async function saveChapterSummary(chapterId: string, summary: SummarizedChapter): Promise<void> {
+  const supabase = getSupabaseAdmin();
+  const { error } = await supabase
+    .from("chapters")
+    .update({
+      summary_main: summary.main_topics,
+      summary_side: summary.side_topics,
+      summary_coverage: summary.coverage,
+    })
+    .eq("id", chapterId);
+
+  if (error) {
+    throw new Error(`Failed to save summary: ${error.message}`);
+  }
+}
+
+export async function saveChapterQuestions(chapterId: string, questions: ChapterQuestions): Promise<void> {
+  const supabase = getSupabaseAdmin();
+
+  const examRows = questions.exam_questions.map((q) => ({
+    chapter_id: chapterId,
+    type: "exam",
+    question: q.question,
+    suggested_answer: q.suggested_answer,
+    answer_confidence: q.confidence ?? null,
+    answer_issue: q.issue ?? null,
+  }));
+
+  const discussionRows = questions.discussion_questions.map((q) => ({
+    chapter_id: chapterId,
+    type: "discussion",
+    question: q.question,
+    suggested_answer: q.why_useful,
+  }));
+
+  const { error: coverageError } = await supabase
+    .from("chapters")
+    .update({ questions_coverage: questions.coverage })
+    .eq("id", chapterId);
+  if (coverageError) {
+    throw new Error(`Failed to save questions: ${coverageError.message}`);
+  }
+
+  const { error } = await supabase.from("questions").insert([...examRows, ...discussionRows]);
+  if (error) {
+    throw new Error(`Failed to save questions: ${error.message}`);
+  }
+}
+
+// ─── Job ─────────────────────────────────────────────────────────────────────
+
+/** Chapters with text that still lack a summary or questions, in reading order. */
+async function pendingChapters(courseId: string): Promise<PendingChapter[]> {
+  const supabase = getSupabaseAdmin();
+  const { data: chapters, error } = await supabase
+    .from("chapters")
+    .select("id, title, raw_text, summary_main, start_page, end_page, page_offsets")
+    .eq("course_id", courseId)
+    .order("sort_order");
+
+  if (error) {
+    throw new Error(`Failed to load chapters: ${error.message}`);
+  }
+
+  const ids = (chapters || []).map((ch: ChapterRow) => ch.id);
+  const { data: questions } = ids.length
+    ? await supabase.from("questions").select("chapter_id").in("chapter_id", ids)
+    : { data: [] };
+  const withQuestions = new Set((questions || []).map((q: any) => q.chapter_id));
+
+  return (chapters || [])
+    .filter((ch: ChapterRow) => ch.raw_text?.trim())
+    .map((ch: ChapterRow) => ({
+      chapter: ch,
+      needsSummary: !ch.summary_main?.length,
+      needsQuestions: !withQuestions.has(ch.id),
+    }))
+    .filter((p: PendingChapter) => p.needsSummary || p.needsQuestions);
+}
+
+function existingSummary(chapter: ChapterRow) {
+  return chapter.summary_main?.length ? { main_topics: chapter.summary_main } : undefined;
+}
+
+/** Estimated tokens for summarizing everything that is still missing in a course. */
+export async function estimateCourseSummaries(
+  courseId: string,
+  routing: ModelRouting,
+  userApiKey?: string
+): Promise<number> {
+  let tokens = 0;
+  for (const { chapter, needsSummary, needsQuestions } of await pendingChapters(courseId)) {
+    if (needsSummary) {
+      tokens += await estimateChapterSummary(chapter.title, chapter.raw_text, routing, userApiKey);
+    }
+    if (needsQuestions) {
+      tokens += await estimateQuestions(chapter.title, chapter.raw_text, existingSummary(chapter), routing, userApiKey);
+    }
+  }
+  return tokens;
+}
+
+// Batch item ids may only contain letters, digits, "_" and "-"
+const summaryItemId = (chapterId: string, part: number) => `summary_${chapterId}_${part}`;
+const questionsItemId = (chapterId: string, part: number) => `questions_${chapterId}_${part}`;
+
+function batchCall(id: string, call: StructuredCall): BatchCall {
+  const { system, context, prompt, contextTools, tool, route } = call;
+  return { id, system, prompt: { context, prompt, contextTools }, tool, route };
+}
+
+/**
+ * Summarize the chapters one by one with direct calls, for providers
+ * without a batch API. Saved chapters are skipped when the job is retried.
+ */
+async function summarizeDirectly(ctx: JobContext, routing: ModelRouting, userApiKey?: string): Promise<void> {
+  const { job } = ctx;
+  const pending = await pendingChapters(job.course_id);
+
+  for (const [i, { chapter, needsSummary, needsQuestions }] of pending.entries()) {
+    if (await ctx.isCancelled()) return;
+    await ctx.setProgress({
+      step: "summarizing",
+      currentChapter: i + 1,
+      totalChapters: pending.length,
+      chapterTitle: chapter.title,
+    });
+
+    const tracker = createUsageTracker();
+    let summary = existingSummary(chapter);
+    if (needsSummary) {
+      const summarized = await summarizeChapter(
+        chapter.title,
+        chapter.raw_text,
+        routing,
+        tracker.track,
+        userApiKey,
+        chapterPages(chapter)
+      );
+      await saveChapterSummary(chapter.id, summarized);
+      summary = summarized;
+    }
+    if (needsQuestions) {
+      const questions = await generateQuestions(chapter.title, chapter.raw_text, summary, routing, tracker.track, userApiKey);
+      await saveChapterQuestions(chapter.id, questions);
+    }
+    await recordTokenUsage(job.user_id, tracker, "summarize-course").catch(() => {});
+  }
+}
+
+/**
+ * Submit summaries and questions for every pending chapter as one batch and
+ * remember it in the job payload. Questions are written from the chapter
+ * text alone, unless the chapter already has a summary.
+ */
+async function submitCourseBatch(
+  ctx: JobContext,
+  routing: ModelRouting,
+  userApiKey?: string
+): Promise<BatchState | null> {
+  const { job } = ctx;
+  const pending = await pendingChapters(job.course_id);
+  if (!pending.length) return null;
+
+  await ctx.setProgress({
+    step: "submitting_batch",
+    currentChapter: 0,
+    totalChapters: pending.length,
+    chapterTitle: "",
+  });
+
+  const calls: BatchCall[] = [];
+  for (const { chapter, needsSummary, needsQuestions } of pending) {
+    if (needsSummary) {
+      chapterSummaryCalls(chapter.title, chapter.raw_text, routing.summary).forEach((call, part) => {
+        calls.push(batchCall(summaryItemId(chapter.id, part), call));
+      });
+    }
+    if (needsQuestions) {
+      chapterQuestionsCalls(chapter.title, chapter.raw_text, routing.questions, existingSummary(chapter)).forEach(
+        (call, part) => {
+          calls.push(batchCall(questionsItemId(chapter.id, part), call));
+        }
+      );
+    }
+  }
+
+  const batchId = await submitBatch(calls, userApiKey);
+  console.log(`[summarize-course] Submitted batch ${batchId}: ${calls.length} requests for ${pending.length} chapters`);
+
+  const state: BatchState = {
+    batchId,
+    chapters: Object.fromEntries(pending.map(({ chapter }) => [chapter.id, hashChapterContent(chapter.raw_text)])),
+  };
+  if (await ctx.isCancelled()) {
+    await cancelBatch(batchId, userApiKey).catch(() => {});
+    return null;
+  }
+  await ctx.setPayload({ ...job.payload, batch: state });
+  return state;
+}
+
+/**
+ * Record what a batch cost, once: one usage row per model, since summaries
+ * and questions use different models.
+ */
+async function recordBatchUsage(ctx: JobContext, state: BatchState, usages: LLMUsage[]): Promise<void> {
+  if (state.usageRecorded) return;
+  const byModel = new Map<AIModel, ReturnType<typeof createUsageTracker>>();
+  for (const usage of usages) {
+    if (!byModel.has(usage.model)) byModel.set(usage.model, createUsageTracker());
+    byModel.get(usage.model)!.track(usage);
+  }
+  for (const tracker of byModel.values()) {
+    await recordTokenUsage(
+      ctx.job.user_id,
+      {
+        inputTokens: tracker.inputTokens,
+        outputTokens: tracker.outputTokens,
+        cacheWriteTokens: tracker.cacheWriteTokens,
+        cacheReadTokens: tracker.cacheReadTokens,
+        model: tracker.model,
+        batch: true,
+      },
+      "summarize-course"
+    ).catch(() => {});
+  }
+  await ctx.setPayload({ ...ctx.job.payload, batch: { ...state, usageRecorded: true } });
+}
+
+/**
+ * Save the results of an ended batch chapter by chapter. Missing or invalid
+ * results are asked for again directly, and everything is anchored and
+ * verified like on-demand summaries. Chapters that were summarized or edited
+ * in the meantime are left alone.
+ */
+async function saveBatchResults(
+  ctx: JobContext,
+  state: BatchState,
+  routing: ModelRouting,
+  userApiKey?: string
+): Promise<void> {
+  const { job } = ctx;
+  const results = new Map<string, ToolCallResult>();
+  for (const item of await batchResults(state.batchId, userApiKey)) {
+    if (item.result) {
+      results.set(item.id, item.result);
+    } else {
+      console.warn(`[summarize-course] Batch ${state.batchId}: ${item.id} ${item.error}`);
+    }
+  }
+  await recordBatchUsage(ctx, state, [...results.values()].map((r) => r.usage));
+
+  const pending = (await pendingChapters(job.course_id)).filter(
+    ({ chapter }) => state.chapters[chapter.id] === hashChapterContent(chapter.raw_text)
+  );
+
+  for (const [i, { chapter, needsSummary, needsQuestions }] of pending.entries()) {
+    if (await ctx.isCancelled()) return;
+    await ctx.setProgress({
+      step: "summarizing",
+      currentChapter: i + 1,
+      totalChapters: pending.length,
+      chapterTitle: chapter.title,
+    });
+
+    const tracker = createUsageTracker();
+    let summary = existingSummary(chapter);
+    if (needsSummary) {
+      const parts = chapterSummaryCalls(chapter.title, chapter.raw_text, routing.summary).map((_, part) =>
+        results.get(summaryItemId(chapter.id, part))
+      );
+      const summarized = await finishChapterSummary(
+        chapter.title,
+        chapter.raw_text,
+        parts,
+        routing,
+        tracker.track,
+        userApiKey,
+        chapterPages(chapter)
+      );
+      await saveChapterSummary(chapter.id, summarized);
+      summary = summarized;
+    }
+    if (needsQuestions) {
+      const parts = chapterQuestionsCalls(chapter.title, chapter.raw_text, routing.questions, existingSummary(chapter)).map(
+        (_, part) => results.get(questionsItemId(chapter.id, part))
+      );
+      const questions = await finishChapterQuestions(
+        chapter.title,
+        chapter.raw_text,
+        parts,
+        summary,
+        routing,
+        tracker.track,
+        userApiKey
+      );
+      await saveChapterQuestions(chapter.id, questions);
+    }
+    // Repairs and verification, at the regular price
+    await recordTokenUsage(job.user_id, tracker, "summarize-course").catch(() => {});
+  }
+}
+
+/**
+ * Job handler for "summarize everything". Each run does one step: submit
+ * the batch, check whether it has ended (deferring the job while it hasn't),
+ * or save its results. The course stays usable throughout.
+ */
+export async function summarizeCourse(ctx: JobContext): Promise<void> {
+  const { job } = ctx;
+  const userApiKey = await resolveUserApiKey(job.user_id);
+  const routing = await getUserModelRouting(job.user_id);
+  const state = job.payload.batch as BatchState | undefined;
+
+  if (state) {
+    if (!(await batchEnded(state.batchId, userApiKey))) {
+      ctx.defer(BATCH_POLL_INTERVAL_MS);
+      return;
+    }
+    await saveBatchResults(ctx, state, routing, userApiKey);
+  } else if (supportsBatches()) {
+    const submitted = await submitCourseBatch(ctx, routing, userApiKey);
+    if (submitted) {
+      await ctx.setProgress({
+        step: "waiting_for_batch",
+        currentChapter: 0,
+        totalChapters: Object.keys(submitted.chapters).length,
+        chapterTitle: "",
+      });
+      ctx.defer(BATCH_POLL_INTERVAL_MS);
+      return;
+    }
+  } else {
+    await summarizeDirectly(ctx, routing, userApiKey);
+  }
+
+  // Actual usage has been recorded; the reservation made when the job was queued is no longer needed
+  await releaseTokens(job.payload.reservationId as string | null | undefined);
+
+  if (await ctx.isCancelled()) return;
+  const total = job.progress?.totalChapters ?? 0;
+  await ctx.setProgress({ step: "done", currentChapter: total, totalChapters: total, chapterTitle: "" });
+}
+
+/**
+ * Cancel the batch of a summarize_course job, if it submitted one. Results
+ * that were already saved are kept.
+ */
+export async function cancelCourseBatch(job: ProcessingJob): Promise<void> {
+  const state = job.payload.batch as BatchState | undefined;
+  if (!state) return;
+  const userApiKey = await resolveUserApiKey(job.user_id);
+  await cancelBatch(state.batchId, userApiKey).catch((err) =>
+    console.warn(`[summarize-course] Failed to cancel batch ${state.batchId}:`, err instanceof Error ? err.message : err)
+  );
+}
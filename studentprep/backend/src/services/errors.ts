@@ -0,0 +1,13 @@
+// Failures that happen the same way every time: an unsupported or damaged
+// file, a course that was deleted, a budget that's used up. The job worker
+// fails their jobs right away instead of retrying them with backoff.
+
+export class PermanentError extends Error {
+  /** Like LLMError.retryable; the same input always fails. */
+  readonly retryable = false;
+
+  constructor(message: string, options: { cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = "PermanentError";
+  }
+}
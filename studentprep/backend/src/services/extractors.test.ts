@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest";
+import JSZip from "jszip";
+import { DOCX_MIME_TYPE, PPTX_MIME_TYPE, extractDocument, pageForOffset, resolveMimeType } from "./extractors.js";
+import { PermanentError } from "./errors.js";
+
+/** A zip archive with the given files, as an uploaded Office document would be. */
+async function zipOf(files: Record<string, string>): Promise<Buffer> {
+  const zip = new JSZip();
+  for (const [path, content] of Object.entries(files)) zip.file(path, content);
+  return zip.generateAsync({ type: "nodebuffer" });
+}
+
+/** A DOCX whose body is the given WordprocessingML. */
+function docx(body: string): Promise<Buffer> {
+  return zipOf({
+    "word/document.xml": `<?xml version="1.0"?><w:document><w:body>${body}</w:body></w:document>`,
+  });
+}
+
+const paragraph = (text: string) => `<w:p><w:r><w:t>${text}</w:t></w:r></w:p>`;
+
+/** A PPTX with the given slides, in order, and speaker notes per slide number. */
+function pptx(slides: string[][], notes: Record<number, string[]> = {}): Promise<Buffer> {
+  const shape = (lines: string[]) => lines.map((line) => `<a:p><a:r><a:t>${line}</a:t></a:r></a:p>`).join("");
+  const files: Record<string, string> = {
+    // Listed in reverse, so the order has to come from sldIdLst
+    "ppt/_rels/presentation.xml.rels": slides
+      .map((_, i) => `<Relationship Id="rId${i + 1}" Target="slides/slide${i + 1}.xml"/>`)
+      .reverse()
+      .join(""),
+    "ppt/presentation.xml": `<p:sldIdLst>${slides
+      .map((_, i) => `<p:sldId id="${256 + i}" r:id="rId${i + 1}"/>`)
+      .join("")}</p:sldIdLst>`,
+  };
+  slides.forEach((lines, i) => {
+    files[`ppt/slides/slide${i + 1}.xml`] = `<p:sld>${shape(lines)}</p:sld>`;
+    if (notes[i + 1]) {
+      files[`ppt/slides/_rels/slide${i + 1}.xml.rels`] =
+        `<Relationship Id="rId2" Target="../notesSlides/notesSlide${i + 1}.xml"/>`;
+      files[`ppt/notesSlides/notesSlide${i + 1}.xml`] = `<p:notes>${shape([...notes[i + 1], String(i + 1)])}</p:notes>`;
+    }
+  });
+  return zipOf(files);
+}
+
+describe("DOCX", () => {
+  it("splits pages at rendered and manual page breaks", async () => {
+    const buffer = await docx(
+      paragraph("Chapter 1") +
+        paragraph("Cells &amp; tissues") +
+        '<w:p><w:r><w:br w:type="page"/></w:r></w:p>' +
+        paragraph("Chapter 2") +
+        "<w:p><w:r><w:lastRenderedPageBreak/><w:t>Genetics</w:t></w:r></w:p>"
+    );
+
+    const doc = await extractDocument(buffer, DOCX_MIME_TYPE);
+
+    expect(doc.pages.map((p) => p.text)).toEqual(["Chapter 1\nCells & tissues", "Chapter 2", "Genetics"]);
+    for (const page of doc.pages) {
+      expect(doc.text.slice(page.offset, page.offset + page.text.length)).toBe(page.text);
+    }
+    expect(pageForOffset(doc, doc.text.indexOf("Genetics"))).toBe(3);
+  });
+
+  it("keeps a document without page breaks as one page", async () => {
+    const doc = await extractDocument(await docx(paragraph("Only page")), DOCX_MIME_TYPE);
+
+    expect(doc.pages).toEqual([{ pageNumber: 1, text: "Only page", offset: 2, ocr: false }]);
+    expect(doc.ocrPages).toEqual([]);
+  });
+});
+
+describe("PPTX", () => {
+  it("makes a page of every slide in presentation order, with its speaker notes", async () => {
+    const buffer = await pptx([["Introduction", "Why cells matter"], ["Mitosis"]], { 2: ["Explain the phases slowly."] });
+
+    const doc = await extractDocument(buffer, PPTX_MIME_TYPE);
+
+    expect(doc.pages.map((p) => p.text)).toEqual([
+      "Introduction\nWhy cells matter",
+      "Mitosis\n\nNotes:\nExplain the phases slowly.",
+    ]);
+  });
+});
+
+describe("plain text and Markdown", () => {
+  it("keeps the file as one page, without a byte order mark or CRLFs", async () => {
+    const doc = await extractDocument(Buffer.from("\uFEFF# Cells\r\nText\r\n"), "text/markdown");
+
+    expect(doc.pages.map((p) => p.text)).toEqual(["# Cells\nText\n"]);
+  });
+});
+
+describe("resolveMimeType", () => {
+  it("trusts a reported type it knows", () => {
+    expect(resolveMimeType("notes.bin", "application/pdf")).toBe("application/pdf");
+  });
+
+  it("falls back to the extension for generic or missing types", () => {
+    expect(resolveMimeType("Notes.MD", "")).toBe("text/markdown");
+    expect(resolveMimeType("slides.pptx", "application/octet-stream")).toBe(PPTX_MIME_TYPE);
+  });
+
+  it("rejects unknown files", () => {
+    expect(resolveMimeType("photo.png", "image/png")).toBeNull();
+  });
+});
+
+describe("unreadable documents", () => {
+  it("fails permanently for an unsupported file type", async () => {
+    const err = await extractDocument(Buffer.from("GIF89a"), "image/gif").catch((e) => e);
+
+    expect(err).toBeInstanceOf(PermanentError);
+    expect(err.message).toBe("Unsupported file type: image/gif");
+  });
+
+  it("fails permanently for a damaged DOCX or PPTX", async () => {
+    const garbage = Buffer.from("this is not a zip archive");
+
+    await expect(extractDocument(garbage, DOCX_MIME_TYPE)).rejects.toThrow(PermanentError);
+    await expect(extractDocument(garbage, PPTX_MIME_TYPE)).rejects.toThrow(
+      "Invalid PPTX file: the file is damaged or not a PPTX document"
+    );
+  });
+
+  it("fails permanently for a zip that isn't a DOCX", async () => {
+    const buffer = await zipOf({ "readme.txt": "hello" });
+
+    await expect(extractDocument(buffer, DOCX_MIME_TYPE)).rejects.toThrow(
+      new PermanentError("Invalid DOCX file: word/document.xml is missing")
+    );
+  });
+});
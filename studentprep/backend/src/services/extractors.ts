@@ -0,0 +1,263 @@
+import JSZip from "jszip";
+import { extractPdfOutline, extractPdfPages, type OutlineEntry } from "./pdf-parser.js";
+import { PermanentError } from "./errors.js";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** One page of a PDF or DOCX, or one slide of a PPTX. */
+export interface DocumentPage {
+  pageNumber: number; // 1-based
+  text: string;
+  offset: number; // where this page's text starts in ExtractedDocument.text
+  ocr: boolean;
+  ocrConfidence?: number; // 0–100, as reported by tesseract
+}
+
+/** Text of an uploaded document, in the shape the chapter pipeline consumes. */
+export interface ExtractedDocument {
+  text: string;
+  pages: DocumentPage[];
+  ocrPages: number[];
+  outline?: OutlineEntry[]; // PDF bookmarks, when the document has them
+}
+
+type DocumentExtractor = (buffer: Buffer) => Promise<ExtractedDocument>;
+
+interface ExtractorEntry {
+  extensions: string[];
+  extract: DocumentExtractor;
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Join per-page text into one document. Every page is preceded by a blank
+ * line, which matches what pdf-parse produced before extraction was page-aware.
+ */
+export function assembleDocument(
+  pages: { text: string; ocr?: boolean; ocrConfidence?: number }[]
+): ExtractedDocument {
+  let text = "";
+  const result: DocumentPage[] = pages.map((page, i) => {
+    text += "\n\n";
+    const offset = text.length;
+    text += page.text;
+    return {
+      pageNumber: i + 1,
+      text: page.text,
+      offset,
+      ocr: page.ocr ?? false,
+      ...(page.ocrConfidence !== undefined ? { ocrConfidence: page.ocrConfidence } : {}),
+    };
+  });
+
+  return {
+    text,
+    pages: result,
+    ocrPages: result.filter((p) => p.ocr).map((p) => p.pageNumber),
+  };
+}
+
+/**
+ * 1-based page number containing the character at `offset` in `doc.text`.
+ */
+export function pageForOffset(doc: ExtractedDocument, offset: number): number {
+  let pageNumber = 1;
+  for (const page of doc.pages) {
+    if (page.offset > offset) break;
+    pageNumber = page.pageNumber;
+  }
+  return pageNumber;
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/** Open an Office document, which is a zip archive. */
+async function openZip(buffer: Buffer, kind: "DOCX" | "PPTX"): Promise<JSZip> {
+  try {
+    return await JSZip.loadAsync(buffer);
+  } catch (err) {
+    throw new PermanentError(`Invalid ${kind} file: the file is damaged or not a ${kind} document`, { cause: err });
+  }
+}
+
+async function readZipEntry(zip: JSZip, path: string): Promise<string | null> {
+  const entry = zip.file(path);
+  return entry ? entry.async("string") : null;
+}
+
+// ─── DOCX ─────────────────────────────────────────────────────────────────────
+
+/**
+ * Word documents have no fixed pages, but Word stores where it last broke
+ * pages when saving (w:lastRenderedPageBreak) plus any manual page breaks.
+ * We split on those so chapter page ranges roughly match the printed document.
+ */
+async function extractDocx(buffer: Buffer): Promise<ExtractedDocument> {
+  const zip = await openZip(buffer, "DOCX");
+  const xml = await readZipEntry(zip, "word/document.xml");
+  if (!xml) {
+    throw new PermanentError("Invalid DOCX file: word/document.xml is missing");
+  }
+
+  const PAGE_BREAK = "\u000c";
+  const body = xml
+    .replace(/<w:lastRenderedPageBreak\/>|<w:br [^>]*w:type="page"[^>]*\/>/g, PAGE_BREAK)
+    .replace(/<w:tab\/>/g, "\t")
+    .replace(/<w:br[^>]*\/>/g, "\n")
+    .replace(/<\/w:p>/g, "\n");
+
+  // Keep only run text (w:t), breaks and paragraph ends
+  const text = decodeXmlEntities(
+    body.replace(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<[^>]+>/g, (_, t) => t ?? "")
+  );
+
+  const pages = text
+    .split(PAGE_BREAK)
+    .map((page) => page.replace(/\n{3,}/g, "\n\n").trim())
+    .filter((page, i, all) => page.length > 0 || all.length === 1);
+
+  return assembleDocument(pages.map((page) => ({ text: page })));
+}
+
+// ─── PPTX ─────────────────────────────────────────────────────────────────────
+
+function slideParagraphs(xml: string): string[] {
+  const paragraphs: string[] = [];
+  for (const match of xml.matchAll(/<a:p>([\s\S]*?)<\/a:p>/g)) {
+    const runs = [...match[1].matchAll(/<a:t>([^<]*)<\/a:t>/g)].map((m) => m[1]);
+    const line = decodeXmlEntities(runs.join("")).trim();
+    if (line) paragraphs.push(line);
+  }
+  return paragraphs;
+}
+
+/**
+ * Each slide becomes one page. Speaker notes are appended to their slide,
+ * since lecturers often put the actual explanation there.
+ */
+async function extractPptx(buffer: Buffer): Promise<ExtractedDocument> {
+  const zip = await openZip(buffer, "PPTX");
+  const presentation = await readZipEntry(zip, "ppt/presentation.xml");
+  const presentationRels = await readZipEntry(zip, "ppt/_rels/presentation.xml.rels");
+  if (!presentation || !presentationRels) {
+    throw new PermanentError("Invalid PPTX file: ppt/presentation.xml is missing");
+  }
+
+  // Slide order comes from sldIdLst, which references slides by relationship id
+  const targets = new Map<string, string>();
+  for (const rel of presentationRels.matchAll(/<Relationship [^>]*>/g)) {
+    const id = rel[0].match(/Id="([^"]+)"/)?.[1];
+    const target = rel[0].match(/Target="([^"]+)"/)?.[1];
+    if (id && target) targets.set(id, target.replace(/^\/?(ppt\/)?/, "ppt/"));
+  }
+  const slidePaths = [...presentation.matchAll(/<p:sldId [^>]*r:id="([^"]+)"/g)]
+    .map((m) => targets.get(m[1]))
+    .filter((p): p is string => Boolean(p));
+
+  const pages: { text: string }[] = [];
+  for (const slidePath of slidePaths) {
+    const slideXml = (await readZipEntry(zip, slidePath)) ?? "";
+    const lines = slideParagraphs(slideXml);
+
+    const slideFile = slidePath.split("/").pop();
+    const slideRels = await readZipEntry(zip, `ppt/slides/_rels/${slideFile}.rels`);
+    const notesTarget = slideRels?.match(/Target="\.\.\/notesSlides\/([^"]+)"/)?.[1];
+    if (notesTarget) {
+      const notesXml = (await readZipEntry(zip, `ppt/notesSlides/${notesTarget}`)) ?? "";
+      // The notes page repeats the slide number in its own placeholder; skip bare numbers
+      const notes = slideParagraphs(notesXml).filter((line) => !/^\d+$/.test(line));
+      if (notes.length > 0) lines.push("", "Notes:", ...notes);
+    }
+
+    pages.push({ text: lines.join("\n") });
+  }
+
+  return assembleDocument(pages);
+}
+
+// ─── Markdown / plain text ────────────────────────────────────────────────────
+
+/**
+ * Plain text has no pages; the whole file is a single unit. Markdown is kept
+ * as-is so headings stay visible to chapter detection.
+ */
+async function extractPlainText(buffer: Buffer): Promise<ExtractedDocument> {
+  const text = buffer.toString("utf8").replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+  return assembleDocument([{ text }]);
+}
+
+// ─── Registry ─────────────────────────────────────────────────────────────────
+
+export const DOCX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+export const PPTX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation";
+
+const EXTRACTORS: Record<string, ExtractorEntry> = {
+  "application/pdf": {
+    extensions: ["pdf"],
+    extract: async (buffer) => ({
+      ...assembleDocument(await extractPdfPages(buffer)),
+      outline: await extractPdfOutline(buffer).catch(() => []),
+    }),
+  },
+  [DOCX_MIME_TYPE]: { extensions: ["docx"], extract: extractDocx },
+  [PPTX_MIME_TYPE]: { extensions: ["pptx"], extract: extractPptx },
+  "text/markdown": { extensions: ["md", "markdown"], extract: extractPlainText },
+  "text/plain": { extensions: ["txt"], extract: extractPlainText },
+};
+
+/**
+ * Register an extractor for another MIME type.
+ */
+export function registerExtractor(
+  mimeType: string,
+  extensions: string[],
+  extract: DocumentExtractor
+): void {
+  EXTRACTORS[mimeType] = { extensions, extract };
+}
+
+/**
+ * Work out which extractor handles an upload. Browsers report an empty or
+ * generic type for Markdown and sometimes Office files, so the file extension
+ * is used when the reported type isn't one we know. Returns null if unsupported.
+ */
+export function resolveMimeType(filename: string, reportedType: string): string | null {
+  if (EXTRACTORS[reportedType]) return reportedType;
+
+  const ext = filename.split(".").pop()?.toLowerCase() ?? "";
+  for (const [mimeType, entry] of Object.entries(EXTRACTORS)) {
+    if (entry.extensions.includes(ext)) return mimeType;
+  }
+  return null;
+}
+
+/** File extensions accepted for upload, e.g. ["pdf", "docx", ...]. */
+export function supportedExtensions(): string[] {
+  return Object.values(EXTRACTORS).flatMap((entry) => entry.extensions);
+}
+
+/**
+ * Extract text from an uploaded document using the extractor for its MIME type.
+ */
+export async function extractDocument(
+  buffer: Buffer,
+  mimeType: string
+): Promise<ExtractedDocument> {
+  const entry = EXTRACTORS[mimeType];
+  if (!entry) {
+    throw new PermanentError(`Unsupported file type: ${mimeType}`);
+  }
+  return entry.extract(buffer);
+}
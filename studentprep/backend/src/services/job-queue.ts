@@ -0,0 +1,415 @@
+import { EventEmitter } from "node:events";
+import { getSupabaseAdmin } from "./supabase.js";
+import type { DetectionStrategy } from "./structure-detector.js";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type JobType = "process_course" | "summarize_course";
+
+export type JobStatus = "queued" | "running" | "done" | "error" | "cancelled";
+
+export interface ProcessingProgress {
+  step:
+    | "queued"
+    | "extracting"
+    | "detecting"
+    | "saving_chapters"
+    | "submitting_batch" // summarize_course: sending all chapters as one batch
+    | "waiting_for_batch"
+    | "summarizing" // summarize_course: saving results, or summarizing directly without a batch API
+    | "done"
+    | "error";
+  currentChapter: number;
+  totalChapters: number;
+  chapterTitle: string;
+  detectionStrategy?: DetectionStrategy; // set once chapter detection has run
+  keptChapters?: number; // incremental re-processing: chapters left untouched
+}
+
+export interface ProcessingJob {
+  id: string;
+  course_id: string;
+  user_id: string;
+  type: JobType;
+  status: JobStatus;
+  payload: Record<string, unknown>;
+  progress: ProcessingProgress | null;
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  locked_by: string | null;
+  locked_until: string | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+}
+
+/** Handle given to job handlers for reporting progress and checking cancellation. */
+export interface JobContext {
+  job: ProcessingJob;
+  setProgress(progress: ProcessingProgress): Promise<void>;
+  /** Persist state the handler needs when the job runs again (after a retry or defer). */
+  setPayload(payload: Record<string, unknown>): Promise<void>;
+  isCancelled(): Promise<boolean>;
+  /**
+   * Run the handler again after `delayMs` instead of completing the job when
+   * it returns, e.g. to poll for work happening elsewhere.
+   */
+  defer(delayMs: number): void;
+}
+
+export const QUEUED_PROGRESS: ProcessingProgress = {
+  step: "queued",
+  currentChapter: 0,
+  totalChapters: 0,
+  chapterTitle: "",
+};
+
+/** Base delay before a failed job is retried; doubles with every attempt. */
+const RETRY_BASE_DELAY_MS = 30_000;
+
+// In-process progress notifications keyed by course id. A progress stream on
+// the machine running the job sees every transition immediately; streams on
+// other machines still pick changes up by polling the job row.
+const progressEvents = new EventEmitter();
+progressEvents.setMaxListeners(0);
+
+/**
+ * Subscribe to progress updates published by a worker on this machine.
+ * Returns an unsubscribe function.
+ */
+export function onJobProgress(
+  courseId: string,
+  listener: (progress: ProcessingProgress) => void
+): () => void {
+  progressEvents.on(courseId, listener);
+  return () => progressEvents.off(courseId, listener);
+}
+
+// ─── Producer side ────────────────────────────────────────────────────────────
+
+/** Thrown by enqueueJob when the course already has a queued or running job. */
+export const ACTIVE_JOB_EXISTS = "This course already has a job in progress";
+
+/**
+ * Queue a job for a course. Fails with ACTIVE_JOB_EXISTS if the course
+ * already has an active job (enforced by a partial unique index on
+ * processing_jobs, so concurrent requests can't both queue one).
+ */
+export async function enqueueJob(
+  type: JobType,
+  courseId: string,
+  userId: string,
+  payload: Record<string, unknown> = {}
+): Promise<ProcessingJob> {
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from("processing_jobs")
+    .insert({
+      type,
+      course_id: courseId,
+      user_id: userId,
+      payload,
+      progress: QUEUED_PROGRESS,
+    })
+    .select()
+    .single();
+
+  if (error?.code === "23505") {
+    throw new Error(ACTIVE_JOB_EXISTS);
+  }
+  if (error || !data) {
+    throw new Error(`Failed to queue job: ${error?.message}`);
+  }
+  return data as ProcessingJob;
+}
+
+/**
+ * Get the most recent job for a course (any status), or null if none exists.
+ */
+export async function getLatestJobForCourse(courseId: string): Promise<ProcessingJob | null> {
+  const supabase = getSupabaseAdmin();
+  const { data } = await supabase
+    .from("processing_jobs")
+    .select("*")
+    .eq("course_id", courseId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return (data as ProcessingJob | null) ?? null;
+}
+
+/**
+ * Mark all active jobs for a course as cancelled. The worker running the job
+ * notices on its next cancellation check and stops.
+ */
+export async function cancelJobsForCourse(courseId: string): Promise<void> {
+  const supabase = getSupabaseAdmin();
+  await supabase
+    .from("processing_jobs")
+    .update({
+      status: "cancelled",
+      finished_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("course_id", courseId)
+    .in("status", ["queued", "running"]);
+}
+
+// ─── Worker side ──────────────────────────────────────────────────────────────
+
+/**
+ * Claim the oldest runnable job, taking a lease on it for `leaseSeconds`.
+ * Returns null when the queue is empty.
+ */
+export async function claimNextJob(
+  workerId: string,
+  leaseSeconds: number
+): Promise<ProcessingJob | null> {
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase.rpc("claim_processing_job", {
+    p_worker_id: workerId,
+    p_lease_seconds: leaseSeconds,
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim job: ${error.message}`);
+  }
+
+  const rows = (data || []) as ProcessingJob[];
+  return rows[0] ?? null;
+}
+
+/**
+ * Extend the lease on a running job. Returns false if the job is no longer
+ * held by this worker (cancelled, recovered by another machine, ...).
+ */
+export async function renewLease(
+  jobId: string,
+  workerId: string,
+  leaseSeconds: number
+): Promise<boolean> {
+  const supabase = getSupabaseAdmin();
+  const { data } = await supabase
+    .from("processing_jobs")
+    .update({
+      locked_until: new Date(Date.now() + leaseSeconds * 1000).toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", jobId)
+    .eq("locked_by", workerId)
+    .eq("status", "running")
+    .select("id");
+
+  return Boolean(data && data.length > 0);
+}
+
+/**
+ * Persist the current progress of a running job.
+ */
+export async function updateJobProgress(
+  job: ProcessingJob,
+  progress: ProcessingProgress
+): Promise<void> {
+  const supabase = getSupabaseAdmin();
+  await supabase
+    .from("processing_jobs")
+    .update({ progress, updated_at: new Date().toISOString() })
+    .eq("id", job.id)
+    .eq("status", "running");
+  progressEvents.emit(job.course_id, progress);
+}
+
+/**
+ * Persist the payload of a running job.
+ */
+export async function updateJobPayload(
+  job: ProcessingJob,
+  payload: Record<string, unknown>
+): Promise<void> {
+  const supabase = getSupabaseAdmin();
+  const { error } = await supabase
+    .from("processing_jobs")
+    .update({ payload, updated_at: new Date().toISOString() })
+    .eq("id", job.id)
+    .eq("status", "running");
+
+  if (error) {
+    throw new Error(`Failed to save job payload: ${error.message}`);
+  }
+}
+
+/**
+ * Check whether a job has been cancelled. When `workerId` is given, a job
+ * whose lease has passed to another worker also counts as cancelled for us.
+ */
+export async function isJobCancelled(jobId: string, workerId?: string): Promise<boolean> {
+  const supabase = getSupabaseAdmin();
+  const { data } = await supabase
+    .from("processing_jobs")
+    .select("status, locked_by")
+    .eq("id", jobId)
+    .single();
+
+  if (!data || data.status === "cancelled") return true;
+  return workerId !== undefined && data.locked_by !== workerId;
+}
+
+/**
+ * Mark a job as successfully finished.
+ */
+export async function completeJob(jobId: string, workerId: string): Promise<void> {
+  const supabase = getSupabaseAdmin();
+  const now = new Date().toISOString();
+  await supabase
+    .from("processing_jobs")
+    .update({
+      status: "done",
+      locked_by: null,
+      locked_until: null,
+      finished_at: now,
+      updated_at: now,
+    })
+    .eq("id", jobId)
+    .eq("locked_by", workerId)
+    .eq("status", "running");
+}
+
+/**
+ * Put a running job back in the queue to run again after `delayMs`. Unlike a
+ * retry this doesn't use up an attempt, and the progress is kept.
+ */
+export async function deferJob(job: ProcessingJob, workerId: string, delayMs: number): Promise<void> {
+  const supabase = getSupabaseAdmin();
+  const now = new Date();
+  await supabase
+    .from("processing_jobs")
+    .update({
+      status: "queued",
+      run_after: new Date(now.getTime() + delayMs).toISOString(),
+      attempts: Math.max(0, job.attempts - 1), // claiming the job counted one
+      locked_by: null,
+      locked_until: null,
+      updated_at: now.toISOString(),
+    })
+    .eq("id", job.id)
+    .eq("locked_by", workerId)
+    .eq("status", "running");
+}
+
+/** Whether a failed job is queued again rather than failed for good. */
+export function willRetryJob(job: ProcessingJob, retryable: boolean): boolean {
+  return retryable && job.attempts < job.max_attempts;
+}
+
+/**
+ * Record a job failure. Retryable failures with attempts left are requeued
+ * with exponential backoff; otherwise the job is marked as failed.
+ * Returns true when the job will be retried.
+ */
+export async function failJob(
+  job: ProcessingJob,
+  workerId: string,
+  errorMessage: string,
+  retryable: boolean
+): Promise<boolean> {
+  const supabase = getSupabaseAdmin();
+  const willRetry = willRetryJob(job, retryable);
+  const now = new Date();
+
+  const update = willRetry
+    ? {
+        status: "queued",
+        run_after: new Date(
+          now.getTime() + RETRY_BASE_DELAY_MS * 2 ** Math.max(0, job.attempts - 1)
+        ).toISOString(),
+        progress: QUEUED_PROGRESS,
+      }
+    : {
+        status: "error",
+        finished_at: now.toISOString(),
+        progress: { ...(job.progress ?? QUEUED_PROGRESS), step: "error" },
+      };
+
+  await supabase
+    .from("processing_jobs")
+    .update({
+      ...update,
+      last_error: errorMessage.slice(0, 2000),
+      locked_by: null,
+      locked_until: null,
+      updated_at: now.toISOString(),
+    })
+    .eq("id", job.id)
+    .eq("locked_by", workerId)
+    .eq("status", "running");
+
+  progressEvents.emit(job.course_id, update.progress);
+  return willRetry;
+}
+
+/**
+ * Give running jobs held by this worker back to the queue (used on graceful
+ * shutdown so another machine can pick them up immediately).
+ */
+export async function releaseWorkerJobs(workerId: string): Promise<void> {
+  const supabase = getSupabaseAdmin();
+  await supabase
+    .from("processing_jobs")
+    .update({
+      status: "queued",
+      locked_by: null,
+      locked_until: null,
+      run_after: new Date().toISOString(),
+      progress: QUEUED_PROGRESS,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("locked_by", workerId)
+    .eq("status", "running");
+}
+
+/**
+ * Recover jobs orphaned by a crashed or redeployed worker, and reconcile
+ * course status with the job table:
+ *   1. Running jobs with an expired lease are requeued (or failed when out of attempts).
+ *   2. Courses stuck in 'processing' without an active job are marked as 'error'.
+ */
+export async function recoverOrphanedJobs(): Promise<void> {
+  const supabase = getSupabaseAdmin();
+
+  const { data: recovered, error } = await supabase.rpc("recover_orphaned_processing_jobs");
+  if (error) {
+    console.error("[job-queue] Failed to recover orphaned jobs:", error.message);
+    return;
+  }
+  if (recovered) {
+    console.log(`[job-queue] Recovered ${recovered} orphaned job(s)`);
+  }
+
+  const { data: processingCourses } = await supabase
+    .from("courses")
+    .select("id")
+    .eq("status", "processing");
+
+  if (!processingCourses || processingCourses.length === 0) return;
+
+  const courseIds = processingCourses.map((c: any) => c.id);
+  const { data: activeJobs } = await supabase
+    .from("processing_jobs")
+    .select("course_id")
+    .in("course_id", courseIds)
+    .in("status", ["queued", "running"]);
+
+  const active = new Set((activeJobs || []).map((j: any) => j.course_id));
+  const stuck = courseIds.filter((id: string) => !active.has(id));
+
+  if (stuck.length > 0) {
+    await supabase
+      .from("courses")
+      .update({ status: "error" })
+      .in("id", stuck);
+    console.warn(`[job-queue] Marked ${stuck.length} stuck course(s) as error`);
+  }
+}
@@ -0,0 +1,191 @@
+import os from "node:os";
+import { getSupabaseAdmin } from "./supabase.js";
+import {
+  claimNextJob,
+  renewLease,
+  updateJobProgress,
+  updateJobPayload,
+  isJobCancelled,
+  completeJob,
+  deferJob,
+  failJob,
+  willRetryJob,
+  releaseWorkerJobs,
+  recoverOrphanedJobs,
+  type JobContext,
+  type JobType,
+  type ProcessingJob,
+} from "./job-queue.js";
+import { processCourse } from "./course-processor.js";
+import { summarizeCourse } from "./course-summarizer.js";
+import { LLMError } from "./llm-errors.js";
+import { PermanentError } from "./errors.js";
+import { releaseTokens } from "./subscription.js";
+
+type JobHandler = (ctx: JobContext) => Promise<void>;
+
+const JOB_HANDLERS: Record<JobType, JobHandler> = {
+  process_course: processCourse,
+  summarize_course: summarizeCourse,
+};
+
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || "2000");
+const LEASE_SECONDS = parseInt(process.env.JOB_LEASE_SECONDS || "60");
+const CONCURRENCY = parseInt(process.env.JOB_WORKER_CONCURRENCY || "2");
+const RECOVERY_INTERVAL_MS = 60_000;
+
+// Unique per machine + process, so leases can be attributed after a crash
+const WORKER_ID = `${process.env.FLY_MACHINE_ID || os.hostname()}:${process.pid}`;
+
+let pollTimer: NodeJS.Timeout | null = null;
+let recoveryTimer: NodeJS.Timeout | null = null;
+let stopping = false;
+let polling = false;
+const runningJobs = new Set<string>();
+
+/**
+ * Whether a job may succeed when tried again. Provider errors say so
+ * themselves; a PermanentError (bad file, deleted course, budget used up)
+ * fails the same way every time.
+ */
+function isRetryableError(err: unknown): boolean {
+  if (err instanceof LLMError || err instanceof PermanentError) return err.retryable;
+  return true;
+}
+
+/**
+ * Run a single claimed job: keep its lease alive, dispatch to the handler and
+ * record the outcome. Course status is only flipped to 'error' once a
+ * processing job is out of retries.
+ */
+async function runJob(job: ProcessingJob): Promise<void> {
+  const handler = JOB_HANDLERS[job.type];
+  const supabase = getSupabaseAdmin();
+
+  const heartbeat = setInterval(() => {
+    renewLease(job.id, WORKER_ID, LEASE_SECONDS).catch(() => {});
+  }, (LEASE_SECONDS * 1000) / 3);
+
+  let deferMs = null as number | null;
+  const ctx: JobContext = {
+    job,
+    setProgress: async (progress) => {
+      job.progress = progress;
+      await updateJobProgress(job, progress);
+    },
+    setPayload: async (payload) => {
+      job.payload = payload;
+      await updateJobPayload(job, payload);
+    },
+    isCancelled: () => isJobCancelled(job.id, WORKER_ID),
+    defer: (delayMs) => {
+      deferMs = delayMs;
+    },
+  };
+
+  try {
+    if (!handler) {
+      throw new Error(`No handler registered for job type "${job.type}"`);
+    }
+
+    await handler(ctx);
+
+    if (await isJobCancelled(job.id, WORKER_ID)) {
+      console.log(`[job-worker] Job ${job.id} was cancelled`);
+      return;
+    }
+    if (deferMs !== null) {
+      await deferJob(job, WORKER_ID, deferMs);
+      return;
+    }
+    await completeJob(job.id, WORKER_ID);
+  } catch (err) {
+    if (await isJobCancelled(job.id, WORKER_ID)) {
+      return;
+    }
+
+    const message = err instanceof Error ? err.message : String(err);
+    if (err instanceof LLMError && !err.retryable) {
+      console.error(
+        `Processing failed for course ${job.course_id}: ${message}`
+      );
+    } else {
+      console.error(`Processing failed for course ${job.course_id} (attempt ${job.attempts}/${job.max_attempts}):`, err);
+    }
+
+    const retryable = isRetryableError(err);
+    // Mark the course before the job: progress streams end as soon as the job
+    // fails and reload the course, which must no longer be 'processing' by then.
+    // A course that fails to summarize is still usable, chapter by chapter.
+    if (!willRetryJob(job, retryable) && job.type === "process_course") {
+      await supabase
+        .from("courses")
+        .update({ status: "error" })
+        .eq("id", job.course_id);
+    }
+    const willRetry = await failJob(job, WORKER_ID, message, retryable);
+    if (!willRetry) {
+      await releaseTokens(job.payload.reservationId as string | null | undefined).catch(() => {});
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Claim and start jobs until the queue is empty or we hit the concurrency limit.
+ */
+async function poll(): Promise<void> {
+  if (polling) return;
+  polling = true;
+  try {
+    while (!stopping && runningJobs.size < CONCURRENCY) {
+      const job = await claimNextJob(WORKER_ID, LEASE_SECONDS);
+      if (!job) return;
+
+      runningJobs.add(job.id);
+      runJob(job).finally(() => runningJobs.delete(job.id));
+    }
+  } catch (err) {
+    console.error("[job-worker] Claim failed:", err instanceof Error ? err.message : err);
+  } finally {
+    polling = false;
+  }
+}
+
+/**
+ * Start the background worker loop. Recovers jobs orphaned by a previous
+ * crash or deploy first, then polls the queue.
+ */
+export async function startJobWorker(): Promise<void> {
+  if (process.env.JOB_WORKER_ENABLED === "false") {
+    console.log("[job-worker] Disabled via JOB_WORKER_ENABLED=false");
+    return;
+  }
+
+  await recoverOrphanedJobs().catch((err) =>
+    console.error("[job-worker] Startup recovery failed:", err)
+  );
+
+  pollTimer = setInterval(() => {
+    poll().catch(() => {});
+  }, POLL_INTERVAL_MS);
+  recoveryTimer = setInterval(() => {
+    recoverOrphanedJobs().catch(() => {});
+  }, RECOVERY_INTERVAL_MS);
+
+  console.log(`[job-worker] Started as ${WORKER_ID} (concurrency ${CONCURRENCY})`);
+}
+
+/**
+ * Stop claiming new jobs and hand running ones back to the queue so another
+ * machine can resume them without waiting for the lease to expire.
+ */
+export async function stopJobWorker(): Promise<void> {
+  stopping = true;
+  if (pollTimer) clearInterval(pollTimer);
+  if (recoveryTimer) clearInterval(recoveryTimer);
+  if (runningJobs.size > 0) {
+    await releaseWorkerJobs(WORKER_ID).catch(() => {});
+  }
+}
@@ -0,0 +1,98 @@
+// Provider failures, classified so callers can decide whether to retry and the
+// UI can tell "the AI service is busy, try later" apart from "your key is bad".
+
+export type LLMErrorKind =
+  | "rate_limited" // 429: too many requests or tokens for the key
+  | "overloaded" // 529 / 503: the provider is temporarily out of capacity
+  | "server_error" // other 5xx
+  | "timeout" // no (complete) response within LLM_REQUEST_TIMEOUT_MS
+  | "network" // couldn't reach the provider
+  | "invalid_key" // the server's key was rejected
+  | "invalid_user_key" // the user's own key was rejected
+  | "bad_request"; // the provider refused the request itself
+
+const RETRYABLE_KINDS = new Set<LLMErrorKind>(["rate_limited", "overloaded", "server_error", "timeout", "network"]);
+
+/** HTTP status AI routes answer with for each kind of failure. */
+export const LLM_ERROR_STATUS: Record<LLMErrorKind, 400 | 429 | 502 | 503 | 504> = {
+  rate_limited: 429,
+  overloaded: 503,
+  server_error: 502,
+  timeout: 504,
+  network: 502,
+  invalid_key: 503,
+  invalid_user_key: 400,
+  bad_request: 502,
+};
+
+export class LLMError extends Error {
+  readonly kind: LLMErrorKind;
+  /** How long the provider asked us to wait before trying again. */
+  readonly retryAfterMs?: number;
+
+  constructor(kind: LLMErrorKind, message: string, options: { retryAfterMs?: number; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = "LLMError";
+    this.kind = kind;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  /** Whether the same request may succeed later. */
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.has(this.kind);
+  }
+}
+
+/** Message shown to users for each kind; `detail` is the provider's own message. */
+export function llmErrorMessage(kind: LLMErrorKind, provider: string, detail?: string): string {
+  switch (kind) {
+    case "rate_limited":
+      return "The AI service is handling too many requests right now. Please try again in a minute.";
+    case "overloaded":
+    case "server_error":
+      return "The AI service is temporarily unavailable. Please try again in a few minutes.";
+    case "timeout":
+      return "The AI service took too long to respond. Please try again.";
+    case "network":
+      return "Could not reach the AI service. Please try again in a few minutes.";
+    case "invalid_key":
+      return `${provider} API authentication failed — the configured API key is invalid. Check your studentprep/backend/.env file and restart the server.`;
+    case "invalid_user_key":
+      return `Your personal ${provider} API key is invalid. Please update it in settings.`;
+    case "bad_request":
+      return `The AI service rejected the request${detail ? `: ${detail}` : "."}`;
+  }
+}
+
+/**
+ * Milliseconds to wait from a Retry-After header, which is either a number
+ * of seconds or an HTTP date.
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/** Kind of failure for an HTTP status from a provider; undefined when it isn't a failure we know. */
+export function kindForStatus(status: number, userKey: boolean): LLMErrorKind | undefined {
+  if (status === 401 || status === 403) return userKey ? "invalid_user_key" : "invalid_key";
+  if (status === 408) return "timeout";
+  if (status === 429) return "rate_limited";
+  if (status === 503 || status === 529) return "overloaded";
+  if (status >= 500) return "server_error";
+  if (status >= 400) return "bad_request";
+  return undefined;
+}
+
+/** JSON body AI routes send for an LLMError, so clients can tell the kinds apart. */
+export function llmErrorBody(err: LLMError) {
+  return {
+    error: err.message,
+    code: `AI_${err.kind.toUpperCase()}`,
+    retryable: err.retryable,
+    ...(err.retryAfterMs !== undefined ? { retryAfter: Math.ceil(err.retryAfterMs / 1000) } : {}),
+  };
+}
@@ -0,0 +1,226 @@
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { randomUUID } from "node:crypto";
+import type { BatchItemResult, LLMProvider, LLMRequest, LLMUsage } from "./llm-provider.js";
+
+// A canned stand-in for a real model, so the app runs offline for development,
+// tests and demos. Answers depend only on the prompt, so the same request gets
+// the same answer every time. Drop <tool name>.json files in
+// MOCK_LLM_FIXTURES_DIR to replace the built-in answer for a tool.
+
+// ─── Fixtures ─────────────────────────────────────────────────────────────────
+
+const SUMMARY_FIXTURE = {
+  source_language: "en",
+  main_topics: [
+    {
+      topic: "Core concepts",
+      explanation:
+        "This chapter introduces the central ideas of the subject and how they relate. Mock summary — set LLM_PROVIDER to a real provider for actual content.",
+      key_terms: [
+        { term: "Concept", definition: "An abstract idea that groups related observations." },
+        { term: "Model", definition: "A simplified representation used to reason about a system." },
+      ],
+      importance: "critical",
+    },
+    {
+      topic: "Worked examples",
+      explanation: "Examples show how the core concepts are applied step by step.",
+      key_terms: [{ term: "Procedure", definition: "A fixed sequence of steps that solves a kind of problem." }],
+      importance: "important",
+    },
+    {
+      topic: "Common pitfalls",
+      explanation: "Typical mistakes students make and how to recognise them.",
+      key_terms: [],
+      importance: "supporting",
+    },
+  ],
+  side_topics: [{ topic: "Historical background", explanation: "How the ideas in this chapter developed." }],
+  prerequisites: ["Basic reading of the previous chapter"],
+  connections: ["Builds on the foundations of the course"],
+};
+
+const QUESTIONS_FIXTURE = {
+  exam_questions: [
+    {
+      question: "Explain the core concepts introduced in this chapter and how they relate.",
+      suggested_answer: "The chapter introduces concepts that group related observations, and models that simplify a system so it can be reasoned about.",
+      bloom_level: "understand",
+      difficulty: 1,
+      related_topic: "Core concepts",
+    },
+    {
+      question: "Apply the procedure from the worked examples to a new case of your choice.",
+      suggested_answer: "Follow the steps of the procedure in order, checking each intermediate result against the example.",
+      bloom_level: "apply",
+      difficulty: 2,
+      related_topic: "Worked examples",
+    },
+    {
+      question: "Evaluate which of the common pitfalls is most likely in an exam setting, and why.",
+      suggested_answer: "Any well-argued choice that names a pitfall, explains its cause and how to avoid it.",
+      bloom_level: "evaluate",
+      difficulty: 3,
+      related_topic: "Common pitfalls",
+    },
+  ],
+  discussion_questions: [
+    {
+      question: "Where have you seen the ideas of this chapter outside the course?",
+      why_useful: "Connecting material to experience makes it easier to remember.",
+      related_topic: "Core concepts",
+    },
+  ],
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Chapter boundaries at lines that look like headings ("Chapter 2", "1.3 Title", ...). */
+function chapterListFor(prompt: string) {
+  // The document sits between "TEXT:\n---" and the next "---" line
+  const [, text = prompt] = prompt.match(/TEXT:\n---\n([\s\S]*?)\n---(?:\n|$)/) ?? [];
+  const chapters = [];
+  for (const line of text.split("\n")) {
+    const heading = line.trim().match(/^(?:(?:chapter|hoofdstuk|part|deel)\s+\w+|(\d+(?:\.\d+)*)\.?\s+\p{Lu})/iu);
+    if (!heading) continue;
+    const depth = Math.min(2, (heading[1]?.split(".").length ?? 1) - 1);
+    chapters.push({ title: line.trim().slice(0, 100), depth, start_text: line.trim().slice(0, 80) });
+    if (chapters.length === 40) break;
+  }
+  return { chapters };
+}
+
+/** Every numbered statement fully supported. */
+function claimChecksFor(prompt: string) {
+  const count = (prompt.match(/^\[\d+\] /gm) ?? []).length;
+  return { checks: Array.from({ length: count }, (_, i) => ({ id: i + 1, confidence: 1 })) };
+}
+
+/** One study day per chapter from today on, then a review day before the exam. */
+function studyPlanFor(prompt: string) {
+  const today = prompt.match(/Today: (\d{4}-\d{2}-\d{2})/)?.[1] ?? new Date().toISOString().slice(0, 10);
+  const exam = prompt.match(/Exam date: (\d{4}-\d{2}-\d{2})/)?.[1];
+  const minutes = Math.round(Number(prompt.match(/Study hours per day: ([\d.]+)/)?.[1] ?? 2) * 60);
+  const chapters = [...prompt.matchAll(/"(.*)" \(id: "([^"]+)"\)/g)].map((m) => ({ id: m[2], title: m[1] }));
+
+  const start = Date.parse(today);
+  const studyDays = Math.max(1, (exam ? Math.round((Date.parse(exam) - start) / DAY_MS) : chapters.length + 1) - 1);
+  const date = (n: number) => new Date(start + n * DAY_MS).toISOString().slice(0, 10);
+
+  const days = chapters.map((chapter, i) => ({
+    date: date(Math.floor((i * studyDays) / chapters.length)),
+    chapters: [chapter],
+    total_minutes: minutes,
+    type: "study",
+    focus: `Read and summarize "${chapter.title}"`,
+  }));
+  days.push({
+    date: date(studyDays),
+    chapters,
+    total_minutes: minutes,
+    type: "review",
+    focus: "Review all chapters and practice questions",
+  });
+  return { days };
+}
+
+const BUILT_IN: Record<string, (prompt: string) => unknown> = {
+  record_chapters: chapterListFor,
+  record_summary: () => SUMMARY_FIXTURE,
+  record_questions: () => QUESTIONS_FIXTURE,
+  record_checks: claimChecksFor,
+  record_study_plan: studyPlanFor,
+};
+
+// ─── Provider ─────────────────────────────────────────────────────────────────
+
+function fixtureFor(toolName: string, prompt: string): unknown {
+  const dir = process.env.MOCK_LLM_FIXTURES_DIR;
+  const file = dir ? join(dir, `${toolName}.json`) : null;
+  if (file && existsSync(file)) return JSON.parse(readFileSync(file, "utf-8"));
+  return BUILT_IN[toolName]?.(prompt);
+}
+
+/** Roughly four characters per token, like English text. */
+function usageFor({ system, context, prompt, model }: LLMRequest, output: string): LLMUsage {
+  return {
+    input_tokens: Math.ceil((system.length + (context?.length ?? 0) + prompt.length) / 4),
+    output_tokens: Math.ceil(output.length / 4),
+    cache_creation_input_tokens: 0,
+    cache_read_input_tokens: 0,
+    model,
+  };
+}
+
+/** Submitted batches; they only live as long as the process. */
+const batches = new Map<string, BatchItemResult[]>();
+
+/**
+ * Offline provider with canned answers. Structured output is "streamed" one
+ * list entry at a time, so streaming UIs can be tried out too. Batches end
+ * as soon as they are submitted.
+ */
+export const mockProvider: LLMProvider = {
+  name: "mock",
+  requiredEnv: [],
+
+  async complete(request) {
+    // Translations come back tagged with the language, so they're visibly fake
+    const translation = request.prompt.match(/^Translate the following text into (.+?):\n\n([\s\S]*)$/);
+    const text = translation
+      ? `[${translation[1]}] ${translation[2]}`
+      : "This is a mock response. Set LLM_PROVIDER to a real provider for actual content.";
+    return { text, usage: usageFor(request, text) };
+  },
+
+  async callTool(request, tool, onPartialInput) {
+    const input = fixtureFor(tool.name, `${request.context ?? ""}\n\n${request.prompt}`);
+
+    if (onPartialInput && input && typeof input === "object") {
+      const listKey = Object.keys(input).find((key) => Array.isArray((input as Record<string, unknown>)[key]));
+      const list = listKey ? ((input as Record<string, unknown[]>)[listKey]) : [];
+      for (let i = 1; i < list.length; i++) {
+        onPartialInput({ ...input, [listKey!]: list.slice(0, i) });
+      }
+      onPartialInput(input);
+    }
+
+    return {
+      input,
+      truncated: false,
+      usage: usageFor(request, JSON.stringify(input ?? "")),
+    };
+  },
+
+  async countTokens(request) {
+    return usageFor(request, "").input_tokens;
+  },
+
+  batches: {
+    async submit(items) {
+      const id = `mock_batch_${randomUUID()}`;
+      const results = [];
+      for (const item of items) {
+        results.push({ id: item.id, result: await mockProvider.callTool(item.request, item.tool) });
+      }
+      batches.set(id, results);
+      return id;
+    },
+
+    async ended(batchId) {
+      if (!batches.has(batchId)) throw new Error(`Unknown mock batch ${batchId}`);
+      return true;
+    },
+
+    async results(batchId) {
+      const results = batches.get(batchId);
+      if (!results) throw new Error(`Unknown mock batch ${batchId}`);
+      return results;
+    },
+
+    async cancel(batchId) {
+      batches.delete(batchId);
+    },
+  },
+};
@@ -0,0 +1,137 @@
+import { z } from "zod";
+import type { AIModel } from "./claude.js";
+import type { LLMProvider, LLMRequest, LLMUsage } from "./llm-provider.js";
+import { LLMError, kindForStatus, llmErrorMessage, parseRetryAfter } from "./llm-errors.js";
+
+// Any server that speaks the OpenAI chat completions API: OpenAI itself, or a
+// self-hosted model behind vLLM, Ollama, llama.cpp, LM Studio, ...
+
+interface ChatCompletion {
+  choices: {
+    finish_reason: string | null;
+    message: {
+      content: string | null;
+      tool_calls?: { type: string; function: { name: string; arguments: string } }[];
+    };
+  }[];
+  usage?: {
+    prompt_tokens?: number; // including cached tokens
+    completion_tokens?: number;
+    prompt_tokens_details?: { cached_tokens?: number };
+  };
+}
+
+const PROVIDER_LABEL = "OpenAI-compatible";
+
+/**
+ * The served model to use for a requested Claude model. The pipeline picks
+ * Haiku for cheap, high-volume calls; OPENAI_FAST_MODEL can serve those with
+ * a smaller model.
+ */
+function servedModel(model: AIModel): string {
+  const fast = model === "claude-haiku-4-5-20251001" ? process.env.OPENAI_FAST_MODEL : undefined;
+  return fast || process.env.OPENAI_MODEL!;
+}
+
+async function createCompletion(
+  { system, context, prompt, maxTokens, model, temperature, timeoutMs }: LLMRequest,
+  extra: Record<string, unknown> = {}
+): Promise<{ completion: ChatCompletion; usage: LLMUsage }> {
+  const baseUrl = process.env.OPENAI_BASE_URL!.replace(/\/+$/, "");
+  const apiKey = process.env.OPENAI_API_KEY;
+
+  let res: Response;
+  try {
+    res = await fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: servedModel(model),
+        max_tokens: maxTokens,
+        temperature,
+        messages: [
+          { role: "system", content: system },
+          // Context first: servers with prefix caching reuse it between calls
+          { role: "user", content: context ? `${context}\n\n${prompt}` : prompt },
+        ],
+        ...extra,
+      }),
+      signal: timeoutMs ? AbortSignal.timeout(timeoutMs) : undefined,
+    });
+  } catch (err) {
+    const kind = err instanceof Error && err.name === "TimeoutError" ? "timeout" : "network";
+    throw new LLMError(kind, llmErrorMessage(kind, PROVIDER_LABEL), { cause: err });
+  }
+
+  if (!res.ok) {
+    const body = await res.text().catch(() => "");
+    const kind = kindForStatus(res.status, false) ?? "server_error";
+    throw new LLMError(kind, llmErrorMessage(kind, PROVIDER_LABEL, `${res.status} ${body.slice(0, 300)}`), {
+      retryAfterMs: parseRetryAfter(res.headers.get("retry-after")),
+    });
+  }
+
+  const completion = (await res.json()) as ChatCompletion;
+  const cached = completion.usage?.prompt_tokens_details?.cached_tokens ?? 0;
+  return {
+    completion,
+    usage: {
+      input_tokens: (completion.usage?.prompt_tokens ?? 0) - cached,
+      output_tokens: completion.usage?.completion_tokens ?? 0,
+      cache_creation_input_tokens: 0,
+      cache_read_input_tokens: cached,
+      model,
+    },
+  };
+}
+
+/**
+ * An OpenAI-compatible chat completions server at OPENAI_BASE_URL. Structured
+ * output uses function calling, which the served model must support. Users'
+ * own Anthropic keys don't apply here and are ignored.
+ */
+export const openAICompatibleProvider: LLMProvider = {
+  name: "openai",
+  requiredEnv: ["OPENAI_BASE_URL", "OPENAI_MODEL"],
+
+  async complete(request) {
+    const { completion, usage } = await createCompletion(request);
+    const text = completion.choices[0]?.message.content;
+    if (typeof text !== "string") {
+      throw new Error("Unexpected response from the OpenAI-compatible API: no message content");
+    }
+    return { text, usage };
+  },
+
+  // Not streamed: the whole input is passed to onPartialInput once it's complete
+  async callTool(request, tool, onPartialInput) {
+    // Declare the context tools too, so calls about the same context share a prefix
+    const declared = request.contextTools ?? [];
+    const tools = declared.some((t) => t.name === tool.name) ? declared : [...declared, tool];
+    const { completion, usage } = await createCompletion(request, {
+      tools: tools.map((t) => {
+        const { $schema: _, ...parameters } = z.toJSONSchema(t.schema, { io: "input" });
+        return { type: "function", function: { name: t.name, description: t.description, parameters } };
+      }),
+      tool_choice: { type: "function", function: { name: tool.name } },
+    });
+
+    const choice = completion.choices[0];
+    const call = choice?.message.tool_calls?.find((c) => c.function.name === tool.name);
+    let input: unknown;
+    if (call) {
+      try {
+        input = JSON.parse(call.function.arguments);
+      } catch {
+        // Leave it to schema validation to report the arguments aren't an object
+        input = call.function.arguments;
+      }
+      onPartialInput?.(input);
+    }
+
+    return { input, truncated: choice?.finish_reason === "length", usage };
+  },
+};
@@ -0,0 +1,381 @@
+import { z } from "zod";
+import { anthropicProvider, type AIModel } from "./claude.js";
+import { openAICompatibleProvider } from "./llm-openai.js";
+import { mockProvider } from "./llm-mock.js";
+import { LLMError } from "./llm-errors.js";
+import type { ModelRoute } from "../config/modelRoutes.js";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface LLMUsage {
+  input_tokens: number; // not counting tokens written to or read from the prompt cache
+  output_tokens: number;
+  cache_creation_input_tokens: number;
+  cache_read_input_tokens: number;
+  model: AIModel; // the model the call asked for; providers may map it to their own
+}
+
+export interface LLMResponse {
+  text: string;
+  usage: LLMUsage;
+}
+
+/**
+ * A prompt, optionally split into long `context` that several calls share
+ * (e.g. chapter text) and the `prompt` for this call. The context is sent
+ * right after the system prompt, so providers can cache it.
+ *
+ * Calls that share a context can declare the same `contextTools` too: tools
+ * are sent before the system prompt, so calls that declare different tools
+ * can't share a cached context. The model still has to call the requested tool.
+ */
+export type LLMPrompt = string | { context: string; prompt: string; contextTools?: StructuredTool[] };
+
+export interface LLMRequest {
+  system: string;
+  context?: string;
+  prompt: string;
+  contextTools?: StructuredTool[]; // declared with the called tool; see LLMPrompt
+  maxTokens: number;
+  model: AIModel;
+  temperature?: number; // the provider's default when unset
+  apiKey?: string; // a user's own key; only the Anthropic provider uses it
+  timeoutMs?: number;
+}
+
+/** A tool the model must call to answer; its input is the structured result. */
+export interface StructuredTool<S extends z.ZodType = z.ZodType> {
+  name: string;
+  description: string;
+  schema: S;
+}
+
+/** Unvalidated tool input as returned by a provider. */
+export interface ToolCallResult {
+  input: unknown; // undefined when the model didn't call the tool
+  truncated: boolean; // the response hit maxTokens
+  usage: LLMUsage;
+}
+
+/**
+ * The validated tool input, or why there is none: a short list of problems
+ * that can be shown to the model when asking again.
+ */
+export type StructuredResponse<T> =
+  | { ok: true; data: T; usage: LLMUsage }
+  | { ok: false; problems: string; usage: LLMUsage };
+
+/** One tool call of a batch; `id` matches it to its result. */
+export interface BatchItem {
+  id: string;
+  request: LLMRequest;
+  tool: StructuredTool;
+}
+
+/** Result of one batch item; `result` is missing when it errored, expired or was cancelled. */
+export interface BatchItemResult {
+  id: string;
+  result?: ToolCallResult;
+  error?: string;
+}
+
+/**
+ * Asynchronous tool calls at a discount, for work nobody is waiting on.
+ * Batches can take up to a day; results are only available once the whole
+ * batch has ended.
+ */
+export interface LLMBatchAPI {
+  /** Submit the items; returns the batch id. */
+  submit(items: BatchItem[], apiKey?: string): Promise<string>;
+  ended(batchId: string, apiKey?: string): Promise<boolean>;
+  /** Results of an ended batch, in any order. */
+  results(batchId: string, apiKey?: string): Promise<BatchItemResult[]>;
+  cancel(batchId: string, apiKey?: string): Promise<void>;
+}
+
+export interface LLMProvider {
+  name: string;
+  /** Environment variables the provider can't make calls without. */
+  requiredEnv: string[];
+  complete(request: LLMRequest): Promise<LLMResponse>;
+  /**
+   * Make the model call `tool`. With `onPartialInput`, providers that can
+   * stream pass on the tool input parsed so far after every delta.
+   */
+  callTool(
+    request: LLMRequest,
+    tool: StructuredTool,
+    onPartialInput?: (inputSoFar: unknown) => void
+  ): Promise<ToolCallResult>;
+  /** Only providers with a batch API have this. */
+  batches?: LLMBatchAPI;
+  /**
+   * Input tokens `request` would use, with `tool` when it's a tool call.
+   * Providers that can't count exactly leave this out.
+   */
+  countTokens?(request: LLMRequest, tool?: StructuredTool): Promise<number>;
+}
+
+// ─── Provider selection ───────────────────────────────────────────────────────
+
+const PROVIDERS: Record<string, LLMProvider> = {
+  anthropic: anthropicProvider,
+  openai: openAICompatibleProvider,
+  mock: mockProvider,
+};
+
+/** The provider chosen by LLM_PROVIDER (anthropic, openai or mock); Anthropic by default. */
+export function getLLMProvider(): LLMProvider {
+  const name = (process.env.LLM_PROVIDER || "anthropic").toLowerCase();
+  const provider = PROVIDERS[name];
+  if (!provider) {
+    throw new Error(
+      `Unknown LLM_PROVIDER "${name}". Use one of: ${Object.keys(PROVIDERS).join(", ")}.`
+    );
+  }
+  return provider;
+}
+
+/** Required environment variables of the configured provider that aren't set. */
+export function missingLLMConfig(): string[] {
+  return getLLMProvider().requiredEnv.filter((name) => !process.env[name]);
+}
+
+// ─── Retries & concurrency ────────────────────────────────────────────────────
+
+const MAX_RETRIES = parseInt(process.env.LLM_MAX_RETRIES || "3");
+const RETRY_BASE_MS = parseInt(process.env.LLM_RETRY_BASE_MS || "1000");
+/** Longest we wait between attempts; a longer Retry-After fails right away. */
+const RETRY_MAX_MS = parseInt(process.env.LLM_RETRY_MAX_MS || "60000");
+const REQUEST_TIMEOUT_MS = parseInt(process.env.LLM_REQUEST_TIMEOUT_MS || "300000");
+/** Model calls in flight at once, across all users of this process. */
+const MAX_CONCURRENCY = parseInt(process.env.LLM_MAX_CONCURRENCY || "8");
+
+/** Run at most `max` functions at a time; the rest wait in call order. */
+function createLimiter(max: number) {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  return async function limit<T>(fn: () => Promise<T>): Promise<T> {
+    if (active >= max) {
+      await new Promise<void>((resolve) => waiting.push(resolve)); // the finishing call hands over its slot
+    } else {
+      active++;
+    }
+    try {
+      return await fn();
+    } finally {
+      const next = waiting.shift();
+      if (next) next();
+      else active--;
+    }
+  };
+}
+
+const limit = createLimiter(MAX_CONCURRENCY);
+
+/**
+ * Exponential backoff with jitter, so clients that failed together don't all
+ * come back at once. A Retry-After from the provider is a lower bound.
+ */
+function retryDelay(attempt: number, retryAfterMs?: number): number {
+  const backoff = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** attempt);
+  const jittered = backoff / 2 + Math.random() * (backoff / 2);
+  return Math.max(jittered, retryAfterMs ?? 0);
+}
+
+/**
+ * Call the provider through the concurrency limiter, retrying failures that
+ * may succeed later (rate limits, overloads, timeouts, network errors).
+ * Waiting between attempts doesn't hold a slot.
+ */
+async function withRetries<T>(call: () => Promise<T>): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await limit(call);
+    } catch (err) {
+      if (!(err instanceof LLMError) || !err.retryable || attempt >= MAX_RETRIES) throw err;
+      if (err.retryAfterMs !== undefined && err.retryAfterMs > RETRY_MAX_MS) throw err;
+
+      const delay = retryDelay(attempt, err.retryAfterMs);
+      console.warn(
+        `[llm] ${err.kind}: retrying in ${Math.round(delay)} ms (attempt ${attempt + 2} of ${MAX_RETRIES + 1})`
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+// ─── Calls ────────────────────────────────────────────────────────────────────
+
+function buildRequest(
+  system: string,
+  prompt: LLMPrompt,
+  { model, maxTokens, temperature }: ModelRoute,
+  userApiKey?: string
+): LLMRequest {
+  const parts = typeof prompt === "string" ? { prompt } : prompt;
+  return {
+    system,
+    ...parts,
+    maxTokens,
+    model,
+    ...(temperature !== null ? { temperature } : {}),
+    apiKey: userApiKey,
+    timeoutMs: REQUEST_TIMEOUT_MS,
+  };
+}
+
+/** Validation issues as a short list the model can act on. */
+function describeIssues(error: z.ZodError, max = 10): string {
+  const lines = error.issues
+    .slice(0, max)
+    .map((issue) => `- ${issue.path.join(".") || "(root)"}: ${issue.message}`);
+  if (error.issues.length > max) lines.push(`- ...and ${error.issues.length - max} more`);
+  return lines.join("\n");
+}
+
+/**
+ * Ask the configured model for free text, with usage tracking. `route` picks
+ * the model and its settings (see config/modelRoutes.ts); `userApiKey` is a
+ * user's own Anthropic key. Failures are thrown as LLMErrors once retries
+ * are used up.
+ */
+export async function askLLM(
+  system: string,
+  prompt: LLMPrompt,
+  route: ModelRoute,
+  userApiKey?: string
+): Promise<LLMResponse> {
+  const provider = getLLMProvider();
+  const request = buildRequest(system, prompt, route, userApiKey);
+  return withRetries(() => provider.complete(request));
+}
+
+/**
+ * Make the configured model call a single tool, and validate the tool input
+ * against the tool's schema. Input that doesn't match (or was cut off by
+ * the route's `maxTokens`) is reported as problems instead of thrown, so the
+ * caller can ask again.
+ *
+ * With `onPartialInput` the response is streamed where the provider supports
+ * it, and the tool input parsed so far is passed on after every delta. A
+ * retried call starts streaming from the beginning again.
+ */
+export async function askLLMStructured<S extends z.ZodType>(
+  system: string,
+  prompt: LLMPrompt,
+  tool: StructuredTool<S>,
+  route: ModelRoute,
+  userApiKey?: string,
+  onPartialInput?: (inputSoFar: unknown) => void
+): Promise<StructuredResponse<z.output<S>>> {
+  const provider = getLLMProvider();
+  const request = buildRequest(system, prompt, route, userApiKey);
+  const result = await withRetries(() => provider.callTool(request, tool, onPartialInput));
+  return checkToolInput(tool, result);
+}
+
+/**
+ * Validate a tool call's input against the tool's schema. Input that doesn't
+ * match, or was cut off, is reported as problems.
+ */
+export function checkToolInput<S extends z.ZodType>(
+  tool: StructuredTool<S>,
+  { input, truncated, usage }: ToolCallResult
+): StructuredResponse<z.output<S>> {
+  if (truncated) {
+    return { ok: false, problems: "- the response was cut off at the length limit; keep it shorter", usage };
+  }
+  if (input === undefined) {
+    return { ok: false, problems: `- the response did not call the ${tool.name} tool`, usage };
+  }
+
+  const parsed = tool.schema.safeParse(input);
+  return parsed.success
+    ? { ok: true, data: parsed.data, usage }
+    : { ok: false, problems: describeIssues(parsed.error), usage };
+}
+
+// ─── Token counting ───────────────────────────────────────────────────────────
+
+/** Rough token count of text: about four characters per token, like English. */
+export function approximateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Input tokens a call would use, before making it. Counted by the provider
+ * where it can; otherwise, or when counting fails, approximated from the
+ * length of the text.
+ */
+export async function countInputTokens(
+  system: string,
+  prompt: LLMPrompt,
+  route: ModelRoute,
+  tool?: StructuredTool,
+  userApiKey?: string
+): Promise<number> {
+  const provider = getLLMProvider();
+  const request = buildRequest(system, prompt, route, userApiKey);
+  const approximate = () => approximateTokens(system + (request.context ?? "") + request.prompt);
+  if (!provider.countTokens) return approximate();
+
+  try {
+    return await withRetries(() => provider.countTokens!(request, tool));
+  } catch (err) {
+    console.warn("[llm] Token count failed, approximating:", err instanceof Error ? err.message : err);
+    return approximate();
+  }
+}
+
+// ─── Batches ──────────────────────────────────────────────────────────────────
+
+/** A structured call to submit in a batch; `id` matches it to its result. */
+export interface BatchCall {
+  id: string;
+  system: string;
+  prompt: LLMPrompt;
+  tool: StructuredTool;
+  route: ModelRoute;
+}
+
+function getBatchAPI(): LLMBatchAPI {
+  const provider = getLLMProvider();
+  if (!provider.batches) {
+    throw new Error(`The ${provider.name} provider has no batch API`);
+  }
+  return provider.batches;
+}
+
+/** Whether the configured provider can run batches. */
+export function supportsBatches(): boolean {
+  return Boolean(getLLMProvider().batches);
+}
+
+/** Submit structured calls as one batch; returns the batch id. */
+export async function submitBatch(calls: BatchCall[], userApiKey?: string): Promise<string> {
+  const batches = getBatchAPI();
+  const items = calls.map(({ id, system, prompt, tool, route }) => ({
+    id,
+    request: buildRequest(system, prompt, route, userApiKey),
+    tool,
+  }));
+  return withRetries(() => batches.submit(items, userApiKey));
+}
+
+export async function batchEnded(batchId: string, userApiKey?: string): Promise<boolean> {
+  const batches = getBatchAPI();
+  return withRetries(() => batches.ended(batchId, userApiKey));
+}
+
+/** Unvalidated results of an ended batch; see checkToolInput. */
+export async function batchResults(batchId: string, userApiKey?: string): Promise<BatchItemResult[]> {
+  const batches = getBatchAPI();
+  return withRetries(() => batches.results(batchId, userApiKey));
+}
+
+export async function cancelBatch(batchId: string, userApiKey?: string): Promise<void> {
+  const batches = getBatchAPI();
+  await withRetries(() => batches.cancel(batchId, userApiKey));
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect, vi, beforeAll } from "vitest";
+import { getModelRouting, getUserModelRouting } from "./model-routes.js";
+import { DEFAULT_ROUTING } from "../config/modelRoutes.js";
+import { reset, tables } from "../test/fake-supabase.js";
+
+vi.mock("./supabase.js", () => import("../test/fake-supabase.js"));
+
+const SONNET = "claude-sonnet-4-5-20250929";
+const HAIKU = "claude-haiku-4-5-20251001";
+
+// Routes are cached for a minute, so every test sees the same ones
+beforeAll(() => {
+  reset();
+  tables.model_routes = [
+    { feature: "questions", plan: "all", model: SONNET, max_tokens: 8000, temperature: 0.3 },
+  ];
+  tables.organization_members = [];
+  tables.subscriptions = [
+    { user_id: "free-user", plan: "free", status: "inactive" },
+    { user_id: "pro-user", plan: "pro", status: "active" },
+  ];
+});
+
+describe("getModelRouting", () => {
+  it("downgrades the free plan's Sonnet routes to Haiku", async () => {
+    const routing = await getModelRouting("free");
+
+    expect(DEFAULT_ROUTING.summary.model).toBe(SONNET);
+    expect(routing.summary).toEqual({ ...DEFAULT_ROUTING.summary, model: HAIKU });
+    expect(routing.questions).toEqual({ model: HAIKU, maxTokens: 8000, temperature: 0.3 });
+  });
+
+  it("keeps Sonnet for paid plans", async () => {
+    const routing = await getModelRouting("pro");
+
+    expect(routing.summary.model).toBe(SONNET);
+    expect(routing.questions.model).toBe(SONNET);
+  });
+});
+
+describe("getUserModelRouting", () => {
+  it("routes a free user's admin-configured Sonnet route to Haiku", async () => {
+    expect((await getUserModelRouting("free-user")).questions.model).toBe(HAIKU);
+    expect((await getUserModelRouting("pro-user")).questions.model).toBe(SONNET);
+  });
+});
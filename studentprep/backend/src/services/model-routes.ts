@@ -0,0 +1,136 @@
+import { getSupabaseAdmin } from "./supabase.js";
+import { getUserSubscription } from "./subscription.js";
+import type { AIModel } from "./claude.js";
+import { getLimits, PLAN_TIERS, type PlanTier } from "../config/tierLimits.js";
+import {
+  AI_FEATURES,
+  DEFAULT_ROUTING,
+  type AIFeature,
+  type ModelRoute,
+  type ModelRouting,
+} from "../config/modelRoutes.js";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+/** Who a route applies to: everyone, or one plan tier (which beats 'all'). */
+export type RoutePlan = "all" | PlanTier;
+
+export const ROUTE_PLANS: RoutePlan[] = ["all", ...PLAN_TIERS];
+
+export function isRoutePlan(value: string): value is RoutePlan {
+  return (ROUTE_PLANS as string[]).includes(value);
+}
+
+export interface ModelRouteRow {
+  feature: AIFeature;
+  plan: RoutePlan;
+  model: AIModel;
+  max_tokens: number;
+  temperature: number | null;
+  updated_by: string | null;
+  updated_at: string;
+}
+
+/** Routes are read on every AI request; admins' changes show up within this long. */
+const CACHE_TTL_MS = 60_000;
+
+let cached: { rows: ModelRouteRow[]; loadedAt: number } | null = null;
+
+// ─── Reading ──────────────────────────────────────────────────────────────────
+
+/**
+ * All configured routes. If they can't be loaded (e.g. migration 017 hasn't
+ * been run), the defaults are used and a warning is logged.
+ */
+export async function listModelRoutes(): Promise<ModelRouteRow[]> {
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) return cached.rows;
+
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from("model_routes")
+    .select("feature, plan, model, max_tokens, temperature, updated_by, updated_at");
+
+  if (error) {
+    console.warn("[model-routes] Failed to load routes, using defaults:", error.message);
+    return [];
+  }
+
+  cached = { rows: (data || []) as ModelRouteRow[], loadedAt: Date.now() };
+  return cached.rows;
+}
+
+function routeOf(row: ModelRouteRow): ModelRoute {
+  return { model: row.model, maxTokens: row.max_tokens, temperature: row.temperature };
+}
+
+/**
+ * The route of every feature for a plan tier: the tier's own route, else the
+ * route for 'all', else the default. Models the tier isn't allowed to use
+ * are swapped for one it is.
+ */
+export async function getModelRouting(plan: PlanTier): Promise<ModelRouting> {
+  const rows = await listModelRoutes();
+  const { allowedModels } = getLimits(plan);
+  const routing = { ...DEFAULT_ROUTING };
+
+  for (const { id } of AI_FEATURES) {
+    const row =
+      rows.find((r) => r.feature === id && r.plan === plan) ??
+      rows.find((r) => r.feature === id && r.plan === "all");
+    if (row) routing[id] = routeOf(row);
+    if (!allowedModels.includes(routing[id].model)) {
+      routing[id] = { ...routing[id], model: allowedModels[0] };
+    }
+  }
+  return routing;
+}
+
+/** The routing for a user's current plan. */
+export async function getUserModelRouting(userId: string): Promise<ModelRouting> {
+  const { plan } = await getUserSubscription(userId);
+  return getModelRouting(plan);
+}
+
+// ─── Admin ────────────────────────────────────────────────────────────────────
+
+/** Create or replace the route of a feature for a plan. */
+export async function saveModelRoute(
+  feature: AIFeature,
+  plan: RoutePlan,
+  route: ModelRoute,
+  adminUserId: string
+): Promise<void> {
+  const supabase = getSupabaseAdmin();
+  const { error } = await supabase.from("model_routes").upsert(
+    {
+      feature,
+      plan,
+      model: route.model,
+      max_tokens: route.maxTokens,
+      temperature: route.temperature,
+      updated_by: adminUserId,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "feature,plan" }
+  );
+
+  if (error) {
+    throw new Error(`Failed to save model route: ${error.message}`);
+  }
+  cached = null;
+}
+
+/** Remove a route, so the feature falls back to the 'all' route or the default. */
+export async function deleteModelRoute(feature: AIFeature, plan: RoutePlan): Promise<void> {
+  const supabase = getSupabaseAdmin();
+  const { error } = await supabase
+    .from("model_routes")
+    .delete()
+    .eq("feature", feature)
+    .eq("plan", plan);
+
+  if (error) {
+    throw new Error(`Failed to delete model route: ${error.message}`);
+  }
+  cached = null;
+}
@@ -0,0 +1,296 @@
+import { randomBytes } from "node:crypto";
+import { getSupabaseAdmin } from "./supabase.js";
+import { getMonthlyOrgTokenUsage, getMonthlyTokenUsageByUser, getTokenBudget } from "./subscription.js";
+
+// Organizations: one per-seat subscription shared by a group. Members join
+// through invitations, one per seat, and share a pooled token budget.
+
+/** How long an invitation link stays valid. */
+const INVITATION_TTL_DAYS = 7;
+
+export type OrgRole = "owner" | "admin" | "member";
+
+export interface Organization {
+  id: string;
+  name: string;
+  owner_id: string;
+  seats: number;
+  stripe_customer_id: string | null;
+  stripe_subscription_id: string | null;
+  status: string;
+  current_period_end: string | null;
+  created_at: string;
+}
+
+export interface OrgMember {
+  userId: string;
+  email: string;
+  role: OrgRole;
+  joinedAt: string;
+  tokensThisMonth: number;
+}
+
+export interface OrgInvitation {
+  id: string;
+  email: string;
+  token: string;
+  expires_at: string;
+  created_at: string;
+}
+
+// ─── Reading ─────────────────────────────────────────────────────────────────
+
+/** The organization a user belongs to and their role in it, if any. */
+export async function getMembership(userId: string): Promise<{ orgId: string; role: OrgRole } | null> {
+  const supabase = getSupabaseAdmin();
+  const { data } = await supabase
+    .from("organization_members")
+    .select("org_id, role")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  return data ? { orgId: data.org_id, role: data.role } : null;
+}
+
+export async function getOrganization(orgId: string): Promise<Organization> {
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from("organizations")
+    .select("*")
+    .eq("id", orgId)
+    .single();
+
+  if (error || !data) {
+    throw new Error("Organization not found");
+  }
+  return data as Organization;
+}
+
+/** Members with their email and token usage this month, owner first. */
+export async function listMembers(orgId: string): Promise<OrgMember[]> {
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from("organization_members")
+    .select("user_id, role, joined_at")
+    .eq("org_id", orgId)
+    .order("joined_at");
+
+  if (error) {
+    throw new Error(`Failed to load members: ${error.message}`);
+  }
+
+  const rows = data || [];
+  const usage = await getMonthlyTokenUsageByUser(orgId, rows.map((m: { user_id: string }) => m.user_id));
+  const members = await Promise.all(
+    rows.map(async (m: { user_id: string; role: OrgRole; joined_at: string }) => {
+      const { data: user } = await supabase.auth.admin.getUserById(m.user_id);
+      return {
+        userId: m.user_id,
+        email: user?.user?.email || "",
+        role: m.role,
+        joinedAt: m.joined_at,
+        tokensThisMonth: usage.get(m.user_id) || 0,
+      };
+    })
+  );
+  return members.sort((a, b) => Number(b.role === "owner") - Number(a.role === "owner"));
+}
+
+/** Invitations that haven't been accepted and haven't expired. */
+export async function listInvitations(orgId: string): Promise<OrgInvitation[]> {
+  const supabase = getSupabaseAdmin();
+  const { data } = await supabase
+    .from("organization_invitations")
+    .select("id, email, token, expires_at, created_at")
+    .eq("org_id", orgId)
+    .gt("expires_at", new Date().toISOString())
+    .order("created_at");
+  return (data || []) as OrgInvitation[];
+}
+
+/**
+ * The pooled budget of an organization and how much of it was used this
+ * month, including by members who have since left.
+ */
+export async function getOrgBudget(org: Organization) {
+  const limit = org.status === "active" ? getTokenBudget({ plan: "team", status: org.status, seats: org.seats }) : 0;
+  const used = await getMonthlyOrgTokenUsage(org.id);
+  return { limit, used };
+}
+
+// ─── Changes ─────────────────────────────────────────────────────────────────
+
+/** Create an organization with the user as its owner. Seats are bought at checkout. */
+export async function createOrganization(name: string, ownerId: string): Promise<Organization> {
+  const trimmed = name.trim();
+  if (!trimmed || trimmed.length > 100) {
+    throw new Error("Name must be between 1 and 100 characters");
+  }
+  if (await getMembership(ownerId)) {
+    throw new Error("You already belong to an organization");
+  }
+
+  const supabase = getSupabaseAdmin();
+  const { data: org, error } = await supabase
+    .from("organizations")
+    .insert({ name: trimmed, owner_id: ownerId })
+    .select()
+    .single();
+
+  if (error || !org) {
+    throw new Error(`Failed to create organization: ${error?.message}`);
+  }
+
+  const { error: memberError } = await supabase
+    .from("organization_members")
+    .insert({ org_id: org.id, user_id: ownerId, role: "owner" });
+
+  if (memberError) {
+    await supabase.from("organizations").delete().eq("id", org.id);
+    throw new Error(`Failed to create organization: ${memberError.message}`);
+  }
+  return org as Organization;
+}
+
+async function countMembers(orgId: string): Promise<number> {
+  const supabase = getSupabaseAdmin();
+  const { count } = await supabase
+    .from("organization_members")
+    .select("user_id", { count: "exact", head: true })
+    .eq("org_id", orgId);
+  return count ?? 0;
+}
+
+/**
+ * Invite someone by email. Every member and open invitation takes a seat;
+ * inviting the same address again renews its invitation.
+ */
+export async function inviteMember(orgId: string, email: string, invitedBy: string): Promise<OrgInvitation> {
+  const normalized = email.trim().toLowerCase();
+  if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(normalized)) {
+    throw new Error("Please enter a valid email address");
+  }
+
+  const org = await getOrganization(orgId);
+  const open = (await listInvitations(orgId)).filter((i) => i.email !== normalized);
+  if ((await countMembers(orgId)) + open.length >= org.seats) {
+    throw new Error(`All ${org.seats} seats are taken. Add seats under Manage billing to invite more people.`);
+  }
+
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from("organization_invitations")
+    .upsert(
+      {
+        org_id: orgId,
+        email: normalized,
+        token: randomBytes(24).toString("base64url"),
+        invited_by: invitedBy,
+        expires_at: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+      },
+      { onConflict: "org_id,email" }
+    )
+    .select("id, email, token, expires_at, created_at")
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to create invitation: ${error?.message}`);
+  }
+  return data as OrgInvitation;
+}
+
+export async function revokeInvitation(orgId: string, invitationId: string): Promise<void> {
+  const supabase = getSupabaseAdmin();
+  const { error } = await supabase
+    .from("organization_invitations")
+    .delete()
+    .eq("id", invitationId)
+    .eq("org_id", orgId);
+
+  if (error) {
+    throw new Error(`Failed to revoke invitation: ${error.message}`);
+  }
+}
+
+/** Join the organization of an invitation sent to the user's email address. */
+export async function acceptInvitation(token: string, userId: string, email: string): Promise<Organization> {
+  const supabase = getSupabaseAdmin();
+  const { data: invitation } = await supabase
+    .from("organization_invitations")
+    .select("id, org_id, email, expires_at")
+    .eq("token", token)
+    .maybeSingle();
+
+  if (!invitation || new Date(invitation.expires_at) <= new Date()) {
+    throw new Error("Invitation not found");
+  }
+  if (invitation.email !== email.toLowerCase()) {
+    throw new Error(`This invitation was sent to ${invitation.email}. Sign in with that address to accept it.`);
+  }
+  if (await getMembership(userId)) {
+    throw new Error("You already belong to an organization");
+  }
+
+  const org = await getOrganization(invitation.org_id);
+  // The invitation holds a seat, unless seats were removed since it was sent
+  if ((await countMembers(org.id)) >= org.seats) {
+    throw new Error("This organization has no free seats left. Ask its admin to add seats.");
+  }
+
+  const { error } = await supabase
+    .from("organization_members")
+    .insert({ org_id: org.id, user_id: userId, role: "member" });
+
+  if (error) {
+    throw new Error(`Failed to join organization: ${error.message}`);
+  }
+  await supabase.from("organization_invitations").delete().eq("id", invitation.id);
+  return org;
+}
+
+/** Remove a member, or leave. The owner can't be removed. */
+export async function removeMember(orgId: string, userId: string): Promise<void> {
+  const supabase = getSupabaseAdmin();
+  const { data: member } = await supabase
+    .from("organization_members")
+    .select("role")
+    .eq("org_id", orgId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (!member) {
+    throw new Error("Member not found");
+  }
+  if (member.role === "owner") {
+    throw new Error("The owner can't leave the organization");
+  }
+
+  const { error } = await supabase
+    .from("organization_members")
+    .delete()
+    .eq("org_id", orgId)
+    .eq("user_id", userId);
+
+  if (error) {
+    throw new Error(`Failed to remove member: ${error.message}`);
+  }
+}
+
+/** Promote a member to admin, or demote an admin. */
+export async function setMemberRole(orgId: string, userId: string, role: "admin" | "member"): Promise<void> {
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from("organization_members")
+    .update({ role })
+    .eq("org_id", orgId)
+    .eq("user_id", userId)
+    .neq("role", "owner")
+    .select("user_id");
+
+  if (error) {
+    throw new Error(`Failed to change role: ${error.message}`);
+  }
+  if (!data?.length) {
+    throw new Error("Member not found");
+  }
+}
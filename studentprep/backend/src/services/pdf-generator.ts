@@ -22,6 +22,8 @@ interface SideTopic {
 export interface ChapterPdfData {
   title: string;
   sort_order: number;
+  number?: string; // outline number, e.g. "2.1"; defaults to sort_order + 1
+  depth?: number; // 0 = part/chapter, 1+ = section
   summary_main: MainTopic[] | null;
   summary_side: SideTopic[] | null;
 }
@@ -42,6 +44,8 @@ const COLOR_GREEN_TITLE: [number, number, number] = [21, 128, 61]; // green-700
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
 const PAGE_MARGIN = 50;
+// Chapter heading size by depth: parts/chapters, sections, subsections
+const HEADING_SIZES = [18, 15, 13];
 const CONTENT_WIDTH = 595.28 - PAGE_MARGIN * 2; // A4 width minus margins
 
 function ensureSpace(doc: PDFKit.PDFDocument, needed: number) {
@@ -83,8 +87,8 @@ function drawColorBlock(
  *
  * Layout:
  *  - Title page with course name
- *  - For each chapter:
- *    - Chapter heading
+ *  - For each chapter (top-level chapters start a new page, sections follow on):
+ *    - Chapter heading, numbered by its place in the outline
  *    - Main topics (yellow highlight): topic name, explanation, key terms
  *    - Side topics (green highlight): topic name, explanation
  */
@@ -173,15 +177,21 @@ export function generateHighlightedPdf(
 
     const sorted = [...chapters].sort((a, b) => a.sort_order - b.sort_order);
 
-    for (const chapter of sorted) {
-      doc.addPage();
+    for (const [index, chapter] of sorted.entries()) {
+      const depth = Math.min(chapter.depth ?? 0, HEADING_SIZES.length - 1);
+      if (index === 0 || depth === 0) {
+        doc.addPage();
+      } else {
+        doc.moveDown(1.5);
+        ensureSpace(doc, 80);
+      }
 
       // Chapter title
       doc
-        .fontSize(18)
+        .fontSize(HEADING_SIZES[depth])
         .fillColor(COLOR_DARK)
-        .text(`${chapter.sort_order + 1}. ${chapter.title}`, {
-          underline: true,
+        .text(`${chapter.number ?? chapter.sort_order + 1}. ${chapter.title}`, {
+          underline: depth === 0,
         });
       doc.moveDown(1);
 
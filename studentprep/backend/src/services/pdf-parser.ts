@@ -1,6 +1,258 @@
+import { copyFile, mkdtemp } from "node:fs/promises";
+import { createRequire } from "node:module";
+import os from "node:os";
+import path from "node:path";
 import pdfParse from "pdf-parse";
+import { PermanentError } from "./errors.js";
 
-export async function extractTextFromPdf(buffer: Buffer): Promise<string> {
-  const result = await pdfParse(buffer);
-  return result.text;
+export interface PdfPageText {
+  text: string;
+  ocr: boolean;
+  ocrConfidence?: number; // 0–100, as reported by tesseract
+}
+
+export interface OutlineEntry {
+  title: string;
+  pageNumber: number; // 1-based
+  depth: number; // 0 for top-level bookmarks
+}
+
+// Languages passed to tesseract, e.g. "eng+nld"
+const OCR_LANGUAGES = process.env.OCR_LANGUAGES || "eng+nld";
+const OCR_ENABLED = process.env.OCR_ENABLED !== "false";
+// Render scale for OCR; 2x of PDF points (~144 DPI) is a good speed/accuracy trade-off
+const OCR_RENDER_SCALE = 2;
+
+/**
+ * Same line-joining as pdf-parse's default renderer, but collected per page so
+ * we can decide for each page whether it needs OCR.
+ */
+function renderPageText(pageData: any): Promise<string> {
+  return pageData
+    .getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false })
+    .then((textContent: any) => {
+      let lastY: number | undefined;
+      let text = "";
+      for (const item of textContent.items) {
+        if (lastY === item.transform[5] || !lastY) {
+          text += item.str;
+        } else {
+          text += "\n" + item.str;
+        }
+        lastY = item.transform[5];
+      }
+      return text;
+    });
+}
+
+/**
+ * A text layer is unusable when it is (nearly) empty — a scanned page — or
+ * mostly glyphs that aren't letters, which is what broken font encodings produce.
+ */
+export function needsOcr(text: string): boolean {
+  const compact = text.replace(/\s+/g, "");
+  if (compact.length < 20) return true;
+
+  const letters = compact.match(/\p{L}/gu)?.length ?? 0;
+  const junk = compact.match(/[�\p{Co}\p{Cc}]/gu)?.length ?? 0;
+  return letters / compact.length < 0.5 || junk / compact.length > 0.1;
+}
+
+const require = createRequire(import.meta.url);
+
+let langPathPromise: Promise<string | undefined> | null = null;
+
+/**
+ * Collect traineddata from the bundled @tesseract.js-data packages into one
+ * directory tesseract can read from, so OCR works without reaching its CDN.
+ * Returns undefined (tesseract downloads the data itself) if a language isn't installed.
+ */
+function resolveOcrLangPath(): Promise<string | undefined> {
+  langPathPromise ??= (async () => {
+    try {
+      const dir = await mkdtemp(path.join(os.tmpdir(), "tessdata-"));
+      for (const code of OCR_LANGUAGES.split("+")) {
+        const pkg = require(`@tesseract.js-data/${code}`) as { langPath: string };
+        const file = `${code}.traineddata.gz`;
+        await copyFile(path.join(pkg.langPath, file), path.join(dir, file));
+      }
+      return dir;
+    } catch {
+      return undefined;
+    }
+  })();
+  return langPathPromise;
+}
+
+/**
+ * Open a PDF with pdf.js. Loaded lazily; pdf-parse bundles an older pdf.js
+ * that can't render pages or resolve outline destinations.
+ */
+async function openPdfDocument(buffer: Buffer) {
+  const pdfjs = await import("pdfjs-dist/legacy/build/pdf.mjs");
+  return pdfjs.getDocument({
+    data: new Uint8Array(buffer),
+    disableFontFace: true,
+    isEvalSupported: false,
+  }).promise;
+}
+
+/** A canvas from pdf.js's Node canvas factory, backed by @napi-rs/canvas. */
+interface PdfCanvas {
+  canvas: { toBuffer(mimeType: "image/png"): Buffer };
+  context: CanvasRenderingContext2D;
+}
+
+/** pdf.js's Node canvas factory, which its typings only declare as Object. */
+interface PdfCanvasFactory {
+  create(width: number, height: number): PdfCanvas;
+  destroy(canvasAndContext: PdfCanvas): void;
+}
+
+/**
+ * Render the given pages and run them through tesseract. Heavy dependencies
+ * are loaded lazily so text-only PDFs never pay for them.
+ */
+async function ocrPages(
+  buffer: Buffer,
+  pageNumbers: number[]
+): Promise<Map<number, { text: string; confidence: number }>> {
+  const results = new Map<number, { text: string; confidence: number }>();
+
+  const { createWorker } = await import("tesseract.js");
+
+  const doc = await openPdfDocument(buffer);
+  try {
+    const worker = await createWorker(OCR_LANGUAGES, undefined, {
+      langPath: await resolveOcrLangPath(),
+      cacheMethod: "none",
+      // Without a handler, worker errors are thrown outside our promise chain
+      errorHandler: () => {},
+    });
+
+    try {
+      const canvasFactory = doc.canvasFactory as PdfCanvasFactory;
+      for (const pageNumber of pageNumbers) {
+        try {
+          const page = await doc.getPage(pageNumber);
+          const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+          const canvasAndContext = canvasFactory.create(
+            Math.ceil(viewport.width),
+            Math.ceil(viewport.height)
+          );
+
+          await page.render({ canvasContext: canvasAndContext.context, viewport }).promise;
+          const image = canvasAndContext.canvas.toBuffer("image/png");
+          canvasFactory.destroy(canvasAndContext);
+          page.cleanup();
+
+          const { data } = await worker.recognize(image);
+          results.set(pageNumber, { text: data.text, confidence: data.confidence });
+        } catch (err) {
+          console.warn(
+            `[pdf-parser] OCR failed for page ${pageNumber}:`,
+            err instanceof Error ? err.message : err
+          );
+        }
+      }
+    } finally {
+      await worker.terminate();
+    }
+  } finally {
+    await doc.destroy();
+  }
+
+  return results;
+}
+
+/** pdf.js's errors for a file it can't open, whatever the number of attempts. */
+function unreadablePdfError(err: unknown): PermanentError | null {
+  const name = err instanceof Error ? err.name : (err as { name?: string } | null)?.name;
+  if (name === "PasswordException") {
+    return new PermanentError("The PDF is password-protected; upload it without a password", { cause: err });
+  }
+  if (name === "InvalidPDFException" || name === "FormatError") {
+    return new PermanentError("Invalid PDF file: the file is damaged or not a PDF", { cause: err });
+  }
+  return null;
+}
+
+/**
+ * Extract text page by page. Pages with an empty or garbled text layer are
+ * OCR'd and marked with `ocr: true`.
+ */
+export async function extractPdfPages(buffer: Buffer): Promise<PdfPageText[]> {
+  const pageTexts: string[] = [];
+  try {
+    await pdfParse(buffer, {
+      pagerender: async (pageData: any) => {
+        const text = await renderPageText(pageData);
+        pageTexts[pageData.pageIndex] = text;
+        return text;
+      },
+    });
+  } catch (err) {
+    throw unreadablePdfError(err) ?? err;
+  }
+
+  const pages: PdfPageText[] = Array.from(pageTexts, (text) => ({ text: text ?? "", ocr: false }));
+
+  const candidates = pages
+    .map((p, i) => (needsOcr(p.text) ? i + 1 : 0))
+    .filter((pageNumber) => pageNumber > 0);
+  if (OCR_ENABLED && candidates.length > 0) {
+    console.log(`[pdf-parser] Running OCR on ${candidates.length}/${pages.length} page(s)`);
+    const recognized = await ocrPages(buffer, candidates).catch((err) => {
+      console.error("[pdf-parser] OCR unavailable:", err instanceof Error ? err.message : err);
+      return new Map<number, { text: string; confidence: number }>();
+    });
+
+    for (const [pageNumber, result] of recognized) {
+      const page = pages[pageNumber - 1];
+      // Keep the original text layer if OCR didn't find anything better
+      if (result.text.trim().length > page.text.trim().length) {
+        page.text = result.text;
+        page.ocr = true;
+        page.ocrConfidence = result.confidence;
+      }
+    }
+  }
+
+  return pages;
+}
+
+/**
+ * Read the PDF's bookmarks (outline) with the page each one points to.
+ * Returns an empty list when the PDF has no outline or it can't be resolved.
+ */
+export async function extractPdfOutline(buffer: Buffer): Promise<OutlineEntry[]> {
+  const doc = await openPdfDocument(buffer);
+  const entries: OutlineEntry[] = [];
+
+  const walk = async (items: any[], depth: number): Promise<void> => {
+    for (const item of items) {
+      try {
+        const dest = typeof item.dest === "string" ? await doc.getDestination(item.dest) : item.dest;
+        if (Array.isArray(dest) && dest[0]) {
+          const pageIndex =
+            typeof dest[0] === "number" ? dest[0] : await doc.getPageIndex(dest[0]);
+          entries.push({ title: item.title.trim(), pageNumber: pageIndex + 1, depth });
+        }
+      } catch {
+        // Broken destination — skip this bookmark
+      }
+      if (item.items?.length) await walk(item.items, depth + 1);
+    }
+  };
+
+  try {
+    const outline = await doc.getOutline();
+    if (outline) await walk(outline, 0);
+  } catch (err) {
+    console.warn("[pdf-parser] Could not read outline:", err instanceof Error ? err.message : err);
+  } finally {
+    await doc.destroy();
+  }
+
+  return entries;
 }
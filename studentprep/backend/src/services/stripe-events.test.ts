@@ -0,0 +1,187 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type Stripe from "stripe";
+import { EVENT_IN_PROGRESS, processStripeEvent, replayStripeEvent } from "./stripe-events.js";
+import { reset, tables } from "../test/fake-supabase.js";
+
+vi.mock("./supabase.js", () => import("../test/fake-supabase.js"));
+
+// ─── Fixtures ────────────────────────────────────────────────────────────────
+
+const NOW = new Date("2025-06-01T12:00:00Z");
+const seconds = (date: Date) => Math.floor(date.getTime() / 1000);
+
+function subscription(status: Stripe.Subscription.Status): Stripe.Subscription {
+  return {
+    id: "sub_1",
+    customer: "cus_1",
+    status,
+    current_period_end: seconds(NOW) + 30 * 86400,
+    trial_end: null,
+    items: { data: [{ quantity: 1, price: { recurring: { interval: "month" } } }] },
+  } as unknown as Stripe.Subscription;
+}
+
+function subscriptionUpdated(id: string, created: Date, status: Stripe.Subscription.Status): Stripe.Event {
+  return {
+    id,
+    type: "customer.subscription.updated",
+    created: seconds(created),
+    data: { object: subscription(status) },
+  } as unknown as Stripe.Event;
+}
+
+function checkoutCompleted(id: string): Stripe.Event {
+  return {
+    id,
+    type: "checkout.session.completed",
+    created: seconds(NOW),
+    data: { object: { customer: "cus_1", subscription: "sub_1" } },
+  } as unknown as Stripe.Event;
+}
+
+function mockStripe(retrieve: () => Promise<Stripe.Subscription>): Stripe {
+  return { subscriptions: { retrieve: vi.fn(retrieve) } } as unknown as Stripe;
+}
+
+const stripe = mockStripe(async () => subscription("active"));
+
+/** The log entry of an event whose attempt started `ago` milliseconds before now and never finished. */
+function processingEvent(event: Stripe.Event, ago: number) {
+  const startedAt = new Date(NOW.getTime() - ago).toISOString();
+  return { id: event.id, type: event.type, payload: event, status: "processing", attempts: 1, received_at: startedAt, last_attempt_at: startedAt };
+}
+
+const eventRow = (id: string) => tables.stripe_events.find((r) => r.id === id)!;
+const userSubscription = () => tables.subscriptions[0];
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(NOW);
+  reset({
+    stripe_events: () => {
+      const now = new Date().toISOString();
+      return { status: "processing", attempts: 0, error: null, received_at: now, last_attempt_at: now, processed_at: null };
+    },
+  });
+  tables.subscriptions = [{ user_id: "user-1", stripe_customer_id: "cus_1", plan: "free", status: "inactive", stripe_event_created: null }];
+  tables.organizations = [];
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("processStripeEvent", () => {
+  it("applies an event and records it as processed", async () => {
+    const result = await processStripeEvent(stripe, subscriptionUpdated("evt_1", NOW, "active"));
+
+    expect(result).toEqual({ status: "processed" });
+    expect(userSubscription()).toMatchObject({ plan: "pro", status: "active", stripe_event_created: NOW.toISOString() });
+    expect(eventRow("evt_1")).toMatchObject({ status: "processed", attempts: 1 });
+  });
+
+  it("skips a duplicate delivery of an event that was already handled", async () => {
+    const event = subscriptionUpdated("evt_1", NOW, "active");
+    await processStripeEvent(stripe, event);
+    userSubscription().status = "past_due";
+
+    expect(await processStripeEvent(stripe, event)).toBeNull();
+    expect(userSubscription().status).toBe("past_due");
+    expect(eventRow("evt_1").attempts).toBe(1);
+  });
+
+  it("refuses a delivery while another attempt is processing the event", async () => {
+    tables.stripe_events = [processingEvent(subscriptionUpdated("evt_1", NOW, "active"), 60_000)];
+
+    await expect(processStripeEvent(stripe, subscriptionUpdated("evt_1", NOW, "active"))).rejects.toThrow(
+      EVENT_IN_PROGRESS
+    );
+    expect(userSubscription().status).toBe("inactive");
+    expect(eventRow("evt_1").status).toBe("processing");
+  });
+
+  it("retries an event whose processing was interrupted", async () => {
+    tables.stripe_events = [processingEvent(subscriptionUpdated("evt_1", NOW, "active"), 10 * 60_000)];
+
+    const result = await processStripeEvent(stripe, subscriptionUpdated("evt_1", NOW, "active"));
+
+    expect(result).toEqual({ status: "processed" });
+    expect(eventRow("evt_1")).toMatchObject({ status: "processed", attempts: 2 });
+  });
+
+  it("doesn't let an older subscription update overwrite a newer one", async () => {
+    const older = new Date(NOW.getTime() - 60_000);
+    await processStripeEvent(stripe, subscriptionUpdated("evt_new", NOW, "active"));
+
+    const result = await processStripeEvent(stripe, subscriptionUpdated("evt_old", older, "past_due"));
+
+    expect(result?.status).toBe("skipped");
+    expect(userSubscription()).toMatchObject({ plan: "pro", status: "active", stripe_event_created: NOW.toISOString() });
+    expect(eventRow("evt_old").status).toBe("skipped");
+  });
+
+  it("applies an update created in the same second as the last one", async () => {
+    await processStripeEvent(stripe, subscriptionUpdated("evt_1", NOW, "active"));
+
+    const result = await processStripeEvent(stripe, subscriptionUpdated("evt_2", NOW, "past_due"));
+
+    expect(result).toEqual({ status: "processed" });
+    expect(userSubscription().status).toBe("past_due");
+  });
+
+  it("records a failed event with its error", async () => {
+    const failing = mockStripe(async () => {
+      throw new Error("Stripe is down");
+    });
+
+    const result = await processStripeEvent(failing, checkoutCompleted("evt_1"));
+
+    expect(result).toEqual({ status: "failed", error: "Stripe is down" });
+    expect(eventRow("evt_1")).toMatchObject({ status: "failed", error: "Stripe is down", attempts: 1, processed_at: null });
+    expect(userSubscription().status).toBe("inactive");
+  });
+});
+
+describe("replayStripeEvent", () => {
+  it("processes a failed event again from its stored payload", async () => {
+    const failing = mockStripe(async () => {
+      throw new Error("Stripe is down");
+    });
+    await processStripeEvent(failing, checkoutCompleted("evt_1"));
+
+    const result = await replayStripeEvent(stripe, "evt_1");
+
+    expect(result).toEqual({ status: "processed" });
+    expect(userSubscription()).toMatchObject({ plan: "pro", status: "active", stripe_subscription_id: "sub_1" });
+    expect(eventRow("evt_1")).toMatchObject({ status: "processed", error: null, attempts: 2 });
+  });
+
+  it("takes over an event whose processing was interrupted", async () => {
+    tables.stripe_events = [processingEvent(subscriptionUpdated("evt_1", NOW, "active"), 10 * 60_000)];
+
+    const result = await replayStripeEvent(stripe, "evt_1");
+
+    expect(result).toEqual({ status: "processed" });
+    expect(userSubscription().status).toBe("active");
+    expect(eventRow("evt_1")).toMatchObject({ status: "processed", attempts: 2 });
+  });
+
+  it("doesn't replay an event another attempt is still processing", async () => {
+    tables.stripe_events = [processingEvent(subscriptionUpdated("evt_1", NOW, "active"), 60_000)];
+
+    await expect(replayStripeEvent(stripe, "evt_1")).rejects.toThrow(EVENT_IN_PROGRESS);
+    expect(userSubscription().status).toBe("inactive");
+  });
+
+  it("only replays failed or interrupted events", async () => {
+    await processStripeEvent(stripe, subscriptionUpdated("evt_1", NOW, "active"));
+
+    await expect(replayStripeEvent(stripe, "evt_1")).rejects.toThrow(
+      "Only failed or interrupted events can be replayed; this one is processed"
+    );
+    await expect(replayStripeEvent(stripe, "evt_missing")).rejects.toThrow("Event not found");
+  });
+});
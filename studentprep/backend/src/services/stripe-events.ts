@@ -0,0 +1,324 @@
+import Stripe from "stripe";
+import { getSupabaseAdmin } from "./supabase.js";
+
+// Stripe webhook processing. Every delivered event is stored in stripe_events
+// before it's applied: a delivery of an event that was already handled is
+// skipped, and a failed one is retried by Stripe or replayed by an admin.
+// Updates carry the event's creation time and never overwrite the state of a
+// newer event, so late or out-of-order deliveries can't undo a payment.
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type StripeEventStatus = "processing" | "processed" | "skipped" | "failed";
+
+export interface StripeEventRecord {
+  id: string;
+  type: string;
+  customer_id: string | null;
+  event_created: string;
+  status: StripeEventStatus;
+  error: string | null;
+  attempts: number;
+  received_at: string;
+  last_attempt_at: string;
+  processed_at: string | null;
+}
+
+export interface StripeEventResult {
+  status: "processed" | "skipped" | "failed";
+  /** Why the event was skipped or failed. */
+  error?: string;
+}
+
+/** An event still 'processing' after this long was interrupted (e.g. a restart) and may be retried. */
+const STALE_PROCESSING_MS = 5 * 60_000;
+
+/**
+ * Thrown for a delivery of an event that another attempt is processing right
+ * now. The webhook answers it with an error, so Stripe delivers it again
+ * later: if that attempt died, the event is stale by then and retried.
+ */
+export const EVENT_IN_PROGRESS = "This event is being processed by another attempt";
+
+const RECORD_COLUMNS =
+  "id, type, customer_id, event_created, status, error, attempts, received_at, last_attempt_at, processed_at";
+
+export function getStripe(): Stripe {
+  const key = process.env.STRIPE_SECRET_KEY;
+  if (!key) throw new Error("STRIPE_SECRET_KEY is not configured");
+  return new Stripe(key, { apiVersion: "2025-01-27.acacia" as Stripe.LatestApiVersion });
+}
+
+function idOf(ref: string | { id: string } | null | undefined): string | undefined {
+  return typeof ref === "string" ? ref : ref?.id;
+}
+
+/** The customer an event is about, if any. */
+function customerOf(event: Stripe.Event): string | undefined {
+  const object = event.data.object as { customer?: string | { id: string } | null };
+  return idOf(object.customer);
+}
+
+/** Seats bought in an organization's subscription. */
+function seatCount(subscription: Stripe.Subscription): number {
+  return subscription.items.data[0]?.quantity ?? 1;
+}
+
+/** Our status for a Stripe subscription status. Trials have Pro features like active subscriptions. */
+function statusOf(status: Stripe.Subscription.Status) {
+  switch (status) {
+    case "active":
+    case "trialing":
+    case "past_due":
+      return status;
+    case "canceled":
+      return "cancelled";
+    default:
+      return "inactive";
+  }
+}
+
+/** The columns of a user's subscription that follow the Stripe subscription. */
+function subscriptionFields(subscription: Stripe.Subscription) {
+  const status = statusOf(subscription.status);
+  return {
+    plan: status === "active" || status === "trialing" ? "pro" : "free",
+    status,
+    current_period_end: new Date(subscription.current_period_end * 1000).toISOString(),
+    trial_end: subscription.trial_end ? new Date(subscription.trial_end * 1000).toISOString() : null,
+    billing_interval: subscription.items.data[0]?.price.recurring?.interval ?? null,
+  };
+}
+
+/** The columns of an organization that follow its Stripe subscription. Team plans have no trials. */
+function organizationFields(subscription: Stripe.Subscription) {
+  const status = statusOf(subscription.status);
+  return {
+    status: status === "trialing" ? "active" : status,
+    seats: seatCount(subscription),
+    current_period_end: new Date(subscription.current_period_end * 1000).toISOString(),
+  };
+}
+
+// ─── Applying events ──────────────────────────────────────────────────────────
+
+/**
+ * Update the subscription or organization billed to a customer, unless a newer
+ * event was already applied to it. Returns how many rows changed.
+ */
+async function updateIfNewer(
+  table: "subscriptions" | "organizations",
+  customerId: string,
+  eventCreated: string,
+  values: Record<string, unknown>
+): Promise<number> {
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from(table)
+    .update({ ...values, stripe_event_created: eventCreated })
+    .eq("stripe_customer_id", customerId)
+    .or(`stripe_event_created.is.null,stripe_event_created.lte."${eventCreated}"`)
+    .select("stripe_customer_id");
+
+  if (error) {
+    throw new Error(`Failed to update ${table}: ${error.message}`);
+  }
+  return data?.length ?? 0;
+}
+
+/**
+ * Apply an event to subscriptions and organizations. Personal and
+ * organization customers are separate, so only one of the two tables has a
+ * row for the customer.
+ */
+async function applyStripeEvent(stripe: Stripe, event: Stripe.Event): Promise<StripeEventResult> {
+  const eventCreated = new Date(event.created * 1000).toISOString();
+  const customerId = customerOf(event);
+  let updated = 0;
+
+  switch (event.type) {
+    case "checkout.session.completed": {
+      const subscriptionId = idOf(event.data.object.subscription);
+      if (!customerId || !subscriptionId) {
+        return { status: "skipped", error: "Checkout session has no subscription" };
+      }
+
+      // Retrieve the subscription to get its status (trialing or active) and period end
+      const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+
+      updated += await updateIfNewer("organizations", customerId, eventCreated, {
+        stripe_subscription_id: subscriptionId,
+        ...organizationFields(subscription),
+      });
+      updated += await updateIfNewer("subscriptions", customerId, eventCreated, {
+        stripe_subscription_id: subscriptionId,
+        ...subscriptionFields(subscription),
+      });
+      break;
+    }
+
+    case "customer.subscription.updated": {
+      if (!customerId) break;
+      const subscription = event.data.object;
+      updated += await updateIfNewer("subscriptions", customerId, eventCreated, subscriptionFields(subscription));
+      // Seats are changed through the billing portal
+      updated += await updateIfNewer("organizations", customerId, eventCreated, organizationFields(subscription));
+      break;
+    }
+
+    case "customer.subscription.deleted": {
+      if (!customerId) break;
+      updated += await updateIfNewer("subscriptions", customerId, eventCreated, {
+        plan: "free",
+        status: "cancelled",
+        stripe_subscription_id: null,
+        current_period_end: null,
+        trial_end: null,
+      });
+      updated += await updateIfNewer("organizations", customerId, eventCreated, {
+        status: "cancelled",
+        stripe_subscription_id: null,
+        current_period_end: null,
+      });
+      break;
+    }
+
+    case "invoice.payment_failed": {
+      if (!customerId) break;
+      updated += await updateIfNewer("subscriptions", customerId, eventCreated, { status: "past_due" });
+      updated += await updateIfNewer("organizations", customerId, eventCreated, { status: "past_due" });
+      break;
+    }
+
+    default:
+      return { status: "skipped", error: `Unhandled event type ${event.type}` };
+  }
+
+  if (updated === 0) {
+    return { status: "skipped", error: "No matching customer, or a newer event was already applied" };
+  }
+  console.log(`Stripe ${event.type} applied for customer ${customerId}`);
+  return { status: "processed" };
+}
+
+// ─── Event log ────────────────────────────────────────────────────────────────
+
+/**
+ * Store a delivered event and claim it for processing. Returns the attempts
+ * made before, or null when the event was already handled. Throws
+ * EVENT_IN_PROGRESS while another attempt holds the event.
+ */
+async function claimStripeEvent(event: Stripe.Event): Promise<number | null> {
+  const supabase = getSupabaseAdmin();
+  const { error } = await supabase.from("stripe_events").insert({
+    id: event.id,
+    type: event.type,
+    customer_id: customerOf(event) ?? null,
+    event_created: new Date(event.created * 1000).toISOString(),
+    payload: event,
+  });
+
+  if (!error) return 0;
+  if (error.code !== "23505") {
+    throw new Error(`Failed to record Stripe event: ${error.message}`);
+  }
+
+  // Seen before: only a failed or interrupted attempt is tried again
+  const staleBefore = new Date(Date.now() - STALE_PROCESSING_MS).toISOString();
+  const { data } = await supabase
+    .from("stripe_events")
+    .update({ status: "processing", last_attempt_at: new Date().toISOString() })
+    .eq("id", event.id)
+    .or(`status.eq.failed,and(status.eq.processing,last_attempt_at.lt."${staleBefore}")`)
+    .select("attempts");
+
+  if (data?.length) return data[0].attempts;
+
+  const { data: current } = await supabase
+    .from("stripe_events")
+    .select("status")
+    .eq("id", event.id)
+    .maybeSingle();
+  if (current?.status === "processing") {
+    throw new Error(EVENT_IN_PROGRESS);
+  }
+  return null;
+}
+
+/**
+ * Apply an event once and record the result. Returns null for an event that
+ * was already handled; throws EVENT_IN_PROGRESS while it's being handled.
+ */
+export async function processStripeEvent(stripe: Stripe, event: Stripe.Event): Promise<StripeEventResult | null> {
+  const previousAttempts = await claimStripeEvent(event);
+  if (previousAttempts === null) {
+    console.log(`Stripe event ${event.id} was already handled, skipping`);
+    return null;
+  }
+
+  let result: StripeEventResult;
+  try {
+    result = await applyStripeEvent(stripe, event);
+  } catch (err) {
+    result = { status: "failed", error: err instanceof Error ? err.message : String(err) };
+    console.error(`Stripe event ${event.id} (${event.type}) failed:`, result.error);
+  }
+
+  const supabase = getSupabaseAdmin();
+  await supabase
+    .from("stripe_events")
+    .update({
+      status: result.status,
+      error: result.error ?? null,
+      attempts: previousAttempts + 1,
+      processed_at: result.status === "failed" ? null : new Date().toISOString(),
+    })
+    .eq("id", event.id);
+
+  return result;
+}
+
+export async function listStripeEvents(status?: StripeEventStatus, limit = 100): Promise<StripeEventRecord[]> {
+  const supabase = getSupabaseAdmin();
+  let query = supabase
+    .from("stripe_events")
+    .select(RECORD_COLUMNS)
+    .order("received_at", { ascending: false })
+    .limit(limit);
+  if (status) {
+    query = query.eq("status", status);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load Stripe events: ${error.message}`);
+  }
+  return (data || []) as StripeEventRecord[];
+}
+
+/**
+ * Process a failed event again from its stored payload, or one whose
+ * processing was interrupted and that Stripe stopped delivering.
+ */
+export async function replayStripeEvent(stripe: Stripe, eventId: string): Promise<StripeEventResult> {
+  const supabase = getSupabaseAdmin();
+  const { data } = await supabase
+    .from("stripe_events")
+    .select("status, payload")
+    .eq("id", eventId)
+    .maybeSingle();
+
+  if (!data) {
+    throw new Error("Event not found");
+  }
+  if (data.status !== "failed" && data.status !== "processing") {
+    throw new Error(`Only failed or interrupted events can be replayed; this one is ${data.status}`);
+  }
+
+  // A processing event is only claimed once it's stale; until then this throws EVENT_IN_PROGRESS
+  const result = await processStripeEvent(stripe, data.payload as Stripe.Event);
+  if (!result) {
+    throw new Error("This event was already handled");
+  }
+  return result;
+}
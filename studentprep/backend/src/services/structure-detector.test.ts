@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { STRUCTURE_CONFIDENCE_THRESHOLD, detectFromHeadings, detectStructure } from "./structure-detector.js";
+import { assembleDocument } from "./extractors.js";
+
+/** A few sentences of chapter text, long enough to count as a chapter. */
+function body(topic: string): string {
+  return `${topic} is discussed at length in this part of the course.\n`.repeat(8);
+}
+
+/** A document of one page per string. */
+function doc(...pages: string[]) {
+  return assembleDocument(pages.map((text) => ({ text })));
+}
+
+describe("detectFromHeadings", () => {
+  it("follows the chapter numbering and skips the table of contents", () => {
+    const document = doc(
+      ["Contents", "1 Cells ........ 2", "2 Genetics ........ 3", "3 Evolution ........ 4"].join("\n"),
+      `1 Cells\n${body("The cell")}`,
+      `2 Genetics\n${body("Heredity")}2.1 DNA\n${body("DNA")}`,
+      `3 Evolution\n${body("Selection")}`
+    );
+
+    const result = detectFromHeadings(document)!;
+
+    expect(result.chapters.map((ch) => [ch.title, ch.depth, ch.startPage])).toEqual([
+      ["1 Cells", 0, 2],
+      ["2 Genetics", 0, 3],
+      ["2.1 DNA", 1, 3],
+      ["3 Evolution", 0, 4],
+    ]);
+    expect(result.confidence).toBeGreaterThanOrEqual(STRUCTURE_CONFIDENCE_THRESHOLD);
+  });
+
+  it("ends the last chapter at the bibliography and leaves it out", () => {
+    const document = doc(
+      `Chapter 1: Cells\n${body("The cell")}`,
+      `Chapter 2: Genetics\n${body("Heredity")}`,
+      "Bibliography\nDarwin, C. (1859). On the Origin of Species."
+    );
+
+    const result = detectFromHeadings(document)!;
+
+    expect(result.chapters.map((ch) => ch.title)).toEqual(["Chapter 1: Cells", "Chapter 2: Genetics"]);
+    expect(result.chapters[1].content).not.toContain("Darwin");
+  });
+
+  it("uses Markdown headings", () => {
+    const document = doc(
+      `# Cells\n${body("The cell")}## Membranes\n${body("The membrane")}# Genetics\n${body("DNA")}`
+    );
+
+    const result = detectFromHeadings(document)!;
+
+    expect(result.chapters.map((ch) => [ch.title, ch.depth])).toEqual([
+      ["Cells", 0],
+      ["Membranes", 1],
+      ["Genetics", 0],
+    ]);
+  });
+
+  it("has little confidence in numbered list items", () => {
+    const document = doc(
+      `${body("Fruit")}1 Apples are red\n2 Bananas are yellow\n3 Cherries are dark\n4 Dates are sweet\n${body("More fruit")}`
+    );
+
+    const result = detectFromHeadings(document);
+
+    expect(result?.confidence ?? 0).toBeLessThan(STRUCTURE_CONFIDENCE_THRESHOLD);
+  });
+});
+
+describe("detectStructure", () => {
+  it("prefers PDF bookmarks, located on the pages they point to", () => {
+    const document = {
+      ...doc(
+        `Preface\n${body("Our gratitude")}`,
+        `1 Cells\n${body("The cell")}`,
+        `Some intro\n2 Genetics\n${body("DNA")}`
+      ),
+      outline: [
+        { title: "Preface", pageNumber: 1, depth: 0 },
+        { title: "Cells", pageNumber: 2, depth: 0 },
+        { title: "Genetics", pageNumber: 3, depth: 0 },
+      ],
+    };
+
+    const result = detectStructure(document)!;
+
+    expect(result.strategy).toBe("outline");
+    expect(result.chapters.map((ch) => ch.title)).toEqual(["Cells", "Genetics"]);
+    expect(result.chapters[1].content.startsWith("2 Genetics")).toBe(true);
+  });
+
+  it("finds nothing in text without structure", () => {
+    expect(detectStructure(doc(body("Plain prose"), body("More prose")))).toBeNull();
+  });
+});
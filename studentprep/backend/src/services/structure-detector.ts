@@ -0,0 +1,240 @@
+import { fuzzyIndexOf, splitAtBoundaries, type ChapterData } from "./ai-pipeline.js";
+import type { ExtractedDocument } from "./extractors.js";
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type DetectionStrategy = "outline" | "headings" | "ai";
+
+export interface StructureDetection {
+  strategy: Exclude<DetectionStrategy, "ai">;
+  chapters: ChapterData[];
+  confidence: number; // 0–1
+}
+
+interface HeadingCandidate {
+  idx: number;
+  title: string;
+  family: "keyword" | "numbered" | "roman" | "markdown" | "non_content";
+  path: number[]; // chapter numbering, e.g. [2, 1] for "2.1"
+  depth: number;
+}
+
+/** Below this, the AI detector is used instead. */
+export const STRUCTURE_CONFIDENCE_THRESHOLD = 0.6;
+
+const MAX_CHAPTERS = 40;
+
+// Same sections the AI prompt is told to skip
+const NON_CONTENT_TITLE =
+  /^(voorwoord|woord vooraf|preface|foreword|inhoud|inhoudstafel|inhoudsopgave|table of contents|contents|bijlagen?|appendix|appendices|literatuuroverzicht|literatuurlijst|referenties|bronnen|bibliografie|bibliography|references|index|register|woordenlijst|glossarium|glossary|dankwoord|acknowledg(e)?ments|colofon|colophon)\b/i;
+
+const KEYWORD_HEADING =
+  /^(hoofdstuk|chapter|chapitre|kapitel|deel|part|module|les|lesson|unit)\s+(\d{1,3}|[IVXLC]{1,7})\b[.:\-–]?\s*(.{0,100})$/i;
+const NUMBERED_HEADING = /^(\d{1,2}(?:\.\d{1,2}){0,2})\.?\s+(\p{Lu}.{1,100})$/u;
+const ROMAN_HEADING = /^([IVXLC]{1,7})[.)]\s+(\p{Lu}.{1,100})$/u;
+const MARKDOWN_HEADING = /^(#{1,3})\s+(.{2,100})$/;
+// Table-of-contents lines: dot leaders or a trailing page number
+const TOC_LINE = /(\.{3,}|…)\s*\d+$|\s\d{1,4}$/;
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function romanToInt(roman: string): number {
+  const values: Record<string, number> = { I: 1, V: 5, X: 10, L: 50, C: 100 };
+  let total = 0;
+  const upper = roman.toUpperCase();
+  for (let i = 0; i < upper.length; i++) {
+    const value = values[upper[i]];
+    const next = values[upper[i + 1]] ?? 0;
+    total += value < next ? -value : value;
+  }
+  return total;
+}
+
+function isContentTitle(title: string): boolean {
+  return !NON_CONTENT_TITLE.test(title.replace(/^[\d.\sIVXLC]+\b/, "").trim());
+}
+
+/**
+ * Score a split: headings should start near the beginning of the document,
+ * and chapters should neither be tiny nor one giant block.
+ */
+function scoreChapters(doc: ExtractedDocument, chapters: ChapterData[]): number {
+  if (chapters.length < 2) return 0;
+
+  const total = doc.text.length;
+  const lengths = chapters.map((ch) => ch.content.length).sort((a, b) => a - b);
+  const median = lengths[Math.floor(lengths.length / 2)];
+  const covered = chapters.reduce((sum, ch) => sum + ch.content.length, 0);
+
+  let score = Math.min(1, chapters.length / 3);
+  if (chapters[0].start > total * 0.2) score *= 0.6; // misses the start of the document
+  if (median < 300) score *= 0.5; // probably list items, not headings
+  if (lengths[lengths.length - 1] > covered * 0.8) score *= 0.5; // one chapter holds everything
+  return score;
+}
+
+// ─── Outline ──────────────────────────────────────────────────────────────────
+
+/**
+ * Use PDF bookmarks: top-level entries plus one level of subsections, each
+ * located on the page it points to.
+ */
+export function detectFromOutline(doc: ExtractedDocument): StructureDetection | null {
+  const entries = (doc.outline ?? []).filter((entry) => entry.depth <= 1 && entry.title);
+  if (entries.filter((entry) => isContentTitle(entry.title)).length < 2) return null;
+
+  const boundaries = entries.slice(0, MAX_CHAPTERS).flatMap((entry) => {
+    const page = doc.pages[entry.pageNumber - 1];
+    if (!page) return [];
+    // Start at the line holding the heading (keeps numbering like "2 "), else at the top of the page
+    const onPage = fuzzyIndexOf(page.text, entry.title);
+    const lineStart = onPage > 0 ? page.text.lastIndexOf("\n", onPage - 1) + 1 : 0;
+    return [{ idx: page.offset + lineStart, title: entry.title, depth: entry.depth }];
+  });
+
+  // Non-content bookmarks (preface, bibliography, ...) still end the chapter before them
+  const chapters = splitAtBoundaries(doc, boundaries).filter((ch) => isContentTitle(ch.title));
+  // Bookmarks are authored structure; only the shape of the split lowers confidence
+  const confidence = Math.min(1, scoreChapters(doc, chapters) + 0.2);
+  return { strategy: "outline", chapters, confidence };
+}
+
+// ─── Heading patterns ─────────────────────────────────────────────────────────
+
+function findHeadingCandidates(text: string): HeadingCandidate[] {
+  const candidates: HeadingCandidate[] = [];
+  const lineRe = /[^\n]+/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = lineRe.exec(text))) {
+    const line = match[0].trim();
+    if (line.length < 3 || line.length > 120) continue;
+    const idx = match.index + match[0].indexOf(line);
+
+    const md = line.match(MARKDOWN_HEADING);
+    if (md) {
+      candidates.push({
+        idx,
+        title: md[2].trim(),
+        family: "markdown",
+        path: [],
+        depth: md[1].length - 1,
+      });
+      continue;
+    }
+
+    if (TOC_LINE.test(line)) continue;
+
+    // Unnumbered "Bibliography", "Bijlagen", ... end the chapter before them
+    if (line.length <= 40 && !isContentTitle(line)) {
+      candidates.push({ idx, title: line, family: "non_content", path: [], depth: 0 });
+      continue;
+    }
+
+    const keyword = line.match(KEYWORD_HEADING);
+    if (keyword) {
+      const n = /^\d+$/.test(keyword[2]) ? parseInt(keyword[2], 10) : romanToInt(keyword[2]);
+      candidates.push({ idx, title: line, family: "keyword", path: [n], depth: 0 });
+      continue;
+    }
+
+    const numbered = line.match(NUMBERED_HEADING);
+    if (numbered && !/[.,;:]$/.test(line)) {
+      const path = numbered[1].split(".").map((n) => parseInt(n, 10));
+      if (path.length <= 2) {
+        candidates.push({ idx, title: line, family: "numbered", path, depth: path.length - 1 });
+      }
+      continue;
+    }
+
+    const roman = line.match(ROMAN_HEADING);
+    if (roman && !/[.,;:]$/.test(line)) {
+      candidates.push({ idx, title: line, family: "roman", path: [romanToInt(roman[1])], depth: 0 });
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Keep only headings that continue the numbering (1, 2, 2.1, 2.2, 3, ...).
+ * Stray numbered lines and a table of contents also produce sequences, so a
+ * run is grown from every top-level heading; the longest wins and ties go to
+ * the later one (the real headings come after the table of contents).
+ */
+function longestNumberedRun(candidates: HeadingCandidate[]): HeadingCandidate[] {
+  let best: HeadingCandidate[] = [];
+
+  for (let i = 0; i < candidates.length; i++) {
+    if (candidates[i].path.length !== 1) continue;
+
+    const run = [candidates[i]];
+    let top = candidates[i].path[0];
+    let sub = 0;
+    for (let j = i + 1; j < candidates.length; j++) {
+      const [major, minor] = candidates[j].path;
+      if (minor === undefined && major === top + 1) {
+        run.push(candidates[j]);
+        top = major;
+        sub = 0;
+      } else if (major === top && minor === sub + 1) {
+        run.push(candidates[j]);
+        sub = minor;
+      }
+    }
+
+    if (run.length >= best.length) best = run;
+  }
+
+  return best;
+}
+
+/**
+ * Detect chapters from heading patterns: "Hoofdstuk 3", "2.1 Methods",
+ * Roman numerals and Markdown headings. Only the most common pattern family
+ * in the document is used.
+ */
+export function detectFromHeadings(doc: ExtractedDocument): StructureDetection | null {
+  const candidates = findHeadingCandidates(doc.text);
+  if (candidates.length < 2) return null;
+
+  const byFamily = new Map<HeadingCandidate["family"], HeadingCandidate[]>();
+  for (const c of candidates) {
+    byFamily.set(c.family, [...(byFamily.get(c.family) ?? []), c]);
+  }
+  const nonContent = byFamily.get("non_content") ?? [];
+  byFamily.delete("non_content");
+
+  let best: { chapters: ChapterData[]; confidence: number } | null = null;
+  for (const [family, found] of byFamily) {
+    const headings = (family === "markdown" ? found : longestNumberedRun(found)).slice(
+      0,
+      MAX_CHAPTERS
+    );
+    if (headings.length === 0) continue;
+
+    // Non-content sections after the first heading become boundaries, then get dropped
+    const stops = nonContent.filter((c) => c.idx > headings[0].idx);
+    const chapters = splitAtBoundaries(doc, [...headings, ...stops]).filter((ch) =>
+      isContentTitle(ch.title)
+    );
+    const confidence = scoreChapters(doc, chapters);
+    if (!best || confidence > best.confidence) best = { chapters, confidence };
+  }
+
+  return best && { strategy: "headings", ...best };
+}
+
+/**
+ * Try the deterministic detectors, outline first. Returns the most confident
+ * result, or null when neither found any structure.
+ */
+export function detectStructure(doc: ExtractedDocument): StructureDetection | null {
+  const outline = detectFromOutline(doc);
+  if (outline && outline.confidence >= STRUCTURE_CONFIDENCE_THRESHOLD) return outline;
+
+  const headings = detectFromHeadings(doc);
+  if (!outline) return headings;
+  if (!headings) return outline;
+  return headings.confidence > outline.confidence ? headings : outline;
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  calculateCacheSavings,
+  calculateCost,
+  getBudgetUsage,
+  getRemainingTokens,
+  recordTokenUsage,
+  type UserSubscription,
+} from "./subscription.js";
+import { reset, tables } from "../test/fake-supabase.js";
+
+vi.mock("./supabase.js", () => import("../test/fake-supabase.js"));
+
+const NOW = new Date("2025-06-15T12:00:00Z");
+const FREE: UserSubscription = { plan: "free", status: "inactive" };
+const TEAM: UserSubscription = { plan: "team", status: "active", orgId: "org-1", seats: 2 };
+
+/** A usage entry of this month. */
+function usage(userId: string, tokens: number, orgId: string | null = null) {
+  return { user_id: userId, org_id: orgId, total_tokens: tokens, period_year: 2025, period_month: 6 };
+}
+
+/** A reservation of this month that is still active. */
+function reservation(userId: string, tokens: number, orgId: string | null = null) {
+  return { user_id: userId, org_id: orgId, tokens, period_year: 2025, period_month: 6, expires_at: "2025-06-15T13:00:00.000Z" };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(NOW);
+  reset();
+  tables.organization_members = [];
+  tables.organizations = [];
+  tables.subscriptions = [];
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("organization budgets", () => {
+  it("attributes a member's usage to their organization", async () => {
+    tables.organization_members = [{ org_id: "org-1", user_id: "user-1" }];
+    tables.organizations = [{ id: "org-1", seats: 2, status: "active" }];
+
+    await recordTokenUsage("user-1", { inputTokens: 100, outputTokens: 50, cacheWriteTokens: 0, cacheReadTokens: 0 }, "questions");
+
+    expect(tables.token_usage).toEqual([expect.objectContaining({ user_id: "user-1", org_id: "org-1" })]);
+  });
+
+  it("keeps the usage of a removed member in the pooled budget", async () => {
+    tables.token_usage = [usage("user-1", 30_000, "org-1"), usage("user-2", 20_000, "org-1")];
+    tables.organization_members = [{ org_id: "org-1", user_id: "user-1" }];
+
+    expect(await getBudgetUsage("user-1", TEAM)).toBe(50_000);
+  });
+
+  it("doesn't count usage from an organization against the user's own budget", async () => {
+    tables.token_usage = [usage("user-1", 1_500_000, "org-1"), usage("user-1", 10_000)];
+    tables.token_reservations = [reservation("user-1", 400_000, "org-1"), reservation("user-1", 5_000)];
+
+    expect(await getBudgetUsage("user-1", FREE)).toBe(10_000);
+    expect(await getRemainingTokens("user-1", FREE)).toBe(35_000);
+  });
+});
+
+describe("calculateCost", () => {
+  const SONNET = "claude-sonnet-4-5-20250929";
+
+  it("prices input and output per million tokens of the model", () => {
+    expect(calculateCost(1_000_000, 1_000_000, SONNET)).toBeCloseTo(18);
+    expect(calculateCost(1_000_000, 1_000_000, "claude-haiku-4-5-20251001")).toBeCloseTo(6);
+  });
+
+  it("prices cache writes at 1.25x and cache reads at 0.1x the input price", () => {
+    expect(calculateCost(0, 0, SONNET, 1_000_000, 0)).toBeCloseTo(3.75);
+    expect(calculateCost(0, 0, SONNET, 0, 1_000_000)).toBeCloseTo(0.3);
+  });
+
+  it("halves everything for batches", () => {
+    expect(calculateCost(1_000_000, 1_000_000, SONNET, 1_000_000, 1_000_000, true)).toBeCloseTo((18 + 3.75 + 0.3) / 2);
+  });
+
+  it("counts what the cache saved against what writing it cost", () => {
+    // Written once, read back three times
+    expect(calculateCacheSavings(1_000_000, 3_000_000, SONNET)).toBeCloseTo(12 - 3.75 - 0.9);
+    expect(calculateCacheSavings(1_000_000, 0, SONNET)).toBeLessThan(0);
+  });
+});
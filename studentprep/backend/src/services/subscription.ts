@@ -5,27 +5,51 @@ import type { AIModel } from "./claude.js";
 export interface UserSubscription {
   plan: PlanTier;
   status: string;
+  orgId?: string; // members of an organization share its plan and token budget
+  seats?: number;
 }
 
 /**
- * Look up the user's subscription. If no record exists, they are on the free plan.
+ * Look up the user's subscription. Members of an organization with an active
+ * subscription are on the team plan; otherwise, if no record exists, they are
+ * on the free plan. Trialing subscriptions are on the Pro plan.
  */
 export async function getUserSubscription(userId: string): Promise<UserSubscription> {
   const supabase = getSupabaseAdmin();
+  const { data: membership } = await supabase
+    .from("organization_members")
+    .select("org_id")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (membership) {
+    const { data: org } = await supabase
+      .from("organizations")
+      .select("seats, status")
+      .eq("id", membership.org_id)
+      .single();
+    if (org?.status === "active") {
+      return { plan: "team", status: "active", orgId: membership.org_id, seats: org.seats };
+    }
+  }
+
   const { data } = await supabase
     .from("subscriptions")
     .select("plan, status")
     .eq("user_id", userId)
     .single();
 
-  if (!data || data.status !== "active" || data.plan !== "pro") {
+  // A trial has everything an active subscription has
+  if (!data || (data.status !== "active" && data.status !== "trialing") || data.plan !== "pro") {
     return { plan: "free", status: data?.status || "inactive" };
   }
-  return { plan: "pro", status: "active" };
+  return { plan: "pro", status: data.status };
 }
 
 /**
- * Get the user's total token usage for the current calendar month.
+ * Get the user's own token usage for the current calendar month. Usage
+ * attributed to an organization counts against its pooled budget instead,
+ * even after the user left it.
  */
 export async function getMonthlyTokenUsage(userId: string): Promise<number> {
   const supabase = getSupabaseAdmin();
@@ -37,6 +61,7 @@ export async function getMonthlyTokenUsage(userId: string): Promise<number> {
     .from("token_usage")
     .select("total_tokens")
     .eq("user_id", userId)
+    .is("org_id", null)
     .eq("period_year", year)
     .eq("period_month", month);
 
@@ -44,24 +69,94 @@ export async function getMonthlyTokenUsage(userId: string): Promise<number> {
   return data.reduce((sum: number, row: any) => sum + (row.total_tokens || 0), 0);
 }
 
+/** Token usage attributed to an organization for the current calendar month, by members past and present. */
+export async function getMonthlyOrgTokenUsage(orgId: string): Promise<number> {
+  const supabase = getSupabaseAdmin();
+  const now = new Date();
+  const { data } = await supabase
+    .from("token_usage")
+    .select("total_tokens")
+    .eq("org_id", orgId)
+    .eq("period_year", now.getFullYear())
+    .eq("period_month", now.getMonth() + 1);
+
+  if (!data) return 0;
+  return data.reduce((sum: number, row: any) => sum + (row.total_tokens || 0), 0);
+}
+
+/** Token usage each of the given members incurred for an organization in the current calendar month. */
+export async function getMonthlyTokenUsageByUser(orgId: string, userIds: string[]): Promise<Map<string, number>> {
+  const usage = new Map(userIds.map((id) => [id, 0]));
+  if (userIds.length === 0) return usage;
+
+  const supabase = getSupabaseAdmin();
+  const now = new Date();
+  const { data } = await supabase
+    .from("token_usage")
+    .select("user_id, total_tokens")
+    .eq("org_id", orgId)
+    .in("user_id", userIds)
+    .eq("period_year", now.getFullYear())
+    .eq("period_month", now.getMonth() + 1);
+
+  for (const row of data || []) {
+    usage.set(row.user_id, (usage.get(row.user_id) || 0) + (row.total_tokens || 0));
+  }
+  return usage;
+}
+
+// ─── Budget ──────────────────────────────────────────────────────────────────
+
+/** The monthly token budget: per user, or pooled over an organization's seats. */
+export function getTokenBudget(sub: UserSubscription): number {
+  return getLimits(sub.plan).maxTokensPerMonth * (sub.seats ?? 1);
+}
+
+/** What a user whose budget ran out can do about it: upgrade, or (in an organization) get more seats. */
+export function budgetExhaustedHint(sub: UserSubscription): string {
+  return sub.orgId
+    ? "Ask your team's admin to add seats for a bigger shared budget."
+    : "Upgrade to Pro for unlimited AI usage.";
+}
+
+/**
+ * This month's usage against the budget: the user's own, or for organization
+ * members everything attributed to the organization, including usage of
+ * members who have since left.
+ */
+export async function getBudgetUsage(userId: string, sub: UserSubscription): Promise<number> {
+  return sub.orgId ? getMonthlyOrgTokenUsage(sub.orgId) : getMonthlyTokenUsage(userId);
+}
+
+/** Token counts of one or more model calls, as collected by a usage tracker. */
+export interface TokenCounts {
+  inputTokens: number; // not counting prompt cache writes and reads
+  outputTokens: number;
+  cacheWriteTokens: number;
+  cacheReadTokens: number;
+  model?: AIModel;
+  batch?: boolean; // made through a batch API, at the batch discount
+}
+
 /**
  * Record a token usage entry for the current month, including model info.
+ * Usage of an organization member is attributed to the organization, whose
+ * pooled budget it counts against.
  */
-export async function recordTokenUsage(
-  userId: string,
-  inputTokens: number,
-  outputTokens: number,
-  endpoint: string,
-  model?: AIModel
-): Promise<void> {
+export async function recordTokenUsage(userId: string, usage: TokenCounts, endpoint: string): Promise<void> {
+  const { orgId } = await getUserSubscription(userId);
   const supabase = getSupabaseAdmin();
   const now = new Date();
   await supabase.from("token_usage").insert({
     user_id: userId,
-    input_tokens: inputTokens,
-    output_tokens: outputTokens,
+    org_id: orgId ?? null,
+    input_tokens: usage.inputTokens,
+    output_tokens: usage.outputTokens,
+    cache_write_tokens: usage.cacheWriteTokens,
+    cache_read_tokens: usage.cacheReadTokens,
+    batch: usage.batch ?? false,
     endpoint,
-    model: model || null,
+    model: usage.model || null,
     period_year: now.getFullYear(),
     period_month: now.getMonth() + 1,
   });
@@ -70,11 +165,106 @@ export async function recordTokenUsage(
 /**
  * Check if the user can still make AI calls (has token budget remaining).
  */
-export async function canUseTokens(userId: string, plan: PlanTier): Promise<boolean> {
-  const limits = getLimits(plan);
-  if (limits.maxTokensPerMonth === Infinity) return true;
-  const used = await getMonthlyTokenUsage(userId);
-  return used < limits.maxTokensPerMonth;
+export async function canUseTokens(userId: string, sub: UserSubscription): Promise<boolean> {
+  const budget = getTokenBudget(sub);
+  if (budget === Infinity) return true;
+  const used = await getBudgetUsage(userId, sub);
+  return used < budget;
+}
+
+// ─── Reservations ────────────────────────────────────────────────────────────
+
+/** How long a reservation holds budget when it's never settled, e.g. after a crash. */
+export const RESERVATION_TTL_SECONDS = 60 * 60;
+
+/**
+ * Budget set aside for an operation until its actual usage is known. `id` is
+ * null on unlimited plans, where nothing needs to be reserved.
+ */
+export interface TokenReservation {
+  id: string | null;
+  tokens: number;
+}
+
+/**
+ * Reserve the estimated tokens of an operation from the user's monthly
+ * budget, atomically with other requests of the same user (or organization).
+ * Returns null when usage plus active reservations plus `tokens` would
+ * exceed the budget.
+ */
+export async function reserveTokens(
+  userId: string,
+  sub: UserSubscription,
+  tokens: number,
+  endpoint: string,
+  ttlSeconds = RESERVATION_TTL_SECONDS
+): Promise<TokenReservation | null> {
+  const budget = getTokenBudget(sub);
+  if (budget === Infinity) return { id: null, tokens };
+
+  const supabase = getSupabaseAdmin();
+  const now = new Date();
+  const { data, error } = await supabase.rpc("reserve_tokens", {
+    p_user_id: userId,
+    p_tokens: Math.ceil(tokens),
+    p_limit: budget,
+    p_endpoint: endpoint,
+    p_period_year: now.getFullYear(),
+    p_period_month: now.getMonth() + 1,
+    p_ttl_seconds: ttlSeconds,
+    p_org_id: sub.orgId ?? null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to reserve tokens: ${error.message}`);
+  }
+  return data ? { id: data as string, tokens } : null;
+}
+
+/** Give reserved tokens back, e.g. when the operation failed. */
+export async function releaseTokens(reservationId: string | null | undefined): Promise<void> {
+  if (!reservationId) return;
+  const supabase = getSupabaseAdmin();
+  await supabase.from("token_reservations").delete().eq("id", reservationId);
+}
+
+/**
+ * Reconcile a reservation with what the operation actually used: record the
+ * usage, then release the reservation.
+ */
+export async function settleTokens(
+  userId: string,
+  reservation: TokenReservation,
+  usage: TokenCounts,
+  endpoint: string
+): Promise<void> {
+  await recordTokenUsage(userId, usage, endpoint).catch(() => {});
+  await releaseTokens(reservation.id);
+}
+
+/**
+ * Tokens left this month after usage and active reservations; Infinity on
+ * unlimited plans.
+ */
+export async function getRemainingTokens(userId: string, sub: UserSubscription): Promise<number> {
+  const budget = getTokenBudget(sub);
+  if (budget === Infinity) return Infinity;
+
+  const supabase = getSupabaseAdmin();
+  const now = new Date();
+  let query = supabase
+    .from("token_reservations")
+    .select("tokens")
+    .eq("period_year", now.getFullYear())
+    .eq("period_month", now.getMonth() + 1)
+    .gt("expires_at", now.toISOString());
+  query = sub.orgId ? query.eq("org_id", sub.orgId) : query.eq("user_id", userId).is("org_id", null);
+
+  const { data } = await query;
+
+  const reserved = (data || []).reduce((sum: number, row: any) => sum + (row.tokens || 0), 0);
+  const used = await getBudgetUsage(userId, sub);
+  return Math.max(0, budget - used - reserved);
 }
 
 // ─── Cost Calculation ────────────────────────────────────────────────────────
@@ -92,11 +282,49 @@ const MODEL_PRICING: Record<string, { inputPerMTok: number; outputPerMTok: numbe
 
 const DEFAULT_PRICING = { inputPerMTok: 3, outputPerMTok: 15 };
 
-export function calculateCost(inputTokens: number, outputTokens: number, model?: string): number {
+/** Prompt cache writes cost 1.25x the input price, reads 0.1x. */
+const CACHE_WRITE_MULTIPLIER = 1.25;
+const CACHE_READ_MULTIPLIER = 0.1;
+/** Message Batches bill everything at half price, cache writes and reads included. */
+const BATCH_MULTIPLIER = 0.5;
+
+export function calculateCost(
+  inputTokens: number,
+  outputTokens: number,
+  model?: string,
+  cacheWriteTokens = 0,
+  cacheReadTokens = 0,
+  batch = false
+): number {
   const pricing = model && MODEL_PRICING[model] ? MODEL_PRICING[model] : DEFAULT_PRICING;
-  const inputCost = (inputTokens / 1_000_000) * pricing.inputPerMTok;
+  const cachedInputTokens = cacheWriteTokens * CACHE_WRITE_MULTIPLIER + cacheReadTokens * CACHE_READ_MULTIPLIER;
+  const inputCost = ((inputTokens + cachedInputTokens) / 1_000_000) * pricing.inputPerMTok;
   const outputCost = (outputTokens / 1_000_000) * pricing.outputPerMTok;
-  return inputCost + outputCost;
+  return (inputCost + outputCost) * (batch ? BATCH_MULTIPLIER : 1);
+}
+
+/**
+ * What prompt caching saved: the cost of the cached tokens at the plain input
+ * price, minus what the cache writes and reads cost. Negative when more was
+ * written to the cache than read back.
+ */
+export function calculateCacheSavings(
+  cacheWriteTokens: number,
+  cacheReadTokens: number,
+  model?: string,
+  batch = false
+): number {
+  const uncached = calculateCost(cacheWriteTokens + cacheReadTokens, 0, model, 0, 0, batch);
+  return uncached - calculateCost(0, 0, model, cacheWriteTokens, cacheReadTokens, batch);
+}
+
+interface CostTotals {
+  inputTokens: number;
+  outputTokens: number;
+  cacheWriteTokens: number;
+  cacheReadTokens: number;
+  costUsd: number;
+  cacheSavingsUsd: number;
 }
 
 export interface UserMonthlyCost {
@@ -106,13 +334,74 @@ export interface UserMonthlyCost {
   month: number;
   inputTokens: number;
   outputTokens: number;
+  cacheWriteTokens: number;
+  cacheReadTokens: number;
   totalTokens: number;
   estimatedCostUsd: number;
-  byModel: Record<string, {
-    inputTokens: number;
-    outputTokens: number;
-    costUsd: number;
-  }>;
+  cacheSavingsUsd: number;
+  byModel: Record<string, CostTotals>;
+}
+
+interface UsageRow {
+  input_tokens: number | null;
+  output_tokens: number | null;
+  cache_write_tokens: number | null;
+  cache_read_tokens: number | null;
+  model: string | null;
+  batch: boolean | null;
+}
+
+const USAGE_COLUMNS = "input_tokens, output_tokens, cache_write_tokens, cache_read_tokens, model, batch";
+
+function emptyMonthlyCost(userId: string, year: number, month: number): UserMonthlyCost {
+  return {
+    userId,
+    year,
+    month,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheWriteTokens: 0,
+    cacheReadTokens: 0,
+    totalTokens: 0,
+    estimatedCostUsd: 0,
+    cacheSavingsUsd: 0,
+    byModel: {},
+  };
+}
+
+/** Add one token_usage row to a user's monthly totals. */
+function addUsageRow(entry: UserMonthlyCost, row: UsageRow): void {
+  const inputTok = row.input_tokens || 0;
+  const outputTok = row.output_tokens || 0;
+  const writeTok = row.cache_write_tokens || 0;
+  const readTok = row.cache_read_tokens || 0;
+  const modelName = row.model || "unknown";
+  const batch = row.batch ?? false;
+  const cost = calculateCost(inputTok, outputTok, modelName, writeTok, readTok, batch);
+  const savings = calculateCacheSavings(writeTok, readTok, modelName, batch);
+
+  entry.inputTokens += inputTok;
+  entry.outputTokens += outputTok;
+  entry.cacheWriteTokens += writeTok;
+  entry.cacheReadTokens += readTok;
+  entry.totalTokens += inputTok + writeTok + outputTok;
+  entry.estimatedCostUsd += cost;
+  entry.cacheSavingsUsd += savings;
+
+  const byModel = (entry.byModel[modelName] ??= {
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheWriteTokens: 0,
+    cacheReadTokens: 0,
+    costUsd: 0,
+    cacheSavingsUsd: 0,
+  });
+  byModel.inputTokens += inputTok;
+  byModel.outputTokens += outputTok;
+  byModel.cacheWriteTokens += writeTok;
+  byModel.cacheReadTokens += readTok;
+  byModel.costUsd += cost;
+  byModel.cacheSavingsUsd += savings;
 }
 
 /**
@@ -123,7 +412,7 @@ export async function getAllUsersMonthlyCosts(year: number, month: number): Prom
 
   const { data: usageRows } = await supabase
     .from("token_usage")
-    .select("user_id, input_tokens, output_tokens, model")
+    .select(`user_id, ${USAGE_COLUMNS}`)
     .eq("period_year", year)
     .eq("period_month", month);
 
@@ -135,33 +424,9 @@ export async function getAllUsersMonthlyCosts(year: number, month: number): Prom
   for (const row of usageRows) {
     const uid = row.user_id;
     if (!userMap.has(uid)) {
-      userMap.set(uid, {
-        userId: uid,
-        year,
-        month,
-        inputTokens: 0,
-        outputTokens: 0,
-        totalTokens: 0,
-        estimatedCostUsd: 0,
-        byModel: {},
-      });
-    }
-    const entry = userMap.get(uid)!;
-    const inputTok = row.input_tokens || 0;
-    const outputTok = row.output_tokens || 0;
-    const modelName = row.model || "unknown";
-
-    entry.inputTokens += inputTok;
-    entry.outputTokens += outputTok;
-    entry.totalTokens += inputTok + outputTok;
-
-    if (!entry.byModel[modelName]) {
-      entry.byModel[modelName] = { inputTokens: 0, outputTokens: 0, costUsd: 0 };
+      userMap.set(uid, emptyMonthlyCost(uid, year, month));
     }
-    entry.byModel[modelName].inputTokens += inputTok;
-    entry.byModel[modelName].outputTokens += outputTok;
-    entry.byModel[modelName].costUsd += calculateCost(inputTok, outputTok, modelName);
-    entry.estimatedCostUsd += calculateCost(inputTok, outputTok, modelName);
+    addUsageRow(userMap.get(uid)!, row);
   }
 
   return Array.from(userMap.values()).sort((a, b) => b.estimatedCostUsd - a.estimatedCostUsd);
@@ -175,41 +440,14 @@ export async function getUserMonthlyCost(userId: string, year: number, month: nu
 
   const { data: usageRows } = await supabase
     .from("token_usage")
-    .select("input_tokens, output_tokens, model")
+    .select(USAGE_COLUMNS)
     .eq("user_id", userId)
     .eq("period_year", year)
     .eq("period_month", month);
 
-  const result: UserMonthlyCost = {
-    userId,
-    year,
-    month,
-    inputTokens: 0,
-    outputTokens: 0,
-    totalTokens: 0,
-    estimatedCostUsd: 0,
-    byModel: {},
-  };
-
-  if (!usageRows) return result;
-
-  for (const row of usageRows) {
-    const inputTok = row.input_tokens || 0;
-    const outputTok = row.output_tokens || 0;
-    const modelName = row.model || "unknown";
-
-    result.inputTokens += inputTok;
-    result.outputTokens += outputTok;
-    result.totalTokens += inputTok + outputTok;
-
-    if (!result.byModel[modelName]) {
-      result.byModel[modelName] = { inputTokens: 0, outputTokens: 0, costUsd: 0 };
-    }
-    result.byModel[modelName].inputTokens += inputTok;
-    result.byModel[modelName].outputTokens += outputTok;
-    result.byModel[modelName].costUsd += calculateCost(inputTok, outputTok, modelName);
-    result.estimatedCostUsd += calculateCost(inputTok, outputTok, modelName);
+  const result = emptyMonthlyCost(userId, year, month);
+  for (const row of usageRows || []) {
+    addUsageRow(result, row);
   }
-
   return result;
 }
@@ -0,0 +1,178 @@
+import { randomUUID } from "node:crypto";
+
+// An in-memory stand-in for the PostgREST queries the services make, for
+// tests that mock ./supabase.js with this module:
+//
+//   vi.mock("./supabase.js", () => import("../test/fake-supabase.js"));
+//
+// Tables are plain arrays of rows in `tables`; `reset()` empties them. Rows
+// inserted without an id get one, and a second row with the same id fails
+// with Postgres' unique violation (23505).
+
+export type Row = Record<string, any>;
+
+export const tables: Record<string, Row[]> = {};
+
+/** Column defaults of inserted rows, per table. */
+const columnDefaults: Record<string, () => Row> = {};
+
+export function reset(defaults: Record<string, () => Row> = {}): void {
+  for (const table of Object.keys(tables)) delete tables[table];
+  for (const table of Object.keys(columnDefaults)) delete columnDefaults[table];
+  Object.assign(columnDefaults, defaults);
+}
+
+/** A PostgREST filter value, without its quotes. */
+function unquote(value: string): string {
+  return value.startsWith('"') ? value.slice(1, -1) : value;
+}
+
+/** Split a filter list on its top-level commas. */
+function splitTerms(filter: string): string[] {
+  const terms: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < filter.length; i++) {
+    if (filter[i] === "(") depth++;
+    if (filter[i] === ")") depth--;
+    if (filter[i] === "," && depth === 0) {
+      terms.push(filter.slice(start, i));
+      start = i + 1;
+    }
+  }
+  terms.push(filter.slice(start));
+  return terms;
+}
+
+/** Whether a row matches one term of an `or()` filter, e.g. `status.eq.failed`. */
+function matches(row: Row, term: string): boolean {
+  if (term.startsWith("and(")) {
+    return splitTerms(term.slice(4, -1)).every((t) => matches(row, t));
+  }
+  const [column, op, ...rest] = term.split(".");
+  const value = unquote(rest.join("."));
+  switch (op) {
+    case "is":
+      return row[column] == null;
+    case "eq":
+      return String(row[column]) === value;
+    case "lt":
+      return row[column] != null && row[column] < value;
+    case "lte":
+      return row[column] != null && row[column] <= value;
+    default:
+      throw new Error(`Unsupported filter ${term}`);
+  }
+}
+
+type Result = { data: any; error: { code: string; message: string } | null };
+
+function from(table: string) {
+  const rows = (tables[table] ??= []);
+  const filters: ((row: Row) => boolean)[] = [];
+  let action: "select" | "insert" | "update" | "delete" = "select";
+  let values: Row | Row[] = {};
+  let ordering: { column: string; ascending: boolean } | null = null;
+  let maxRows = Infinity;
+
+  const run = (): Result => {
+    if (action === "insert") {
+      const inserted: Row[] = [];
+      for (const value of Array.isArray(values) ? values : [values]) {
+        if (value.id !== undefined && rows.some((r) => r.id === value.id)) {
+          return { data: null, error: { code: "23505", message: "duplicate key value violates unique constraint" } };
+        }
+        const row = { id: randomUUID(), ...columnDefaults[table]?.(), ...value };
+        rows.push(row);
+        inserted.push({ ...row });
+      }
+      return { data: inserted, error: null };
+    }
+
+    let matched = rows.filter((r) => filters.every((f) => f(r)));
+    if (action === "update") {
+      for (const row of matched) Object.assign(row, values);
+    }
+    if (action === "delete") {
+      for (const row of matched) rows.splice(rows.indexOf(row), 1);
+    }
+    if (ordering) {
+      const { column, ascending } = ordering;
+      matched = [...matched].sort((a, b) => (a[column] < b[column] ? -1 : a[column] > b[column] ? 1 : 0) * (ascending ? 1 : -1));
+    }
+    return { data: matched.slice(0, maxRows).map((r) => ({ ...r })), error: null };
+  };
+
+  const query = {
+    select() {
+      return query;
+    },
+    insert(rowValues: Row | Row[]) {
+      action = "insert";
+      values = rowValues;
+      return query;
+    },
+    update(rowValues: Row) {
+      action = "update";
+      values = rowValues;
+      return query;
+    },
+    delete() {
+      action = "delete";
+      return query;
+    },
+    eq(column: string, value: unknown) {
+      filters.push((row) => row[column] === value);
+      return query;
+    },
+    neq(column: string, value: unknown) {
+      filters.push((row) => row[column] !== value);
+      return query;
+    },
+    is(column: string, value: null) {
+      filters.push((row) => (row[column] ?? null) === value);
+      return query;
+    },
+    in(column: string, list: unknown[]) {
+      filters.push((row) => list.includes(row[column]));
+      return query;
+    },
+    gt(column: string, value: any) {
+      filters.push((row) => row[column] > value);
+      return query;
+    },
+    or(filter: string) {
+      filters.push((row) => splitTerms(filter).some((t) => matches(row, t)));
+      return query;
+    },
+    order(column: string, options: { ascending?: boolean } = {}) {
+      ordering = { column, ascending: options.ascending ?? true };
+      return query;
+    },
+    limit(count: number) {
+      maxRows = count;
+      return query;
+    },
+    async single(): Promise<Result> {
+      const { data, error } = run();
+      if (error) return { data: null, error };
+      return data.length === 1
+        ? { data: data[0], error: null }
+        : { data: null, error: { code: "PGRST116", message: "JSON object requested, multiple (or no) rows returned" } };
+    },
+    async maybeSingle(): Promise<Result> {
+      const { data, error } = run();
+      return { data: data?.[0] ?? null, error };
+    },
+    then(resolve: (result: Result) => unknown, reject?: (err: unknown) => unknown) {
+      return Promise.resolve(run()).then(resolve, reject);
+    },
+  };
+  return query;
+}
+
+const client = { from };
+
+export function getSupabaseAdmin() {
+  return client;
+}
@@ -11,6 +11,7 @@ import Quiz from "./pages/Quiz";
 import AdminSettings from "./pages/AdminSettings";
 import Pricing from "./pages/Pricing";
 import CheckoutSuccess from "./pages/CheckoutSuccess";
+import Organization from "./pages/Organization";
 
 export default function App() {
   const { user, loading } = useAuth();
@@ -57,6 +58,8 @@ export default function App() {
         <Route path="/quiz/:courseId" element={<Quiz />} />
         <Route path="/pricing" element={<Pricing />} />
         <Route path="/checkout/success" element={<CheckoutSuccess />} />
+        <Route path="/organization" element={<Organization />} />
+        <Route path="/organization/join/:token" element={<Organization />} />
         <Route
           path="/admin/settings"
           element={isAdmin ? <AdminSettings /> : <Navigate to="/" />}
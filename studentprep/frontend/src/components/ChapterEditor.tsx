@@ -0,0 +1,282 @@
+import { useState } from "react";
+import { apiFetch } from "../lib/api";
+
+export interface EditorChapter {
+  id: string;
+  title: string;
+  parent_id?: string | null;
+  depth?: number;
+}
+
+interface ChapterEditorProps {
+  courseId: string;
+  chapters: EditorChapter[]; // in reading order
+  onChanged: () => Promise<void> | void;
+  onClose: () => void;
+}
+
+interface SplitState {
+  chapterId: string;
+  text: string;
+  offset: number | null;
+  title: string;
+}
+
+/** End index (exclusive) of the chapter at `index` plus all its sections. */
+function subtreeEnd(chapters: EditorChapter[], index: number): number {
+  const depth = chapters[index].depth ?? 0;
+  let end = index + 1;
+  while (end < chapters.length && (chapters[end].depth ?? 0) > depth) end++;
+  return end;
+}
+
+/**
+ * New reading order with a chapter (and its sections) swapped with its
+ * previous or next sibling. Returns null when there is no sibling that way.
+ */
+export function moveChapter(
+  chapters: EditorChapter[],
+  chapterId: string,
+  direction: "up" | "down"
+): string[] | null {
+  const index = chapters.findIndex((ch) => ch.id === chapterId);
+  if (index < 0) return null;
+  const depth = chapters[index].depth ?? 0;
+  const end = subtreeEnd(chapters, index);
+  const ids = chapters.map((ch) => ch.id);
+
+  if (direction === "up") {
+    let prev = index - 1;
+    while (prev >= 0 && (chapters[prev].depth ?? 0) > depth) prev--;
+    if (prev < 0 || (chapters[prev].depth ?? 0) !== depth) return null;
+    return [...ids.slice(0, prev), ...ids.slice(index, end), ...ids.slice(prev, index), ...ids.slice(end)];
+  }
+
+  if (end >= chapters.length || (chapters[end].depth ?? 0) !== depth) return null;
+  const nextEnd = subtreeEnd(chapters, end);
+  return [...ids.slice(0, index), ...ids.slice(end, nextEnd), ...ids.slice(index, end), ...ids.slice(nextEnd)];
+}
+
+function blocks(text: string, re: RegExp): { offset: number; text: string }[] {
+  return [...text.matchAll(re)]
+    .filter((m) => m[0].trim())
+    .map((m) => ({ offset: m.index ?? 0, text: m[0] }));
+}
+
+/**
+ * Possible split points in a chapter's raw text: paragraphs separated by blank
+ * lines, or single lines when the text has (almost) no blank lines, as is
+ * common for PDF extractions.
+ */
+function paragraphs(text: string): { offset: number; text: string }[] {
+  const byBlankLine = blocks(text, /[^\n]+(?:\n(?!\s*\n)[^\n]*)*/g);
+  return byBlankLine.length >= 5 ? byBlankLine : blocks(text, /[^\n]+/g);
+}
+
+export function ChapterEditor({ courseId, chapters, onChanged, onClose }: ChapterEditorProps) {
+  const [titles, setTitles] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [split, setSplit] = useState<SplitState | null>(null);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      await onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update chapters");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const rename = (chapter: EditorChapter) => {
+    const title = titles[chapter.id];
+    if (title === undefined || title.trim() === chapter.title) return;
+    run(() =>
+      apiFetch(`/api/chapters/${chapter.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title }),
+      })
+    );
+  };
+
+  const move = (chapterId: string, direction: "up" | "down") => {
+    const order = moveChapter(chapters, chapterId, direction);
+    if (!order) return;
+    run(() =>
+      apiFetch(`/api/chapters/course/${courseId}/order`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ chapterIds: order }),
+      })
+    );
+  };
+
+  const mergeWithNext = (chapter: EditorChapter, next: EditorChapter) => {
+    if (!window.confirm(`Merge "${next.title}" into "${chapter.title}"? Their summaries and questions will be cleared.`)) {
+      return;
+    }
+    run(() => apiFetch(`/api/chapters/${chapter.id}/merge-next`, { method: "POST" }));
+  };
+
+  const openSplit = async (chapterId: string) => {
+    setError(null);
+    try {
+      const data = await apiFetch<{ chapter: { raw_text: string } }>(`/api/chapters/${chapterId}/text`);
+      setSplit({ chapterId, text: data.chapter.raw_text, offset: null, title: "" });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load chapter text");
+    }
+  };
+
+  const confirmSplit = () => {
+    if (!split || split.offset === null) return;
+    const { chapterId, offset, title } = split;
+    run(async () => {
+      await apiFetch(`/api/chapters/${chapterId}/split`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ offset, title }),
+      });
+      setSplit(null);
+    });
+  };
+
+  return (
+    <div className="space-y-3 rounded-2xl bg-white p-6 shadow-sm ring-1 ring-gray-100 animate-fade-in-up">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold">Edit chapters</h3>
+          <p className="text-sm text-gray-500">
+            Merging or splitting clears the summaries and questions of the chapters involved.
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="btn-press rounded-xl border border-gray-200 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 transition"
+        >
+          Done editing
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {chapters.map((chapter, i) => {
+        const next = chapters[i + 1];
+        const depth = chapter.depth ?? 0;
+        const isSplitting = split?.chapterId === chapter.id;
+
+        return (
+          <div
+            key={chapter.id}
+            style={depth > 0 ? { marginLeft: `${depth * 1.5}rem` } : undefined}
+            className="rounded-xl border border-gray-200 p-3"
+          >
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                aria-label={`Title of ${chapter.title}`}
+                value={titles[chapter.id] ?? chapter.title}
+                onChange={(e) => setTitles((prev) => ({ ...prev, [chapter.id]: e.target.value }))}
+                onBlur={() => rename(chapter)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") rename(chapter);
+                }}
+                disabled={busy}
+                className="min-w-0 flex-1 rounded-lg border border-gray-200 px-3 py-1.5 text-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+              />
+              <button
+                onClick={() => move(chapter.id, "up")}
+                disabled={busy || !moveChapter(chapters, chapter.id, "up")}
+                title="Move up"
+                className="rounded-lg px-2 py-1 text-gray-500 hover:bg-gray-100 disabled:opacity-30 transition"
+              >
+                ↑
+              </button>
+              <button
+                onClick={() => move(chapter.id, "down")}
+                disabled={busy || !moveChapter(chapters, chapter.id, "down")}
+                title="Move down"
+                className="rounded-lg px-2 py-1 text-gray-500 hover:bg-gray-100 disabled:opacity-30 transition"
+              >
+                ↓
+              </button>
+              <button
+                onClick={() => (isSplitting ? setSplit(null) : openSplit(chapter.id))}
+                disabled={busy}
+                className="rounded-lg border border-gray-200 px-3 py-1 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50 transition"
+              >
+                {isSplitting ? "Cancel split" : "Split"}
+              </button>
+              {next && (
+                <button
+                  onClick={() => mergeWithNext(chapter, next)}
+                  disabled={busy}
+                  className="rounded-lg border border-gray-200 px-3 py-1 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50 transition"
+                >
+                  Merge with next
+                </button>
+              )}
+            </div>
+
+            {isSplitting && split && (
+              <div className="mt-3 space-y-3">
+                <p className="text-sm text-gray-500">
+                  Choose where the new chapter starts. Everything from that paragraph on moves into it.
+                </p>
+                <div className="max-h-80 space-y-1 overflow-y-auto rounded-lg bg-gray-50 p-3 text-sm">
+                  {paragraphs(split.text).map((p, j) => {
+                    const chosen = split.offset === p.offset;
+                    return (
+                      <div key={p.offset}>
+                        {j > 0 && (
+                          <button
+                            onClick={() =>
+                              setSplit({
+                                ...split,
+                                offset: p.offset,
+                                title: p.text.split("\n")[0].trim().slice(0, 100),
+                              })
+                            }
+                            className={`my-1 w-full rounded border border-dashed py-0.5 text-xs transition ${
+                              chosen
+                                ? "border-indigo-500 bg-indigo-50 text-indigo-700"
+                                : "border-gray-300 text-gray-400 hover:border-indigo-300 hover:text-indigo-600"
+                            }`}
+                          >
+                            {chosen ? "New chapter starts here" : "Split here"}
+                          </button>
+                        )}
+                        <p className="whitespace-pre-wrap text-gray-700">{p.text}</p>
+                      </div>
+                    );
+                  })}
+                </div>
+                {split.offset !== null && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <input
+                      aria-label="Title of the new chapter"
+                      value={split.title}
+                      onChange={(e) => setSplit({ ...split, title: e.target.value })}
+                      className="min-w-0 flex-1 rounded-lg border border-gray-200 px-3 py-1.5 text-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                    />
+                    <button
+                      onClick={confirmSplit}
+                      disabled={busy || !split.title.trim()}
+                      className="btn-press rounded-xl bg-indigo-600 px-4 py-2 text-sm font-semibold text-white hover:bg-indigo-700 disabled:opacity-50 transition"
+                    >
+                      Split chapter
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -48,10 +48,17 @@ export function ProBadge() {
   );
 }
 
-export function PlanBadge({ plan }: { plan: "free" | "pro" }) {
+export function PlanBadge({ plan }: { plan: "free" | "pro" | "team" }) {
   if (plan === "pro") {
     return <ProBadge />;
   }
+  if (plan === "team") {
+    return (
+      <span className="inline-flex items-center rounded-full bg-gradient-to-r from-indigo-500 to-purple-500 px-2 py-0.5 text-xs font-bold text-white">
+        TEAM
+      </span>
+    );
+  }
   return (
     <span className="inline-flex items-center rounded-full bg-gray-100 px-2 py-0.5 text-xs font-semibold text-gray-600 ring-1 ring-gray-200">
       FREE
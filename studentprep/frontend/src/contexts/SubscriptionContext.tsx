@@ -1,5 +1,9 @@
 import { createContext, useContext, type ReactNode } from "react";
-import { useSubscription, type SubscriptionStatus } from "../hooks/useSubscription";
+import {
+  useSubscription,
+  type FeatureEntitlement,
+  type SubscriptionStatus,
+} from "../hooks/useSubscription";
 
 interface SubscriptionContextValue {
   subscription: SubscriptionStatus | null;
@@ -7,6 +11,8 @@ interface SubscriptionContextValue {
   refresh: () => Promise<void>;
   isPro: boolean;
   isFree: boolean;
+  hasEntitlement: (feature: FeatureEntitlement) => boolean;
+  canTranslateTo: (lang: string) => boolean;
 }
 
 const SubscriptionContext = createContext<SubscriptionContextValue>({
@@ -15,6 +21,8 @@ const SubscriptionContext = createContext<SubscriptionContextValue>({
   refresh: async () => {},
   isPro: false,
   isFree: true,
+  hasEntitlement: () => true,
+  canTranslateTo: () => true,
 });
 
 export function SubscriptionProvider({ children }: { children: ReactNode }) {
@@ -1,16 +1,34 @@
 import { useState, useEffect, useCallback } from "react";
 import { apiFetch } from "../lib/api";
 
+/** What the plan includes; null means unlimited. */
+export interface PlanLimits {
+  maxTokensPerMonth: number | null;
+  maxCourses: number | null;
+  maxFileSizeBytes: number | null;
+  maxPages: number | null;
+  pdfExport: boolean;
+  translationLanguages: string[];
+  allowedModels: string[];
+  quizGrading: boolean;
+}
+
+export type FeatureEntitlement = "pdfExport" | "quizGrading";
+
 export interface SubscriptionStatus {
-  plan: "free" | "pro";
+  plan: "free" | "pro" | "team";
   status: string;
   currentPeriodEnd: string | null;
+  /** When the free trial ends, while the subscription is trialing. */
+  trialEnd: string | null;
+  billingInterval: "month" | "year" | null;
   hasStripeCustomer: boolean;
-  limits: {
-    maxTokensPerMonth: number | null;
-  };
+  /** Limits of the plan; on the team plan, maxTokensPerMonth is the budget pooled over all seats. */
+  limits: PlanLimits;
+  organizationId: string | null;
   usage: {
     tokensThisMonth: number;
+    courses: number;
   };
 }
 
@@ -36,5 +54,16 @@ export function useSubscription() {
   const isPro = subscription?.plan === "pro";
   const isFree = !isPro;
 
-  return { subscription, loading, refresh, isPro, isFree };
+  // Until the status has loaded, nothing is locked; the backend enforces the limits anyway
+  const limits = subscription?.limits;
+  const hasEntitlement = useCallback(
+    (feature: FeatureEntitlement) => limits?.[feature] ?? true,
+    [limits]
+  );
+  const canTranslateTo = useCallback(
+    (lang: string) => limits?.translationLanguages?.includes(lang) ?? true,
+    [limits]
+  );
+
+  return { subscription, loading, refresh, isPro, isFree, hasEntitlement, canTranslateTo };
 }
@@ -12,6 +12,37 @@ export class UpgradeRequiredError extends Error {
   }
 }
 
+/**
+ * A failed AI call. `retryable` errors (rate limits, overloads, timeouts) may
+ * succeed if tried again later; the others won't, e.g. an invalid API key.
+ */
+export class AIServiceError extends Error {
+  code: string;
+  retryable: boolean;
+  retryAfter?: number; // seconds
+  constructor(message: string, code: string, retryable: boolean, retryAfter?: number) {
+    super(message);
+    this.name = "AIServiceError";
+    this.code = code;
+    this.retryable = retryable;
+    this.retryAfter = retryAfter;
+  }
+}
+
+/** The error to throw for a failed request's JSON body. */
+export function errorFromBody(
+  body: { error?: string; code?: string; limit?: string; retryable?: boolean; retryAfter?: number },
+  fallback: string
+): Error {
+  if (body.code === "UPGRADE_REQUIRED") {
+    return new UpgradeRequiredError(body.error || "Upgrade required", body.limit || "unknown");
+  }
+  if (body.code?.startsWith("AI_")) {
+    return new AIServiceError(body.error || fallback, body.code, Boolean(body.retryable), body.retryAfter);
+  }
+  return new Error(body.error || fallback);
+}
+
 async function getAuthHeaders(): Promise<Record<string, string>> {
   const {
     data: { session },
@@ -42,10 +73,7 @@ export async function apiFetch<T>(
 
   if (!res.ok) {
     const body = await res.json().catch(() => ({}));
-    if (res.status === 403 && body.code === "UPGRADE_REQUIRED") {
-      throw new UpgradeRequiredError(body.error || "Upgrade required", body.limit || "unknown");
-    }
-    throw new Error(body.error || `API error: ${res.status}`);
+    throw errorFromBody(body, `API error: ${res.status}`);
   }
 
   return res.json();
@@ -67,7 +95,7 @@ export async function apiFetchBlob(
 
   if (!res.ok) {
     const body = await res.json().catch(() => ({}));
-    throw new Error(body.error || `API error: ${res.status}`);
+    throw errorFromBody(body, `API error: ${res.status}`);
   }
 
   return res.blob();
@@ -88,8 +116,67 @@ export async function apiUpload<T>(
 
   if (!res.ok) {
     const body = await res.json().catch(() => ({}));
-    throw new Error(body.error || `Upload error: ${res.status}`);
+    throw errorFromBody(body, `Upload error: ${res.status}`);
   }
 
   return res.json();
 }
+
+/**
+ * Read a Server-Sent Events stream, calling `onEvent` for each event.
+ * Resolves when the server closes the stream. `options` allows streaming
+ * the response to a POST.
+ */
+export async function apiStream(
+  path: string,
+  onEvent: (event: string, data: unknown) => void,
+  signal?: AbortSignal,
+  options: RequestInit = {}
+): Promise<void> {
+  const headers = await getAuthHeaders();
+
+  const res = await fetch(`${API_URL}${path}`, {
+    ...options,
+    headers: { ...headers, ...options.headers, Accept: "text/event-stream" },
+    signal,
+  });
+
+  if (!res.ok || !res.body) {
+    const body = await res.json().catch(() => ({}));
+    throw errorFromBody(body, `API error: ${res.status}`);
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line; keep any partial event in the buffer
+    const blocks = buffer.split(/\r?\n\r?\n/);
+    buffer = blocks.pop() ?? "";
+
+    for (const block of blocks) {
+      let event = "message";
+      const dataLines: string[] = [];
+      for (const line of block.split(/\r?\n/)) {
+        if (line.startsWith(":")) continue; // comment / keep-alive
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) dataLines.push(line.slice(5).replace(/^ /, ""));
+      }
+      if (dataLines.length === 0) continue;
+
+      const raw = dataLines.join("\n");
+      let data: unknown = raw;
+      try {
+        data = JSON.parse(raw);
+      } catch {
+        // Non-JSON payload, pass through as text
+      }
+      onEvent(event, data);
+    }
+  }
+}
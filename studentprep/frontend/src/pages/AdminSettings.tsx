@@ -30,7 +30,8 @@ interface UserEntry {
 
 interface ConfigStatus {
   supabase: boolean;
-  anthropic: boolean;
+  llm: boolean;
+  llmProvider: string;
   stripe: boolean;
   ready: boolean;
   missing: string[];
@@ -44,15 +45,21 @@ interface UserCostEntry {
   month: number;
   inputTokens: number;
   outputTokens: number;
+  cacheWriteTokens: number;
+  cacheReadTokens: number;
   totalTokens: number;
   estimatedCostUsd: number;
+  cacheSavingsUsd: number;
   hasApiKey: boolean;
   byModel: Record<
     string,
     {
       inputTokens: number;
       outputTokens: number;
+      cacheWriteTokens: number;
+      cacheReadTokens: number;
       costUsd: number;
+      cacheSavingsUsd: number;
     }
   >;
 }
@@ -63,10 +70,49 @@ interface CostOverview {
   totalCostUsd: number;
   totalInputTokens: number;
   totalOutputTokens: number;
+  totalCacheWriteTokens: number;
+  totalCacheReadTokens: number;
+  totalCacheSavingsUsd: number;
   users: UserCostEntry[];
 }
 
-type Tab = "overview" | "users" | "costs" | "system";
+interface ModelRoute {
+  model: string;
+  maxTokens: number;
+  temperature: number | null;
+}
+
+type RoutePlan = "all" | "free" | "pro" | "team";
+
+interface ModelRouteEntry {
+  feature: string;
+  plan: RoutePlan;
+  model: string;
+  max_tokens: number;
+  temperature: number | null;
+}
+
+interface ModelRouting {
+  features: { id: string; label: string }[];
+  models: { id: string; label: string }[];
+  defaults: Record<string, ModelRoute>;
+  routes: ModelRouteEntry[];
+}
+
+type StripeEventStatus = "processing" | "processed" | "skipped" | "failed";
+
+interface StripeEventEntry {
+  id: string;
+  type: string;
+  customer_id: string | null;
+  event_created: string;
+  status: StripeEventStatus;
+  error: string | null;
+  attempts: number;
+  received_at: string;
+}
+
+type Tab = "overview" | "users" | "costs" | "billing" | "system";
 
 const MONTH_NAMES = [
   "January",
@@ -83,6 +129,23 @@ const MONTH_NAMES = [
   "December",
 ];
 
+const PLAN_LABELS: Record<RoutePlan, string> = {
+  all: "All plans",
+  free: "Free",
+  pro: "Pro",
+  team: "Team",
+};
+
+/** Plans whose route can override the one for all plans. */
+const OVERRIDE_PLANS = ["free", "pro", "team"] as const;
+
+const EVENT_STATUS_STYLES: Record<StripeEventStatus, string> = {
+  processing: "bg-yellow-100 text-yellow-800",
+  processed: "bg-green-100 text-green-800",
+  skipped: "bg-gray-100 text-gray-600",
+  failed: "bg-red-100 text-red-700",
+};
+
 const MODEL_LABELS: Record<string, string> = {
   "claude-sonnet-4-5-20250929": "Sonnet 4.5",
   "claude-haiku-4-5-20251001": "Haiku 4.5",
@@ -121,6 +184,18 @@ export default function AdminSettings() {
   const [expandedUser, setExpandedUser] = useState<string | null>(null);
   const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
 
+  // System tab: model routing
+  const [routing, setRouting] = useState<ModelRouting | null>(null);
+  const [savingRoute, setSavingRoute] = useState<string | null>(null);
+  // Tier overrides added in the UI but not saved yet, as "feature:plan"
+  const [newOverrides, setNewOverrides] = useState<string[]>([]);
+
+  // Billing tab: Stripe webhook events
+  const [stripeEvents, setStripeEvents] = useState<StripeEventEntry[]>([]);
+  const [eventFilter, setEventFilter] = useState<StripeEventStatus | "">("");
+  const [eventsLoading, setEventsLoading] = useState(false);
+  const [replayingEvent, setReplayingEvent] = useState<string | null>(null);
+
   const loadStats = useCallback(async () => {
     try {
       const data = await apiFetch<{ stats: PlatformStats }>("/api/admin/stats");
@@ -167,6 +242,17 @@ export default function AdminSettings() {
     []
   );
 
+  const loadRouting = useCallback(async () => {
+    try {
+      const data = await apiFetch<ModelRouting>("/api/admin/model-routes");
+      setRouting(data);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to load model routing"
+      );
+    }
+  }, []);
+
   useEffect(() => {
     setLoading(true);
     setError("");
@@ -182,6 +268,34 @@ export default function AdminSettings() {
     }
   }, [activeTab, costYear, costMonth, loadCosts]);
 
+  const loadStripeEvents = useCallback(async (status: StripeEventStatus | "") => {
+    setEventsLoading(true);
+    try {
+      const data = await apiFetch<{ events: StripeEventEntry[] }>(
+        `/api/admin/stripe-events${status ? `?status=${status}` : ""}`
+      );
+      setStripeEvents(data.events);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to load Stripe events"
+      );
+    } finally {
+      setEventsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (activeTab === "billing") {
+      loadStripeEvents(eventFilter);
+    }
+  }, [activeTab, eventFilter, loadStripeEvents]);
+
+  useEffect(() => {
+    if (activeTab === "system") {
+      loadRouting();
+    }
+  }, [activeTab, loadRouting]);
+
   const handleRoleChange = async (userId: string, newRole: string) => {
     setUpdatingUser(userId);
     try {
@@ -261,6 +375,69 @@ export default function AdminSettings() {
     }
   };
 
+  const handleSaveRoute = async (
+    feature: string,
+    plan: RoutePlan,
+    route: ModelRoute
+  ) => {
+    const key = `${feature}:${plan}`;
+    setSavingRoute(key);
+    try {
+      await apiFetch(`/api/admin/model-routes/${feature}/${plan}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(route),
+      });
+      setNewOverrides((prev) => prev.filter((k) => k !== key));
+      await loadRouting();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to save model route"
+      );
+    } finally {
+      setSavingRoute(null);
+    }
+  };
+
+  const handleRemoveRoute = async (feature: string, plan: RoutePlan) => {
+    const key = `${feature}:${plan}`;
+    if (newOverrides.includes(key)) {
+      setNewOverrides((prev) => prev.filter((k) => k !== key));
+      return;
+    }
+    setSavingRoute(key);
+    try {
+      await apiFetch(`/api/admin/model-routes/${feature}/${plan}`, {
+        method: "DELETE",
+      });
+      await loadRouting();
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to remove model route"
+      );
+    } finally {
+      setSavingRoute(null);
+    }
+  };
+
+  const handleReplayEvent = async (eventId: string) => {
+    setReplayingEvent(eventId);
+    try {
+      const result = await apiFetch<{ status: StripeEventStatus; error?: string }>(
+        `/api/admin/stripe-events/${eventId}/replay`,
+        { method: "POST" }
+      );
+      if (result.status === "failed") {
+        setError(`Replay failed: ${result.error}`);
+      }
+      await loadStripeEvents(eventFilter);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to replay event");
+    } finally {
+      setReplayingEvent(null);
+    }
+  };
+
   const goToPrevMonth = () => {
     if (costMonth === 1) {
       setCostMonth(12);
@@ -286,6 +463,7 @@ export default function AdminSettings() {
     { key: "overview", label: "Overview" },
     { key: "users", label: "Users" },
     { key: "costs", label: "Costs" },
+    { key: "billing", label: "Billing" },
     { key: "system", label: "System" },
   ];
 
@@ -584,7 +762,7 @@ export default function AdminSettings() {
                 ) : costData ? (
                   <>
                     {/* Summary cards */}
-                    <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+                    <div className="grid grid-cols-2 gap-4 sm:grid-cols-3 lg:grid-cols-5">
                       <div className="rounded-lg bg-white p-4 shadow-sm">
                         <p className="text-sm text-gray-500">Total Cost</p>
                         <p className="mt-1 text-2xl font-bold text-red-600">
@@ -609,6 +787,16 @@ export default function AdminSettings() {
                           {formatTokens(costData.totalOutputTokens)}
                         </p>
                       </div>
+                      <div className="rounded-lg bg-white p-4 shadow-sm">
+                        <p className="text-sm text-gray-500">Cache Savings</p>
+                        <p className="mt-1 text-2xl font-bold text-green-600">
+                          {formatCost(costData.totalCacheSavingsUsd)}
+                        </p>
+                        <p className="mt-1 text-xs text-gray-400">
+                          {formatTokens(costData.totalCacheReadTokens)} read /{" "}
+                          {formatTokens(costData.totalCacheWriteTokens)} written
+                        </p>
+                      </div>
                     </div>
 
                     {/* Pricing reference */}
@@ -625,6 +813,10 @@ export default function AdminSettings() {
                           <span className="font-medium">Haiku 4.5:</span>{" "}
                           $1/MTok input, $5/MTok output
                         </div>
+                        <div>
+                          <span className="font-medium">Prompt cache:</span>{" "}
+                          writes 1.25x, reads 0.1x the input price
+                        </div>
                       </div>
                     </div>
 
@@ -704,6 +896,123 @@ export default function AdminSettings() {
               </div>
             )}
 
+            {/* Billing Tab */}
+            {activeTab === "billing" && (
+              <div className="rounded-lg bg-white shadow-sm">
+                <div className="flex items-center justify-between border-b px-4 py-3">
+                  <div>
+                    <h3 className="font-semibold text-gray-900">
+                      Stripe webhook events
+                    </h3>
+                    <p className="text-xs text-gray-500">
+                      Duplicate deliveries and events older than the last one
+                      applied to a customer are skipped. Replay a failed event
+                      once its cause is fixed, or one stuck in processing.
+                    </p>
+                  </div>
+                  <select
+                    value={eventFilter}
+                    onChange={(e) =>
+                      setEventFilter(e.target.value as StripeEventStatus | "")
+                    }
+                    aria-label="Filter events by status"
+                    className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+                  >
+                    <option value="">All events</option>
+                    <option value="failed">Failed</option>
+                    <option value="processed">Processed</option>
+                    <option value="skipped">Skipped</option>
+                    <option value="processing">Processing</option>
+                  </select>
+                </div>
+                {eventsLoading ? (
+                  <div className="flex items-center justify-center py-12">
+                    <div className="h-8 w-8 animate-spin rounded-full border-4 border-indigo-500 border-t-transparent" />
+                  </div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-left text-sm">
+                      <thead>
+                        <tr className="border-b bg-gray-50">
+                          <th className="px-4 py-3 font-medium text-gray-700">
+                            Event
+                          </th>
+                          <th className="px-4 py-3 font-medium text-gray-700">
+                            Customer
+                          </th>
+                          <th className="px-4 py-3 font-medium text-gray-700">
+                            Created
+                          </th>
+                          <th className="px-4 py-3 font-medium text-gray-700">
+                            Status
+                          </th>
+                          <th className="px-4 py-3" />
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {stripeEvents.map((event) => (
+                          <tr key={event.id} className="border-b last:border-0">
+                            <td className="px-4 py-3">
+                              <p className="font-medium text-gray-900">
+                                {event.type}
+                              </p>
+                              <p className="text-xs text-gray-400">{event.id}</p>
+                            </td>
+                            <td className="px-4 py-3 text-gray-600">
+                              {event.customer_id || "—"}
+                            </td>
+                            <td className="px-4 py-3 text-gray-600">
+                              {new Date(event.event_created).toLocaleString()}
+                            </td>
+                            <td className="px-4 py-3">
+                              <span
+                                className={`rounded-full px-2 py-0.5 text-xs font-medium ${EVENT_STATUS_STYLES[event.status]}`}
+                              >
+                                {event.status}
+                              </span>
+                              {event.attempts > 1 && (
+                                <span className="ml-2 text-xs text-gray-400">
+                                  {event.attempts} attempts
+                                </span>
+                              )}
+                              {event.error && (
+                                <p className="mt-1 text-xs text-gray-500">
+                                  {event.error}
+                                </p>
+                              )}
+                            </td>
+                            <td className="px-4 py-3 text-right">
+                              {(event.status === "failed" || event.status === "processing") && (
+                                <button
+                                  onClick={() => handleReplayEvent(event.id)}
+                                  disabled={replayingEvent === event.id}
+                                  className="rounded-md border border-gray-300 px-3 py-1 text-xs font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                                >
+                                  {replayingEvent === event.id
+                                    ? "Replaying..."
+                                    : "Replay"}
+                                </button>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                        {stripeEvents.length === 0 && (
+                          <tr>
+                            <td
+                              colSpan={5}
+                              className="px-4 py-8 text-center text-gray-500"
+                            >
+                              No Stripe events
+                            </td>
+                          </tr>
+                        )}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* System Tab */}
             {activeTab === "system" && config && (
               <div className="space-y-6">
@@ -718,8 +1027,8 @@ export default function AdminSettings() {
                       required
                     />
                     <ServiceRow
-                      name="Anthropic (AI)"
-                      connected={config.anthropic}
+                      name={`AI (${LLM_PROVIDER_LABELS[config.llmProvider] ?? config.llmProvider})`}
+                      connected={config.llm}
                       required
                     />
                     <ServiceRow
@@ -744,6 +1053,110 @@ export default function AdminSettings() {
                   </div>
                 )}
 
+                {routing && (
+                  <div className="rounded-lg bg-white p-6 shadow-sm">
+                    <h3 className="mb-1 text-lg font-medium">Model Routing</h3>
+                    <p className="mb-4 text-xs text-gray-400">
+                      The model each AI feature uses. A Free, Pro or Team
+                      override replaces the route for users on that plan. Changes apply
+                      to new requests within a minute.
+                    </p>
+                    <div className="space-y-4">
+                      {routing.features.map((feature) => {
+                        const configured = (plan: RoutePlan) =>
+                          routing.routes.find(
+                            (r) => r.feature === feature.id && r.plan === plan
+                          );
+                        const allRow = configured("all");
+                        const baseRoute: ModelRoute = allRow
+                          ? {
+                              model: allRow.model,
+                              maxTokens: allRow.max_tokens,
+                              temperature: allRow.temperature,
+                            }
+                          : routing.defaults[feature.id];
+                        const overrides = OVERRIDE_PLANS.filter(
+                          (plan) =>
+                            configured(plan) ||
+                            newOverrides.includes(`${feature.id}:${plan}`)
+                        );
+                        const missing = OVERRIDE_PLANS.filter(
+                          (plan) => !overrides.includes(plan)
+                        );
+
+                        return (
+                          <div key={feature.id} className="rounded-md border">
+                            <div className="flex items-center justify-between border-b bg-gray-50 px-4 py-2">
+                              <span className="text-sm font-medium">
+                                {feature.label}
+                              </span>
+                              <span className="flex gap-2">
+                                {missing.map((plan) => (
+                                  <button
+                                    key={plan}
+                                    onClick={() =>
+                                      setNewOverrides((prev) => [
+                                        ...prev,
+                                        `${feature.id}:${plan}`,
+                                      ])
+                                    }
+                                    className="rounded border border-gray-300 px-2 py-0.5 text-xs text-gray-600 hover:bg-white"
+                                  >
+                                    + {PLAN_LABELS[plan]} override
+                                  </button>
+                                ))}
+                              </span>
+                            </div>
+                            <ModelRouteEditor
+                              plan="all"
+                              route={baseRoute}
+                              isDefault={!allRow}
+                              models={routing.models}
+                              saving={savingRoute === `${feature.id}:all`}
+                              onSave={(route) =>
+                                handleSaveRoute(feature.id, "all", route)
+                              }
+                              onRemove={
+                                allRow
+                                  ? () => handleRemoveRoute(feature.id, "all")
+                                  : undefined
+                              }
+                            />
+                            {overrides.map((plan) => {
+                              const row = configured(plan);
+                              return (
+                                <ModelRouteEditor
+                                  key={plan}
+                                  plan={plan}
+                                  route={
+                                    row
+                                      ? {
+                                          model: row.model,
+                                          maxTokens: row.max_tokens,
+                                          temperature: row.temperature,
+                                        }
+                                      : baseRoute
+                                  }
+                                  isDefault={false}
+                                  unsaved={!row}
+                                  models={routing.models}
+                                  saving={savingRoute === `${feature.id}:${plan}`}
+                                  onSave={(route) =>
+                                    handleSaveRoute(feature.id, plan, route)
+                                  }
+                                  onRemove={() =>
+                                    handleRemoveRoute(feature.id, plan)
+                                  }
+                                />
+                              );
+                            })}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+
                 <div className="rounded-lg bg-white p-6 shadow-sm">
                   <h3 className="mb-2 text-lg font-medium">Admin Access</h3>
                   <p className="text-sm text-gray-600">
@@ -799,6 +1212,12 @@ function StatusCard({
   );
 }
 
+const LLM_PROVIDER_LABELS: Record<string, string> = {
+  anthropic: "Anthropic",
+  openai: "OpenAI-compatible",
+  mock: "offline mock",
+};
+
 function ServiceRow({
   name,
   connected,
@@ -828,6 +1247,121 @@ function ServiceRow({
   );
 }
 
+function ModelRouteEditor({
+  plan,
+  route,
+  isDefault,
+  unsaved,
+  models,
+  saving,
+  onSave,
+  onRemove,
+}: {
+  plan: RoutePlan;
+  route: ModelRoute;
+  isDefault: boolean;
+  unsaved?: boolean; // a new override, not saved yet
+  models: { id: string; label: string }[];
+  saving: boolean;
+  onSave: (route: ModelRoute) => void;
+  onRemove?: () => void;
+}) {
+  const [model, setModel] = useState(route.model);
+  const [maxTokens, setMaxTokens] = useState(String(route.maxTokens));
+  const [temperature, setTemperature] = useState(
+    route.temperature === null ? "" : String(route.temperature)
+  );
+
+  // Show the saved values again after a reload
+  useEffect(() => {
+    setModel(route.model);
+    setMaxTokens(String(route.maxTokens));
+    setTemperature(route.temperature === null ? "" : String(route.temperature));
+  }, [route.model, route.maxTokens, route.temperature]);
+
+  const changed =
+    model !== route.model ||
+    maxTokens !== String(route.maxTokens) ||
+    temperature !== (route.temperature === null ? "" : String(route.temperature));
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 px-4 py-3 text-sm">
+      <span className="w-20 text-xs font-medium text-gray-500">
+        {PLAN_LABELS[plan]}
+      </span>
+      <select
+        aria-label={`${PLAN_LABELS[plan]} model`}
+        value={model}
+        onChange={(e) => setModel(e.target.value)}
+        disabled={saving}
+        className="rounded border border-gray-300 px-2 py-1 text-xs disabled:opacity-50"
+      >
+        {models.map((m) => (
+          <option key={m.id} value={m.id}>
+            {m.label}
+          </option>
+        ))}
+      </select>
+      <label className="flex items-center gap-1 text-xs text-gray-500">
+        Max tokens
+        <input
+          type="number"
+          min={1}
+          value={maxTokens}
+          onChange={(e) => setMaxTokens(e.target.value)}
+          disabled={saving}
+          className="w-24 rounded border border-gray-300 px-2 py-1 text-xs disabled:opacity-50"
+        />
+      </label>
+      <label className="flex items-center gap-1 text-xs text-gray-500">
+        Temperature
+        <input
+          type="number"
+          min={0}
+          max={1}
+          step={0.1}
+          placeholder="default"
+          value={temperature}
+          onChange={(e) => setTemperature(e.target.value)}
+          disabled={saving}
+          className="w-20 rounded border border-gray-300 px-2 py-1 text-xs disabled:opacity-50"
+        />
+      </label>
+      {isDefault && (
+        <span className="rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-500">
+          Default
+        </span>
+      )}
+      <span className="ml-auto flex gap-2">
+        {(changed || unsaved) && (
+          <button
+            onClick={() =>
+              onSave({
+                model,
+                maxTokens: Number(maxTokens),
+                temperature: temperature === "" ? null : Number(temperature),
+              })
+            }
+            disabled={saving}
+            className="rounded bg-indigo-600 px-3 py-1 text-xs font-medium text-white hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {saving ? "Saving..." : "Save"}
+          </button>
+        )}
+        {onRemove && (
+          <button
+            onClick={onRemove}
+            disabled={saving}
+            className="rounded border border-gray-300 px-3 py-1 text-xs text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+          >
+            {plan === "all" ? "Reset to default" : "Remove"}
+          </button>
+        )}
+      </span>
+    </div>
+  );
+}
+
 function UserCostRow({
   user,
   isExpanded,
@@ -901,6 +1435,12 @@ function UserCostRow({
                       {formatTokens(data.inputTokens)} in /{" "}
                       {formatTokens(data.outputTokens)} out
                     </span>
+                    {data.cacheReadTokens + data.cacheWriteTokens > 0 && (
+                      <span className="text-green-700">
+                        {formatTokens(data.cacheReadTokens)} cached
+                        {data.cacheSavingsUsd > 0 && ` (saved ${formatCost(data.cacheSavingsUsd)})`}
+                      </span>
+                    )}
                     <span className="w-16 text-right font-medium text-gray-900">
                       {formatCost(data.costUsd)}
                     </span>
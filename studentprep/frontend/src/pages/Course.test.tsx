@@ -3,7 +3,7 @@ import userEvent from "@testing-library/user-event";
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { MemoryRouter, Route, Routes } from "react-router-dom";
 import Course from "./Course";
-import { apiFetch } from "../lib/api";
+import { apiFetch, apiStream } from "../lib/api";
 
 const mockNavigate = vi.fn();
 vi.mock("react-router-dom", async () => {
@@ -122,17 +122,9 @@ const errorCourse = {
 describe("Course", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(apiStream).mockResolvedValue(undefined);
     vi.mocked(apiFetch).mockImplementation(async (url: string) => {
       if (url === "/api/courses/course-1") return readyCourse;
-      if (url === "/api/ai/models") {
-        return {
-          models: [
-            { id: "claude-sonnet-4-5-20250929", label: "Sonnet 4.5" },
-            { id: "claude-opus-4-6", label: "Opus 4.6" },
-          ],
-          default: "claude-sonnet-4-5-20250929",
-        };
-      }
       return {};
     });
   });
@@ -268,12 +260,6 @@ describe("Course", () => {
     };
     vi.mocked(apiFetch).mockImplementation(async (url: string) => {
       if (url === "/api/courses/course-1") return allQuestioned;
-      if (url === "/api/ai/models") {
-        return {
-          models: [{ id: "claude-sonnet-4-5-20250929", label: "Sonnet 4.5" }],
-          default: "claude-sonnet-4-5-20250929",
-        };
-      }
       return {};
     });
 
@@ -285,12 +271,6 @@ describe("Course", () => {
     const noQuestions = { ...readyCourse, questions: [] };
     vi.mocked(apiFetch).mockImplementation(async (url: string) => {
       if (url === "/api/courses/course-1") return noQuestions;
-      if (url === "/api/ai/models") {
-        return {
-          models: [{ id: "claude-sonnet-4-5-20250929", label: "Sonnet 4.5" }],
-          default: "claude-sonnet-4-5-20250929",
-        };
-      }
       return {};
     });
 
@@ -298,6 +278,296 @@ describe("Course", () => {
     expect(await screen.findByText("No chapters have questions yet")).toBeInTheDocument();
   });
 
+  it("shows the page range of each chapter", async () => {
+    const withPages = {
+      ...readyCourse,
+      chapters: [
+        { ...readyCourse.chapters[0], start_page: 12, end_page: 27 },
+        { ...readyCourse.chapters[1], start_page: 28, end_page: 28 },
+      ],
+    };
+    vi.mocked(apiFetch).mockImplementation(async (url: string) => {
+      if (url === "/api/courses/course-1") return withPages;
+      return {};
+    });
+
+    renderCourse();
+
+    expect(await screen.findByText("pp. 12–27")).toBeInTheDocument();
+    expect(screen.getByText("p. 28")).toBeInTheDocument();
+  });
+
+  it("labels chapter ranges as slides for slide decks", async () => {
+    const deck = {
+      ...readyCourse,
+      course: {
+        ...readyCourse.course,
+        mime_type: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+      },
+      chapters: [{ ...readyCourse.chapters[0], start_page: 3, end_page: 9 }],
+    };
+    vi.mocked(apiFetch).mockImplementation(async (url: string) => {
+      if (url === "/api/courses/course-1") return deck;
+      return {};
+    });
+
+    renderCourse();
+
+    expect(await screen.findByText("slides 3–9")).toBeInTheDocument();
+  });
+
+  it("shows sections nested under their chapter and collapses them", async () => {
+    const user = userEvent.setup();
+    const nested = {
+      ...readyCourse,
+      chapters: [
+        readyCourse.chapters[0],
+        { ...readyCourse.chapters[1], parent_id: "ch1", depth: 1 },
+      ],
+    };
+    vi.mocked(apiFetch).mockImplementation(async (url: string) => {
+      if (url === "/api/courses/course-1") return nested;
+      return {};
+    });
+
+    renderCourse();
+
+    expect(await screen.findByText("1. Introduction to Cells")).toBeInTheDocument();
+    expect(screen.getByText("1.1 Genetics")).toBeInTheDocument();
+
+    await user.click(screen.getByLabelText("Hide sections of Introduction to Cells"));
+    expect(screen.queryByText("1.1 Genetics")).not.toBeInTheDocument();
+    expect(screen.getByText("1 section")).toBeInTheDocument();
+
+    await user.click(screen.getByLabelText("Show sections of Introduction to Cells"));
+    expect(screen.getByText("1.1 Genetics")).toBeInTheDocument();
+  });
+
+  it("quizzes a whole chapter including its sections", async () => {
+    const user = userEvent.setup();
+    const nested = {
+      ...readyCourse,
+      chapters: [
+        readyCourse.chapters[0],
+        { ...readyCourse.chapters[1], parent_id: "ch1", depth: 1 },
+      ],
+      questions: [
+        ...readyCourse.questions,
+        { ...readyCourse.questions[0], id: "q3", chapter_id: "ch2" },
+      ],
+    };
+    vi.mocked(apiFetch).mockImplementation(async (url: string) => {
+      if (url === "/api/courses/course-1") return nested;
+      return {};
+    });
+
+    renderCourse();
+
+    await user.click(await screen.findByText("1. Introduction to Cells"));
+    await user.click(screen.getByText("Quiz this chapter"));
+    expect(mockNavigate).toHaveBeenCalledWith("/quiz/course-1?chapters=ch1,ch2");
+  });
+
+  it("merges a chapter with the next one from the chapter editor", async () => {
+    const user = userEvent.setup();
+    vi.spyOn(window, "confirm").mockReturnValue(true);
+    renderCourse();
+
+    await user.click(await screen.findByText("Edit chapters"));
+    await user.click(screen.getByText("Merge with next"));
+
+    await waitFor(() => {
+      expect(apiFetch).toHaveBeenCalledWith("/api/chapters/ch1/merge-next", { method: "POST" });
+    });
+  });
+
+  it("previews chapter text and splits at a chosen paragraph", async () => {
+    const user = userEvent.setup();
+    const rawText = [
+      "Cells are small.",
+      "Every organism is made of cells.",
+      "Membranes",
+      "The membrane surrounds the cell.",
+      "Organelles",
+      "Organelles have specific jobs.",
+    ].join("\n");
+    vi.mocked(apiFetch).mockImplementation(async (url: string) => {
+      if (url === "/api/courses/course-1") return readyCourse;
+      if (url === "/api/chapters/ch1/text") {
+        return { chapter: { id: "ch1", title: "Introduction to Cells", raw_text: rawText } };
+      }
+      return {};
+    });
+
+    renderCourse();
+
+    await user.click(await screen.findByText("Edit chapters"));
+    await user.click(screen.getAllByText("Split")[0]);
+    expect(await screen.findByText("The membrane surrounds the cell.")).toBeInTheDocument();
+
+    await user.click(screen.getAllByText("Split here")[1]);
+    expect(screen.getByLabelText("Title of the new chapter")).toHaveValue("Membranes");
+    await user.click(screen.getByText("Split chapter"));
+
+    await waitFor(() => {
+      expect(apiFetch).toHaveBeenCalledWith("/api/chapters/ch1/split", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ offset: rawText.indexOf("Membranes"), title: "Membranes" }),
+      });
+    });
+  });
+
+  it("re-detects chapters incrementally", async () => {
+    const user = userEvent.setup();
+    vi.spyOn(window, "confirm").mockReturnValue(true);
+    renderCourse();
+
+    await user.click(await screen.findByText("Re-detect chapters"));
+
+    await waitFor(() => {
+      expect(apiFetch).toHaveBeenCalledWith("/api/ai/summarize/course-1", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ mode: "incremental" }),
+      });
+    });
+  });
+
+  it("shows how much of a long chapter the summary covers", async () => {
+    const user = userEvent.setup();
+    const partial = {
+      ...readyCourse,
+      chapters: [{ ...readyCourse.chapters[0], summary_coverage: 0.62 }, readyCourse.chapters[1]],
+    };
+    vi.mocked(apiFetch).mockImplementation(async (url: string) => {
+      if (url === "/api/courses/course-1") return partial;
+      return {};
+    });
+
+    renderCourse();
+
+    await user.click(await screen.findByText("1. Introduction to Cells"));
+    expect(screen.getByText("Based on the first 62% of the chapter")).toBeInTheDocument();
+  });
+
+  it("shows how much of a long chapter the questions cover", async () => {
+    const user = userEvent.setup();
+    const partial = {
+      ...readyCourse,
+      chapters: [{ ...readyCourse.chapters[0], summary_coverage: 1, questions_coverage: 0.62 }, readyCourse.chapters[1]],
+    };
+    vi.mocked(apiFetch).mockImplementation(async (url: string) => {
+      if (url === "/api/courses/course-1") return partial;
+      return {};
+    });
+
+    renderCourse();
+
+    await user.click(await screen.findByText("1. Introduction to Cells"));
+    expect(screen.getByText("Based on the full chapter")).toBeInTheDocument();
+    expect(screen.getByText("Based on the first 62% of the chapter")).toBeInTheDocument();
+  });
+
+  it("shows the source passage of a summary topic", async () => {
+    const user = userEvent.setup();
+    const rawText = "Intro text. Cells are the smallest units of life. More text follows.";
+    const start = rawText.indexOf("Cells are");
+    const cited = {
+      ...readyCourse,
+      chapters: [
+        {
+          ...readyCourse.chapters[0],
+          summary_main: [
+            {
+              ...readyCourse.chapters[0].summary_main[0],
+              source: { start, end: start + "Cells are the smallest units of life.".length, page: 4 },
+            },
+          ],
+        },
+        readyCourse.chapters[1],
+      ],
+    };
+    vi.mocked(apiFetch).mockImplementation(async (url: string) => {
+      if (url === "/api/courses/course-1") return cited;
+      if (url === "/api/chapters/ch1/text") {
+        return { chapter: { id: "ch1", title: "Introduction to Cells", raw_text: rawText } };
+      }
+      return {};
+    });
+
+    renderCourse();
+
+    await user.click(await screen.findByText("1. Introduction to Cells"));
+    await user.click(screen.getByLabelText("Show source for Cell Structure"));
+
+    const mark = await screen.findByText("Cells are the smallest units of life.");
+    expect(mark.tagName).toBe("MARK");
+    expect(screen.getByText(/p\. 4/)).toBeInTheDocument();
+  });
+
+  it("flags summary points and answers the chapter doesn't support", async () => {
+    const user = userEvent.setup();
+    const [cells, genetics] = readyCourse.chapters;
+    const checked = {
+      ...readyCourse,
+      chapters: [
+        {
+          ...cells,
+          summary_main: [
+            {
+              ...cells.summary_main[0],
+              confidence: 0.3,
+              issue: "The text doesn't say cells are the basic unit of life.",
+              key_terms: [{ term: "Nucleus", definition: "Center of the cell", confidence: 0.95 }],
+            },
+          ],
+        },
+        genetics,
+      ],
+      questions: [{ ...readyCourse.questions[0], answer_confidence: 0.4 }, readyCourse.questions[1]],
+    };
+    vi.mocked(apiFetch).mockImplementation(async (url: string) => {
+      if (url === "/api/courses/course-1") return checked;
+      return {};
+    });
+
+    renderCourse();
+
+    await user.click(await screen.findByText("1. Introduction to Cells"));
+    const badges = screen.getAllByText(/Not clearly in the text/);
+    expect(badges).toHaveLength(2);
+    expect(badges[0]).toHaveAttribute(
+      "title",
+      "Not clearly in the text: The text doesn't say cells are the basic unit of life."
+    );
+    // Supported key terms get no warning
+    expect(screen.queryByLabelText("Not clearly in the text")).not.toBeInTheDocument();
+  });
+
+  it("flags chapters whose text came from OCR", async () => {
+    const scanned = {
+      ...readyCourse,
+      chapters: [
+        { ...readyCourse.chapters[0], ocr_pages: [3, 4], ocr_confidence: 71 },
+        readyCourse.chapters[1],
+      ],
+    };
+    vi.mocked(apiFetch).mockImplementation(async (url: string) => {
+      if (url === "/api/courses/course-1") return scanned;
+      return {};
+    });
+
+    renderCourse();
+
+    const badges = await screen.findAllByText("Scanned");
+    expect(badges).toHaveLength(1);
+    expect(badges[0]).toHaveAttribute(
+      "title",
+      "Text on pages 3, 4 was recognized from a scan and may contain errors"
+    );
+  });
+
   it("navigates to study plan page", async () => {
     const user = userEvent.setup();
     renderCourse();
@@ -318,12 +588,6 @@ describe("Course", () => {
   it("shows processing prompt for uploaded course", async () => {
     vi.mocked(apiFetch).mockImplementation(async (url: string) => {
       if (url === "/api/courses/course-1") return uploadedCourse;
-      if (url === "/api/ai/models") {
-        return {
-          models: [{ id: "claude-sonnet-4-5-20250929", label: "Sonnet 4.5" }],
-          default: "claude-sonnet-4-5-20250929",
-        };
-      }
       return {};
     });
 
@@ -335,12 +599,25 @@ describe("Course", () => {
     expect(screen.getByText("Summarize with AI")).toBeInTheDocument();
   });
 
+  it("shows the token estimate of detecting the chapters of an uploaded course", async () => {
+    vi.mocked(apiFetch).mockImplementation(async (url: string) => {
+      if (url === "/api/courses/course-1") return uploadedCourse;
+      if (url === "/api/ai/estimate-processing/course-1") {
+        return { estimatedTokens: 42_000, remainingTokens: 30_000 };
+      }
+      return {};
+    });
+
+    renderCourse();
+
+    expect(
+      await screen.findByText("This will use ~42k tokens of the 30k left this month")
+    ).toHaveClass("text-red-600");
+  });
+
   it("shows processing state", async () => {
     vi.mocked(apiFetch).mockImplementation(async (url: string) => {
       if (url === "/api/courses/course-1") return processingCourse;
-      if (url === "/api/ai/models") {
-        return { models: [], default: "" };
-      }
       if (url.startsWith("/api/ai/progress/")) {
         return { step: "extracting", currentChapter: 0, totalChapters: 0, chapterTitle: "" };
       }
@@ -353,13 +630,17 @@ describe("Course", () => {
     expect(screen.getByText("Stop processing")).toBeInTheDocument();
   });
 
-  it("shows error state with retry button", async () => {
+  it("shows retry attempt while a failed job is queued again", async () => {
     vi.mocked(apiFetch).mockImplementation(async (url: string) => {
-      if (url === "/api/courses/course-1") return errorCourse;
-      if (url === "/api/ai/models") {
+      if (url === "/api/courses/course-1") return processingCourse;
+      if (url.startsWith("/api/ai/progress/")) {
         return {
-          models: [{ id: "claude-sonnet-4-5-20250929", label: "Sonnet 4.5" }],
-          default: "claude-sonnet-4-5-20250929",
+          step: "queued",
+          currentChapter: 0,
+          totalChapters: 0,
+          chapterTitle: "",
+          attempts: 1,
+          maxAttempts: 3,
         };
       }
       return {};
@@ -367,6 +648,103 @@ describe("Course", () => {
 
     renderCourse();
 
+    expect(await screen.findByText("Retrying (attempt 2 of 3)...")).toBeInTheDocument();
+  });
+
+  it("streams progress and lists chapters as they are found", async () => {
+    vi.mocked(apiFetch).mockImplementation(async (url: string) => {
+      if (url === "/api/courses/course-1") return processingCourse;
+      return {};
+    });
+    vi.mocked(apiStream).mockImplementation(async (_path, onEvent) => {
+      onEvent("progress", {
+        step: "saving_chapters",
+        currentChapter: 2,
+        totalChapters: 5,
+        chapterTitle: "Cell Division",
+        detectionStrategy: "headings",
+      });
+      onEvent("chapter", { id: "ch1", index: 0, title: "Introduction to Cells" });
+      onEvent("chapter", { id: "ch2", index: 1, title: "Cell Division" });
+      // Keep the stream open
+      await new Promise(() => {});
+    });
+
+    renderCourse();
+
+    expect(await screen.findByText("Outlining chapter 2 of 5")).toBeInTheDocument();
+    expect(screen.getByText("Chapters detected from the document's headings")).toBeInTheDocument();
+    expect(screen.getByText("Chapters found so far")).toBeInTheDocument();
+    expect(screen.getByText("1. Introduction to Cells")).toBeInTheDocument();
+    expect(screen.getByText("2. Cell Division")).toBeInTheDocument();
+    expect(apiStream).toHaveBeenCalledWith(
+      "/api/ai/progress/course-1/stream",
+      expect.any(Function),
+      expect.any(AbortSignal)
+    );
+    // Streaming replaces polling
+    expect(apiFetch).not.toHaveBeenCalledWith("/api/ai/progress/course-1");
+  });
+
+  it("keeps polling when the stream ends before the course leaves processing", async () => {
+    vi.mocked(apiFetch).mockImplementation(async (url: string) => {
+      if (url === "/api/courses/course-1") return processingCourse;
+      return { step: "error", currentChapter: 0, totalChapters: 0, chapterTitle: "" };
+    });
+    vi.mocked(apiStream).mockImplementation(async (_path, onEvent) => {
+      onEvent("error", { message: "Processing failed" });
+    });
+
+    renderCourse();
+
+    await waitFor(() => {
+      expect(apiFetch).toHaveBeenCalledWith("/api/ai/progress/course-1");
+    });
+  });
+
+  it("shows summary topics while the summary is being streamed", async () => {
+    const user = userEvent.setup();
+    const unsummarized = {
+      ...readyCourse,
+      chapters: [{ ...readyCourse.chapters[0], summary_main: null, summary_side: null }, readyCourse.chapters[1]],
+    };
+    vi.mocked(apiFetch).mockImplementation(async (url: string) => {
+      if (url === "/api/courses/course-1") return unsummarized;
+      return {};
+    });
+    vi.mocked(apiStream).mockImplementation(async (path, onEvent) => {
+      if (path !== "/api/ai/summarize-chapter/ch1") return;
+      onEvent("partial", {
+        summary_main: [{ topic: "Cell Theory", explanation: "All living things are made of cells.", key_terms: [] }],
+        summary_side: [],
+      });
+      // Keep the stream open
+      await new Promise(() => {});
+    });
+
+    renderCourse();
+
+    await user.click(await screen.findByText("1. Introduction to Cells"));
+    await user.click(screen.getByText("Summarize Chapter"));
+
+    expect(await screen.findByText("Cell Theory")).toBeInTheDocument();
+    expect(screen.getByText("Summarizing...")).toBeInTheDocument();
+    expect(apiStream).toHaveBeenCalledWith(
+      "/api/ai/summarize-chapter/ch1",
+      expect.any(Function),
+      undefined,
+      expect.objectContaining({ method: "POST" })
+    );
+  });
+
+  it("shows error state with retry button", async () => {
+    vi.mocked(apiFetch).mockImplementation(async (url: string) => {
+      if (url === "/api/courses/course-1") return errorCourse;
+      return {};
+    });
+
+    renderCourse();
+
     expect(
       await screen.findByText("Something went wrong while processing.")
     ).toBeInTheDocument();
@@ -410,6 +788,24 @@ describe("Course", () => {
     expect(screen.getByText("Generate Questions")).toBeInTheDocument();
   });
 
+  it("shows the token estimate under Generate Questions", async () => {
+    const user = userEvent.setup();
+    vi.mocked(apiFetch).mockImplementation(async (url: string) => {
+      if (url === "/api/courses/course-1") return readyCourse;
+      if (url === "/api/ai/estimate/ch2?for=questions") {
+        return { estimatedTokens: 35_200, remainingTokens: 120_000 };
+      }
+      return {};
+    });
+
+    renderCourse();
+    await user.click(await screen.findByText("2. Genetics"));
+
+    expect(
+      await screen.findByText("This will use ~35k tokens of the 120k left this month")
+    ).toBeInTheDocument();
+  });
+
   it("calls API and reloads when Generate Questions is clicked", async () => {
     const user = userEvent.setup();
 
@@ -439,14 +835,6 @@ describe("Course", () => {
         // After generating questions, return updated data
         return callCount > 1 ? questionsAfterGenerate : readyCourse;
       }
-      if (url === "/api/ai/models") {
-        return {
-          models: [
-            { id: "claude-sonnet-4-5-20250929", label: "Sonnet 4.5" },
-          ],
-          default: "claude-sonnet-4-5-20250929",
-        };
-      }
       return {};
     });
 
@@ -468,20 +856,53 @@ describe("Course", () => {
     });
   });
 
-  it("shows inline error when Generate Questions fails", async () => {
+  it("summarizes every unfinished chapter in the background", async () => {
     const user = userEvent.setup();
+    let started = false;
 
     vi.mocked(apiFetch).mockImplementation(async (url: string, options?: any) => {
-      if (url === "/api/ai/questions/ch2" && options?.method === "POST") {
-        throw new Error("AI service unavailable");
+      if (url === "/api/courses/course-1") return readyCourse;
+      if (url === "/api/ai/summarize-all/course-1" && options?.method === "POST") {
+        started = true;
+        return { message: "Summarizing started" };
+      }
+      if (url === "/api/ai/progress/course-1") {
+        return started
+          ? {
+              step: "waiting_for_batch",
+              currentChapter: 0,
+              totalChapters: 1,
+              chapterTitle: "",
+              jobType: "summarize_course",
+              jobStatus: "running",
+            }
+          : { step: "done", currentChapter: 2, totalChapters: 2, chapterTitle: "", jobType: "process_course", jobStatus: "done" };
       }
+      return {};
+    });
+
+    renderCourse();
+
+    // Genetics has a summary but no questions yet
+    await user.click(await screen.findByText("Summarize everything (1 chapter)"));
+
+    expect(apiFetch).toHaveBeenCalledWith("/api/ai/summarize-all/course-1", { method: "POST" });
+    expect(await screen.findByText("Summarizing 1 chapter at batch pricing")).toBeInTheDocument();
+    expect(screen.getByText("Stop summarizing")).toBeInTheDocument();
+    expect(screen.queryByText(/Summarize everything/)).not.toBeInTheDocument();
+  });
+
+  it("shows results of a running batch being saved", async () => {
+    vi.mocked(apiFetch).mockImplementation(async (url: string) => {
       if (url === "/api/courses/course-1") return readyCourse;
-      if (url === "/api/ai/models") {
+      if (url === "/api/ai/progress/course-1") {
         return {
-          models: [
-            { id: "claude-sonnet-4-5-20250929", label: "Sonnet 4.5" },
-          ],
-          default: "claude-sonnet-4-5-20250929",
+          step: "summarizing",
+          currentChapter: 1,
+          totalChapters: 2,
+          chapterTitle: "Genetics",
+          jobType: "summarize_course",
+          jobStatus: "running",
         };
       }
       return {};
@@ -489,6 +910,22 @@ describe("Course", () => {
 
     renderCourse();
 
+    expect(await screen.findByText("Saving chapter 1 of 2")).toBeInTheDocument();
+  });
+
+  it("shows inline error when Generate Questions fails", async () => {
+    const user = userEvent.setup();
+
+    vi.mocked(apiFetch).mockImplementation(async (url: string, options?: any) => {
+      if (url === "/api/ai/questions/ch2" && options?.method === "POST") {
+        throw new Error("AI service unavailable");
+      }
+      if (url === "/api/courses/course-1") return readyCourse;
+      return {};
+    });
+
+    renderCourse();
+
     await user.click(await screen.findByText("2. Genetics"));
     await user.click(screen.getByText("Generate Questions"));
 
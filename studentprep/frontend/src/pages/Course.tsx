@@ -1,31 +1,67 @@
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
-import { apiFetch, apiFetchBlob, UpgradeRequiredError } from "../lib/api";
-import { UpgradePrompt } from "../components/UpgradePrompt";
+import { apiFetch, apiFetchBlob, apiStream, UpgradeRequiredError } from "../lib/api";
+import { ProBadge, UpgradePrompt } from "../components/UpgradePrompt";
+import { ChapterEditor } from "../components/ChapterEditor";
 import { useSubscriptionContext } from "../contexts/SubscriptionContext";
 
-interface KeyTerm {
+/** Where a summary point comes from in the chapter's raw text. */
+interface SourceAnchor {
+  start: number;
+  end: number;
+  page?: number;
+}
+
+/** Result of checking a generated statement against the chapter text. */
+interface Verification {
+  confidence?: number; // 0–1
+  issue?: string;
+}
+
+interface KeyTerm extends Verification {
   term: string;
   definition: string;
+  source?: SourceAnchor;
 }
 
-interface MainTopic {
+interface MainTopic extends Verification {
   topic: string;
   explanation: string;
   key_terms: (KeyTerm | string)[];
+  source?: SourceAnchor;
 }
 
-interface SideTopic {
+interface SideTopic extends Verification {
   topic: string;
   explanation: string;
 }
 
+interface SourceView {
+  chapterId: string;
+  label: string;
+  source: SourceAnchor;
+}
+
+/** Characters of surrounding text shown on each side of a cited passage. */
+const SOURCE_CONTEXT = 400;
+
+/** Below this confidence a statement is flagged as not clearly supported by the chapter. */
+const SUPPORTED_CONFIDENCE = 0.8;
+
 interface Chapter {
   id: string;
   title: string;
   summary_main: MainTopic[] | null;
   summary_side: SideTopic[] | null;
+  summary_coverage?: number | null; // fraction of the text the summary is based on
+  questions_coverage?: number | null; // fraction of the text the questions are based on
   sort_order: number;
+  parent_id?: string | null;
+  depth?: number;
+  start_page?: number | null;
+  end_page?: number | null;
+  ocr_pages?: number[];
+  ocr_confidence?: number | null;
 }
 
 interface Translations {
@@ -45,6 +81,8 @@ interface Question {
   suggested_answer: string;
   question_translations?: Translations;
   answer_translations?: Translations;
+  answer_confidence?: number | null;
+  answer_issue?: string | null;
 }
 
 type Language = "en" | "nl" | "fr" | "zh" | "hi" | "es" | "ar";
@@ -75,6 +113,7 @@ function TranslateButtons({
   colorScheme: "indigo" | "purple";
 }) {
   const [loading, setLoading] = useState<TranslateLang | null>(null);
+  const { canTranslateTo } = useSubscriptionContext();
 
   const colors = {
     indigo: {
@@ -128,7 +167,7 @@ function TranslateButtons({
       >
         {"\uD83C\uDDEC\uD83C\uDDE7"}
       </button>
-      {TRANSLATE_OPTIONS.map((opt) => (
+      {TRANSLATE_OPTIONS.filter((opt) => canTranslateTo(opt.lang)).map((opt) => (
         <button
           key={opt.lang}
           onClick={() => handleTranslate(opt.lang)}
@@ -149,6 +188,42 @@ function TranslateButtons({
   );
 }
 
+function formatTokens(n: number): string {
+  return n >= 1000 ? `${Math.round(n / 1000)}k` : String(n);
+}
+
+/**
+ * "This will use ~35k tokens" under a button that runs the AI, from an
+ * estimate endpoint (`/api/ai/estimate/...`). Nothing is shown for operations
+ * that use no tokens.
+ */
+function TokenEstimate({ path }: { path: string }) {
+  const [estimate, setEstimate] = useState<{ estimatedTokens: number; remainingTokens: number | null } | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    apiFetch<{ estimatedTokens?: number; remainingTokens?: number | null }>(path)
+      .then((data) => {
+        if (active && typeof data?.estimatedTokens === "number") {
+          setEstimate({ estimatedTokens: data.estimatedTokens, remainingTokens: data.remainingTokens ?? null });
+        }
+      })
+      .catch(() => {});
+    return () => {
+      active = false;
+    };
+  }, [path]);
+
+  if (!estimate?.estimatedTokens) return null;
+  const overBudget = estimate.remainingTokens !== null && estimate.estimatedTokens > estimate.remainingTokens;
+  return (
+    <p className={`mt-2 text-xs ${overBudget ? "text-red-600" : "text-gray-400"}`}>
+      This will use ~{formatTokens(estimate.estimatedTokens)} tokens
+      {estimate.remainingTokens !== null && ` of the ${formatTokens(estimate.remainingTokens)} left this month`}
+    </p>
+  );
+}
+
 interface WikiResult {
   title: string;
   extract: string;
@@ -161,24 +236,40 @@ interface CourseData {
   title: string;
   status: string;
   created_at: string;
+  mime_type?: string;
 }
 
 interface ProcessingProgress {
-  step: "extracting" | "detecting" | "saving_chapters" | "done" | "unknown";
+  step:
+    | "queued"
+    | "extracting"
+    | "detecting"
+    | "saving_chapters"
+    | "submitting_batch"
+    | "waiting_for_batch"
+    | "summarizing"
+    | "done"
+    | "error"
+    | "unknown";
   currentChapter: number;
   totalChapters: number;
   chapterTitle: string;
+  jobType?: "process_course" | "summarize_course";
+  jobStatus?: "queued" | "running" | "done" | "error" | "cancelled";
+  error?: string;
+  attempts?: number;
+  maxAttempts?: number;
+  detectionStrategy?: "outline" | "headings" | "ai";
 }
 
-interface AIModelOption {
+interface FoundChapter {
   id: string;
-  label: string;
+  index: number;
+  title: string;
+  startPage?: number | null;
+  endPage?: number | null;
 }
 
-const FALLBACK_MODELS: AIModelOption[] = [
-  { id: "claude-sonnet-4-5-20250929", label: "Sonnet 4.5" },
-];
-
 /* ── Processing stepper config ── */
 const STEPPER_STEPS = [
   { key: "extracting", label: "Extract" },
@@ -187,26 +278,111 @@ const STEPPER_STEPS = [
   { key: "done", label: "Done" },
 ] as const;
 
+const DETECTION_STRATEGY_LABELS: Record<string, string> = {
+  outline: "Chapters taken from the document's bookmarks",
+  headings: "Chapters detected from the document's headings",
+  ai: "Chapters detected with AI",
+};
+
+/** Batches take minutes to hours, so "summarize everything" is polled slowly. */
+const SUMMARIZE_ALL_POLL_MS = 10_000;
+
+function chapterCount(n: number): string {
+  return `${n} ${n === 1 ? "chapter" : "chapters"}`;
+}
+
+function summarizeAllLabel(progress: ProcessingProgress): string {
+  switch (progress.step) {
+    case "submitting_batch":
+      return `Sending ${chapterCount(progress.totalChapters)} to the AI...`;
+    case "waiting_for_batch":
+      return `Summarizing ${chapterCount(progress.totalChapters)} at batch pricing`;
+    case "summarizing":
+      return `Saving chapter ${progress.currentChapter} of ${progress.totalChapters}`;
+    default:
+      return "Waiting in queue...";
+  }
+}
+
 function stepIndex(step: string): number {
   const idx = STEPPER_STEPS.findIndex((s) => s.key === step);
   return idx >= 0 ? idx : 0;
 }
 
+const PPTX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation";
+
+function formatPageRange(
+  start?: number | null,
+  end?: number | null,
+  slides = false
+): string | null {
+  if (!start) return null;
+  if (slides) {
+    return !end || end === start ? `slide ${start}` : `slides ${start}–${end}`;
+  }
+  if (!end || end === start) return `p. ${start}`;
+  return `pp. ${start}–${end}`;
+}
+
+interface OutlineEntry {
+  number: string; // "1", "1.2", ...
+  depth: number;
+  childIds: string[];
+}
+
+/**
+ * Number chapters by their place in the tree ("1", "1.2", ...) and collect
+ * each chapter's direct children. Chapters are expected in reading order.
+ */
+function buildOutline(chapters: Chapter[]): Map<string, OutlineEntry> {
+  const outline = new Map<string, OutlineEntry>();
+  let roots = 0;
+  for (const ch of chapters) {
+    const parent = ch.parent_id ? outline.get(ch.parent_id) : undefined;
+    if (parent) {
+      parent.childIds.push(ch.id);
+      outline.set(ch.id, {
+        number: `${parent.number}.${parent.childIds.length}`,
+        depth: parent.depth + 1,
+        childIds: [],
+      });
+    } else {
+      roots += 1;
+      outline.set(ch.id, { number: String(roots), depth: 0, childIds: [] });
+    }
+  }
+  return outline;
+}
+
+/** A chapter and everything below it, in reading order. */
+function subtreeIds(outline: Map<string, OutlineEntry>, id: string): string[] {
+  return [id, ...(outline.get(id)?.childIds ?? []).flatMap((child) => subtreeIds(outline, child))];
+}
+
+/** Prefix the outline number unless the title already carries its own numbering. */
+function numberedTitle(title: string, entry?: OutlineEntry): string {
+  if (!entry || /^\d/.test(title)) return title;
+  return entry.depth === 0 ? `${entry.number}. ${title}` : `${entry.number} ${title}`;
+}
+
 export default function Course() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { refresh: refreshSubscription } = useSubscriptionContext();
+  const { refresh: refreshSubscription, hasEntitlement } = useSubscriptionContext();
   const [course, setCourse] = useState<CourseData | null>(null);
   const [chapters, setChapters] = useState<Chapter[]>([]);
   const [questions, setQuestions] = useState<Question[]>([]);
   const [expandedChapter, setExpandedChapter] = useState<string | null>(null);
+  // Parts/chapters whose sections are hidden; everything starts open
+  const [collapsedChapters, setCollapsedChapters] = useState<Set<string>>(new Set());
+  const [editingChapters, setEditingChapters] = useState(false);
   const [processing, setProcessing] = useState(false);
   const [cancelling, setCancelling] = useState(false);
   const [error, setError] = useState("");
   const [upgradeError, setUpgradeError] = useState<string | null>(null);
   const [progress, setProgress] = useState<ProcessingProgress | null>(null);
-  const [models, setModels] = useState<AIModelOption[]>(FALLBACK_MODELS);
-  const [selectedModel, setSelectedModel] = useState<string>("claude-sonnet-4-5-20250929");
+  const [foundChapters, setFoundChapters] = useState<FoundChapter[]>([]);
   const [generatingQuestions, setGeneratingQuestions] = useState<string | null>(null);
   const [generateError, setGenerateError] = useState<string | null>(null);
   const [summarizingChapter, setSummarizingChapter] = useState<string | null>(null);
@@ -217,8 +393,15 @@ export default function Course() {
   const [wikiTopic, setWikiTopic] = useState<string | null>(null);
   const [exportingPdf, setExportingPdf] = useState(false);
   const [exportError, setExportError] = useState<string | null>(null);
-
-  const loadCourse = useCallback(async () => {
+  const [sourceView, setSourceView] = useState<SourceView | null>(null);
+  const [chapterTexts, setChapterTexts] = useState<Record<string, string>>({});
+  const [sourceError, setSourceError] = useState<string | null>(null);
+  // Latest "summarize everything" job of the course, if any
+  const [summarizeAll, setSummarizeAll] = useState<ProcessingProgress | null>(null);
+  const [startingSummarizeAll, setStartingSummarizeAll] = useState(false);
+  const lastSummarizeAll = useRef<ProcessingProgress | null>(null);
+
+  const loadCourse = useCallback(async (): Promise<CourseData | undefined> => {
     if (!id) return;
     try {
       const data = await apiFetch<{
@@ -229,6 +412,7 @@ export default function Course() {
       setCourse(data.course);
       setChapters(data.chapters);
       setQuestions(data.questions);
+      return data.course;
     } catch {
       setError("Failed to load course");
     }
@@ -238,24 +422,18 @@ export default function Course() {
     loadCourse();
   }, [loadCourse]);
 
-  useEffect(() => {
-    apiFetch<{ models: AIModelOption[]; default: string }>("/api/ai/models")
-      .then((data) => {
-        setModels(data.models);
-        setSelectedModel(data.default);
-      })
-      .catch(() => {
-        // Use fallback models
-      });
-  }, []);
-
-  // Poll while processing
+  // Stream progress while processing; fall back to polling if the stream is unavailable
   useEffect(() => {
     if (course?.status !== "processing") {
       setProgress(null);
+      setFoundChapters([]);
       return;
     }
 
+    const controller = new AbortController();
+    let progressInterval: ReturnType<typeof setInterval> | undefined;
+    let courseInterval: ReturnType<typeof setInterval> | undefined;
+
     const pollProgress = async () => {
       try {
         const data = await apiFetch<ProcessingProgress>(`/api/ai/progress/${id}`);
@@ -265,16 +443,125 @@ export default function Course() {
       }
     };
 
-    pollProgress();
-    const progressInterval = setInterval(pollProgress, 2000);
-    const courseInterval = setInterval(loadCourse, 5000);
+    const startPolling = () => {
+      if (controller.signal.aborted) return;
+      pollProgress();
+      progressInterval = setInterval(pollProgress, 2000);
+      courseInterval = setInterval(loadCourse, 5000);
+    };
+
+    const streamProgress = async () => {
+      let finished = false;
+      try {
+        await apiStream(
+          `/api/ai/progress/${id}/stream`,
+          (event, data) => {
+            if (event === "progress") {
+              setProgress(data as ProcessingProgress);
+            } else if (event === "chapter") {
+              const chapter = data as FoundChapter;
+              setFoundChapters((prev) =>
+                prev.some((c) => c.index === chapter.index) ? prev : [...prev, chapter]
+              );
+            } else if (event === "done" || event === "error" || event === "cancelled") {
+              finished = true;
+            }
+          },
+          controller.signal
+        );
+      } catch {
+        // Stream not available — polling below takes over
+      }
+      if (controller.signal.aborted) return;
+      if (finished) {
+        // The course can lag behind the job; keep polling until it changes
+        const reloaded = await loadCourse();
+        if (reloaded?.status === "processing") startPolling();
+      } else {
+        startPolling();
+      }
+    };
+
+    streamProgress();
     return () => {
+      controller.abort();
       clearInterval(progressInterval);
       clearInterval(courseInterval);
     };
   }, [course?.status, loadCourse, id]);
 
-  const startProcessing = async () => {
+  const checkSummarizeAll = useCallback(async () => {
+    if (!id) return;
+    try {
+      const data = await apiFetch<ProcessingProgress>(`/api/ai/progress/${id}`);
+      const job = data.jobType === "summarize_course" ? data : null;
+      // Chapters fill in as their results are saved
+      const last = lastSummarizeAll.current;
+      if (
+        last &&
+        job &&
+        (job.currentChapter !== last.currentChapter || job.step !== last.step || job.jobStatus !== last.jobStatus)
+      ) {
+        loadCourse();
+      }
+      lastSummarizeAll.current = job;
+      setSummarizeAll(job);
+    } catch {
+      // ignore polling errors
+    }
+  }, [id, loadCourse]);
+
+  const summarizeAllActive =
+    summarizeAll?.jobStatus === "queued" || summarizeAll?.jobStatus === "running";
+
+  useEffect(() => {
+    if (course?.status === "ready") checkSummarizeAll();
+  }, [course?.status, checkSummarizeAll]);
+
+  useEffect(() => {
+    if (!summarizeAllActive) return;
+    const interval = setInterval(checkSummarizeAll, SUMMARIZE_ALL_POLL_MS);
+    return () => clearInterval(interval);
+  }, [summarizeAllActive, checkSummarizeAll]);
+
+  /** Summarize every chapter that lacks a summary or questions, in the background. */
+  const startSummarizeAll = async () => {
+    if (!id) return;
+    setStartingSummarizeAll(true);
+    setError("");
+    try {
+      await apiFetch(`/api/ai/summarize-all/${id}`, { method: "POST" });
+      await checkSummarizeAll();
+    } catch (err) {
+      if (err instanceof UpgradeRequiredError) {
+        setUpgradeError(err.message);
+      } else {
+        setError(err instanceof Error ? err.message : "Failed to start summarizing");
+      }
+    } finally {
+      setStartingSummarizeAll(false);
+    }
+  };
+
+  const stopSummarizeAll = async () => {
+    if (!id) return;
+    setCancelling(true);
+    try {
+      await apiFetch(`/api/ai/cancel/${id}`, { method: "POST" });
+      await checkSummarizeAll();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to cancel");
+    } finally {
+      setCancelling(false);
+      refreshSubscription();
+    }
+  };
+
+  /**
+   * Start processing. "incremental" re-detects chapters of a processed course
+   * but keeps chapters whose text didn't change, with their summaries and questions.
+   */
+  const startProcessing = async (mode: "full" | "incremental" = "full") => {
     if (!id) return;
     setProcessing(true);
     setError("");
@@ -282,7 +569,7 @@ export default function Course() {
       await apiFetch(`/api/ai/summarize/${id}`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ model: selectedModel }),
+        body: JSON.stringify({ mode }),
       });
       await loadCourse();
     } catch (err) {
@@ -337,12 +624,32 @@ export default function Course() {
     setSummarizingChapter(chapterId);
     setSummarizeError(null);
     try {
-      await apiFetch(`/api/ai/summarize-chapter/${chapterId}`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ model: selectedModel }),
-      });
-      await loadCourse();
+      let streamError: string | null = null;
+      // Topics are shown as they arrive, before they are anchored and verified
+      await apiStream(
+        `/api/ai/summarize-chapter/${chapterId}`,
+        (event, data) => {
+          const payload = data as {
+            summary_main?: MainTopic[];
+            summary_side?: SideTopic[];
+            error?: string;
+          };
+          if (event === "partial") {
+            setChapters((prev) =>
+              prev.map((ch) =>
+                ch.id === chapterId
+                  ? { ...ch, summary_main: payload.summary_main ?? [], summary_side: payload.summary_side ?? [] }
+                  : ch
+              )
+            );
+          } else if (event === "error") {
+            streamError = payload.error || "Failed to summarize chapter";
+          }
+        },
+        undefined,
+        { method: "POST" }
+      );
+      if (streamError) throw new Error(streamError);
     } catch (err) {
       if (err instanceof UpgradeRequiredError) {
         setUpgradeError(err.message);
@@ -352,6 +659,8 @@ export default function Course() {
         );
       }
     } finally {
+      // Replaces the streamed topics with the saved summary, or drops them if it failed
+      await loadCourse();
       setSummarizingChapter(null);
       refreshSubscription();
     }
@@ -380,13 +689,41 @@ export default function Course() {
     setWikiTopic(null);
   };
 
-  const exportHighlightedPdf = async () => {
+  const showSource = async (chapterId: string, label: string, source: SourceAnchor) => {
+    setSourceView({ chapterId, label, source });
+    setSourceError(null);
+    if (chapterTexts[chapterId] !== undefined) return;
+    try {
+      const data = await apiFetch<{ chapter: { raw_text: string } }>(`/api/chapters/${chapterId}/text`);
+      setChapterTexts((prev) => ({ ...prev, [chapterId]: data.chapter.raw_text }));
+    } catch (err) {
+      setSourceError(err instanceof Error ? err.message : "Failed to load chapter text");
+    }
+  };
+
+  const toggleCollapsed = (chapterId: string) => {
+    setCollapsedChapters((prev) => {
+      const next = new Set(prev);
+      if (next.has(chapterId)) next.delete(chapterId);
+      else next.add(chapterId);
+      return next;
+    });
+  };
+
+  /** Export the whole course, or only the given chapters and their sections. */
+  const exportHighlightedPdf = async (chapterIds?: string[]) => {
     if (!id) return;
     setExportingPdf(true);
     setExportError(null);
     try {
       const blob = await apiFetchBlob(`/api/pdf/highlighted/${id}`, {
         method: "POST",
+        ...(chapterIds
+          ? {
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ chapterIds }),
+            }
+          : {}),
       });
       const url = URL.createObjectURL(blob);
       const a = document.createElement("a");
@@ -397,9 +734,13 @@ export default function Course() {
       document.body.removeChild(a);
       URL.revokeObjectURL(url);
     } catch (err) {
-      setExportError(
-        err instanceof Error ? err.message : "Failed to export PDF"
-      );
+      if (err instanceof UpgradeRequiredError) {
+        setUpgradeError(err.message);
+      } else {
+        setExportError(
+          err instanceof Error ? err.message : "Failed to export PDF"
+        );
+      }
     } finally {
       setExportingPdf(false);
     }
@@ -418,6 +759,15 @@ export default function Course() {
   }
 
   const isProcessing = course.status === "processing";
+  const isSlideDeck = course.mime_type === PPTX_MIME_TYPE;
+  const outline = buildOutline(chapters);
+  // Sections of a collapsed part/chapter are hidden, at any depth
+  const hiddenChapters = new Set<string>();
+  for (const ch of chapters) {
+    if (ch.parent_id && (collapsedChapters.has(ch.parent_id) || hiddenChapters.has(ch.parent_id))) {
+      hiddenChapters.add(ch.id);
+    }
+  }
   const isReady = course.status === "ready";
   const isUploaded = course.status === "uploaded";
 
@@ -474,30 +824,14 @@ export default function Course() {
             <p className="mb-4 text-lg font-semibold text-gray-700">
               PDF uploaded. Ready to process with AI?
             </p>
-            <div className="mb-4 flex items-center justify-center gap-3">
-              <label className="text-sm font-medium text-gray-600">
-                Model:
-              </label>
-              <select
-                value={selectedModel}
-                onChange={(e) => setSelectedModel(e.target.value)}
-                disabled={processing}
-                className="rounded-xl border border-gray-200 bg-white px-3 py-2 text-sm text-gray-700 shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500 disabled:opacity-50"
-              >
-                {models.map((m) => (
-                  <option key={m.id} value={m.id}>
-                    {m.label}
-                  </option>
-                ))}
-              </select>
-            </div>
             <button
-              onClick={startProcessing}
+              onClick={() => startProcessing()}
               disabled={processing}
               className="btn-press rounded-xl bg-indigo-600 px-6 py-3 font-semibold text-white transition hover:bg-indigo-700 disabled:opacity-50 shadow-sm shadow-indigo-200"
             >
               {processing ? "Starting..." : "Summarize with AI"}
             </button>
+            <TokenEstimate path={`/api/ai/estimate-processing/${course.id}`} />
           </div>
         )}
 
@@ -556,16 +890,27 @@ export default function Course() {
               <p className="text-lg font-semibold text-blue-700">
                 {!progress || progress.step === "unknown"
                   ? "Starting..."
-                  : progress.step === "extracting"
-                    ? "Extracting text from PDF..."
-                    : progress.step === "detecting"
-                      ? "Detecting chapters..."
-                      : progress.step === "saving_chapters"
-                        ? `Outlining chapter ${progress.currentChapter} of ${progress.totalChapters}`
-                        : "Finishing up..."}
+                  : progress.step === "queued"
+                    ? progress.attempts
+                      ? `Retrying (attempt ${progress.attempts + 1} of ${progress.maxAttempts})...`
+                      : "Waiting in queue..."
+                    : progress.step === "extracting"
+                      ? "Extracting text from PDF..."
+                      : progress.step === "detecting"
+                        ? "Detecting chapters..."
+                        : progress.step === "saving_chapters"
+                          ? `Outlining chapter ${progress.currentChapter} of ${progress.totalChapters}`
+                          : "Finishing up..."}
               </p>
             </div>
 
+            {/* How chapters were found */}
+            {progress?.detectionStrategy && (
+              <p className="mb-2 text-center text-xs text-blue-500">
+                {DETECTION_STRATEGY_LABELS[progress.detectionStrategy]}
+              </p>
+            )}
+
             {/* Chapter title */}
             {progress?.step === "saving_chapters" && progress.chapterTitle && (
               <p className="mb-4 text-center text-sm text-blue-600 truncate">
@@ -599,6 +944,27 @@ export default function Course() {
               </div>
             )}
 
+            {/* Chapters saved so far */}
+            {foundChapters.length > 0 && (
+              <div className="mx-auto mt-4 max-w-md">
+                <p className="mb-1 text-xs font-semibold uppercase tracking-wide text-blue-500">
+                  Chapters found so far
+                </p>
+                <ol className="space-y-1 text-sm text-blue-700">
+                  {foundChapters.map((ch) => (
+                    <li key={ch.id} className="truncate animate-fade-in-up">
+                      {ch.index + 1}. {ch.title}
+                      {formatPageRange(ch.startPage, ch.endPage, isSlideDeck) && (
+                        <span className="ml-2 text-xs text-blue-400">
+                          {formatPageRange(ch.startPage, ch.endPage, isSlideDeck)}
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+
             <div className="mt-4 text-center">
               <button
                 onClick={cancelProcessing}
@@ -621,30 +987,14 @@ export default function Course() {
             <p className="text-lg font-semibold text-red-700">
               Something went wrong while processing.
             </p>
-            <div className="mt-4 flex items-center justify-center gap-3">
-              <label className="text-sm font-medium text-gray-600">
-                Model:
-              </label>
-              <select
-                value={selectedModel}
-                onChange={(e) => setSelectedModel(e.target.value)}
-                disabled={processing}
-                className="rounded-xl border border-gray-200 bg-white px-3 py-2 text-sm text-gray-700 shadow-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500 disabled:opacity-50"
-              >
-                {models.map((m) => (
-                  <option key={m.id} value={m.id}>
-                    {m.label}
-                  </option>
-                ))}
-              </select>
-            </div>
             <button
-              onClick={startProcessing}
+              onClick={() => startProcessing()}
               disabled={processing}
               className="btn-press mt-4 rounded-xl bg-red-600 px-6 py-3 font-semibold text-white transition hover:bg-red-700 disabled:opacity-50"
             >
               {processing ? "Starting..." : "Retry"}
             </button>
+            <TokenEstimate path={`/api/ai/estimate-processing/${course.id}`} />
           </div>
         )}
 
@@ -653,8 +1003,23 @@ export default function Course() {
           const chaptersWithQuestions = chapters.filter((c) =>
             questions.some((q) => q.chapter_id === c.id)
           );
+          const unfinishedChapters = chapters.filter(
+            (c) => !c.summary_main?.length || !chaptersWithQuestions.includes(c)
+          );
           return (
             <div className="mb-8 flex flex-wrap gap-3">
+              {unfinishedChapters.length > 0 && !summarizeAllActive && (
+                <button
+                  onClick={startSummarizeAll}
+                  disabled={startingSummarizeAll}
+                  title="Summaries and questions for every chapter, at half the price, within a few hours"
+                  className="btn-press rounded-xl border border-indigo-200 bg-white px-5 py-2.5 font-semibold text-indigo-700 hover:bg-indigo-50 disabled:opacity-50 transition"
+                >
+                  {startingSummarizeAll
+                    ? "Starting..."
+                    : `Summarize everything (${chapterCount(unfinishedChapters.length)})`}
+                </button>
+              )}
               <button
                 onClick={() => navigate(`/study-plan/${id}`)}
                 className="btn-press rounded-xl bg-indigo-600 px-5 py-2.5 font-semibold text-white hover:bg-indigo-700 shadow-sm shadow-indigo-200 transition"
@@ -680,7 +1045,7 @@ export default function Course() {
                 </span>
               )}
               <button
-                onClick={exportHighlightedPdf}
+                onClick={() => exportHighlightedPdf()}
                 disabled={exportingPdf}
                 className="btn-press rounded-xl border border-yellow-300 bg-yellow-50 px-5 py-2.5 font-semibold text-yellow-700 hover:bg-yellow-100 disabled:opacity-50 transition"
               >
@@ -690,9 +1055,33 @@ export default function Course() {
                     Generating PDF...
                   </span>
                 ) : (
-                  "Export Highlighted PDF"
+                  <span className="inline-flex items-center gap-2">
+                    Export Highlighted PDF
+                    {!hasEntitlement("pdfExport") && <ProBadge />}
+                  </span>
                 )}
               </button>
+              <button
+                onClick={() => setEditingChapters(!editingChapters)}
+                className="btn-press rounded-xl border border-gray-200 bg-white px-5 py-2.5 font-semibold text-gray-700 hover:bg-gray-50 transition"
+              >
+                {editingChapters ? "Stop editing" : "Edit chapters"}
+              </button>
+              <button
+                onClick={() => {
+                  if (
+                    window.confirm(
+                      "Detect chapters again? Chapters whose text is unchanged keep their summaries and questions."
+                    )
+                  ) {
+                    startProcessing("incremental");
+                  }
+                }}
+                disabled={processing}
+                className="btn-press rounded-xl border border-gray-200 bg-white px-5 py-2.5 font-semibold text-gray-700 hover:bg-gray-50 disabled:opacity-50 transition"
+              >
+                Re-detect chapters
+              </button>
               {exportError && (
                 <p className="w-full text-sm text-red-600">{exportError}</p>
               )}
@@ -700,11 +1089,74 @@ export default function Course() {
           );
         })()}
 
+        {/* Summarize everything: a batch running in the background */}
+        {isReady && summarizeAll && summarizeAllActive && (
+          <div className="mb-8 rounded-2xl bg-gradient-to-br from-blue-50 to-white p-6 ring-1 ring-blue-100 animate-fade-in-up">
+            <div className="flex items-center gap-2">
+              <div className="h-5 w-5 animate-spin rounded-full border-[3px] border-blue-500 border-t-transparent" />
+              <p className="font-semibold text-blue-700">{summarizeAllLabel(summarizeAll)}</p>
+            </div>
+            {summarizeAll.step === "waiting_for_batch" && (
+              <p className="mt-2 text-sm text-blue-600">
+                Batches finish within 24 hours, usually much sooner. You can leave this page —
+                summaries and questions appear here as soon as they are ready.
+              </p>
+            )}
+            {summarizeAll.step === "summarizing" && summarizeAll.totalChapters > 0 && (
+              <div className="mt-3 max-w-md">
+                <div className="mb-1 h-2 overflow-hidden rounded-full bg-blue-100">
+                  <div
+                    className="h-full rounded-full bg-blue-500 transition-all duration-500"
+                    style={{
+                      width: `${Math.round((summarizeAll.currentChapter / summarizeAll.totalChapters) * 100)}%`,
+                    }}
+                  />
+                </div>
+                <p className="truncate text-xs text-blue-500">{summarizeAll.chapterTitle}</p>
+              </div>
+            )}
+            <button
+              onClick={stopSummarizeAll}
+              disabled={cancelling}
+              className="btn-press mt-4 rounded-xl border border-red-200 bg-white px-4 py-1.5 text-sm font-semibold text-red-600 hover:bg-red-50 disabled:opacity-50 transition"
+            >
+              {cancelling ? "Stopping..." : "Stop summarizing"}
+            </button>
+          </div>
+        )}
+
+        {isReady && summarizeAll?.jobStatus === "error" && (
+          <p className="mb-4 text-sm text-red-600">
+            Summarizing everything failed{summarizeAll.error ? `: ${summarizeAll.error}` : "."} Chapters
+            that were finished are kept.
+          </p>
+        )}
+
+        {/* Chapter editor: merge, split, rename, reorder */}
+        {isReady && chapters.length > 0 && editingChapters && (
+          <ChapterEditor
+            courseId={course.id}
+            chapters={chapters}
+            onChanged={async () => { await loadCourse(); }}
+            onClose={() => setEditingChapters(false)}
+          />
+        )}
+
         {/* Chapters */}
-        {isReady && chapters.length > 0 && (
+        {isReady && chapters.length > 0 && !editingChapters && (
           <div className="space-y-4">
-            {chapters.map((chapter) => {
+            {chapters.filter((chapter) => !hiddenChapters.has(chapter.id)).map((chapter) => {
               const isExpanded = expandedChapter === chapter.id;
+              const entry = outline.get(chapter.id);
+              const depth = entry?.depth ?? 0;
+              const hasSections = (entry?.childIds.length ?? 0) > 0;
+              const isCollapsed = collapsedChapters.has(chapter.id);
+              const scopeIds = subtreeIds(outline, chapter.id);
+              const scopeIdsWithQuestions = scopeIds.filter((chId) =>
+                questions.some((q) => q.chapter_id === chId)
+              );
+              const scopeLabel = depth === 0 ? "chapter" : "section";
+              const pageRange = formatPageRange(chapter.start_page, chapter.end_page, isSlideDeck);
               const chapterQuestions = getChapterQuestions(chapter.id);
               const examQs = chapterQuestions.filter(
                 (q) => q.type === "exam"
@@ -716,19 +1168,50 @@ export default function Course() {
               return (
                 <div
                   key={chapter.id}
+                  style={depth > 0 ? { marginLeft: `${depth * 1.5}rem` } : undefined}
                   className="card-interactive overflow-hidden rounded-xl bg-white shadow-sm ring-1 ring-gray-100"
                 >
                   {/* Chapter header */}
                   <div className="flex w-full items-center justify-between px-6 py-4 hover:bg-gray-50 transition">
+                    {hasSections && (
+                      <button
+                        onClick={() => toggleCollapsed(chapter.id)}
+                        aria-label={isCollapsed ? `Show sections of ${chapter.title}` : `Hide sections of ${chapter.title}`}
+                        aria-expanded={!isCollapsed}
+                        className={`mr-2 flex h-6 w-6 shrink-0 items-center justify-center rounded text-gray-400 hover:bg-gray-100 transition-transform ${isCollapsed ? "" : "rotate-90"}`}
+                      >
+                        <svg className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                          <path fillRule="evenodd" d="M7.293 14.707a1 1 0 010-1.414L10.586 10 7.293 6.707a1 1 0 011.414-1.414l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0z" clipRule="evenodd" />
+                        </svg>
+                      </button>
+                    )}
                     <button
                       onClick={() =>
                         setExpandedChapter(isExpanded ? null : chapter.id)
                       }
                       className="flex flex-1 items-center text-left"
                     >
-                      <h3 className="text-lg font-semibold">
-                        {chapter.title}
+                      <h3 className={depth === 0 ? "text-lg font-semibold" : "font-semibold text-gray-800"}>
+                        {numberedTitle(chapter.title, entry)}
                       </h3>
+                      {hasSections && isCollapsed && (
+                        <span className="ml-3 shrink-0 text-xs text-gray-400">
+                          {entry!.childIds.length} section{entry!.childIds.length === 1 ? "" : "s"}
+                        </span>
+                      )}
+                      {pageRange && (
+                        <span className="ml-3 shrink-0 text-sm text-gray-400">
+                          {pageRange}
+                        </span>
+                      )}
+                      {chapter.ocr_pages && chapter.ocr_pages.length > 0 && (
+                        <span
+                          title={`Text on page${chapter.ocr_pages.length > 1 ? "s" : ""} ${chapter.ocr_pages.join(", ")} was recognized from a scan and may contain errors`}
+                          className="ml-3 shrink-0 rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-700"
+                        >
+                          Scanned
+                        </span>
+                      )}
                     </button>
                     <div className="flex items-center gap-2">
                       <button
@@ -770,6 +1253,33 @@ export default function Course() {
                   {/* Expanded content */}
                   {isExpanded && (
                     <div className="border-t px-6 py-6 space-y-8 animate-fade-in-up">
+                      {/* Actions scoped to this part/chapter and its sections */}
+                      <div className="flex flex-wrap gap-2">
+                        {scopeIdsWithQuestions.length > 0 && (
+                          <button
+                            onClick={() =>
+                              navigate(`/quiz/${id}?chapters=${scopeIdsWithQuestions.join(",")}`)
+                            }
+                            className="btn-press rounded-lg border border-indigo-200 bg-indigo-50 px-3 py-1.5 text-sm font-medium text-indigo-700 hover:bg-indigo-100 transition"
+                          >
+                            Quiz this {scopeLabel}
+                          </button>
+                        )}
+                        <button
+                          onClick={() => navigate(`/study-plan/${id}?chapters=${chapter.id}`)}
+                          className="btn-press rounded-lg border border-gray-200 bg-white px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-50 transition"
+                        >
+                          Study plan for this {scopeLabel}
+                        </button>
+                        <button
+                          onClick={() => exportHighlightedPdf(scopeIds)}
+                          disabled={exportingPdf}
+                          className="btn-press rounded-lg border border-yellow-300 bg-yellow-50 px-3 py-1.5 text-sm font-medium text-yellow-700 hover:bg-yellow-100 disabled:opacity-50 transition"
+                        >
+                          Export this {scopeLabel} as PDF
+                        </button>
+                      </div>
+
                       {/* Summarize button when no summary exists */}
                       {(!chapter.summary_main || chapter.summary_main.length === 0) && (
                         <section className="rounded-xl border border-yellow-200 bg-gradient-to-br from-yellow-50 to-white p-6 text-center">
@@ -790,6 +1300,9 @@ export default function Course() {
                               "Summarize Chapter"
                             )}
                           </button>
+                          {summarizingChapter !== chapter.id && (
+                            <TokenEstimate path={`/api/ai/estimate/${chapter.id}?for=summary`} />
+                          )}
                           {summarizeError && summarizingChapter !== chapter.id && (
                             <p className="mt-2 text-sm text-red-600">
                               {summarizeError}
@@ -805,6 +1318,20 @@ export default function Course() {
                             <h4 className="mb-3 flex items-center gap-2 font-semibold text-yellow-700">
                               <span className="inline-block h-3 w-3 rounded-sm bg-yellow-400" />
                               Main Topics
+                              {summarizingChapter === chapter.id ? (
+                                <span className="ml-auto inline-flex items-center gap-2 text-xs font-normal text-gray-500">
+                                  <span className="h-3 w-3 animate-spin rounded-full border-2 border-yellow-500 border-t-transparent" />
+                                  Summarizing...
+                                </span>
+                              ) : chapter.summary_coverage != null && (
+                                <span
+                                  className={`ml-auto text-xs font-normal ${chapter.summary_coverage < 1 ? "text-amber-600" : "text-gray-400"}`}
+                                >
+                                  {chapter.summary_coverage < 1
+                                    ? `Based on the first ${Math.round(chapter.summary_coverage * 100)}% of the chapter`
+                                    : "Based on the full chapter"}
+                                </span>
+                              )}
                             </h4>
                             <div className="space-y-3">
                               {chapter.summary_main.map((topic, i) => (
@@ -812,14 +1339,27 @@ export default function Course() {
                                   key={i}
                                   className="rounded-xl border-l-4 border-yellow-400 bg-yellow-50/80 p-4"
                                 >
-                                  <button
-                                    type="button"
-                                    onClick={() => lookupWiki(chapter.id, topic.topic)}
-                                    title={`Look up "${topic.topic}" on Wikipedia`}
-                                    className="font-medium text-left hover:text-blue-700 hover:underline transition"
-                                  >
-                                    {topic.topic}
-                                  </button>
+                                  <div className="flex items-start gap-2">
+                                    <button
+                                      type="button"
+                                      onClick={() => lookupWiki(chapter.id, topic.topic)}
+                                      title={`Look up "${topic.topic}" on Wikipedia`}
+                                      className="font-medium text-left hover:text-blue-700 hover:underline transition"
+                                    >
+                                      {topic.topic}
+                                    </button>
+                                    <UnverifiedBadge confidence={topic.confidence} issue={topic.issue} />
+                                    {topic.source && (
+                                      <button
+                                        type="button"
+                                        onClick={() => showSource(chapter.id, topic.topic, topic.source!)}
+                                        aria-label={`Show source for ${topic.topic}`}
+                                        className="ml-auto shrink-0 rounded-lg px-2 py-0.5 text-xs text-yellow-800 hover:bg-yellow-100 transition"
+                                      >
+                                        Show source
+                                      </button>
+                                    )}
+                                  </div>
                                   <p className="mt-1 text-sm text-gray-700">
                                     {topic.explanation}
                                   </p>
@@ -829,16 +1369,31 @@ export default function Course() {
                                         {topic.key_terms.map((term, j) => {
                                           const label = typeof term === "string" ? term : term.term;
                                           const tooltip = typeof term === "string" ? undefined : term.definition;
+                                          const source = typeof term === "string" ? undefined : term.source;
+                                          const check = typeof term === "string" ? undefined : term;
                                           return (
-                                            <button
-                                              type="button"
-                                              key={j}
-                                              title={tooltip ? `${tooltip} (click for Wikipedia)` : "Click for Wikipedia"}
-                                              onClick={() => lookupWiki(chapter.id, label)}
-                                              className="rounded-lg bg-yellow-200 px-2.5 py-0.5 text-xs font-medium text-yellow-800 hover:bg-yellow-300 hover:underline cursor-pointer transition"
-                                            >
-                                              {label}
-                                            </button>
+                                            <span key={j} className="inline-flex items-center rounded-lg bg-yellow-200 text-xs font-medium text-yellow-800">
+                                              <button
+                                                type="button"
+                                                title={tooltip ? `${tooltip} (click for Wikipedia)` : "Click for Wikipedia"}
+                                                onClick={() => lookupWiki(chapter.id, label)}
+                                                className="rounded-lg px-2.5 py-0.5 hover:bg-yellow-300 hover:underline cursor-pointer transition"
+                                              >
+                                                {label}
+                                              </button>
+                                              <UnverifiedBadge confidence={check?.confidence} issue={check?.issue} compact />
+                                              {source && (
+                                                <button
+                                                  type="button"
+                                                  onClick={() => showSource(chapter.id, label, source)}
+                                                  aria-label={`Show source for ${label}`}
+                                                  title="Show source"
+                                                  className="rounded-r-lg border-l border-yellow-300 px-1.5 py-0.5 hover:bg-yellow-300 transition"
+                                                >
+                                                  ¶
+                                                </button>
+                                              )}
+                                            </span>
                                           );
                                         })}
                                       </div>
@@ -863,7 +1418,10 @@ export default function Course() {
                                   key={i}
                                   className="rounded-xl border-l-4 border-green-400 bg-green-50/80 p-4"
                                 >
-                                  <p className="font-medium">{topic.topic}</p>
+                                  <div className="flex items-start gap-2">
+                                    <p className="font-medium">{topic.topic}</p>
+                                    <UnverifiedBadge confidence={topic.confidence} issue={topic.issue} />
+                                  </div>
                                   <p className="mt-1 text-sm text-gray-700">
                                     {topic.explanation}
                                   </p>
@@ -876,8 +1434,17 @@ export default function Course() {
                       {/* Exam questions */}
                       {examQs.length > 0 && (
                         <section>
-                          <h4 className="mb-3 font-semibold text-indigo-700">
+                          <h4 className="mb-3 flex items-center gap-2 font-semibold text-indigo-700">
                             Exam Questions
+                            {chapter.questions_coverage != null && (
+                              <span
+                                className={`ml-auto text-xs font-normal ${chapter.questions_coverage < 1 ? "text-amber-600" : "text-gray-400"}`}
+                              >
+                                {chapter.questions_coverage < 1
+                                  ? `Based on the first ${Math.round(chapter.questions_coverage * 100)}% of the chapter`
+                                  : "Based on the full chapter"}
+                              </span>
+                            )}
                           </h4>
                           <div className="space-y-3">
                             {examQs.map((q, i) => (
@@ -927,6 +1494,9 @@ export default function Course() {
                               "Generate Questions"
                             )}
                           </button>
+                          {generatingQuestions !== chapter.id && (
+                            <TokenEstimate path={`/api/ai/estimate/${chapter.id}?for=questions`} />
+                          )}
                           {generateError && generatingQuestions !== chapter.id && (
                             <p className="mt-2 text-sm text-red-600">
                               {generateError}
@@ -1015,10 +1585,96 @@ export default function Course() {
           </div>
         </div>
       )}
+
+      {/* Source passage modal */}
+      {sourceView && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/40"
+          onClick={() => setSourceView(null)}
+        >
+          <div
+            className="mx-4 max-h-[80vh] w-full max-w-2xl overflow-y-auto rounded-2xl bg-white p-6 shadow-2xl ring-1 ring-gray-100 animate-fade-in-up"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="mb-4 flex items-start justify-between gap-4">
+              <div>
+                <h3 className="text-lg font-bold text-gray-900">{sourceView.label}</h3>
+                <p className="text-xs text-gray-400">
+                  Source in {chapters.find((ch) => ch.id === sourceView.chapterId)?.title ?? "chapter"}
+                  {sourceView.source.page !== undefined &&
+                    ` · ${formatPageRange(sourceView.source.page, null, isSlideDeck)}`}
+                </p>
+              </div>
+              <button
+                onClick={() => setSourceView(null)}
+                className="btn-press rounded-xl bg-gray-100 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-200"
+              >
+                Close
+              </button>
+            </div>
+
+            {sourceError ? (
+              <p className="text-sm text-red-600">{sourceError}</p>
+            ) : chapterTexts[sourceView.chapterId] === undefined ? (
+              <div className="flex items-center justify-center py-12">
+                <div className="h-8 w-8 animate-spin rounded-full border-4 border-yellow-400 border-t-transparent" />
+              </div>
+            ) : (
+              <SourcePassage text={chapterTexts[sourceView.chapterId]} source={sourceView.source} />
+            )}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
 
+/** The cited passage of a chapter, highlighted within some surrounding text. */
+function SourcePassage({ text, source }: { text: string; source: SourceAnchor }) {
+  const from = Math.max(0, source.start - SOURCE_CONTEXT);
+  const to = Math.min(text.length, source.end + SOURCE_CONTEXT);
+  return (
+    <p className="whitespace-pre-wrap text-sm leading-relaxed text-gray-600">
+      {from > 0 && "… "}
+      {text.slice(from, source.start)}
+      <mark className="rounded bg-yellow-200 px-0.5 text-gray-900">{text.slice(source.start, source.end)}</mark>
+      {text.slice(source.end, to)}
+      {to < text.length && " …"}
+    </p>
+  );
+}
+
+/** Warning for generated text that the chapter doesn't clearly support. */
+function UnverifiedBadge({
+  confidence,
+  issue,
+  compact = false,
+}: {
+  confidence?: number | null;
+  issue?: string | null;
+  compact?: boolean;
+}) {
+  if (confidence == null || confidence >= SUPPORTED_CONFIDENCE) return null;
+  const label = "Not clearly in the text";
+  const title = issue ? `${label}: ${issue}` : `${label} — check it against the chapter`;
+
+  if (compact) {
+    return (
+      <span role="img" aria-label={label} title={title} className="px-1 text-amber-700">
+        ⚠
+      </span>
+    );
+  }
+  return (
+    <span
+      title={title}
+      className="shrink-0 rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800"
+    >
+      ⚠ {label}
+    </span>
+  );
+}
+
 function ExamQuestion({ index, q }: { index: number; q: Question }) {
   const [showAnswer, setShowAnswer] = useState(false);
   const [questionLang, setQuestionLang] = useState<Language>("en");
@@ -1049,13 +1705,16 @@ function ExamQuestion({ index, q }: { index: number; q: Question }) {
           }}
         />
       </div>
-      <button
-        type="button"
-        onClick={() => setShowAnswer(!showAnswer)}
-        className="mt-1 rounded-lg px-3 py-1.5 text-sm font-medium text-indigo-600 hover:bg-indigo-100 transition"
-      >
-        {showAnswer ? "Hide answer" : "Show suggested answer"}
-      </button>
+      <div className="mt-1 flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => setShowAnswer(!showAnswer)}
+          className="rounded-lg px-3 py-1.5 text-sm font-medium text-indigo-600 hover:bg-indigo-100 transition"
+        >
+          {showAnswer ? "Hide answer" : "Show suggested answer"}
+        </button>
+        <UnverifiedBadge confidence={q.answer_confidence} issue={q.answer_issue} />
+      </div>
       {showAnswer && (
         <div className="mt-2">
           <div className="mb-1 flex justify-end">
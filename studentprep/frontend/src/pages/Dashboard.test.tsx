@@ -5,6 +5,7 @@ import { MemoryRouter } from "react-router-dom";
 import Dashboard from "./Dashboard";
 import { apiFetch, apiUpload } from "../lib/api";
 import { supabase } from "../lib/supabase";
+import { SubscriptionProvider } from "../contexts/SubscriptionContext";
 
 const mockNavigate = vi.fn();
 vi.mock("react-router-dom", async () => {
@@ -51,7 +52,7 @@ describe("Dashboard", () => {
   it("shows empty state when no courses exist", async () => {
     renderDashboard();
     expect(
-      await screen.findByText("No courses yet. Upload your first PDF!")
+      await screen.findByText("No courses yet. Upload your first course file!")
     ).toBeInTheDocument();
   });
 
@@ -72,10 +73,36 @@ describe("Dashboard", () => {
     expect(screen.getByText("Uploaded")).toBeInTheDocument();
   });
 
-  it("shows Upload PDF button", async () => {
+  it("shows the course count against the plan's course limit", async () => {
+    vi.mocked(apiFetch).mockImplementation(async (url: string) => {
+      if (url === "/api/courses") return { courses: [mockCourses[0]] };
+      if (url.startsWith("/api/ai/study-plans/")) return { plans: [] };
+      if (url === "/api/payments/status") {
+        return {
+          plan: "free",
+          status: "active",
+          limits: { maxTokensPerMonth: 50_000, maxCourses: 1 },
+          usage: { tokensThisMonth: 0, courses: 1 },
+        };
+      }
+      return {};
+    });
+
+    render(
+      <MemoryRouter>
+        <SubscriptionProvider>
+          <Dashboard />
+        </SubscriptionProvider>
+      </MemoryRouter>
+    );
+
+    expect(await screen.findByText("1 of 1 course on your plan")).toBeInTheDocument();
+  });
+
+  it("shows Upload file button", async () => {
     renderDashboard();
     await waitFor(() => {
-      expect(screen.getByText("Upload PDF")).toBeInTheDocument();
+      expect(screen.getByText("Upload file")).toBeInTheDocument();
     });
   });
 
@@ -142,7 +169,7 @@ describe("Dashboard", () => {
     renderDashboard();
 
     await waitFor(() => {
-      expect(screen.getByText("Upload PDF")).toBeInTheDocument();
+      expect(screen.getByText("Upload file")).toBeInTheDocument();
     });
 
     const fileInput = document.querySelector('input[type="file"]') as HTMLInputElement;
@@ -168,7 +195,7 @@ describe("Dashboard", () => {
     renderDashboard();
 
     await waitFor(() => {
-      expect(screen.getByText("Upload PDF")).toBeInTheDocument();
+      expect(screen.getByText("Upload file")).toBeInTheDocument();
     });
 
     const fileInput = document.querySelector('input[type="file"]') as HTMLInputElement;
@@ -62,6 +62,8 @@ const STATUS_CONFIG: Record<string, { label: string; color: string; icon: React.
 function courseEmoji(filename: string) {
   const ext = filename.split(".").pop()?.toLowerCase();
   if (ext === "pdf") return "\uD83D\uDCD5";
+  if (ext === "pptx") return "\uD83D\uDCCA";
+  if (ext === "docx") return "\uD83D\uDCDD";
   return "\uD83D\uDCC4";
 }
 
@@ -69,6 +71,7 @@ export default function Dashboard({ isAdmin }: { isAdmin?: boolean }) {
   const { user, signOut } = useAuth();
   const navigate = useNavigate();
   const { subscription } = useSubscriptionContext();
+  const maxCourses = subscription?.limits?.maxCourses;
   const [courses, setCourses] = useState<Course[]>([]);
   const [plansByCourse, setPlansByCourse] = useState<
     Record<string, StudyPlanSummary[]>
@@ -188,6 +191,12 @@ export default function Dashboard({ isAdmin }: { isAdmin?: boolean }) {
                 Admin Settings
               </button>
             )}
+            <button
+              onClick={() => navigate("/organization")}
+              className="btn-press rounded-lg border border-gray-200 px-3 py-1.5 text-sm font-medium text-gray-600 hover:bg-gray-50 transition"
+            >
+              Team
+            </button>
             {/* Plan badge */}
             {subscription && <PlanBadge plan={subscription.plan} />}
             {/* Avatar menu */}
@@ -237,8 +246,10 @@ export default function Dashboard({ isAdmin }: { isAdmin?: boolean }) {
             <h2 className="text-2xl font-bold tracking-tight">My courses</h2>
             <p className="mt-1 text-sm text-gray-500">
               {courses.length > 0
-                ? `${courses.length} course${courses.length !== 1 ? "s" : ""}`
-                : "Get started by uploading a PDF"}
+                ? maxCourses != null
+                  ? `${courses.length} of ${maxCourses} course${maxCourses !== 1 ? "s" : ""} on your plan`
+                  : `${courses.length} course${courses.length !== 1 ? "s" : ""}`
+                : "Get started by uploading your course material"}
             </p>
           </div>
           <label className="btn-press cursor-pointer rounded-xl bg-indigo-600 px-5 py-2.5 font-semibold text-white transition hover:bg-indigo-700 shadow-sm shadow-indigo-200">
@@ -248,12 +259,12 @@ export default function Dashboard({ isAdmin }: { isAdmin?: boolean }) {
                 Uploading...
               </span>
             ) : (
-              "Upload PDF"
+              "Upload file"
             )}
             <input
               ref={fileInputRef}
               type="file"
-              accept=".pdf"
+              accept=".pdf,.docx,.pptx,.md,.markdown,.txt"
               onChange={handleUpload}
               disabled={uploading}
               className="hidden"
@@ -295,10 +306,10 @@ export default function Dashboard({ isAdmin }: { isAdmin?: boolean }) {
               </svg>
             </div>
             <p className="text-lg font-semibold text-gray-700">
-              No courses yet. Upload your first PDF!
+              No courses yet. Upload your first course file!
             </p>
             <p className="mt-2 text-sm text-gray-400">
-              Supports PDF files up to 50 MB. We'll extract chapters and create study materials.
+              Supports PDF, Word (.docx), PowerPoint (.pptx), Markdown and text files up to 50 MB. We'll extract chapters and create study materials.
             </p>
           </div>
         ) : (
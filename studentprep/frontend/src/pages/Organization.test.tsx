@@ -0,0 +1,139 @@
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { MemoryRouter, Route, Routes } from "react-router-dom";
+import Organization from "./Organization";
+import { apiFetch } from "../lib/api";
+
+const mockNavigate = vi.fn();
+vi.mock("react-router-dom", async () => {
+  const actual = await vi.importActual("react-router-dom");
+  return { ...actual, useNavigate: () => mockNavigate };
+});
+
+function renderOrganization(path = "/organization") {
+  return render(
+    <MemoryRouter initialEntries={[path]}>
+      <Routes>
+        <Route path="/organization" element={<Organization />} />
+        <Route path="/organization/join/:token" element={<Organization />} />
+      </Routes>
+    </MemoryRouter>
+  );
+}
+
+const mockOrg = {
+  organization: {
+    id: "org-1",
+    name: "Biology 101",
+    seats: 5,
+    status: "active",
+    currentPeriodEnd: "2025-07-01T00:00:00Z",
+    hasStripeCustomer: true,
+  },
+  role: "owner",
+  members: [
+    { userId: "user-1", email: "test@example.com", role: "owner", joinedAt: "2025-06-01T00:00:00Z", tokensThisMonth: 12000 },
+    { userId: "user-2", email: "sam@example.com", role: "member", joinedAt: "2025-06-02T00:00:00Z", tokensThisMonth: 3400 },
+  ],
+  invitations: [
+    { id: "inv-1", email: "alex@example.com", link: "http://localhost:5173/organization/join/abc", expires_at: "2025-06-09T00:00:00Z" },
+  ],
+  budget: { limit: 10_000_000, used: 15400 },
+};
+
+describe("Organization", () => {
+  beforeEach(() => {
+    vi.mocked(apiFetch).mockReset();
+    mockNavigate.mockReset();
+  });
+
+  it("offers to create a team when the user has none", async () => {
+    vi.mocked(apiFetch).mockImplementation(async (url: string) => {
+      if (url === "/api/orgs/mine") return { organization: null };
+      return { organization: { id: "org-1" } };
+    });
+    renderOrganization();
+
+    const input = await screen.findByLabelText("Team name");
+    await userEvent.type(input, "Biology 101");
+    await userEvent.click(screen.getByText("Create team"));
+
+    await waitFor(() => {
+      expect(apiFetch).toHaveBeenCalledWith("/api/orgs", expect.objectContaining({
+        method: "POST",
+        body: JSON.stringify({ name: "Biology 101" }),
+      }));
+    });
+  });
+
+  it("shows members with their usage, seats and open invitations", async () => {
+    vi.mocked(apiFetch).mockResolvedValue(mockOrg);
+    renderOrganization();
+
+    expect(await screen.findByText("Biology 101")).toBeInTheDocument();
+    expect(screen.getByText(/3 of 5 seats taken/)).toBeInTheDocument();
+    expect(screen.getByText("sam@example.com")).toBeInTheDocument();
+    expect(screen.getByText((12000).toLocaleString())).toBeInTheDocument();
+    expect(screen.getByText("alex@example.com")).toBeInTheDocument();
+    expect(screen.getByText("Manage billing")).toBeInTheDocument();
+  });
+
+  it("warns admins when the team has more members than seats", async () => {
+    vi.mocked(apiFetch).mockResolvedValue({
+      ...mockOrg,
+      organization: { ...mockOrg.organization, seats: 1 },
+      invitations: [],
+    });
+    renderOrganization();
+
+    expect(await screen.findByText(/1 more member than\s+seats/)).toBeInTheDocument();
+  });
+
+  it("sends an invitation and shows its link", async () => {
+    vi.mocked(apiFetch).mockImplementation(async (url: string) => {
+      if (url === "/api/orgs/mine") return mockOrg;
+      return { invitation: { id: "inv-2", email: "kim@example.com", link: "http://localhost:5173/organization/join/xyz" } };
+    });
+    renderOrganization();
+
+    const input = await screen.findByLabelText("Email to invite");
+    await userEvent.type(input, "kim@example.com");
+    await userEvent.click(screen.getByText("Invite"));
+
+    expect(await screen.findByText(/organization\/join\/xyz/)).toBeInTheDocument();
+    expect(apiFetch).toHaveBeenCalledWith("/api/orgs/org-1/invitations", expect.objectContaining({
+      method: "POST",
+      body: JSON.stringify({ email: "kim@example.com" }),
+    }));
+  });
+
+  it("hides other members' usage and admin actions from plain members", async () => {
+    vi.mocked(apiFetch).mockResolvedValue({
+      ...mockOrg,
+      role: "member",
+      members: [
+        { ...mockOrg.members[0], userId: "user-2", email: "owner@example.com", tokensThisMonth: null },
+        { ...mockOrg.members[1], userId: "user-1", email: "test@example.com" },
+      ],
+      invitations: [],
+    });
+    renderOrganization();
+
+    expect(await screen.findByText("owner@example.com")).toBeInTheDocument();
+    expect(screen.getByText("—")).toBeInTheDocument();
+    expect(screen.getByText("Leave")).toBeInTheDocument();
+    expect(screen.queryByText("Invite")).not.toBeInTheDocument();
+    expect(screen.queryByText("Manage billing")).not.toBeInTheDocument();
+  });
+
+  it("accepts an invitation from a join link", async () => {
+    vi.mocked(apiFetch).mockResolvedValue({ organization: { id: "org-1", name: "Biology 101" } });
+    renderOrganization("/organization/join/abc");
+
+    await waitFor(() => {
+      expect(apiFetch).toHaveBeenCalledWith("/api/orgs/join/abc", { method: "POST" });
+      expect(mockNavigate).toHaveBeenCalledWith("/organization", { replace: true });
+    });
+  });
+});
@@ -0,0 +1,422 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
+import { apiFetch } from "../lib/api";
+import { useAuth } from "../hooks/useAuth";
+import { TokenUsageMeter } from "../components/UpgradePrompt";
+import { useSubscriptionContext } from "../contexts/SubscriptionContext";
+
+type OrgRole = "owner" | "admin" | "member";
+
+interface OrgMember {
+  userId: string;
+  email: string;
+  role: OrgRole;
+  joinedAt: string;
+  tokensThisMonth: number | null; // null: another member's usage, only shown to admins
+}
+
+interface OrgInvitation {
+  id: string;
+  email: string;
+  link: string;
+  expires_at: string;
+}
+
+interface OrgData {
+  organization: {
+    id: string;
+    name: string;
+    seats: number;
+    status: "active" | "inactive" | "past_due" | "cancelled";
+    currentPeriodEnd: string | null;
+    hasStripeCustomer: boolean;
+  };
+  role: OrgRole;
+  members: OrgMember[];
+  invitations: OrgInvitation[];
+  budget: { limit: number; used: number };
+}
+
+const ROLE_LABELS: Record<OrgRole, string> = {
+  owner: "Owner",
+  admin: "Admin",
+  member: "Member",
+};
+
+const STATUS_LABELS: Record<OrgData["organization"]["status"], string> = {
+  active: "Active",
+  inactive: "No subscription",
+  past_due: "Payment overdue",
+  cancelled: "Cancelled",
+};
+
+export default function Organization() {
+  const navigate = useNavigate();
+  const { token } = useParams<{ token?: string }>();
+  const [searchParams] = useSearchParams();
+  const { user } = useAuth();
+  const { refresh: refreshSubscription } = useSubscriptionContext();
+  const [data, setData] = useState<OrgData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [name, setName] = useState("");
+  const [seats, setSeats] = useState(5);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [lastInviteLink, setLastInviteLink] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const result = await apiFetch<OrgData | { organization: null }>("/api/orgs/mine");
+      setData(result.organization ? (result as OrgData) : null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load your team");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!token) {
+      load();
+      return;
+    }
+    // Accepting an invitation link, then showing the team that was joined
+    apiFetch(`/api/orgs/join/${token}`, { method: "POST" })
+      .then(async () => {
+        await refreshSubscription();
+        navigate("/organization", { replace: true });
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : "Failed to accept the invitation");
+        load();
+      });
+  }, [token, load, navigate, refreshSubscription]);
+
+  /** Run a change, then reload the team; errors are shown above the team. */
+  const run = async (change: () => Promise<unknown>) => {
+    setBusy(true);
+    setError("");
+    try {
+      await change();
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const createTeam = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(() =>
+      apiFetch("/api/orgs", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      })
+    );
+  };
+
+  const invite = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!data) return;
+    run(async () => {
+      const result = await apiFetch<{ invitation: OrgInvitation }>(
+        `/api/orgs/${data.organization.id}/invitations`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ email: inviteEmail }),
+        }
+      );
+      setLastInviteLink(result.invitation.link);
+      setInviteEmail("");
+    });
+  };
+
+  const revoke = (invitationId: string) => {
+    if (!data) return;
+    run(() =>
+      apiFetch(`/api/orgs/${data.organization.id}/invitations/${invitationId}`, { method: "DELETE" })
+    );
+  };
+
+  const setRole = (member: OrgMember, role: "admin" | "member") => {
+    if (!data) return;
+    run(() =>
+      apiFetch(`/api/orgs/${data.organization.id}/members/${member.userId}/role`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ role }),
+      })
+    );
+  };
+
+  const remove = (member: OrgMember) => {
+    if (!data) return;
+    const leaving = member.userId === user?.id;
+    const question = leaving
+      ? `Leave ${data.organization.name}? You'll go back to your own plan.`
+      : `Remove ${member.email} from ${data.organization.name}?`;
+    if (!window.confirm(question)) return;
+    run(async () => {
+      await apiFetch(`/api/orgs/${data.organization.id}/members/${member.userId}`, { method: "DELETE" });
+      if (leaving) await refreshSubscription();
+    });
+  };
+
+  /** Open Stripe: checkout for the first seats, the billing portal afterwards. */
+  const openBilling = async () => {
+    if (!data) return;
+    setBusy(true);
+    setError("");
+    try {
+      const checkout = data.organization.status !== "active" && data.organization.status !== "past_due";
+      const result = await apiFetch<{ url: string }>(
+        checkout ? "/api/payments/checkout" : "/api/payments/portal",
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(
+            checkout ? { organizationId: data.organization.id, seats } : { organizationId: data.organization.id }
+          ),
+        }
+      );
+      if (result.url) {
+        window.location.href = result.url;
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to open billing");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const isAdmin = data?.role === "owner" || data?.role === "admin";
+  const seatsTaken = data ? data.members.length + data.invitations.length : 0;
+  // Seats can be removed in the billing portal while every seat is taken
+  const membersOverSeats = data ? data.members.length - data.organization.seats : 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50/50">
+      <header className="glass-header sticky top-0 z-30 border-b border-gray-200/60 px-6 py-3">
+        <div className="mx-auto flex max-w-5xl items-center justify-between">
+          <button
+            onClick={() => navigate("/dashboard")}
+            className="text-xl font-extrabold tracking-tight text-indigo-600"
+          >
+            StudyFlow
+          </button>
+          <button
+            onClick={() => navigate("/dashboard")}
+            className="btn-press rounded-lg border border-gray-200 px-3 py-1.5 text-sm font-medium text-gray-600 hover:bg-gray-50 transition"
+          >
+            Back to Dashboard
+          </button>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-3xl px-6 py-10 space-y-6">
+        {searchParams.get("checkout") === "success" && (
+          <div className="rounded-xl bg-green-50 px-4 py-3 text-sm text-green-700 ring-1 ring-green-200">
+            Thanks! Your seats are being activated, which can take a few seconds.
+          </div>
+        )}
+
+        {error && (
+          <div className="rounded-xl bg-red-50 px-4 py-3 text-sm text-red-700 ring-1 ring-red-200 animate-fade-in-up">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-16">
+            <div className="h-8 w-8 animate-spin rounded-full border-4 border-indigo-500 border-t-transparent" />
+          </div>
+        ) : !data ? (
+          <section className="rounded-2xl bg-white p-8 shadow-sm ring-1 ring-gray-200">
+            <h1 className="text-2xl font-extrabold tracking-tight text-gray-900">Create a team</h1>
+            <p className="mt-2 text-sm text-gray-500">
+              One subscription for your study group or class. Everyone gets Pro
+              features and shares a monthly AI token budget that grows with the
+              number of seats.
+            </p>
+            <form onSubmit={createTeam} className="mt-6 flex gap-3">
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Team name, e.g. Biology study group"
+                aria-label="Team name"
+                className="flex-1 rounded-xl border border-gray-200 px-4 py-2.5 text-sm focus:border-indigo-400 focus:outline-none"
+              />
+              <button
+                type="submit"
+                disabled={busy || !name.trim()}
+                className="btn-press rounded-xl bg-indigo-600 px-5 py-2.5 text-sm font-semibold text-white hover:bg-indigo-700 disabled:opacity-50 transition"
+              >
+                Create team
+              </button>
+            </form>
+          </section>
+        ) : (
+          <>
+            <section className="rounded-2xl bg-white p-6 shadow-sm ring-1 ring-gray-200">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <h1 className="text-2xl font-extrabold tracking-tight text-gray-900">
+                    {data.organization.name}
+                  </h1>
+                  <p className="mt-1 text-sm text-gray-500">
+                    {STATUS_LABELS[data.organization.status]} &#183; {seatsTaken} of{" "}
+                    {data.organization.seats} seats taken
+                  </p>
+                </div>
+                {isAdmin && (
+                  <div className="flex items-center gap-2">
+                    {data.organization.status !== "active" && data.organization.status !== "past_due" && (
+                      <input
+                        type="number"
+                        min={1}
+                        value={seats}
+                        onChange={(e) => setSeats(Math.max(1, parseInt(e.target.value) || 1))}
+                        aria-label="Seats"
+                        className="w-20 rounded-xl border border-gray-200 px-3 py-2 text-sm"
+                      />
+                    )}
+                    <button
+                      onClick={openBilling}
+                      disabled={busy}
+                      className="btn-press rounded-xl bg-indigo-600 px-4 py-2 text-sm font-semibold text-white hover:bg-indigo-700 disabled:opacity-50 transition"
+                    >
+                      {data.organization.status === "active" || data.organization.status === "past_due"
+                        ? "Manage billing"
+                        : "Buy seats"}
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {isAdmin && membersOverSeats > 0 && (
+                <div className="mt-4 rounded-xl bg-amber-50 px-4 py-3 text-sm text-amber-800 ring-1 ring-amber-200">
+                  Your team has {membersOverSeats} more {membersOverSeats === 1 ? "member" : "members"} than
+                  seats. Nobody can join until you remove members or add seats under Manage billing.
+                </div>
+              )}
+
+              <div className="mt-5">
+                <p className="mb-2 text-sm font-medium text-gray-700">Shared AI tokens this month</p>
+                <TokenUsageMeter used={data.budget.used} max={data.budget.limit} />
+              </div>
+            </section>
+
+            <section className="rounded-2xl bg-white p-6 shadow-sm ring-1 ring-gray-200">
+              <h2 className="mb-4 text-lg font-bold text-gray-900">Members</h2>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-xs uppercase text-gray-400">
+                    <th className="py-2">Email</th>
+                    <th className="py-2">Role</th>
+                    <th className="py-2 text-right">Tokens this month</th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.members.map((member) => (
+                    <tr key={member.userId} className="border-b last:border-0">
+                      <td className="py-2.5 text-gray-700">{member.email}</td>
+                      <td className="py-2.5 text-gray-500">{ROLE_LABELS[member.role]}</td>
+                      <td className="py-2.5 text-right text-gray-500">
+                        {member.tokensThisMonth === null ? "—" : member.tokensThisMonth.toLocaleString()}
+                      </td>
+                      <td className="py-2.5 text-right">
+                        {member.role !== "owner" && (
+                          <span className="inline-flex gap-2">
+                            {isAdmin && member.userId !== user?.id && (
+                              <button
+                                onClick={() => setRole(member, member.role === "admin" ? "member" : "admin")}
+                                disabled={busy}
+                                className="text-xs font-medium text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+                              >
+                                {member.role === "admin" ? "Make member" : "Make admin"}
+                              </button>
+                            )}
+                            {(isAdmin || member.userId === user?.id) && (
+                              <button
+                                onClick={() => remove(member)}
+                                disabled={busy}
+                                className="text-xs font-medium text-red-600 hover:text-red-800 disabled:opacity-50"
+                              >
+                                {member.userId === user?.id ? "Leave" : "Remove"}
+                              </button>
+                            )}
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+
+            {isAdmin && (
+              <section className="rounded-2xl bg-white p-6 shadow-sm ring-1 ring-gray-200">
+                <h2 className="mb-1 text-lg font-bold text-gray-900">Invitations</h2>
+                <p className="mb-4 text-xs text-gray-400">
+                  Each invitation holds a seat until it's accepted or revoked.
+                  Send the link to the person you invited; it works for 7 days.
+                </p>
+                <form onSubmit={invite} className="flex gap-3">
+                  <input
+                    type="email"
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                    placeholder="classmate@example.com"
+                    aria-label="Email to invite"
+                    className="flex-1 rounded-xl border border-gray-200 px-4 py-2 text-sm focus:border-indigo-400 focus:outline-none"
+                  />
+                  <button
+                    type="submit"
+                    disabled={busy || !inviteEmail.trim()}
+                    className="btn-press rounded-xl bg-indigo-600 px-4 py-2 text-sm font-semibold text-white hover:bg-indigo-700 disabled:opacity-50 transition"
+                  >
+                    Invite
+                  </button>
+                </form>
+                {lastInviteLink && (
+                  <p className="mt-3 break-all rounded-lg bg-indigo-50 px-3 py-2 text-xs text-indigo-700">
+                    Invitation link: {lastInviteLink}
+                  </p>
+                )}
+                {data.invitations.length > 0 && (
+                  <ul className="mt-4 divide-y text-sm">
+                    {data.invitations.map((invitation) => (
+                      <li key={invitation.id} className="flex items-center justify-between py-2">
+                        <span className="text-gray-700">{invitation.email}</span>
+                        <span className="inline-flex items-center gap-3">
+                          <button
+                            onClick={() => navigator.clipboard?.writeText(invitation.link)}
+                            className="text-xs font-medium text-indigo-600 hover:text-indigo-800"
+                          >
+                            Copy link
+                          </button>
+                          <button
+                            onClick={() => revoke(invitation.id)}
+                            disabled={busy}
+                            className="text-xs font-medium text-red-600 hover:text-red-800 disabled:opacity-50"
+                          >
+                            Revoke
+                          </button>
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { MemoryRouter } from "react-router-dom";
+import Pricing from "./Pricing";
+import { apiFetch } from "../lib/api";
+
+function renderPricing() {
+  return render(
+    <MemoryRouter initialEntries={["/pricing"]}>
+      <Pricing />
+    </MemoryRouter>
+  );
+}
+
+const mockOptions = {
+  intervals: ["month", "year"],
+  prices: {
+    month: { amount: 999, currency: "usd" },
+    year: { amount: 9900, currency: "usd" },
+  },
+  trialDays: 14,
+  studentDiscount: null,
+  promotionCodes: true,
+};
+
+describe("Pricing", () => {
+  beforeEach(() => {
+    vi.mocked(apiFetch).mockReset();
+  });
+
+  it("offers a free trial with its end date", async () => {
+    vi.mocked(apiFetch).mockResolvedValue(mockOptions);
+    renderPricing();
+
+    expect(await screen.findByText("Start 14-day free trial")).toBeInTheDocument();
+    expect(screen.getByText("$9.99")).toBeInTheDocument();
+    expect(screen.getByText(/^Free until .*, then \$9\.99\/month\./)).toBeInTheDocument();
+    expect(screen.getByText(/promotion code/)).toBeInTheDocument();
+  });
+
+  it("checks out with yearly billing when selected", async () => {
+    vi.mocked(apiFetch).mockImplementation(async (url: string) => {
+      if (url === "/api/payments/checkout-options") return mockOptions;
+      return { url: "" };
+    });
+    renderPricing();
+
+    await userEvent.click(await screen.findByText("Yearly (save 17%)"));
+    expect(screen.getByText("$99")).toBeInTheDocument();
+    await userEvent.click(screen.getByText("Start 14-day free trial"));
+
+    await waitFor(() => {
+      expect(apiFetch).toHaveBeenCalledWith("/api/payments/checkout", expect.objectContaining({
+        method: "POST",
+        body: JSON.stringify({ interval: "year" }),
+      }));
+    });
+  });
+
+  it("shows no price when it can't be loaded", async () => {
+    vi.mocked(apiFetch).mockResolvedValue({ ...mockOptions, prices: { month: null, year: null } });
+    renderPricing();
+
+    expect(await screen.findByText("Yearly")).toBeInTheDocument();
+    expect(screen.queryByText("$9.99")).not.toBeInTheDocument();
+    expect(screen.getByText(/^Free until .*\. Cancel anytime before then\./)).toBeInTheDocument();
+  });
+
+  it("shows the student discount instead of promotion codes", async () => {
+    vi.mocked(apiFetch).mockResolvedValue({
+      intervals: ["month"],
+      prices: { month: { amount: 999, currency: "usd" }, year: null },
+      trialDays: 0,
+      studentDiscount: { percentOff: 30 },
+      promotionCodes: false,
+    });
+    renderPricing();
+
+    expect(await screen.findByText(/Student discount of 30% applied/)).toBeInTheDocument();
+    expect(screen.getByText("Upgrade to Pro")).toBeInTheDocument();
+    expect(screen.queryByText(/promotion code/)).not.toBeInTheDocument();
+    expect(screen.queryByText(/^Yearly/)).not.toBeInTheDocument();
+  });
+});
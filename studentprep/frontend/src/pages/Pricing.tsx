@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { apiFetch } from "../lib/api";
 import { useSubscriptionContext } from "../contexts/SubscriptionContext";
@@ -8,7 +8,10 @@ const FEATURES_FREE = [
   "Basic summaries (main topics only)",
   "3 exam questions per chapter",
   "5 Wikipedia lookups / day",
+  "Files up to 20 MB / 150 pages",
+  "Translations into Dutch, French and Spanish",
   "50K AI tokens / month",
+  "Claude Haiku for all AI features",
 ];
 
 const FEATURES_PRO = [
@@ -19,14 +22,73 @@ const FEATURES_PRO = [
   "Mini exams & quizzes",
   "Highlighted PDF export",
   "Unlimited Wikipedia lookups",
+  "Files up to 100 MB / 2,000 pages",
+  "Translations into all 6 languages",
   "Unlimited AI tokens",
+  "Claude Sonnet for summaries, questions and study plans",
 ];
 
+type BillingInterval = "month" | "year";
+
+/** A Stripe price, in the smallest unit of its currency (e.g. cents). */
+interface Price {
+  amount: number;
+  currency: string;
+}
+
+/** What a Pro checkout offers the user, from /api/payments/checkout-options. */
+interface CheckoutOptions {
+  intervals: BillingInterval[];
+  prices: Record<BillingInterval, Price | null>;
+  trialDays: number;
+  studentDiscount: { percentOff: number | null } | null;
+  promotionCodes: boolean;
+}
+
+/** A price as "$9.99", or "$99" for a whole amount. */
+function formatPrice({ amount, currency }: Price): string {
+  const digits = new Intl.NumberFormat(undefined, { style: "currency", currency }).resolvedOptions()
+    .maximumFractionDigits ?? 2;
+  const value = amount / 10 ** digits;
+  return new Intl.NumberFormat(undefined, {
+    style: "currency",
+    currency,
+    minimumFractionDigits: Number.isInteger(value) ? 0 : digits,
+  }).format(value);
+}
+
+/** How much yearly billing saves over twelve months of monthly billing, in percent. */
+function yearlySavings(prices: CheckoutOptions["prices"]): number | null {
+  const { month, year } = prices;
+  if (!month || !year || month.currency !== year.currency) return null;
+  const savings = Math.round((1 - year.amount / (12 * month.amount)) * 100);
+  return savings > 0 ? savings : null;
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString(undefined, { year: "numeric", month: "long", day: "numeric" });
+}
+
 export default function Pricing() {
   const navigate = useNavigate();
   const { subscription, isPro } = useSubscriptionContext();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
+  const [options, setOptions] = useState<CheckoutOptions | null>(null);
+  const [billingInterval, setBillingInterval] = useState<BillingInterval>("month");
+
+  // Pro users see their price too, so the options are loaded for everyone
+  useEffect(() => {
+    apiFetch<CheckoutOptions>("/api/payments/checkout-options")
+      .then(setOptions)
+      .catch(() => setOptions(null));
+  }, []);
+
+  const price = options?.prices[billingInterval];
+  const per = billingInterval === "month" ? "/month" : "/year";
+  const savings = options ? yearlySavings(options.prices) : null;
+  const trialDays = options?.trialDays ?? 0;
+  const trialEndsAt = new Date(Date.now() + trialDays * 24 * 60 * 60 * 1000);
 
   const handleCheckout = async () => {
     setLoading(true);
@@ -34,6 +96,8 @@ export default function Pricing() {
     try {
       const data = await apiFetch<{ url: string }>("/api/payments/checkout", {
         method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ interval: billingInterval }),
       });
       if (data.url) {
         window.location.href = data.url;
@@ -148,13 +212,43 @@ export default function Pricing() {
               <span className="inline-flex items-center gap-1 rounded-full bg-gradient-to-r from-amber-400 to-orange-500 px-3 py-1 text-xs font-bold text-white">
                 PRO
               </span>
-              <div className="mt-4">
-                <span className="text-4xl font-extrabold text-gray-900">$9.99</span>
-                <span className="text-gray-500 ml-1">/month</span>
-              </div>
+              {!isPro && options?.intervals.includes("year") && (
+                <div className="mt-4 inline-flex rounded-lg bg-gray-100 p-1" role="group" aria-label="Billing interval">
+                  {(["month", "year"] as const).map((option) => (
+                    <button
+                      key={option}
+                      onClick={() => setBillingInterval(option)}
+                      aria-pressed={billingInterval === option}
+                      className={`rounded-md px-3 py-1 text-xs font-semibold transition ${
+                        billingInterval === option ? "bg-white text-indigo-600 shadow-sm" : "text-gray-500 hover:text-gray-700"
+                      }`}
+                    >
+                      {option === "month" ? "Monthly" : savings ? `Yearly (save ${savings}%)` : "Yearly"}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {price && (
+                <div className="mt-4">
+                  <span className="text-4xl font-extrabold text-gray-900">{formatPrice(price)}</span>
+                  <span className="text-gray-500 ml-1">{per}</span>
+                </div>
+              )}
               <p className="mt-2 text-sm text-gray-500">
                 Everything you need to ace your exams
               </p>
+              {subscription?.status === "trialing" && subscription.trialEnd && (
+                <p className="mt-3 rounded-lg bg-indigo-50 px-3 py-2 text-sm text-indigo-700">
+                  Your free trial ends on {formatDate(new Date(subscription.trialEnd))}.
+                </p>
+              )}
+              {!isPro && options?.studentDiscount && (
+                <p className="mt-3 rounded-lg bg-green-50 px-3 py-2 text-sm text-green-700">
+                  Student discount
+                  {options.studentDiscount.percentOff ? ` of ${options.studentDiscount.percentOff}%` : ""} applied
+                  at checkout for your school email address.
+                </p>
+              )}
             </div>
 
             <ul className="space-y-3 mb-8">
@@ -194,13 +288,39 @@ export default function Pricing() {
                     <span className="h-4 w-4 animate-spin rounded-full border-2 border-white border-t-transparent" />
                     Redirecting to checkout...
                   </span>
+                ) : trialDays > 0 ? (
+                  `Start ${trialDays}-day free trial`
                 ) : (
                   "Upgrade to Pro"
                 )}
               </button>
             )}
+            {!isPro && trialDays > 0 && (
+              <p className="mt-3 text-center text-xs text-gray-500">
+                Free until {formatDate(trialEndsAt)}
+                {price && `, then ${formatPrice(price)}${per}`}. Cancel anytime before then.
+              </p>
+            )}
+            {!isPro && options?.promotionCodes && (
+              <p className="mt-2 text-center text-xs text-gray-400">
+                Have a promotion code? You can enter it at checkout.
+              </p>
+            )}
           </div>
         </div>
+
+        <div className="mt-8 rounded-2xl bg-white p-6 text-center shadow-sm ring-1 ring-gray-200">
+          <p className="text-sm text-gray-600">
+            Studying as a group or a class? The Team plan gives everyone Pro
+            features and a shared AI token budget, billed per seat.
+          </p>
+          <button
+            onClick={() => navigate("/organization")}
+            className="btn-press mt-3 rounded-xl border border-indigo-200 px-4 py-2 text-sm font-semibold text-indigo-700 hover:bg-indigo-50 transition"
+          >
+            {subscription?.plan === "team" ? "Go to your team" : "Set up a team"}
+          </button>
+        </div>
       </main>
     </div>
   );
@@ -3,7 +3,8 @@ import userEvent from "@testing-library/user-event";
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { MemoryRouter, Route, Routes } from "react-router-dom";
 import Quiz from "./Quiz";
-import { apiFetch } from "../lib/api";
+import { apiFetch, UpgradeRequiredError } from "../lib/api";
+import { SubscriptionProvider } from "../contexts/SubscriptionContext";
 
 const mockNavigate = vi.fn();
 vi.mock("react-router-dom", async () => {
@@ -192,6 +193,65 @@ describe("Quiz", () => {
     expect(screen.getByText("2 of 2 correct")).toBeInTheDocument();
   });
 
+  it("shows the upgrade prompt when the result can't be saved", async () => {
+    vi.mocked(apiFetch)
+      .mockResolvedValueOnce(mockQuizData)
+      .mockRejectedValueOnce(
+        new UpgradeRequiredError("Saving and grading quizzes is a Pro feature.", "quizGrading")
+      );
+
+    const user = userEvent.setup();
+    renderQuiz();
+
+    await screen.findByText("What is photosynthesis?");
+    await user.click(screen.getByText("Show answer"));
+    await user.click(screen.getByText("Correct"));
+
+    await screen.findByText("Define mitosis.");
+    await user.click(screen.getByText("Show answer"));
+    await user.click(screen.getByText("Incorrect"));
+
+    expect(await screen.findByText("Quiz Complete!")).toBeInTheDocument();
+    expect(screen.getByText("50%")).toBeInTheDocument();
+    expect(
+      screen.getByText("Saving and grading quizzes is a Pro feature.")
+    ).toBeInTheDocument();
+  });
+
+  it("scores the quiz locally without submitting on the Free plan", async () => {
+    vi.mocked(apiFetch).mockImplementation(async (url: string) => {
+      if (url === "/api/payments/status") {
+        return { plan: "free", status: "active", limits: { quizGrading: false } };
+      }
+      if (url === "/api/quiz/generate") return mockQuizData;
+      return {};
+    });
+
+    const user = userEvent.setup();
+    render(
+      <SubscriptionProvider>
+        <MemoryRouter initialEntries={["/quiz/course-1?chapters=ch1,ch2"]}>
+          <Routes>
+            <Route path="/quiz/:courseId" element={<Quiz />} />
+          </Routes>
+        </MemoryRouter>
+      </SubscriptionProvider>
+    );
+
+    await screen.findByText("What is photosynthesis?");
+    await user.click(screen.getByText("Show answer"));
+    await user.click(screen.getByText("Correct"));
+
+    await screen.findByText("Define mitosis.");
+    await user.click(screen.getByText("Show answer"));
+    await user.click(screen.getByText("Correct"));
+
+    expect(await screen.findByText("Quiz Complete!")).toBeInTheDocument();
+    expect(screen.getByText("100%")).toBeInTheDocument();
+    expect(screen.getByText(/isn't saved on the Free plan/)).toBeInTheDocument();
+    expect(apiFetch).not.toHaveBeenCalledWith("/api/quiz/submit", expect.anything());
+  });
+
   it("shows Back to course and Take another quiz buttons on results", async () => {
     vi.mocked(apiFetch)
       .mockResolvedValueOnce(mockQuizData)
@@ -1,6 +1,8 @@
 import { useEffect, useState } from "react";
 import { useParams, useNavigate, useSearchParams } from "react-router-dom";
-import { apiFetch } from "../lib/api";
+import { apiFetch, UpgradeRequiredError } from "../lib/api";
+import { UpgradePrompt } from "../components/UpgradePrompt";
+import { useSubscriptionContext } from "../contexts/SubscriptionContext";
 
 interface QuizQuestion {
   id: string;
@@ -21,6 +23,7 @@ export default function Quiz() {
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
   const chapters = searchParams.get("chapters");
+  const { hasEntitlement } = useSubscriptionContext();
 
   const [questions, setQuestions] = useState<QuizQuestion[]>([]);
   const [sessionId, setSessionId] = useState("");
@@ -32,6 +35,8 @@ export default function Quiz() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
   const [score, setScore] = useState<number | null>(null);
+  // Set when the result couldn't be saved because grading is a Pro feature
+  const [upgradeError, setUpgradeError] = useState<string | null>(null);
   const [generating, setGenerating] = useState(false);
   const [generateError, setGenerateError] = useState("");
 
@@ -106,6 +111,16 @@ export default function Quiz() {
       setUserAnswer("");
       setShowAnswer(false);
     } else {
+      const correctCount = newAnswers.filter((a) => a.correct).length;
+      const localScore = Math.round((correctCount / newAnswers.length) * 100);
+
+      // Free plans can't save results; score the quiz here instead of submitting it
+      if (!hasEntitlement("quizGrading")) {
+        setUpgradeError("Your result isn't saved on the Free plan. Upgrade to Pro to track your quiz results.");
+        setScore(localScore);
+        return;
+      }
+
       // Submit quiz
       try {
         const result = await apiFetch<{ score: number }>("/api/quiz/submit", {
@@ -121,10 +136,12 @@ export default function Quiz() {
           }),
         });
         setScore(result.score);
-      } catch {
+      } catch (err) {
+        if (err instanceof UpgradeRequiredError) {
+          setUpgradeError(err.message);
+        }
         // Calculate locally if submit fails
-        const correctCount = newAnswers.filter((a) => a.correct).length;
-        setScore(Math.round((correctCount / newAnswers.length) * 100));
+        setScore(localScore);
       }
     }
   };
@@ -225,6 +242,11 @@ export default function Quiz() {
               Included spaced repetition questions
             </p>
           )}
+          {upgradeError && (
+            <div className="mb-4 text-left">
+              <UpgradePrompt description={upgradeError} compact />
+            </div>
+          )}
           <div className="flex justify-center gap-3">
             <button
               onClick={() => navigate(`/course/${courseId}`)}
@@ -1,5 +1,5 @@
 import { useCallback, useEffect, useState } from "react";
-import { useParams, useNavigate } from "react-router-dom";
+import { useParams, useNavigate, useSearchParams } from "react-router-dom";
 import { apiFetch, UpgradeRequiredError } from "../lib/api";
 import { UpgradePrompt } from "../components/UpgradePrompt";
 import { useSubscriptionContext } from "../contexts/SubscriptionContext";
@@ -27,13 +27,16 @@ const DAY_TYPE_STYLES: Record<string, { bg: string; text: string; ring: string;
 export default function StudyPlan() {
   const { courseId } = useParams<{ courseId: string }>();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  // Set when planning for one part or section of the course (from the chapter tree)
+  const scopeChapterIds = searchParams.get("chapters")?.split(",").filter(Boolean) ?? [];
   const { refresh: refreshSubscription } = useSubscriptionContext();
   const [plans, setPlans] = useState<StudyPlan[]>([]);
   const [activeIdx, setActiveIdx] = useState(0);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
   const [upgradeError, setUpgradeError] = useState<string | null>(null);
-  const [showForm, setShowForm] = useState(false);
+  const [showForm, setShowForm] = useState(scopeChapterIds.length > 0);
   const [examDate, setExamDate] = useState("");
   const [hoursPerDay, setHoursPerDay] = useState(3);
   const [generating, setGenerating] = useState(false);
@@ -69,6 +72,7 @@ export default function StudyPlan() {
           courseId,
           examDate,
           hoursPerDay,
+          ...(scopeChapterIds.length > 0 ? { chapterIds: scopeChapterIds } : {}),
         }),
       });
       setShowForm(false);
@@ -182,7 +186,11 @@ export default function StudyPlan() {
             onSubmit={createPlan}
             className="mb-8 rounded-2xl bg-white p-6 shadow-sm ring-1 ring-gray-100 animate-fade-in-up"
           >
-            <h3 className="mb-4 font-semibold">Generate a new study schedule</h3>
+            <h3 className="mb-4 font-semibold">
+              {scopeChapterIds.length > 0
+                ? "Generate a study schedule for the selected chapter"
+                : "Generate a new study schedule"}
+            </h3>
             <div className="grid gap-4 sm:grid-cols-2">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -31,8 +31,14 @@ vi.mock("../lib/supabase", () => {
   };
 });
 
-// Mock the API module
-vi.mock("../lib/api", () => ({
-  apiFetch: vi.fn(),
-  apiUpload: vi.fn(),
-}));
+// Mock the API module; the error classes stay real so pages can tell them apart
+vi.mock("../lib/api", async () => {
+  const actual = await vi.importActual<typeof import("../lib/api")>("../lib/api");
+  return {
+    UpgradeRequiredError: actual.UpgradeRequiredError,
+    AIServiceError: actual.AIServiceError,
+    apiFetch: vi.fn(),
+    apiUpload: vi.fn(),
+    apiStream: vi.fn(),
+  };
+});
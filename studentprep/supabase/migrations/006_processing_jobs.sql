@@ -0,0 +1,92 @@
+-- Durable processing job queue
+-- Course processing used to run as a fire-and-forget promise with progress and
+-- cancellation held in memory. Jobs are now persisted here and claimed by a
+-- worker loop using a lease, so a crash or deploy no longer leaves courses stuck
+-- in 'processing' and every API machine sees the same progress.
+
+CREATE TABLE processing_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    course_id UUID REFERENCES courses(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    type TEXT NOT NULL DEFAULT 'process_course',
+    status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'done', 'error', 'cancelled')),
+    payload JSONB NOT NULL DEFAULT '{}',
+    progress JSONB,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 3,
+    run_after TIMESTAMPTZ NOT NULL DEFAULT now(),
+    locked_by TEXT,           -- worker id holding the lease
+    locked_until TIMESTAMPTZ, -- lease expiry; an expired lease means the worker died
+    last_error TEXT,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    updated_at TIMESTAMPTZ DEFAULT now(),
+    finished_at TIMESTAMPTZ
+);
+
+-- Index for the claim query (oldest runnable job first)
+CREATE INDEX idx_processing_jobs_claim
+    ON processing_jobs (status, run_after);
+
+-- Index for "latest job for this course" lookups (progress / cancel)
+CREATE INDEX idx_processing_jobs_course
+    ON processing_jobs (course_id, created_at DESC);
+
+-- At most one active job per course
+CREATE UNIQUE INDEX idx_processing_jobs_active_course
+    ON processing_jobs (course_id)
+    WHERE status IN ('queued', 'running');
+
+ALTER TABLE processing_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Users can read their own jobs (the backend uses the service role for writes)
+CREATE POLICY "users_own_processing_jobs" ON processing_jobs
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- Atomically claim the oldest runnable job for a worker.
+-- SKIP LOCKED lets several API machines poll concurrently without handing
+-- the same job to two workers.
+CREATE OR REPLACE FUNCTION claim_processing_job(p_worker_id TEXT, p_lease_seconds INTEGER)
+RETURNS SETOF processing_jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE processing_jobs
+    SET status = 'running',
+        locked_by = p_worker_id,
+        locked_until = now() + make_interval(secs => p_lease_seconds),
+        attempts = attempts + 1,
+        updated_at = now()
+    WHERE id = (
+        SELECT id FROM processing_jobs
+        WHERE status = 'queued' AND run_after <= now()
+        ORDER BY run_after
+        FOR UPDATE SKIP LOCKED
+        LIMIT 1
+    )
+    RETURNING *;
+END;
+$$;
+
+-- Requeue (or fail, when out of attempts) running jobs whose lease expired.
+-- Returns the number of jobs that were recovered.
+CREATE OR REPLACE FUNCTION recover_orphaned_processing_jobs()
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    recovered INTEGER;
+BEGIN
+    UPDATE processing_jobs
+    SET status = CASE WHEN attempts >= max_attempts THEN 'error' ELSE 'queued' END,
+        last_error = COALESCE(last_error, 'Worker lease expired'),
+        finished_at = CASE WHEN attempts >= max_attempts THEN now() ELSE NULL END,
+        locked_by = NULL,
+        locked_until = NULL,
+        updated_at = now()
+    WHERE status = 'running' AND locked_until < now();
+
+    GET DIAGNOSTICS recovered = ROW_COUNT;
+    RETURN recovered;
+END;
+$$;
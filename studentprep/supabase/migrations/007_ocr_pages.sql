@@ -0,0 +1,12 @@
+-- OCR fallback for scanned PDFs
+-- Pages without a usable text layer are run through OCR during processing.
+-- Record which pages that was, so the UI can flag chapters whose text may
+-- contain recognition errors.
+
+ALTER TABLE courses ADD COLUMN page_count INTEGER;
+ALTER TABLE courses ADD COLUMN ocr_pages INTEGER[] NOT NULL DEFAULT '{}';
+
+-- OCR'd pages that fall inside the chapter, and the lowest tesseract
+-- confidence (0–100) among them; NULL when the chapter has no OCR'd pages
+ALTER TABLE chapters ADD COLUMN ocr_pages INTEGER[] NOT NULL DEFAULT '{}';
+ALTER TABLE chapters ADD COLUMN ocr_confidence REAL;
@@ -0,0 +1,7 @@
+-- Page ranges for chapters
+-- Extraction now keeps page boundaries, so each chapter records the pages of
+-- the source PDF it spans (1-based, inclusive). NULL for chapters processed
+-- before this migration.
+
+ALTER TABLE chapters ADD COLUMN start_page INTEGER;
+ALTER TABLE chapters ADD COLUMN end_page INTEGER;
@@ -0,0 +1,6 @@
+-- Non-PDF uploads
+-- Courses can now be created from DOCX, PPTX, Markdown and plain-text files.
+-- The MIME type picks the text extractor during processing; existing rows are PDFs.
+-- The storage bucket keeps its 'course-pdfs' name.
+
+ALTER TABLE courses ADD COLUMN mime_type TEXT NOT NULL DEFAULT 'application/pdf';
@@ -0,0 +1,9 @@
+-- Chapter hierarchy
+-- Chapters form a tree: parts → chapters → sections. depth is 0 for top-level
+-- entries; parent_id points at the enclosing chapter. Existing chapters stay
+-- top-level. sort_order remains the reading order across the whole course.
+
+ALTER TABLE chapters ADD COLUMN parent_id UUID REFERENCES chapters(id) ON DELETE CASCADE;
+ALTER TABLE chapters ADD COLUMN depth INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX idx_chapters_parent_id ON chapters(parent_id);
@@ -0,0 +1,9 @@
+-- Content hashes for incremental re-processing
+-- Re-detecting chapters matches new chapters to stored ones by a SHA-256 of
+-- their whitespace-normalized text, so unchanged chapters keep their
+-- summaries, questions and quiz history. NULL for chapters saved before this
+-- migration; the processor hashes their raw_text when it needs to.
+
+ALTER TABLE chapters ADD COLUMN content_hash TEXT;
+
+CREATE INDEX idx_chapters_course_content_hash ON chapters(course_id, content_hash);
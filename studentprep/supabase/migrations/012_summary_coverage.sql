@@ -0,0 +1,7 @@
+-- Summary coverage
+-- Long chapters are summarized in chunks. summary_coverage records the
+-- fraction (0–1) of the chapter text the summary was built from; below 1 when
+-- the chapter was longer than the summarizer's chunk limit. NULL when there is
+-- no summary or it predates this migration.
+
+ALTER TABLE chapters ADD COLUMN summary_coverage REAL;
@@ -0,0 +1,7 @@
+-- Page offsets within chapter text
+-- Summary topics link back to the passage they came from as a character range
+-- of raw_text. page_offsets lists where each page after start_page begins in
+-- raw_text, so those ranges can also be shown as page numbers. NULL for
+-- single-unit uploads and chapters saved before this migration.
+
+ALTER TABLE chapters ADD COLUMN page_offsets INTEGER[];
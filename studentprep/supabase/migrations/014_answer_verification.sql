@@ -0,0 +1,9 @@
+-- Answer verification
+-- Model answers of exam questions are checked against the chapter text after
+-- generation. answer_confidence (0–1) is how well the text supports the
+-- answer; answer_issue names what it doesn't support. NULL when the answer
+-- wasn't checked. Summary topics and key terms carry the same fields inside
+-- the summary_main / summary_side JSON.
+
+ALTER TABLE questions ADD COLUMN answer_confidence REAL;
+ALTER TABLE questions ADD COLUMN answer_issue TEXT;
@@ -0,0 +1,13 @@
+-- Prompt cache usage
+-- Chapter text and system prompts are cached between model calls. Cached
+-- tokens are billed differently from input_tokens (which no longer includes
+-- them): writing to the cache costs 1.25x the input price, reading 0.1x.
+-- total_tokens, which monthly budgets are counted in, includes cache writes
+-- but not cache reads, so the savings reach students' budgets too.
+
+ALTER TABLE token_usage ADD COLUMN cache_write_tokens INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE token_usage ADD COLUMN cache_read_tokens INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE token_usage DROP COLUMN total_tokens;
+ALTER TABLE token_usage ADD COLUMN total_tokens INTEGER
+    GENERATED ALWAYS AS (input_tokens + cache_write_tokens + output_tokens) STORED;
@@ -0,0 +1,6 @@
+-- Batch usage
+-- "Summarize everything" sends all chapters through the Message Batches API,
+-- which bills tokens at half price. Usage rows from a batch are flagged so
+-- cost estimates apply the discount. Budgets still count the full tokens.
+
+ALTER TABLE token_usage ADD COLUMN batch BOOLEAN NOT NULL DEFAULT false;
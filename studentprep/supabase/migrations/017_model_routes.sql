@@ -0,0 +1,19 @@
+-- Model routing
+-- Admins choose the model, max_tokens and temperature per AI feature
+-- (summaries, questions, translation, ...). A row for plan 'all' applies to
+-- everyone; a row for 'free' or 'pro' overrides it for that tier. Features
+-- without a row use the defaults in backend/src/config/modelRoutes.ts.
+
+CREATE TABLE model_routes (
+    feature TEXT NOT NULL,
+    plan TEXT NOT NULL DEFAULT 'all' CHECK (plan IN ('all', 'free', 'pro')),
+    model TEXT NOT NULL,
+    max_tokens INTEGER NOT NULL CHECK (max_tokens > 0),
+    temperature REAL CHECK (temperature >= 0 AND temperature <= 1),
+    updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    updated_at TIMESTAMPTZ DEFAULT now(),
+    PRIMARY KEY (feature, plan)
+);
+
+-- Only the backend (service role) reads and writes routes
+ALTER TABLE model_routes ENABLE ROW LEVEL SECURITY;
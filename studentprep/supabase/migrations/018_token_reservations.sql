@@ -0,0 +1,74 @@
+-- Token reservations
+-- Before an AI call the backend estimates its tokens and reserves them from
+-- the user's monthly budget; afterwards the actual usage is recorded in
+-- token_usage and the reservation removed. Reservations count against the
+-- budget like usage does, so concurrent requests can't overshoot it.
+-- Reservations of a crashed server expire on their own.
+
+CREATE TABLE token_reservations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    tokens INTEGER NOT NULL CHECK (tokens >= 0),
+    endpoint TEXT NOT NULL,
+    period_year INTEGER NOT NULL,
+    period_month INTEGER NOT NULL,
+    expires_at TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX idx_token_reservations_user_period
+    ON token_reservations (user_id, period_year, period_month);
+
+-- Only the backend (service role) reads and writes reservations
+ALTER TABLE token_reservations ENABLE ROW LEVEL SECURITY;
+
+-- Reserve p_tokens for a user if their usage plus active reservations plus
+-- p_tokens stays within p_limit. Requests of one user are serialized with an
+-- advisory lock, so two of them can't both take the last of the budget.
+-- Returns the reservation id, or NULL when the budget doesn't allow it.
+CREATE OR REPLACE FUNCTION reserve_tokens(
+    p_user_id UUID,
+    p_tokens INTEGER,
+    p_limit INTEGER,
+    p_endpoint TEXT,
+    p_period_year INTEGER,
+    p_period_month INTEGER,
+    p_ttl_seconds INTEGER
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    used BIGINT;
+    reserved BIGINT;
+    reservation_id UUID;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('token_budget:' || p_user_id::text));
+
+    DELETE FROM token_reservations
+    WHERE user_id = p_user_id AND expires_at <= now();
+
+    SELECT COALESCE(SUM(total_tokens), 0) INTO used
+    FROM token_usage
+    WHERE user_id = p_user_id
+      AND period_year = p_period_year
+      AND period_month = p_period_month;
+
+    SELECT COALESCE(SUM(tokens), 0) INTO reserved
+    FROM token_reservations
+    WHERE user_id = p_user_id
+      AND period_year = p_period_year
+      AND period_month = p_period_month;
+
+    IF used + reserved + p_tokens > p_limit THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO token_reservations (user_id, tokens, endpoint, period_year, period_month, expires_at)
+    VALUES (p_user_id, p_tokens, p_endpoint, p_period_year, p_period_month,
+            now() + make_interval(secs => p_ttl_seconds))
+    RETURNING id INTO reservation_id;
+
+    RETURN reservation_id;
+END;
+$$;
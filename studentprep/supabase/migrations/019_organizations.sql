@@ -0,0 +1,107 @@
+-- Organizations (team / classroom plan)
+-- One subscription for a group: the organization pays per seat, members join
+-- by invitation and share a pooled monthly token budget of seats × the team
+-- plan's per-seat tokens. A user belongs to at most one organization.
+
+CREATE TABLE organizations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+    owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+    seats INTEGER NOT NULL DEFAULT 1 CHECK (seats > 0),
+    stripe_customer_id TEXT UNIQUE,
+    stripe_subscription_id TEXT UNIQUE,
+    status TEXT DEFAULT 'inactive' CHECK (status IN ('active', 'inactive', 'past_due', 'cancelled')),
+    current_period_end TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE TABLE organization_members (
+    org_id UUID REFERENCES organizations(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL UNIQUE,
+    role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member')),
+    joined_at TIMESTAMPTZ DEFAULT now(),
+    PRIMARY KEY (org_id, user_id)
+);
+
+CREATE TABLE organization_invitations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    org_id UUID REFERENCES organizations(id) ON DELETE CASCADE NOT NULL,
+    email TEXT NOT NULL,
+    token TEXT NOT NULL UNIQUE,
+    invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    expires_at TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    UNIQUE (org_id, email)
+);
+
+-- Only the backend (service role) reads and writes organizations
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Reservations of organization members count against the pooled budget:
+-- with p_org_id set, the lock, the usage and the reservations are those of
+-- all members of the organization instead of the user's own.
+DROP FUNCTION reserve_tokens(UUID, INTEGER, INTEGER, TEXT, INTEGER, INTEGER, INTEGER);
+
+CREATE FUNCTION reserve_tokens(
+    p_user_id UUID,
+    p_tokens INTEGER,
+    p_limit BIGINT,
+    p_endpoint TEXT,
+    p_period_year INTEGER,
+    p_period_month INTEGER,
+    p_ttl_seconds INTEGER,
+    p_org_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    budget_users UUID[];
+    used BIGINT;
+    reserved BIGINT;
+    reservation_id UUID;
+BEGIN
+    IF p_org_id IS NULL THEN
+        PERFORM pg_advisory_xact_lock(hashtext('token_budget:' || p_user_id::text));
+        budget_users := ARRAY[p_user_id];
+    ELSE
+        PERFORM pg_advisory_xact_lock(hashtext('token_budget:org:' || p_org_id::text));
+        SELECT array_agg(user_id) INTO budget_users
+        FROM organization_members
+        WHERE org_id = p_org_id;
+    END IF;
+
+    DELETE FROM token_reservations
+    WHERE user_id = ANY(budget_users) AND expires_at <= now();
+
+    SELECT COALESCE(SUM(total_tokens), 0) INTO used
+    FROM token_usage
+    WHERE user_id = ANY(budget_users)
+      AND period_year = p_period_year
+      AND period_month = p_period_month;
+
+    SELECT COALESCE(SUM(tokens), 0) INTO reserved
+    FROM token_reservations
+    WHERE user_id = ANY(budget_users)
+      AND period_year = p_period_year
+      AND period_month = p_period_month;
+
+    IF used + reserved + p_tokens > p_limit THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO token_reservations (user_id, tokens, endpoint, period_year, period_month, expires_at)
+    VALUES (p_user_id, p_tokens, p_endpoint, p_period_year, p_period_month,
+            now() + make_interval(secs => p_ttl_seconds))
+    RETURNING id INTO reservation_id;
+
+    RETURN reservation_id;
+END;
+$$;
+
+-- Model routes can be overridden for the team plan too
+ALTER TABLE model_routes DROP CONSTRAINT model_routes_plan_check;
+ALTER TABLE model_routes ADD CONSTRAINT model_routes_plan_check
+    CHECK (plan IN ('all', 'free', 'pro', 'team'));
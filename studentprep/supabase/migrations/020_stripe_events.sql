@@ -0,0 +1,31 @@
+-- Stripe webhook event log
+-- Every event Stripe delivers is stored with its processing result, so a
+-- retried delivery of an event that was already handled is skipped, and
+-- failed events can be inspected and replayed by an admin.
+-- Subscriptions and organizations remember the creation time of the last
+-- event applied to them; an older event arriving late no longer overwrites
+-- a newer state (e.g. downgrading a user who just paid).
+
+CREATE TABLE stripe_events (
+    id TEXT PRIMARY KEY, -- Stripe's event id (evt_...)
+    type TEXT NOT NULL,
+    customer_id TEXT,
+    event_created TIMESTAMPTZ NOT NULL,
+    payload JSONB NOT NULL,
+    status TEXT NOT NULL DEFAULT 'processing'
+        CHECK (status IN ('processing', 'processed', 'skipped', 'failed')),
+    error TEXT,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    received_at TIMESTAMPTZ DEFAULT now(),
+    last_attempt_at TIMESTAMPTZ DEFAULT now(),
+    processed_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_stripe_events_status ON stripe_events (status, received_at DESC);
+CREATE INDEX idx_stripe_events_customer ON stripe_events (customer_id, event_created);
+
+-- Only the backend (service role) reads and writes the event log
+ALTER TABLE stripe_events ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE subscriptions ADD COLUMN stripe_event_created TIMESTAMPTZ;
+ALTER TABLE organizations ADD COLUMN stripe_event_created TIMESTAMPTZ;
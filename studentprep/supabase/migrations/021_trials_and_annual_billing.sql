@@ -0,0 +1,12 @@
+-- Trials and annual billing
+-- A Pro subscription can start with a free trial: a trialing subscription
+-- has Pro features like an active one, until trial_end. Subscriptions are
+-- billed monthly or yearly.
+
+ALTER TABLE subscriptions DROP CONSTRAINT subscriptions_status_check;
+ALTER TABLE subscriptions ADD CONSTRAINT subscriptions_status_check
+    CHECK (status IN ('active', 'trialing', 'inactive', 'past_due', 'cancelled'));
+
+ALTER TABLE subscriptions ADD COLUMN trial_end TIMESTAMPTZ;
+ALTER TABLE subscriptions ADD COLUMN billing_interval TEXT
+    CHECK (billing_interval IN ('month', 'year'));
@@ -0,0 +1,101 @@
+-- Organization usage
+-- Usage and reservations of organization members are attributed to the
+-- organization when they're recorded, and the pooled budget sums them by
+-- org_id. Usage then stays with the organization when a member leaves or is
+-- removed, so removing and re-inviting someone doesn't reset the budget.
+
+ALTER TABLE token_usage ADD COLUMN org_id UUID REFERENCES organizations(id) ON DELETE SET NULL;
+ALTER TABLE token_reservations ADD COLUMN org_id UUID REFERENCES organizations(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_token_usage_org_period
+    ON token_usage (org_id, period_year, period_month)
+    WHERE org_id IS NOT NULL;
+
+CREATE INDEX idx_token_reservations_org_period
+    ON token_reservations (org_id, period_year, period_month)
+    WHERE org_id IS NOT NULL;
+
+-- Attribute what current members used since they joined
+UPDATE token_usage u
+SET org_id = m.org_id
+FROM organization_members m
+WHERE u.user_id = m.user_id
+  AND u.created_at >= m.joined_at;
+
+UPDATE token_reservations r
+SET org_id = m.org_id
+FROM organization_members m
+WHERE r.user_id = m.user_id;
+
+-- With p_org_id set, the usage and reservations are those attributed to the
+-- organization, and the new reservation is attributed to it too. Without it,
+-- only the user's own usage counts: what they used as a member stays with
+-- the organization after they leave it or it lapses.
+CREATE OR REPLACE FUNCTION reserve_tokens(
+    p_user_id UUID,
+    p_tokens INTEGER,
+    p_limit BIGINT,
+    p_endpoint TEXT,
+    p_period_year INTEGER,
+    p_period_month INTEGER,
+    p_ttl_seconds INTEGER,
+    p_org_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    used BIGINT;
+    reserved BIGINT;
+    reservation_id UUID;
+BEGIN
+    IF p_org_id IS NULL THEN
+        PERFORM pg_advisory_xact_lock(hashtext('token_budget:' || p_user_id::text));
+
+        DELETE FROM token_reservations
+        WHERE user_id = p_user_id AND expires_at <= now();
+
+        SELECT COALESCE(SUM(total_tokens), 0) INTO used
+        FROM token_usage
+        WHERE user_id = p_user_id
+          AND org_id IS NULL
+          AND period_year = p_period_year
+          AND period_month = p_period_month;
+
+        SELECT COALESCE(SUM(tokens), 0) INTO reserved
+        FROM token_reservations
+        WHERE user_id = p_user_id
+          AND org_id IS NULL
+          AND period_year = p_period_year
+          AND period_month = p_period_month;
+    ELSE
+        PERFORM pg_advisory_xact_lock(hashtext('token_budget:org:' || p_org_id::text));
+
+        DELETE FROM token_reservations
+        WHERE org_id = p_org_id AND expires_at <= now();
+
+        SELECT COALESCE(SUM(total_tokens), 0) INTO used
+        FROM token_usage
+        WHERE org_id = p_org_id
+          AND period_year = p_period_year
+          AND period_month = p_period_month;
+
+        SELECT COALESCE(SUM(tokens), 0) INTO reserved
+        FROM token_reservations
+        WHERE org_id = p_org_id
+          AND period_year = p_period_year
+          AND period_month = p_period_month;
+    END IF;
+
+    IF used + reserved + p_tokens > p_limit THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO token_reservations (user_id, org_id, tokens, endpoint, period_year, period_month, expires_at)
+    VALUES (p_user_id, p_org_id, p_tokens, p_endpoint, p_period_year, p_period_month,
+            now() + make_interval(secs => p_ttl_seconds))
+    RETURNING id INTO reservation_id;
+
+    RETURN reservation_id;
+END;
+$$;
@@ -0,0 +1,8 @@
+-- Questions coverage
+-- Long chapters get their questions chunk by chunk, like their summaries.
+-- questions_coverage records the fraction (0–1) of the chapter text the
+-- questions were written from; below 1 when the chapter was longer than the
+-- chunk limit. NULL when there are no questions or they predate this
+-- migration.
+
+ALTER TABLE chapters ADD COLUMN questions_coverage REAL;